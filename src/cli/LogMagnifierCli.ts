@@ -0,0 +1,325 @@
+#!/usr/bin/env node
+import * as fs from 'fs';
+import * as path from 'path';
+import { FilterGroup } from '../models/Filter';
+import { WorkflowPackage } from '../models/Workflow';
+import { LogFilterCore } from '../services/LogFilterCore';
+import { LogProcessorCore } from '../services/LogProcessorCore';
+import { WorkflowCore } from '../services/WorkflowCore';
+import { ProfileLayerCore } from '../services/ProfileLayerCore';
+import { RecordStartPreset, RecordUtils } from '../utils/RecordUtils';
+import { RepeatCollapseMode } from '../utils/LogTemplateUtils';
+import { OutputEncoding } from '../utils/EncodingUtils';
+import { RegexUtils } from '../utils/RegexUtils';
+
+export interface CliOptions {
+    logFile: string;
+    profile?: string; // Filter export (`exportFilters`) to run
+    workflow?: string; // Workflow package (`exportWorkflow`) to run
+    entry?: string; // Entry to filter when the log file is a zip/tar archive
+    outputDir: string;
+    lineNumbers: boolean;
+    recordStart?: string; // Preset name or record start pattern
+    collapseRepeats: RepeatCollapseMode;
+    separateBlocks: boolean;
+    encoding?: string;
+    outputEncoding: OutputEncoding;
+    json: boolean;
+    quiet: boolean;
+    failOnMatch: boolean;
+}
+
+export interface CliStepResult {
+    name: string; // Profile name of a workflow step, or the profile file name
+    outputPath: string;
+    processed: number;
+    matched: number;
+    hits: { group: string, filter: string, type: 'include' | 'exclude', hits: number }[];
+    final: boolean; // Counts for the exit code: a profile run, or a workflow step without children
+}
+
+/**
+ * Invalid command line; reported with a hint to `--help`.
+ */
+export class CliUsageError extends Error { }
+
+const USAGE = `Usage: logmagnifier <log-file> (--profile <filters.json> | --workflow <workflow.json>) [options]
+
+Runs filters exported from LogMagnifier over a log file, the same way the extension does,
+and writes the filtered lines with match statistics.
+
+Options:
+  -p, --profile <file>          Filter groups exported with "Export Filters"
+  -w, --workflow <file>         Workflow package exported with "Export Workflow"
+  -o, --output-dir <dir>        Directory of the output files (default: current directory)
+      --entry <name>            Entry to filter when the log file is a zip or tar archive
+  -n, --line-numbers            Prepend the source line number to each output line
+      --record-start <preset>   Multi-line records: logcat, log4j, iso, none or a regex of first lines
+      --collapse-repeats <mode> off, exact or normalized (default: off)
+      --separate-blocks         Separate discontiguous blocks with "--" lines
+      --encoding <label>        Encoding of the log file (default: detected)
+      --output-encoding <enc>   utf8, utf8bom, utf16le or utf16be (default: utf8)
+      --json                    Print the statistics as JSON
+  -q, --quiet                   Print nothing; only set the exit code
+      --fail-on-match           Exit with 1 when lines matched and 0 when none did
+  -h, --help                    Show this help
+
+Exit codes: 0 lines matched, 1 no lines matched, 2 error.
+A workflow matches when any step without child steps kept lines.`;
+
+const RECORD_PRESETS: RecordStartPreset[] = ['none', 'logcat', 'log4j', 'iso'];
+const COLLAPSE_MODES: RepeatCollapseMode[] = ['off', 'exact', 'normalized'];
+const OUTPUT_ENCODINGS: OutputEncoding[] = ['utf8', 'utf8bom', 'utf16le', 'utf16be'];
+
+/**
+ * Command-line entry point running exported profiles and workflows outside VS Code, e.g. in CI.
+ * Filters are compiled and run by the same code as in the extension, with its default settings.
+ */
+export class LogMagnifierCli {
+    public static readonly EXIT_FOUND = 0;
+    public static readonly EXIT_NOT_FOUND = 1;
+    public static readonly EXIT_ERROR = 2;
+
+    /**
+     * @returns The options, or undefined if help was requested
+     * @throws CliUsageError if the arguments are invalid
+     */
+    public static parseArgs(args: string[]): CliOptions | undefined {
+        const options: Partial<CliOptions> = {
+            outputDir: '.',
+            lineNumbers: false,
+            collapseRepeats: 'off',
+            separateBlocks: false,
+            outputEncoding: 'utf8',
+            json: false,
+            quiet: false,
+            failOnMatch: false
+        };
+
+        for (let i = 0; i < args.length; i++) {
+            let arg = args[i];
+            let inlineValue: string | undefined;
+            const eq = arg.indexOf('=');
+            if (arg.startsWith('--') && eq !== -1) {
+                inlineValue = arg.substring(eq + 1);
+                arg = arg.substring(0, eq);
+            }
+            const value = (): string => {
+                const next = inlineValue ?? args[++i];
+                if (next === undefined) {
+                    throw new CliUsageError(`Option ${arg} requires a value`);
+                }
+                return next;
+            };
+            const choice = <T extends string>(choices: T[]): T => {
+                const next = value();
+                if (!choices.includes(next as T)) {
+                    throw new CliUsageError(`Invalid value '${next}' for ${arg}; expected one of: ${choices.join(', ')}`);
+                }
+                return next as T;
+            };
+
+            switch (arg) {
+                case '-h': case '--help': return undefined;
+                case '-p': case '--profile': options.profile = value(); break;
+                case '-w': case '--workflow': options.workflow = value(); break;
+                case '-o': case '--output-dir': options.outputDir = value(); break;
+                case '--entry': options.entry = value(); break;
+                case '-n': case '--line-numbers': options.lineNumbers = true; break;
+                case '--record-start': options.recordStart = value(); break;
+                case '--collapse-repeats': options.collapseRepeats = choice(COLLAPSE_MODES); break;
+                case '--separate-blocks': options.separateBlocks = true; break;
+                case '--encoding': options.encoding = value(); break;
+                case '--output-encoding': options.outputEncoding = choice(OUTPUT_ENCODINGS); break;
+                case '--json': options.json = true; break;
+                case '-q': case '--quiet': options.quiet = true; break;
+                case '--fail-on-match': options.failOnMatch = true; break;
+                default:
+                    if (arg.startsWith('-')) {
+                        throw new CliUsageError(`Unknown option ${arg}`);
+                    }
+                    if (options.logFile) {
+                        throw new CliUsageError(`Unexpected argument '${arg}'`);
+                    }
+                    options.logFile = arg;
+            }
+        }
+
+        if (!options.logFile) {
+            throw new CliUsageError('No log file given');
+        }
+        if (!options.profile === !options.workflow) {
+            throw new CliUsageError('Give either --profile or --workflow');
+        }
+        return options as CliOptions;
+    }
+
+    /**
+     * Reads filter groups in the format of `exportFilters`: `{ version, groups }` or a bare array of groups.
+     * Exports carry no IDs, so groups and filters get IDs by position.
+     * @throws Error if the JSON is not a filter export
+     */
+    public static parseProfile(json: string): FilterGroup[] {
+        const data = JSON.parse(json);
+        const groups: FilterGroup[] | undefined = Array.isArray(data) ? data : data?.groups;
+        if (!Array.isArray(groups)) {
+            throw new Error('Not a filter export: expected an object with "groups" or an array of groups');
+        }
+        return LogMagnifierCli.assignIds(groups);
+    }
+
+    /**
+     * Reads a workflow package in the format of `exportWorkflow`.
+     * @throws Error if the JSON is not a workflow package
+     */
+    public static parseWorkflow(json: string): WorkflowPackage {
+        const pkg = JSON.parse(json) as WorkflowPackage;
+        if (!pkg?.workflow || !Array.isArray(pkg.workflow.steps) || !Array.isArray(pkg.profiles)) {
+            throw new Error('Invalid Workflow Package format');
+        }
+        return {
+            ...pkg,
+            profiles: pkg.profiles.map(p => ({ name: p.name, groups: LogMagnifierCli.assignIds(p.groups || [], `${p.name}:`), layers: Array.isArray(p.layers) ? p.layers : undefined }))
+        };
+    }
+
+    /**
+     * Runs the profile or workflow of the options and writes one output file per profile or workflow step.
+     * @throws Error if a file cannot be read or written
+     */
+    public static async run(options: CliOptions): Promise<CliStepResult[]> {
+        const processor = new LogProcessorCore();
+        const recordStart = LogMagnifierCli.getRecordStart(options.recordStart);
+        fs.mkdirSync(options.outputDir, { recursive: true });
+        const baseName = path.parse(options.logFile).name;
+
+        const runGroups = async (inputPath: string, groups: FilterGroup[], outputPath: string, isRootInput: boolean, mergeGroups: boolean) => {
+            const request = processor.createRequest(inputPath, groups, {
+                outputPath,
+                archiveEntry: isRootInput ? options.entry : undefined,
+                prependLineNumbers: options.lineNumbers,
+                mergeGroups,
+                recordStart,
+                collapseRepeats: options.collapseRepeats,
+                separateBlocks: options.separateBlocks,
+                countHits: true,
+                encoding: isRootInput ? options.encoding : undefined,
+                outputEncoding: options.outputEncoding
+            });
+            const result = await LogFilterCore.run(request);
+            const hits: CliStepResult['hits'] = [];
+            for (const group of groups.filter(g => g.isEnabled)) {
+                for (const f of group.filters.filter(f => f.isEnabled)) {
+                    hits.push({ group: group.name, filter: f.nickname || f.keyword, type: f.type, hits: result.hitCounts?.get(f.id) ?? 0 });
+                }
+            }
+            return { outputPath, processed: result.processed, matched: result.matched, hits };
+        };
+
+        if (options.profile) {
+            const groups = LogMagnifierCli.parseProfile(fs.readFileSync(options.profile, 'utf8'));
+            const outputPath = path.join(options.outputDir, `${baseName}.filtered.log`);
+            const result = await runGroups(options.logFile, groups, outputPath, true, false);
+            return [{ name: path.parse(options.profile).name, ...result, final: true }];
+        }
+
+        // Same order, filters and chaining of step outputs as WorkflowManager.run
+        const pkg = LogMagnifierCli.parseWorkflow(fs.readFileSync(options.workflow!, 'utf8'));
+        const steps = pkg.workflow.steps;
+        const getProfile = (name: string) => pkg.profiles.find(p => p.name === name);
+        const profileGroups = steps.map(s => ProfileLayerCore.getEffectiveGroups(s.profileName, getProfile));
+        const outputs = new Map<string, string>(); // Key: step ID
+        const results: CliStepResult[] = [];
+
+        for (const stepIndex of WorkflowCore.getProcessingOrder(steps)) {
+            const step = steps[stepIndex];
+            if (!profileGroups[stepIndex]) {
+                console.warn(`Skipping step ${stepIndex + 1} ('${step.profileName}'): profile not in the package`);
+                continue;
+            }
+            const parentOutput = step.parentId ? outputs.get(step.parentId) : undefined;
+            const groups = WorkflowCore.getEffectiveGroups(steps, stepIndex, profileGroups);
+            const safeName = step.profileName.replace(/[^\w.-]+/g, '_');
+            const outputPath = path.join(options.outputDir, `${baseName}.${stepIndex + 1}-${safeName}.log`);
+            // Step results feed later steps, so they hold log lines only
+            const result = await runGroups(parentOutput ?? options.logFile, groups, outputPath, !parentOutput, true);
+            outputs.set(step.id, outputPath);
+            results.push({ name: step.profileName, ...result, final: !steps.some(s => s.parentId === step.id) });
+        }
+        return results;
+    }
+
+    /**
+     * Runs the command line and reports the results on stdout and errors on stderr.
+     * @returns The exit code
+     */
+    public static async main(args: string[]): Promise<number> {
+        let options: CliOptions | undefined;
+        try {
+            options = LogMagnifierCli.parseArgs(args);
+        } catch (e) {
+            console.error(`logmagnifier: ${e instanceof Error ? e.message : String(e)}\nTry 'logmagnifier --help' for more information.`);
+            return LogMagnifierCli.EXIT_ERROR;
+        }
+        if (!options) {
+            console.log(USAGE);
+            return LogMagnifierCli.EXIT_FOUND;
+        }
+
+        RegexUtils.reportError = message => console.error(`logmagnifier: ${message}`);
+        let results: CliStepResult[];
+        try {
+            results = await LogMagnifierCli.run(options);
+        } catch (e) {
+            console.error(`logmagnifier: ${e instanceof Error ? e.message : String(e)}`);
+            return LogMagnifierCli.EXIT_ERROR;
+        }
+
+        const found = results.some(r => r.final && r.matched > 0);
+        if (options.json) {
+            console.log(JSON.stringify({ found, steps: results }, null, 2));
+        } else if (!options.quiet) {
+            console.log(LogMagnifierCli.formatResults(results));
+        }
+        return found !== options.failOnMatch ? LogMagnifierCli.EXIT_FOUND : LogMagnifierCli.EXIT_NOT_FOUND;
+    }
+
+    private static formatResults(results: CliStepResult[]): string {
+        const lines: string[] = [];
+        for (const r of results) {
+            lines.push(`${r.name}: ${r.matched} of ${r.processed} lines kept -> ${r.outputPath}`);
+            for (const h of r.hits) {
+                lines.push(`  ${h.group} / ${h.type === 'exclude' ? '^' : ''}${h.filter}: ${h.hits}`);
+            }
+        }
+        return lines.join('\n');
+    }
+
+    private static getRecordStart(value: string | undefined): RegExp | undefined {
+        if (!value) {
+            return undefined;
+        }
+        try {
+            return RECORD_PRESETS.includes(value as RecordStartPreset)
+                ? RecordUtils.getStartPattern(value as RecordStartPreset)
+                : RecordUtils.getStartPattern('custom', value);
+        } catch (e) {
+            throw new Error(`Invalid --record-start pattern: ${e instanceof Error ? e.message : String(e)}`);
+        }
+    }
+
+    // The prefix keeps the IDs of different profiles apart, as a profile overrides inherited groups by ID
+    private static assignIds(groups: FilterGroup[], prefix: string = ''): FilterGroup[] {
+        return groups.map((g, gIndex) => ({
+            ...g,
+            id: g.id || `${prefix}g${gIndex}`,
+            filters: (g.filters || []).map((f, fIndex) => ({ ...f, id: f.id || `${prefix}g${gIndex}_f${fIndex}` }))
+        }));
+    }
+}
+
+if (require.main === module) {
+    LogMagnifierCli.main(process.argv.slice(2)).then(code => {
+        process.exitCode = code;
+    });
+}
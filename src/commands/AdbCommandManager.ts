@@ -1,5 +1,6 @@
 import * as vscode from 'vscode';
 import { AdbService } from '../services/AdbService';
+import { GeneratedFileService } from '../services/GeneratedFileService';
 import { AdbDeviceTreeProvider } from '../views/AdbDeviceTreeProvider';
 import { AdbDevice, LogcatSession, LogcatTag, LogPriority, ControlActionItem, ControlDeviceActionItem, AdbTreeItem, TargetAppItem, LaunchInstalledAppItem, SessionGroupItem } from '../models/AdbModels';
 import * as crypto from 'crypto';
@@ -333,6 +334,7 @@ export class AdbCommandManager {
 
                 const success = await this.adbService.captureScreenshot(item.device.id, localPath);
                 if (success) {
+                    GeneratedFileService.getInstance().track(localPath, 'screenshot');
                     // Open the image
                     const uri = vscode.Uri.file(localPath);
                     await vscode.commands.executeCommand('vscode.open', uri);
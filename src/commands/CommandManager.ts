@@ -1,4 +1,5 @@
 import * as vscode from 'vscode';
+import * as path from 'path';
 import { Constants } from '../Constants';
 import { FilterManager } from '../services/FilterManager';
 import { HighlightService } from '../services/HighlightService';
@@ -9,6 +10,8 @@ import { QuickAccessProvider } from '../views/QuickAccessProvider';
 import { FilterGroup, FilterItem } from '../models/Filter';
 import { JsonPrettyService } from '../services/JsonPrettyService';
 import { SourceMapService } from '../services/SourceMapService';
+import { ProfileAutoSelectService } from '../services/ProfileAutoSelectService';
+import { GeneratedFileService } from '../services/GeneratedFileService';
 import { FilterGroupCommandManager } from './FilterGroupCommandManager';
 import { FilterItemCommandManager } from './FilterItemCommandManager';
 import { FilterPropertyCommandManager } from './FilterPropertyCommandManager';
@@ -32,17 +35,20 @@ export class CommandManager {
         private wordTreeView: vscode.TreeView<FilterGroup | FilterItem>,
         private regexTreeView: vscode.TreeView<FilterGroup | FilterItem>,
         private jsonPrettyService: JsonPrettyService,
-        private sourceMapService: SourceMapService
+        private sourceMapService: SourceMapService,
+        private profileAutoSelectService: ProfileAutoSelectService
     ) {
         // Instantiate sub-modules
         new FilterGroupCommandManager(context, filterManager, logger);
         new FilterItemCommandManager(context, filterManager, logger, wordTreeView);
         new FilterPropertyCommandManager(context, filterManager);
-        new FilterExportImportCommandManager(context, filterManager);
-        new FilterExecutionCommandManager(context, filterManager, highlightService, logProcessor, logger, sourceMapService, wordTreeView, regexTreeView);
+        new FilterExportImportCommandManager(context, filterManager, profileAutoSelectService);
+        new FilterExecutionCommandManager(context, filterManager, highlightService, logProcessor, logger, sourceMapService, wordTreeView, regexTreeView, true, resultCountService);
         new EditorToggleCommandManager(context, quickAccessProvider, jsonPrettyService);
 
         this.registerClearDataCommand();
+        this.registerEditHistoryCommands();
+        this.registerCleanGeneratedFilesCommand();
         this.registerEventListeners();
     }
 
@@ -140,4 +146,58 @@ export class CommandManager {
             }
         }));
     }
+
+    /**
+     * Undo and redo of filter edits, per profile. Bound to the usual keys while a filter view has focus.
+     */
+    private registerEditHistoryCommands() {
+        this.context.subscriptions.push(
+            vscode.commands.registerCommand(Constants.Commands.UndoFilterEdit, () => {
+                if (!this.filterManager.undo()) {
+                    vscode.window.setStatusBarMessage(Constants.Messages.Info.NothingToUndo.replace('{0}', this.filterManager.getActiveProfile()), 3000);
+                }
+            }),
+            vscode.commands.registerCommand(Constants.Commands.RedoFilterEdit, () => {
+                if (!this.filterManager.redo()) {
+                    vscode.window.setStatusBarMessage(Constants.Messages.Info.NothingToRedo.replace('{0}', this.filterManager.getActiveProfile()), 3000);
+                }
+            })
+        );
+    }
+
+    /**
+     * Lists the generated files that can be deleted, all selected, and deletes the selection.
+     */
+    private registerCleanGeneratedFilesCommand() {
+        this.context.subscriptions.push(vscode.commands.registerCommand(Constants.Commands.CleanGeneratedFiles, async () => {
+            const generatedFileService = GeneratedFileService.getInstance();
+            const files = await generatedFileService.list();
+            const deletable = files.filter(file => !file.keptBecause);
+            if (deletable.length === 0) {
+                vscode.window.showInformationMessage(Constants.Messages.Info.NoGeneratedFiles);
+                return;
+            }
+
+            const toMB = (bytes: number) => (bytes / (1024 * 1024)).toFixed(1);
+            const picked = await vscode.window.showQuickPick(deletable.map(file => ({
+                label: path.basename(file.path),
+                description: `${file.kind} · ${toMB(file.size)} MB · ${new Date(file.created).toLocaleString()}`,
+                detail: file.path,
+                picked: true,
+                file
+            })), {
+                canPickMany: true,
+                placeHolder: Constants.Prompts.SelectGeneratedFilesToDelete.replace('{0}', (files.length - deletable.length).toString())
+            });
+            if (!picked || picked.length === 0) {
+                return;
+            }
+
+            const deleted = await generatedFileService.delete(picked.map(item => item.file));
+            const deletedBytes = deleted.reduce((sum, file) => sum + file.size, 0);
+            vscode.window.showInformationMessage(Constants.Messages.Info.GeneratedFilesDeleted
+                .replace('{0}', deleted.length.toString())
+                .replace('{1}', toMB(deletedBytes)));
+        }));
+    }
 }
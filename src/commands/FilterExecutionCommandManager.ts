@@ -5,16 +5,41 @@ import { HighlightService } from '../services/HighlightService';
 import { LogProcessor } from '../services/LogProcessor';
 import { Logger } from '../services/Logger';
 import { SourceMapService } from '../services/SourceMapService';
+import { ResultCountService } from '../services/ResultCountService';
+import { LogFollowService } from '../services/LogFollowService';
+import { GeneratedFileService } from '../services/GeneratedFileService';
+import { AdbLogcatService } from '../services/adb/AdbLogcatService';
 import { FilterGroup, FilterItem } from '../models/Filter';
 import { RegexUtils } from '../utils/RegexUtils';
 import * as fs from 'fs';
 import * as os from 'os';
 import * as path from 'path';
 import { EditorUtils } from '../utils/EditorUtils';
+import { ArchiveUtils } from '../utils/ArchiveUtils';
+import { RecordStartPreset } from '../utils/RecordUtils';
+import { LogFormat } from '../utils/LogFieldUtils';
+import { RepeatCollapseMode } from '../utils/LogTemplateUtils';
+import { OutputEncoding } from '../utils/EncodingUtils';
+import { ArchiveEntryContentProvider, LogSource } from '../providers/ArchiveEntryContentProvider';
+import { FilterResultFileSystemProvider } from '../providers/FilterResultFileSystemProvider';
+import { ExtractTableWebview } from '../views/ExtractTableWebview';
+import { ExtractedTable } from '../services/LogProcessor';
+
+/**
+ * How a filter run treats its result:
+ * - 'once': Filters the source as it is. (Default)
+ * - 'follow': Keeps the result in sync with the source while it grows.
+ * - 'showDropped': Also shows the lines that were not kept, annotated with the exclude filter that dropped them.
+ * - 'extract': Also shows the capture groups of the regex filters in the kept lines as a table.
+ */
+type FilterRunMode = 'once' | 'follow' | 'showDropped' | 'extract';
 
 export class FilterExecutionCommandManager {
     private _prependLineNumbersEnabled: boolean = false;
-    private isProcessing = false;
+    // Filter runs are executed one at a time; further requests wait in this chain.
+    private filterQueue: Promise<void> = Promise.resolve();
+    private pendingRuns = 0;
+    private extractTableWebview: ExtractTableWebview | undefined;
 
     constructor(
         private context: vscode.ExtensionContext,
@@ -25,7 +50,8 @@ export class FilterExecutionCommandManager {
         private sourceMapService: SourceMapService,
         private wordTreeView: vscode.TreeView<FilterGroup | FilterItem>,
         private regexTreeView: vscode.TreeView<FilterGroup | FilterItem>,
-        registerCommands: boolean = true
+        registerCommands: boolean = true,
+        private resultCountService?: ResultCountService
     ) {
         if (registerCommands) {
             this.registerCommands();
@@ -39,179 +65,385 @@ export class FilterExecutionCommandManager {
         vscode.commands.executeCommand('setContext', Constants.ContextKeys.PrependLineNumbersEnabled, value);
     }
 
-    private async applyFilter(filterType?: 'word' | 'regex', targetGroup?: FilterGroup) {
-        if (this.isProcessing) {
-            vscode.window.showWarningMessage(Constants.Messages.Warn.FilterAlreadyProcessing);
-            return;
+    private async applyFilter(filterType?: 'word' | 'regex', targetGroup?: FilterGroup, mode: FilterRunMode = 'once') {
+        // 1. Select relevant groups (Target specific or All)
+        let candidateGroups = this.filterManager.getGroups();
+        if (targetGroup) {
+            // Specific Run: Use target group regardless of enabled state
+            candidateGroups = candidateGroups.filter(g => g.id === targetGroup.id);
+        } else {
+            // Global Apply: Use ONLY enabled groups
+            candidateGroups = candidateGroups.filter(g => g.isEnabled);
         }
-        this.isProcessing = true;
 
-        try {
-            // 1. Select relevant groups (Target specific or All)
-            let candidateGroups = this.filterManager.getGroups();
-            if (targetGroup) {
-                // Specific Run: Use target group regardless of enabled state
-                candidateGroups = candidateGroups.filter(g => g.id === targetGroup.id);
-            } else {
-                // Global Apply: Use ONLY enabled groups
-                candidateGroups = candidateGroups.filter(g => g.isEnabled);
+        candidateGroups = candidateGroups.filter(g => {
+            if (filterType === 'word') {
+                return !g.isRegex;
+            }
+            if (filterType === 'regex') {
+                return g.isRegex;
             }
+            return true;
+        });
+
+        // 3. Validate "Effective" Groups
+        const activeGroups = candidateGroups.filter(g => {
+            // Only keep groups that have at least one enabled filter.
+            // The group's own enabled state is ignored.
+            return g.filters.some(f => f.isEnabled);
+        });
+
+        if (activeGroups.length === 0) {
+            vscode.window.showWarningMessage(Constants.Messages.Warn.NoActiveGroups.replace('{0}', filterType || 'filter'));
+            return;
+        }
 
-            candidateGroups = candidateGroups.filter(g => {
-                if (filterType === 'word') {
-                    return !g.isRegex;
-                }
-                if (filterType === 'regex') {
-                    return g.isRegex;
+        if (mode === 'extract' && this.logProcessor.compileExtractors(activeGroups).extractors.length === 0) {
+            vscode.window.showWarningMessage(Constants.Messages.Warn.NoCaptureGroups);
+            return;
+        }
+
+        let document = await EditorUtils.resolveActiveDocument();
+        let filePathFromTab: string | undefined;
+        let logSource: LogSource | undefined;
+
+        if (!document) {
+            const uri = EditorUtils.resolveActiveUri();
+            if (uri) {
+                if (uri.scheme === 'file') {
+                    filePathFromTab = uri.fsPath;
+                } else if (uri.scheme === 'untitled') {
+                    try {
+                        // Try to open validation doc if possible
+                        const doc = await vscode.workspace.openTextDocument(uri);
+                        document = doc;
+                    } catch (e) { this.logger.error(String(e)); }
+                } else if (uri.scheme === Constants.Schemes.Result) {
+                    // Results too large for a document are read from the file backing them
+                    const backingPath = FilterResultFileSystemProvider.getInstance().getBackingPath(uri);
+                    if (backingPath) {
+                        logSource = { path: backingPath, uri };
+                        filePathFromTab = backingPath;
+                    }
                 }
-                return true;
-            });
+            }
+        }
 
-            // 3. Validate "Effective" Groups
-            const activeGroups = candidateGroups.filter(g => {
-                // Only keep groups that have at least one enabled filter.
-                // The group's own enabled state is ignored.
-                return g.filters.some(f => f.isEnabled);
-            });
+        if (!document && !filePathFromTab) {
+            vscode.window.showErrorMessage(Constants.Messages.Error.NoActiveFile);
+            return;
+        }
 
-            if (activeGroups.length === 0) {
-                vscode.window.showWarningMessage(Constants.Messages.Warn.NoActiveGroups.replace('{0}', filterType || 'filter'));
+        // Compressed files and archive entries: resolve the entry to filter (may ask the user)
+        const activeUri = document ? document.uri : logSource?.uri ?? vscode.Uri.file(filePathFromTab!);
+        if (activeUri.scheme === Constants.Schemes.Archive || (activeUri.scheme === Constants.Schemes.File && ArchiveUtils.isArchive(activeUri.fsPath))) {
+            logSource = await ArchiveEntryContentProvider.resolveSource(activeUri);
+            if (!logSource) {
                 return;
             }
+            document = undefined;
+            filePathFromTab = logSource.path;
+        }
 
-            let document = await EditorUtils.resolveActiveDocument();
-            let filePathFromTab: string | undefined;
+        // Following reads the bytes appended to the file, which only plain files on disk allow
+        if (mode === 'follow' && (logSource || activeUri.scheme !== Constants.Schemes.File)) {
+            vscode.window.showWarningMessage(Constants.Messages.Warn.FollowNeedsFile);
+            return;
+        }
 
-            if (!document) {
-                const uri = EditorUtils.resolveActiveUri();
-                if (uri) {
-                    if (uri.scheme === 'file') {
-                        filePathFromTab = uri.fsPath;
-                    } else if (uri.scheme === 'untitled') {
-                        try {
-                            // Try to open validation doc if possible
-                            const doc = await vscode.workspace.openTextDocument(uri);
-                            document = doc;
-                        } catch (e) { this.logger.error(String(e)); }
+        // Snapshot the groups: edits made while this run waits in the queue must not affect it.
+        const groupsSnapshot: FilterGroup[] = JSON.parse(JSON.stringify(activeGroups));
+        // Names the result: re-running the same filters on the same source replaces it
+        const label = (targetGroup?.name ?? this.filterManager.getActiveProfile()) + (filterType === 'regex' ? ' (Regex)' : '');
+
+        if (this.pendingRuns > 0) {
+            vscode.window.showInformationMessage(Constants.Messages.Info.FilterQueued.replace('{0}', this.pendingRuns.toString()));
+        }
+        this.pendingRuns++;
+
+        const run = this.filterQueue.then(() => this.runFilter(groupsSnapshot, document, filePathFromTab, label, filterType, logSource, mode));
+        this.filterQueue = run.catch(() => undefined);
+        try {
+            await run;
+        } finally {
+            this.pendingRuns--;
+        }
+    }
+
+    private async runFilter(activeGroups: FilterGroup[], document: vscode.TextDocument | undefined, filePathFromTab: string | undefined, label: string, filterType?: 'word' | 'regex', logSource?: LogSource, mode: FilterRunMode = 'once') {
+        const follow = mode === 'follow';
+        let resultUri: vscode.Uri | undefined;
+        let dropped: { uri: vscode.Uri, excludeCounts: Map<string, number>, unmatched: number } | undefined;
+        let extracted: { sourceUri: vscode.Uri, table: ExtractedTable } | undefined;
+        let slowFilters: FilterItem[] = [];
+        let followFrom: { sourcePath: string, offset: number, firstLine: number, totalLineCount: number, encoding?: string, outputEncoding?: OutputEncoding } | undefined;
+        const prependLineNumbers = this._prependLineNumbersEnabled;
+        let cancelled = false;
+        const stats = { processed: 0, matched: 0 };
+        let sourceName = document ? (document.fileName || 'Untitled') : (filePathFromTab || 'Large File');
+        if (logSource?.entry) {
+            sourceName = `${logSource.entry} (${path.basename(logSource.path)})`;
+        } else if (logSource?.uri.scheme === Constants.Schemes.Result) {
+            sourceName = path.posix.basename(logSource.uri.path);
+        }
+
+        await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: `Applying ${filterType || ''} Filters on ${sourceName}...`,
+            cancellable: true
+        }, async (progress, token) => {
+            try {
+                let targetPath = filePathFromTab || document?.uri.fsPath;
+                let tempInputPath: string | undefined;
+
+                // Handle Untitled Files and Filter Results: Write to temp file first to use standard processor
+                if (document && (document.isUntitled || document.uri.scheme === Constants.Schemes.Result)) {
+                    const tmpDir = os.tmpdir();
+                    const randomSuffix = Math.random().toString(36).substring(7);
+                    tempInputPath = path.join(tmpDir, `vscode_loglens_untitled_${randomSuffix}.log`);
+
+                    try {
+                        fs.writeFileSync(tempInputPath, document.getText(), 'utf8');
+                        GeneratedFileService.getInstance().track(tempInputPath, AdbLogcatService.isLogcatDocument(document) ? 'logcat' : 'filter');
+                        targetPath = tempInputPath;
+                    } catch (e) {
+                        this.logger.error(`Failed to create temp file for untitled document: ${e}`);
+                        throw new Error("Failed to process untitled file");
                     }
                 }
-            }
 
-            if (!document && !filePathFromTab) {
-                vscode.window.showErrorMessage(Constants.Messages.Error.NoActiveFile);
-                return;
-            }
+                if (!targetPath) {
+                    throw new Error("Could not check active file path");
+                }
 
-            let outputPath = '';
-            const stats = { processed: 0, matched: 0 };
-            const sourceName = document ? (document.fileName || 'Untitled') : (filePathFromTab || 'Large File');
+                // Determine total line count for padding
+                // A followed file keeps growing, so its line numbers get the default width
+                let totalLineCount = 999999;
+                if (document && !follow) {
+                    totalLineCount = document.lineCount;
+                }
 
-            await vscode.window.withProgress({
-                location: vscode.ProgressLocation.Notification,
-                title: `Applying ${filterType || ''} Filters on ${sourceName}...`,
-                cancellable: false
-            }, async (_progress) => {
-                try {
-                    let targetPath = filePathFromTab || document?.uri.fsPath;
-                    let tempInputPath: string | undefined;
+                // The follow session continues after the last complete line
+                const endByte = follow ? await LogFollowService.findLastLineEnd(targetPath) : undefined;
+
+                // If generated from a specific document, use its URI.
+                // If generated from a file path (without doc), use file URI.
+                let sourceUri: vscode.Uri;
+                if (logSource) {
+                    sourceUri = logSource.uri;
+                } else if (document) {
+                    sourceUri = document.uri;
+                } else {
+                    sourceUri = vscode.Uri.file(targetPath);
+                }
+                const outputUri = FilterResultFileSystemProvider.createUri(sourceUri, label);
+                const droppedUri = mode === 'showDropped' ? FilterResultFileSystemProvider.createUri(sourceUri, `${label} (Dropped)`) : undefined;
 
-                    // Handle Untitled Files: Write to temp file first to use standard processor
-                    if (document && document.isUntitled) {
-                        const tmpDir = os.tmpdir();
-                        const randomSuffix = Math.random().toString(36).substring(7);
-                        tempInputPath = path.join(tmpDir, `vscode_loglens_untitled_${randomSuffix}.log`);
+                let reportedPercent = 0;
 
-                        try {
-                            fs.writeFileSync(tempInputPath, document.getText(), 'utf8');
-                            targetPath = tempInputPath;
-                        } catch (e) {
-                            this.logger.error(`Failed to create temp file for untitled document: ${e}`);
-                            throw new Error("Failed to process untitled file");
+                try {
+                    const result = await this.logProcessor.processFile(targetPath, activeGroups, {
+                        prependLineNumbers,
+                        totalLineCount: totalLineCount,
+                        archiveEntry: logSource?.entry,
+                        endByte,
+                        // The temp file holds the document text, which was written as UTF-8
+                        encoding: tempInputPath ? 'utf-8' : undefined,
+                        // Files without a document have no highlights to count hits in
+                        countHits: !document && !!this.resultCountService,
+                        sourceUri,
+                        outputUri,
+                        writeDropped: !!droppedUri,
+                        droppedUri,
+                        extract: mode === 'extract',
+                        token,
+                        onProgress: (bytesRead, totalBytes) => {
+                            const percent = totalBytes > 0 ? Math.min(100, Math.floor((bytesRead / totalBytes) * 100)) : 100;
+                            if (percent > reportedPercent) {
+                                const toMB = (bytes: number) => (bytes / (1024 * 1024)).toFixed(1);
+                                progress.report({
+                                    increment: percent - reportedPercent,
+                                    message: `${percent}% (${toMB(bytesRead)} / ${toMB(totalBytes)} MB)`
+                                });
+                                reportedPercent = percent;
+                            }
                         }
+                    });
+                    // A follow session of the previous result must not append to this one
+                    LogFollowService.getInstance().stop(outputUri);
+                    await FilterResultFileSystemProvider.getInstance().publish(outputUri, result.outputPath);
+                    resultUri = outputUri;
+                    stats.processed = result.processed;
+                    stats.matched = result.matched;
+                    if (result.hitCounts && filePathFromTab) {
+                        const countsUri = logSource?.uri.scheme === Constants.Schemes.Result ? logSource.uri : vscode.Uri.file(filePathFromTab);
+                        this.resultCountService?.setStreamedCounts(countsUri, result.hitCounts);
                     }
-
-                    if (!targetPath) {
-                        throw new Error("Could not check active file path");
+                    if (endByte !== undefined) {
+                        followFrom = { sourcePath: targetPath, offset: endByte, firstLine: result.processed + 1, totalLineCount, encoding: result.encoding, outputEncoding: result.outputEncoding };
                     }
 
-                    // Determine total line count for padding
-                    let totalLineCount = 999999;
-                    if (document) {
-                        totalLineCount = document.lineCount;
+                    // Register Source Map
+                    // Handle strict untitled file mapping:
+                    // If we created a temp input file for untitled doc, we still mapped lines from that content.
+                    // But the USER sees the 'untitled:Untitled-1' document.
+                    // Ideally we map back to the 'untitled:...' URI so opening it works if tab is open.
+                    // If tab is closed, we can't reopen 'untitled:' content easily unless we saved it?
+                    // Actually, SourceMapService stores the URI. clicking 'jumping' opens that URI.
+                    // If 'untitled', VSCode tries to find that open valid document.
+
+                    if (result.lineMapping) {
+                        this.sourceMapService.register(outputUri, sourceUri, result.lineMapping, result.contextLines);
                     }
 
-                    try {
-                        const result = await this.logProcessor.processFile(targetPath, activeGroups, {
-                            prependLineNumbers: this._prependLineNumbersEnabled,
-                            totalLineCount: totalLineCount
-                        });
-                        outputPath = result.outputPath;
-                        stats.processed = result.processed;
-                        stats.matched = result.matched;
-
-                        // Register Source Map
-                        // If generated from a specific document, use its URI.
-                        // If generated from a file path (without doc), use file URI.
-                        let sourceUri: vscode.Uri | undefined;
-                        if (document) {
-                            sourceUri = document.uri;
-                        } else if (filePathFromTab) {
-                            sourceUri = vscode.Uri.file(filePathFromTab);
-                        }
-
-                        // Handle strict untitled file mapping:
-                        // If we created a temp input file for untitled doc, we still mapped lines from that content.
-                        // But the USER sees the 'untitled:Untitled-1' document.
-                        // Ideally we map back to the 'untitled:...' URI so opening it works if tab is open.
-                        // If tab is closed, we can't reopen 'untitled:' content easily unless we saved it?
-                        // Actually, SourceMapService stores the URI. clicking 'jumping' opens that URI.
-                        // If 'untitled', VSCode tries to find that open valid document.
-
-                        if (sourceUri && result.lineMapping) {
-                            const outputUri = vscode.Uri.file(outputPath);
-                            this.sourceMapService.register(outputUri, sourceUri, result.lineMapping);
-                        }
+                    if (result.dropped && droppedUri) {
+                        await FilterResultFileSystemProvider.getInstance().publish(droppedUri, result.dropped.outputPath);
+                        this.sourceMapService.register(droppedUri, sourceUri, result.dropped.lineMapping);
+                        dropped = { uri: droppedUri, excludeCounts: result.dropped.excludeCounts, unmatched: result.dropped.unmatched };
+                    }
+                    if (result.extracted) {
+                        extracted = { sourceUri, table: result.extracted };
+                    }
+                    slowFilters = result.slowFilters ?? [];
+                    // Drop counts describe the last run that showed dropped lines with these filters
+                    this.filterManager.updateDropCounts(activeGroups, result.dropped?.excludeCounts);
 
-                    } finally {
-                        // Cleanup temp input file if we created one
-                        if (tempInputPath && fs.existsSync(tempInputPath)) {
-                            try {
-                                fs.unlinkSync(tempInputPath);
-                            } catch (_e) { /* ignore cleanup error */ }
-                        }
+                } finally {
+                    // Cleanup temp input file if we created one
+                    if (tempInputPath && fs.existsSync(tempInputPath)) {
+                        try {
+                            fs.unlinkSync(tempInputPath);
+                        } catch (_e) { /* ignore cleanup error */ }
                     }
-                } catch (error) {
-                    vscode.window.showErrorMessage(Constants.Messages.Error.ApplyFiltersError.replace('{0}', error instanceof Error ? error.message : String(error)));
+                }
+            } catch (error) {
+                if (error instanceof vscode.CancellationError) {
+                    cancelled = true;
+                    this.logger.info(`Filter run on ${sourceName} cancelled.`);
                     return;
                 }
-            });
+                vscode.window.showErrorMessage(Constants.Messages.Error.ApplyFiltersError.replace('{0}', error instanceof Error ? error.message : String(error)));
+                return;
+            }
+        });
 
-            const message = `Filtered ${stats.processed.toLocaleString()} lines. Matched ${stats.matched.toLocaleString()} lines.`;
-            if (stats.matched === 0) {
-                vscode.window.showWarningMessage(Constants.Messages.Warn.EmptyImport.replace('{0}', message));
-            } else {
-                const timeout = vscode.workspace.getConfiguration(Constants.Configuration.Section).get<number>(Constants.Configuration.StatusBarTimeout) || 5000;
-                vscode.window.setStatusBarMessage(message, timeout);
+        if (cancelled) {
+            vscode.window.setStatusBarMessage(Constants.Messages.Info.FilterCancelled, 3000);
+            return;
+        }
+
+        let message = `Filtered ${stats.processed.toLocaleString()} lines. Matched ${stats.matched.toLocaleString()} lines.`;
+        if (dropped) {
+            const excluded = Array.from(dropped.excludeCounts.values()).reduce((sum, count) => sum + count, 0);
+            message += ` Dropped ${excluded.toLocaleString()} lines by excludes, ${dropped.unmatched.toLocaleString()} without include match.`;
+        }
+        if (extracted) {
+            message += ` Extracted ${extracted.table.rows.length.toLocaleString()} rows.`;
+        }
+        if (stats.matched === 0 && !follow) {
+            vscode.window.showWarningMessage(Constants.Messages.Warn.EmptyImport.replace('{0}', message));
+        } else {
+            const timeout = vscode.workspace.getConfiguration(Constants.Configuration.Section).get<number>(Constants.Configuration.StatusBarTimeout) || 5000;
+            vscode.window.setStatusBarMessage(message, timeout);
+        }
+        if (slowFilters.length > 0) {
+            vscode.window.showWarningMessage(Constants.Messages.Warn.SlowFiltersDisabled.replace('{0}', slowFilters.map(f => `'${f.nickname || f.keyword}'`).join(', ')));
+        }
+
+        if (resultUri) {
+            await this.openResult(resultUri);
+            if (dropped) {
+                await this.openResult(dropped.uri, vscode.ViewColumn.Beside);
+            }
+            if (extracted) {
+                await this.showExtractedTable(resultUri, extracted.sourceUri, extracted.table);
             }
 
-            if (outputPath) {
-                try {
-                    const newDoc = await vscode.workspace.openTextDocument(outputPath);
-                    await vscode.window.showTextDocument(newDoc, { preview: false });
+            // Started once the document is open: closing the filtered document stops following
+            if (followFrom) {
+                const { sourcePath, offset, firstLine, totalLineCount, encoding, outputEncoding } = followFrom;
+                LogFollowService.getInstance().start(sourcePath, resultUri, offset,
+                    { input: encoding ?? 'utf-8', output: outputEncoding ?? 'utf8' },
+                    // Without the filters that were too slow: appended lines are filtered on the extension host
+                    write => this.logProcessor.createFilterPass(this.logProcessor.disableFilters(activeGroups, slowFilters.map(f => f.id)), firstLine, { prependLineNumbers, totalLineCount }, write));
+                vscode.window.setStatusBarMessage(Constants.Messages.Info.FollowStarted.replace('{0}', path.basename(sourcePath)), 3000);
+            }
+        }
+    }
 
-                    // Force language to log to ensure syntax highlighting works
-                    if (newDoc.languageId !== 'log') {
-                        try {
-                            await vscode.languages.setTextDocumentLanguage(newDoc, 'log');
-                        } catch (_e) { /* ignore */ }
-                    }
-                } catch (e) {
-                    this.logger.info(Constants.Messages.Info.FallbackToOpen.replace('{0}', String(e)));
-                    await vscode.commands.executeCommand('vscode.open', vscode.Uri.file(outputPath));
+    /**
+     * Shows extracted values in the table view. Clicking a row jumps to its source line through the
+     * table's source map, which resolves merged sources to their original files.
+     */
+    private async showExtractedTable(resultUri: vscode.Uri, sourceUri: vscode.Uri, table: ExtractedTable) {
+        if (!this.extractTableWebview) {
+            const webview = new ExtractTableWebview(this.context);
+            this.context.subscriptions.push(webview);
+            this.context.subscriptions.push(webview.onDidSelectRow(({ tableUri, row }) => {
+                const location = this.sourceMapService.getOriginalLocation(tableUri, row);
+                if (location) {
+                    // The table takes the column beside the results
+                    this.revealSourceLocation(location, vscode.ViewColumn.One);
+                }
+            }));
+            this.context.subscriptions.push(webview.onDidCloseTable(tableUri => this.sourceMapService.unregister(tableUri)));
+            this.extractTableWebview = webview;
+        }
+
+        const tableUri = resultUri.with({ scheme: Constants.Schemes.Extract });
+        this.sourceMapService.register(tableUri, sourceUri, table.rows.map(row => row.line));
+        await this.extractTableWebview.show(tableUri, {
+            title: `Extract: ${path.posix.basename(resultUri.path)}`,
+            columns: ['Line', 'Time', 'Filter', ...table.columns],
+            rows: table.rows.map(row => [String(row.line + 1), row.timestamp ?? '', row.filter, ...row.cells]),
+            truncated: table.truncated
+        });
+    }
+
+    private async openResult(uri: vscode.Uri, viewColumn?: vscode.ViewColumn) {
+        try {
+            // Results open as 'log' by their name (see the languages contribution). Changing the language here
+            // would close and reopen the document, which unregisters its source map.
+            const newDoc = await vscode.workspace.openTextDocument(uri);
+            await vscode.window.showTextDocument(newDoc, { preview: false, viewColumn });
+        } catch (e) {
+            this.logger.info(Constants.Messages.Info.FallbackToOpen.replace('{0}', String(e)));
+            await vscode.commands.executeCommand('vscode.open', uri, { viewColumn });
+        }
+    }
+
+    /**
+     * Stops following the source of a filtered document.
+     * @param uri The filtered document; defaults to the active editor, or asks when several logs are followed
+     */
+    private async stopFollow(uri?: vscode.Uri) {
+        const followService = LogFollowService.getInstance();
+        let target = uri ?? vscode.window.activeTextEditor?.document.uri;
+
+        if (!target || !followService.isFollowing(target)) {
+            const followed = followService.getFollowedUris();
+            if (followed.length === 0) {
+                vscode.window.showInformationMessage(Constants.Messages.Info.NotFollowing);
+                return;
+            }
+            if (followed.length === 1) {
+                target = followed[0];
+            } else {
+                const picked = await vscode.window.showQuickPick(followed.map(followedUri => ({
+                    label: path.basename(followService.getSourcePath(followedUri) || ''),
+                    description: path.basename(followedUri.fsPath),
+                    uri: followedUri
+                })), { placeHolder: Constants.Prompts.SelectFollowToStop });
+                if (!picked) {
+                    return;
                 }
+                target = picked.uri;
             }
-        } finally {
-            this.isProcessing = false;
+        }
+
+        const sourcePath = followService.getSourcePath(target);
+        if (followService.stop(target) && sourcePath) {
+            vscode.window.setStatusBarMessage(Constants.Messages.Info.FollowStopped.replace('{0}', path.basename(sourcePath)), 3000);
         }
     }
 
@@ -243,70 +475,56 @@ export class FilterExecutionCommandManager {
             return;
         }
 
+        if (item.kind && item.kind !== 'keyword') {
+            vscode.window.showInformationMessage(Constants.Messages.Info.FilterNotSearchable);
+            return;
+        }
+
         const document = editor.document;
         const selection = editor.selection;
 
         // Use RegexUtils
         const isRegex = !!item.isRegex;
         const caseSensitive = !!item.caseSensitive;
-        const regex = RegexUtils.create(item.keyword, isRegex, caseSensitive);
+        const regex = RegexUtils.create(item.keyword, isRegex, caseSensitive, item);
 
-        const fullText = document.getText();
-        let targetMatch: { index: number, text: string } | undefined;
+        // The search is bounded like highlighting, so a slow pattern cannot block the editor
+        const found = RegexUtils.findAllByLine(regex, document.getText(), this.logProcessor.getRegexTimeBudget());
+        if (found.timedOut) {
+            vscode.window.showWarningMessage(Constants.Messages.Warn.SlowSearchFilter.replace('{0}', item.nickname || item.keyword));
+            return;
+        }
+        const matchCount = found.matches.length / 2;
+        let target: number;
 
         if (direction === 'next') {
+            // The next match after the cursor, wrapping to the first one in the file
             const offset = document.offsetAt(selection.active);
-            regex.lastIndex = offset;
-
-            let match = regex.exec(fullText);
-
-            // If we found a match exactly at offset, we might want the next one
-            if (match && match.index === offset) {
-                match = regex.exec(fullText);
-            }
-
-            if (match) {
-                targetMatch = { index: match.index, text: match[0] };
-            } else {
-                // Wrap: start from beginning
-                regex.lastIndex = 0;
-                match = regex.exec(fullText);
-                if (match) {
-                    targetMatch = { index: match.index, text: match[0] };
+            target = 0;
+            for (let i = 0; i < matchCount; i++) {
+                if (found.matches[i * 2] > offset) {
+                    target = i;
+                    break;
                 }
             }
         } else {
-            // Previous
+            // The last match before the selection, wrapping to the last one in the file
             const offset = document.offsetAt(selection.start);
-            regex.lastIndex = 0;
-            let match: RegExpExecArray | null;
-            let verifyLastMatch: RegExpExecArray | undefined;
-            let lastInFile: RegExpExecArray | undefined;
-
-            // Iterate to find candidate
-            while ((match = regex.exec(fullText)) !== null) {
-                lastInFile = match;
-                if (match.index < offset) {
-                    verifyLastMatch = match;
-                } else {
-                    // Found a match after offset.
-                    // If we found a 'before' match (verifyLastMatch), we have our target.
-                    // If not, we might wrap to the last match in the file (lastInFile).
-                    // We continue scanning to find the true lastInFile.
+            target = matchCount - 1;
+            for (let i = matchCount - 1; i >= 0; i--) {
+                if (found.matches[i * 2] < offset) {
+                    target = i;
+                    break;
                 }
             }
-
-            if (verifyLastMatch) {
-                targetMatch = { index: verifyLastMatch.index, text: verifyLastMatch[0] };
-            } else if (lastInFile) {
-                // Wrap to last match in file
-                targetMatch = { index: lastInFile.index, text: lastInFile[0] };
-            }
         }
+        const targetMatch = target >= 0 && target < matchCount
+            ? { index: found.matches[target * 2], length: found.matches[target * 2 + 1] }
+            : undefined;
 
         if (targetMatch) {
             const startPos = document.positionAt(targetMatch.index);
-            const endPos = document.positionAt(targetMatch.index + targetMatch.text.length);
+            const endPos = document.positionAt(targetMatch.index + targetMatch.length);
             const range = new vscode.Range(startPos, endPos);
 
             editor.selection = new vscode.Selection(startPos, endPos);
@@ -366,24 +584,171 @@ export class FilterExecutionCommandManager {
         const location = this.sourceMapService.getOriginalLocation(editor.document.uri, position.line);
 
         if (location) {
-            try {
-                // Open document
-                const doc = await vscode.workspace.openTextDocument(location.uri);
-                const sourceEditor = await vscode.window.showTextDocument(doc, { preview: true });
+            await this.revealSourceLocation(location);
+        } else {
+            vscode.window.showInformationMessage(Constants.Messages.Info.NoSourceMapping);
+        }
+    }
 
-                // Reveal range
-                const range = new vscode.Range(location.range.start, location.range.start);
-                sourceEditor.revealRange(range, vscode.TextEditorRevealType.InCenter);
-                sourceEditor.selection = new vscode.Selection(range.start, range.start);
+    private async revealSourceLocation(location: vscode.Location, viewColumn?: vscode.ViewColumn) {
+        try {
+            // Open document
+            const doc = await vscode.workspace.openTextDocument(location.uri);
+            const sourceEditor = await vscode.window.showTextDocument(doc, { preview: true, viewColumn });
+
+            // Reveal range
+            const range = new vscode.Range(location.range.start, location.range.start);
+            sourceEditor.revealRange(range, vscode.TextEditorRevealType.InCenter);
+            sourceEditor.selection = new vscode.Selection(range.start, range.start);
+
+            // Flash line
+            this.highlightService.flashLine(sourceEditor, range.start.line);
+        } catch (e) {
+            vscode.window.showErrorMessage(Constants.Messages.Error.JumpToSourceFailed.replace('{0}', e instanceof Error ? e.message : String(e)));
+        }
+    }
 
-                // Flash line
-                this.highlightService.flashLine(sourceEditor, range.start.line);
-            } catch (e) {
-                vscode.window.showErrorMessage(Constants.Messages.Error.JumpToSourceFailed.replace('{0}', e instanceof Error ? e.message : String(e)));
+    // Log formats and output options are usually project specific, so workspace settings are preferred
+    private async updateSetting(key: string, value: unknown) {
+        const target = vscode.workspace.workspaceFolders ? vscode.ConfigurationTarget.Workspace : vscode.ConfigurationTarget.Global;
+        await vscode.workspace.getConfiguration(Constants.Configuration.Section).update(key, value, target);
+    }
+
+    private async setRecordStartPattern() {
+        const config = vscode.workspace.getConfiguration(Constants.Configuration.Section);
+        const current = config.get<RecordStartPreset>(Constants.Configuration.Records.StartPattern) || 'none';
+
+        const items: (vscode.QuickPickItem & { preset: RecordStartPreset })[] = [
+            { label: 'Single Lines', description: 'Filter line by line', preset: 'none' },
+            { label: 'Logcat (threadtime)', description: 'Stack trace lines stay with their crash', preset: 'logcat' },
+            { label: 'Log4j / Logback', description: 'Records start with date, time and level', preset: 'log4j' },
+            { label: 'ISO Timestamp', description: 'Records start with an ISO 8601 timestamp', preset: 'iso' },
+            { label: 'Custom Pattern...', description: config.get<string>(Constants.Configuration.Records.CustomStartPattern) || undefined, preset: 'custom' }
+        ];
+        const currentItem = items.find(item => item.preset === current);
+        const picked = await vscode.window.showQuickPick(items, {
+            placeHolder: Constants.Prompts.SelectRecordStart.replace('{0}', currentItem?.label || current)
+        });
+        if (!picked) {
+            return;
+        }
+
+        if (picked.preset === 'custom') {
+            const pattern = await vscode.window.showInputBox({
+                prompt: Constants.Prompts.EnterRecordStartPattern,
+                placeHolder: Constants.PlaceHolders.RecordStartPattern,
+                value: config.get<string>(Constants.Configuration.Records.CustomStartPattern) || '',
+                validateInput: value => {
+                    if (!value.trim()) {
+                        return Constants.Messages.Error.InvalidRegularExpression;
+                    }
+                    try {
+                        new RegExp(value);
+                        return null;
+                    } catch (e) {
+                        return Constants.Messages.Error.InvalidRegexPatternDetailed.replace('{0}', value).replace('{1}', e instanceof Error ? e.message : String(e));
+                    }
+                }
+            });
+            if (pattern === undefined) {
+                return;
             }
-        } else {
-            vscode.window.showInformationMessage(Constants.Messages.Info.NoSourceMapping);
+            await this.updateSetting(Constants.Configuration.Records.CustomStartPattern, pattern);
+        }
+
+        await this.updateSetting(Constants.Configuration.Records.StartPattern, picked.preset);
+        const message = picked.preset === 'none'
+            ? Constants.Messages.Info.RecordStartDisabled
+            : Constants.Messages.Info.RecordStartChanged.replace('{0}', picked.label.replace('...', ''));
+        vscode.window.setStatusBarMessage(message, 3000);
+    }
+
+    private async setLogFormat() {
+        const config = vscode.workspace.getConfiguration(Constants.Configuration.Section);
+        const current = config.get<LogFormat>(Constants.Configuration.Fields.Format) || 'auto';
+
+        const items: (vscode.QuickPickItem & { format: LogFormat })[] = [
+            { label: 'Auto Detect', description: 'JSON, logcat threadtime/brief or syslog, per line', format: 'auto' },
+            { label: 'Logcat (threadtime)', description: 'date, time, pid, tid, level, tag, message', format: 'logcatThreadtime' },
+            { label: 'Logcat (brief)', description: 'level, tag, pid, message', format: 'logcatBrief' },
+            { label: 'Syslog', description: 'timestamp, host, tag, pid, message', format: 'syslog' },
+            { label: 'JSON Lines', description: 'Object keys, nested keys joined with dots', format: 'json' },
+            { label: 'Custom Pattern...', description: config.get<string>(Constants.Configuration.Fields.CustomPattern) || undefined, format: 'custom' }
+        ];
+        const currentItem = items.find(item => item.format === current);
+        const picked = await vscode.window.showQuickPick(items, {
+            placeHolder: Constants.Prompts.SelectLogFormat.replace('{0}', currentItem?.label || current)
+        });
+        if (!picked) {
+            return;
+        }
+
+        if (picked.format === 'custom') {
+            const pattern = await vscode.window.showInputBox({
+                prompt: Constants.Prompts.EnterFieldPattern,
+                placeHolder: Constants.PlaceHolders.FieldPattern,
+                value: config.get<string>(Constants.Configuration.Fields.CustomPattern) || '',
+                validateInput: value => {
+                    try {
+                        new RegExp(value);
+                    } catch (e) {
+                        return Constants.Messages.Error.InvalidRegexPatternDetailed.replace('{0}', value).replace('{1}', e instanceof Error ? e.message : String(e));
+                    }
+                    return /\(\?<\w+>/.test(value) ? null : Constants.Messages.Error.FieldPatternNeedsGroups;
+                }
+            });
+            if (pattern === undefined) {
+                return;
+            }
+            await this.updateSetting(Constants.Configuration.Fields.CustomPattern, pattern);
+        }
+
+        await this.updateSetting(Constants.Configuration.Fields.Format, picked.format);
+        vscode.window.setStatusBarMessage(Constants.Messages.Info.LogFormatChanged.replace('{0}', picked.label.replace('...', '')), 3000);
+    }
+
+    private async setCollapseRepeats() {
+        const config = vscode.workspace.getConfiguration(Constants.Configuration.Section);
+        const current = config.get<RepeatCollapseMode>(Constants.Configuration.Output.CollapseRepeats) || 'off';
+
+        const items: (vscode.QuickPickItem & { mode: RepeatCollapseMode })[] = [
+            { label: 'Keep All Lines', description: 'Write every matching line', mode: 'off' },
+            { label: 'Identical Lines', description: 'Collapse runs of identical lines into one with a (×N) count', mode: 'exact' },
+            { label: 'Similar Lines', description: 'Also ignore numbers, hex values and UUIDs when comparing', mode: 'normalized' }
+        ];
+        const currentItem = items.find(item => item.mode === current);
+        const picked = await vscode.window.showQuickPick(items, {
+            placeHolder: Constants.Prompts.SelectCollapseRepeats.replace('{0}', currentItem?.label || current)
+        });
+        if (!picked) {
+            return;
+        }
+
+        await this.updateSetting(Constants.Configuration.Output.CollapseRepeats, picked.mode);
+        const message = picked.mode === 'off'
+            ? Constants.Messages.Info.CollapseRepeatsDisabled
+            : Constants.Messages.Info.CollapseRepeatsChanged.replace('{0}', picked.label.toLowerCase());
+        vscode.window.setStatusBarMessage(message, 3000);
+    }
+
+    private async setSeparateBlocks() {
+        const config = vscode.workspace.getConfiguration(Constants.Configuration.Section);
+        const current = config.get<boolean>(Constants.Configuration.Output.SeparateBlocks) || false;
+
+        const items: (vscode.QuickPickItem & { enabled: boolean })[] = [
+            { label: 'Contiguous Output', description: 'Write matching and context lines without separators', enabled: false },
+            { label: 'Separated Blocks', description: 'Write "--" between blocks that are not adjacent in the source and mark context lines', enabled: true }
+        ];
+        const currentItem = items.find(item => item.enabled === current)!;
+        const picked = await vscode.window.showQuickPick(items, {
+            placeHolder: Constants.Prompts.SelectSeparateBlocks.replace('{0}', currentItem.label)
+        });
+        if (!picked) {
+            return;
         }
+
+        await this.updateSetting(Constants.Configuration.Output.SeparateBlocks, picked.enabled);
+        vscode.window.setStatusBarMessage(picked.enabled ? Constants.Messages.Info.SeparateBlocksEnabled : Constants.Messages.Info.SeparateBlocksDisabled, 3000);
     }
 
     private registerCommands() {
@@ -396,6 +761,22 @@ export class FilterExecutionCommandManager {
             this.setPrependLineNumbersEnabled(false);
         }));
 
+        this.context.subscriptions.push(vscode.commands.registerCommand(Constants.Commands.SetRecordStartPattern, async () => {
+            await this.setRecordStartPattern();
+        }));
+
+        this.context.subscriptions.push(vscode.commands.registerCommand(Constants.Commands.SetLogFormat, async () => {
+            await this.setLogFormat();
+        }));
+
+        this.context.subscriptions.push(vscode.commands.registerCommand(Constants.Commands.SetCollapseRepeats, async () => {
+            await this.setCollapseRepeats();
+        }));
+
+        this.context.subscriptions.push(vscode.commands.registerCommand(Constants.Commands.SetSeparateBlocks, async () => {
+            await this.setSeparateBlocks();
+        }));
+
         // View commands
         this.context.subscriptions.push(vscode.commands.registerCommand(Constants.Commands.ExpandAllWordGroups, async () => {
             await this.expandAllGroups(false);
@@ -430,5 +811,11 @@ export class FilterExecutionCommandManager {
             this.applyFilter(type, group);
         }));
         this.context.subscriptions.push(vscode.commands.registerCommand(Constants.Commands.ApplyRegexFilter, () => this.applyFilter('regex')));
+        this.context.subscriptions.push(vscode.commands.registerCommand(Constants.Commands.FollowWordFilter, () => this.applyFilter('word', undefined, 'follow')));
+        this.context.subscriptions.push(vscode.commands.registerCommand(Constants.Commands.FollowRegexFilter, () => this.applyFilter('regex', undefined, 'follow')));
+        this.context.subscriptions.push(vscode.commands.registerCommand(Constants.Commands.ApplyWordFilterShowDropped, () => this.applyFilter('word', undefined, 'showDropped')));
+        this.context.subscriptions.push(vscode.commands.registerCommand(Constants.Commands.ApplyRegexFilterShowDropped, () => this.applyFilter('regex', undefined, 'showDropped')));
+        this.context.subscriptions.push(vscode.commands.registerCommand(Constants.Commands.ExtractRegexFilter, () => this.applyFilter('regex', undefined, 'extract')));
+        this.context.subscriptions.push(vscode.commands.registerCommand(Constants.Commands.StopFollow, (uri?: vscode.Uri) => this.stopFollow(uri)));
     }
 }
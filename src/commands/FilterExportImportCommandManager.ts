@@ -1,6 +1,7 @@
 import * as vscode from 'vscode';
 import { Constants } from '../Constants';
 import { FilterManager } from '../services/FilterManager';
+import { ProfileAutoSelectService } from '../services/ProfileAutoSelectService';
 import { FilterGroup } from '../models/Filter';
 import { IconUtils } from '../utils/IconUtils';
 import * as fs from 'fs';
@@ -15,7 +16,8 @@ interface FilterGroupQuickPickItem extends vscode.QuickPickItem {
 export class FilterExportImportCommandManager {
     constructor(
         private context: vscode.ExtensionContext,
-        private filterManager: FilterManager
+        private filterManager: FilterManager,
+        private profileAutoSelectService: ProfileAutoSelectService
     ) {
         this.registerCommands();
     }
@@ -229,7 +231,37 @@ export class FilterExportImportCommandManager {
         }
     }
 
+    private async handleSetProfileLayers() {
+        const activeProfile = this.filterManager.getActiveProfile();
+        const currentLayers = this.filterManager.getProfileLayers();
+        const profileManager = this.filterManager.profileManagerRef;
+
+        // Profiles inheriting the active one are left out, as they would inherit themselves
+        const candidates = this.filterManager.getProfileNames()
+            .filter(name => name !== activeProfile && !profileManager.getLayerNames(name).includes(activeProfile));
+        const items = candidates.map(name => ({ label: name, picked: currentLayers.includes(name) }));
+
+        const selected = await vscode.window.showQuickPick(items, {
+            canPickMany: true,
+            placeHolder: Constants.Prompts.SelectProfileLayers.replace('{0}', activeProfile)
+        });
+        if (!selected) {
+            return;
+        }
+
+        // Layers keep their order; newly picked ones are added after them
+        const names = selected.map(item => item.label);
+        const layers = [...currentLayers.filter(l => names.includes(l)), ...names.filter(n => !currentLayers.includes(n))];
+        await this.filterManager.setProfileLayers(layers);
+        vscode.window.showInformationMessage(layers.length > 0
+            ? Constants.Messages.Info.ProfileLayersSet.replace('{0}', activeProfile).replace('{1}', layers.join(', '))
+            : Constants.Messages.Info.ProfileLayersCleared.replace('{0}', activeProfile));
+    }
+
     private registerProfileCommands() {
+        this.context.subscriptions.push(vscode.commands.registerCommand(Constants.Commands.TogglePinProfile, () => this.profileAutoSelectService.togglePin()));
+        this.context.subscriptions.push(vscode.commands.registerCommand(Constants.Commands.SetProfileLayers, () => this.handleSetProfileLayers()));
+
         this.context.subscriptions.push(vscode.commands.registerCommand(Constants.Commands.ManageProfiles, async () => {
             const activeProfile = this.filterManager.getActiveProfile();
             const profilesMetadata = this.filterManager.getProfilesMetadata();
@@ -253,15 +285,31 @@ export class FilterExportImportCommandManager {
                     description: Constants.Descriptions.DuplicateProfile
                 });
 
+                // Action: Inherit from Profiles
+                items.push({
+                    label: `$(layers) ${Constants.Labels.InheritFromProfiles}`,
+                    description: Constants.Descriptions.InheritFromProfiles
+                });
+
+                // Action: Save to Workspace
+                if (vscode.workspace.workspaceFolders?.length) {
+                    items.push({
+                        label: `$(repo) ${Constants.Labels.SaveProfileToWorkspace}`,
+                        description: Constants.Descriptions.SaveProfileToWorkspace
+                    });
+                }
+
                 items.push({ label: '', kind: vscode.QuickPickItemKind.Separator });
 
                 // List Profiles
                 const profileItems = profilesMetadata.map(p => {
+                    const scope = p.isWorkspace ? `$(repo) ${Constants.Labels.WorkspaceProfile} ` : '';
+                    const layers = p.layers.length > 0 ? ` · inherits ${p.layers.join(', ')}` : '';
                     return {
                         label: p.name === activeProfile ? `$(check) ${p.name}` : p.name,
                         description: p.name === activeProfile
-                            ? `Active (Word: ${p.wordCount}, Regex: ${p.regexCount})`
-                            : `(Word: ${p.wordCount}, Regex: ${p.regexCount})`,
+                            ? `${scope}Active (Word: ${p.wordCount}, Regex: ${p.regexCount})${layers}`
+                            : `${scope}(Word: ${p.wordCount}, Regex: ${p.regexCount})${layers}`,
                         detail: 'Switch to this profile',
                         buttons: p.name === Constants.Labels.DefaultProfile ? [] : [
                             {
@@ -333,6 +381,31 @@ export class FilterExportImportCommandManager {
                             vscode.window.showInformationMessage(Constants.Messages.Info.ProfileDuplicated.replace('{0}', name));
                         }
 
+                    } else if (label.includes(Constants.Labels.InheritFromProfiles)) {
+                        quickPick.hide();
+                        await this.handleSetProfileLayers();
+
+                    } else if (label.includes(Constants.Labels.SaveProfileToWorkspace)) {
+                        quickPick.hide();
+                        const name = await vscode.window.showInputBox({
+                            prompt: Constants.Prompts.EnterWorkspaceProfileName,
+                            value: activeProfile,
+                            validateInput: (value) => {
+                                if (profilesMetadata.some(p => p.name === value)) {
+                                    return 'Profile with this name already exists';
+                                }
+                                return null;
+                            }
+                        });
+                        if (name) {
+                            const success = await this.filterManager.saveProfileToWorkspace(name);
+                            if (success) {
+                                vscode.window.showInformationMessage(Constants.Messages.Info.ProfileSavedToWorkspace.replace('{0}', name));
+                            } else {
+                                vscode.window.showErrorMessage(Constants.Messages.Error.ProfileSaveToWorkspaceFailed.replace('{0}', name));
+                            }
+                        }
+
                     } else {
                         // Switch Profile
                         const profileName = label.replace('$(check) ', '').trim();
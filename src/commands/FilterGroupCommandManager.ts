@@ -3,6 +3,8 @@ import { Constants } from '../Constants';
 import { FilterManager } from '../services/FilterManager';
 import { FilterGroup, FilterItem } from '../models/Filter';
 import { Logger } from '../services/Logger';
+import { FilterExpression } from '../utils/FilterExpression';
+import { RegexUtils } from '../utils/RegexUtils';
 
 export class FilterGroupCommandManager {
     constructor(
@@ -47,6 +49,12 @@ export class FilterGroupCommandManager {
             }
         }));
 
+        this.context.subscriptions.push(vscode.commands.registerCommand(Constants.Commands.OverrideInheritedGroup, (group: FilterGroup) => {
+            if (group) {
+                this.filterManager.overrideGroup(group.id);
+            }
+        }));
+
         this.context.subscriptions.push(vscode.commands.registerCommand(Constants.Commands.ToggleGroup, (group: FilterGroup) => {
             if (group) {
                 this.filterManager.toggleGroup(group.id);
@@ -80,10 +88,37 @@ export class FilterGroupCommandManager {
             }
         }));
 
+        this.context.subscriptions.push(vscode.commands.registerCommand(Constants.Commands.SetGroupMatchModeAny, (group: FilterGroup) => {
+            if (group) {
+                this.filterManager.setGroupMatchMode(group.id, 'any');
+            }
+        }));
+
+        this.context.subscriptions.push(vscode.commands.registerCommand(Constants.Commands.SetGroupMatchModeAll, (group: FilterGroup) => {
+            if (group) {
+                this.filterManager.setGroupMatchMode(group.id, 'all');
+            }
+        }));
+
+        this.context.subscriptions.push(vscode.commands.registerCommand(Constants.Commands.EditGroupMatchExpression, async (group: FilterGroup) => {
+            if (!group) {
+                return;
+            }
+            const expression = await vscode.window.showInputBox({
+                prompt: Constants.Prompts.EnterGroupMatchExpression.replace('{0}', group.name),
+                placeHolder: Constants.PlaceHolders.GroupMatchExpression,
+                value: group.expression ? FilterExpression.format(group.expression, group.filters, 'position') : '',
+                validateInput: (value) => value.trim() ? FilterExpression.validate(value, group.filters) : undefined
+            });
+            if (expression !== undefined) {
+                this.filterManager.setGroupExpression(group.id, expression);
+            }
+        }));
+
         this.context.subscriptions.push(vscode.commands.registerCommand(Constants.Commands.CopyGroupEnabledItems, async (group: FilterGroup) => {
             await this.copyToClipboard(
                 group,
-                (items) => items.map(f => f.keyword).join('\n'),
+                (items) => items.flatMap(f => RegexUtils.getKeywords(f.keyword)).join('\n'),
                 Constants.Messages.Info.CopiedItems
             );
         }));
@@ -91,7 +126,7 @@ export class FilterGroupCommandManager {
         this.context.subscriptions.push(vscode.commands.registerCommand(Constants.Commands.CopyGroupEnabledItemsSingleLine, async (group: FilterGroup) => {
             await this.copyToClipboard(
                 group,
-                (items) => items.map(f => f.keyword).join(' '), // Use space as delimiter
+                (items) => items.flatMap(f => RegexUtils.getKeywords(f.keyword)).join(' '), // Use space as delimiter
                 Constants.Messages.Info.CopiedItemsSingleLine
             );
         }));
@@ -99,7 +134,7 @@ export class FilterGroupCommandManager {
         this.context.subscriptions.push(vscode.commands.registerCommand(Constants.Commands.CopyGroupEnabledItemsWithTag, async (group: FilterGroup) => {
             await this.copyToClipboard(
                 group,
-                (items) => items.map(f => `tag:${f.keyword}`).join(' '),
+                (items) => items.flatMap(f => RegexUtils.getKeywords(f.keyword)).map(k => `tag:${k}`).join(' '),
                 Constants.Messages.Info.CopiedItemsTags
             );
         }));
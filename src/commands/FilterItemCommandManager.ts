@@ -1,8 +1,13 @@
 import * as vscode from 'vscode';
 import { Constants } from '../Constants';
 import { FilterManager } from '../services/FilterManager';
-import { FilterGroup, FilterItem, FilterType } from '../models/Filter';
+import { FieldCondition, FilterGroup, FilterItem, FilterType, TimeRange } from '../models/Filter';
 import { Logger } from '../services/Logger';
+import { TimestampUtils } from '../utils/TimestampUtils';
+import { LogFieldUtils } from '../utils/LogFieldUtils';
+import { KeywordOptions, RegexUtils } from '../utils/RegexUtils';
+import { LogTemplateUtils, TemplateToken } from '../utils/LogTemplateUtils';
+import { FilterPreviewQuickPick } from '../views/FilterPreviewQuickPick';
 
 export class FilterItemCommandManager {
     constructor(
@@ -35,7 +40,7 @@ export class FilterItemCommandManager {
             return group.id;
         }
 
-        const groups = this.filterManager.getGroups().filter(g => isRegex ? g.isRegex : !g.isRegex);
+        const groups = this.filterManager.getGroups().filter(g => (isRegex ? g.isRegex : !g.isRegex) && !g.inheritedFrom);
         if (groups.length === 0) {
             vscode.window.showErrorMessage(Constants.Messages.Error.NoFilterGroups.replace('{0}', isRegex ? 'Regex' : 'Word'));
             return undefined;
@@ -44,6 +49,218 @@ export class FilterItemCommandManager {
         return selected?.id;
     }
 
+    /**
+     * Adds keywords from the editor to the focused word group, or to a new group named after the first one.
+     * Each keyword becomes its own filter; keywords the group already has are skipped with a warning.
+     */
+    private addKeywordsFromEditor(keywords: string[], options?: KeywordOptions) {
+        // Check for focused group in Word Search view
+        const focusedItem = this.wordTreeView.selection[0];
+        let targetGroup: FilterGroup | undefined;
+
+        if (focusedItem) {
+            // Determine group from focused item
+            if ((focusedItem as FilterGroup).filters !== undefined) {
+                // It is a group
+                targetGroup = this.filterManager.getGroups().find(g => g.id === focusedItem.id);
+            } else {
+                // It is an item, find its parent group
+                targetGroup = this.filterManager.findGroupByFilterId(focusedItem.id);
+            }
+        }
+
+        if (targetGroup && (targetGroup.isRegex || targetGroup.inheritedFrom)) {
+            // Cannot add simple text selection to regex group as-is.
+            // Assume we only target Word Filter groups context.
+            targetGroup = undefined;
+        }
+
+        if (!targetGroup) {
+            // Create new group with keyword name
+            // If group doesn't exist, create it.
+            const name = keywords[0];
+            targetGroup = this.filterManager.addGroup(name, false)
+                // Group with same name exists.
+                ?? this.filterManager.getGroups().find(g => g.name === name && !g.isRegex && !g.inheritedFrom);
+        }
+
+        if (!targetGroup) {
+            return;
+        }
+
+        const groupId = targetGroup.id;
+        for (const keyword of keywords) {
+            // Check for duplicate keyword regardless of type
+            const group = this.filterManager.getGroups().find(g => g.id === groupId);
+            if (group?.filters.some(f => f.keyword.toLowerCase() === keyword.toLowerCase())) {
+                vscode.window.showWarningMessage(Constants.Messages.Warn.FilterAlreadyExistsInGroup.replace('{0}', keyword).replace('{1}', group.name));
+                continue;
+            }
+            this.filterManager.addFilter(groupId, keyword, Constants.FilterTypes.Include as FilterType, false, undefined, options);
+        }
+    }
+
+    /**
+     * Shows the volatile tokens of a line for review; the checked ones become placeholders of the template.
+     * @returns The message template, or undefined if the review was cancelled
+     */
+    private async promptTemplate(line: string): Promise<string | undefined> {
+        const tokens = LogTemplateUtils.findVolatileTokens(line);
+        if (tokens.length === 0) {
+            vscode.window.showInformationMessage(Constants.Messages.Info.NoVolatileTokens);
+            return undefined;
+        }
+
+        const picker = vscode.window.createQuickPick<vscode.QuickPickItem & { token: TemplateToken }>();
+        picker.canSelectMany = true;
+        picker.ignoreFocusOut = true;
+        picker.items = tokens.map(token => ({ label: token.text, description: token.placeholder, token }));
+        picker.selectedItems = picker.items;
+        const updatePlaceholder = () => {
+            picker.placeholder = Constants.Prompts.ReviewTemplateTokens.replace('{0}', LogTemplateUtils.toTemplate(line, picker.selectedItems.map(item => item.token)));
+        };
+        updatePlaceholder();
+
+        return new Promise<string | undefined>(resolve => {
+            let accepted = false;
+            picker.onDidChangeSelection(updatePlaceholder);
+            picker.onDidAccept(() => {
+                accepted = true;
+                resolve(LogTemplateUtils.toTemplate(line, picker.selectedItems.map(item => item.token)));
+                picker.hide();
+            });
+            picker.onDidHide(() => {
+                if (!accepted) {
+                    resolve(undefined);
+                }
+                picker.dispose();
+            });
+            picker.show();
+        });
+    }
+
+    // Keywords on the lines of the clipboard, without duplicates
+    private async readClipboardKeywords(): Promise<string[]> {
+        const text = await vscode.env.clipboard.readText();
+        return Array.from(new Set(text.split(/\r?\n/).map(k => k.trim()).filter(k => k.length > 0)));
+    }
+
+    /**
+     * Edits a keyword list: unchecked keywords are removed, and the lines on the clipboard can be added.
+     * @returns The new keywords, or undefined if the edit was cancelled
+     */
+    private async promptKeywordList(item: FilterItem, group: FilterGroup): Promise<string[] | undefined> {
+        const picks = await vscode.window.showQuickPick([
+            { label: '$(clippy) Add the lines on the clipboard', keyword: undefined },
+            ...RegexUtils.getKeywords(item.keyword).map(keyword => ({ label: keyword, keyword, picked: true }))
+        ], {
+            canPickMany: true,
+            title: item.nickname || group.name,
+            placeHolder: Constants.Prompts.EditKeywordList
+        });
+        if (!picks) {
+            return undefined;
+        }
+
+        const keywords = picks.flatMap(p => p.keyword !== undefined ? [p.keyword] : []);
+        if (picks.some(p => p.keyword === undefined)) {
+            keywords.push(...await this.readClipboardKeywords());
+        }
+        return Array.from(new Set(keywords));
+    }
+
+    private async promptTimeRange(initial?: TimeRange): Promise<TimeRange | undefined> {
+        const validateBound = (value: string) => !value.trim() || TimestampUtils.parseBound(value) ? null : Constants.Messages.Error.InvalidTimestamp;
+
+        const start = await vscode.window.showInputBox({
+            prompt: Constants.Prompts.EnterTimeRangeStart,
+            placeHolder: Constants.PlaceHolders.TimeRangeStart,
+            value: initial?.start ?? '',
+            validateInput: validateBound
+        });
+        if (start === undefined) {
+            return undefined;
+        }
+
+        const end = await vscode.window.showInputBox({
+            prompt: Constants.Prompts.EnterTimeRangeEnd,
+            placeHolder: Constants.PlaceHolders.TimeRangeEnd,
+            value: initial?.end ?? '',
+            validateInput: (value) => validateBound(value) ?? (!start.trim() && !value.trim() ? Constants.Messages.Error.TimeRangeEmpty : null)
+        });
+        if (end === undefined) {
+            return undefined;
+        }
+
+        const pattern = await vscode.window.showInputBox({
+            prompt: Constants.Prompts.EnterTimeRangePattern,
+            placeHolder: Constants.PlaceHolders.TimeRangePattern,
+            value: initial?.pattern ?? '',
+            validateInput: (value) => {
+                try {
+                    new RegExp(value);
+                    return null;
+                } catch (_e) {
+                    return Constants.Messages.Error.InvalidRegularExpression;
+                }
+            }
+        });
+        if (pattern === undefined) {
+            return undefined;
+        }
+
+        return { start: start.trim() || undefined, end: end.trim() || undefined, pattern: pattern.trim() || undefined };
+    }
+
+    private async promptFieldCondition(initial?: string): Promise<FieldCondition | undefined> {
+        const text = await vscode.window.showInputBox({
+            prompt: Constants.Prompts.EnterFieldCondition,
+            placeHolder: Constants.PlaceHolders.FieldCondition,
+            value: initial ?? '',
+            validateInput: (value) => {
+                try {
+                    const condition = LogFieldUtils.parseCondition(value);
+                    if (condition.operator === 'matches') {
+                        new RegExp(condition.value);
+                    }
+                    return null;
+                } catch (e) {
+                    return Constants.Messages.Error.InvalidFieldCondition.replace('{0}', e instanceof Error ? e.message : String(e));
+                }
+            }
+        });
+        return text === undefined ? undefined : LogFieldUtils.parseCondition(text);
+    }
+
+    // Continuation lines (stack traces, wrapped messages) belong to the closest timestamp above them
+    private findTimestampAbove(document: vscode.TextDocument, line: number): string | undefined {
+        for (let i = line; i >= 0; i--) {
+            const timestamp = TimestampUtils.extract(document.lineAt(i).text);
+            if (timestamp) {
+                return timestamp;
+            }
+        }
+        return undefined;
+    }
+
+    // Prefers the time range filter selected in the Word Search view, then the first enabled one
+    private findTimeRangeFilter(): { filter: FilterItem, groupId: string } | undefined {
+        const focusedItem = this.wordTreeView.selection[0];
+        if (focusedItem && (focusedItem as FilterItem).kind === 'timeRange') {
+            const group = this.filterManager.findGroupByFilterId(focusedItem.id);
+            if (group) {
+                return { filter: focusedItem as FilterItem, groupId: group.id };
+            }
+        }
+        for (const group of this.filterManager.getGroups()) {
+            const filter = group.filters.find(f => f.kind === 'timeRange' && f.isEnabled);
+            if (group.isEnabled && !group.inheritedFrom && filter) {
+                return { filter, groupId: group.id };
+            }
+        }
+        return undefined;
+    }
+
     private registerCommands() {
         this.context.subscriptions.push(vscode.commands.registerCommand(Constants.Commands.EditFilterItem, async (item: FilterItem) => {
             if (!item) {
@@ -57,6 +274,22 @@ export class FilterItemCommandManager {
                 return;
             }
 
+            if (item.kind === 'timeRange') {
+                const range = await this.promptTimeRange(item.timeRange);
+                if (range) {
+                    this.filterManager.updateTimeRange(group.id, item.id, range);
+                }
+                return;
+            }
+
+            if (item.kind === 'field') {
+                const condition = await this.promptFieldCondition(item.keyword);
+                if (condition) {
+                    this.filterManager.updateFieldCondition(group.id, item.id, condition);
+                }
+                return;
+            }
+
             if (group.isRegex) {
                 // Regex Filter: 2-step edit (Name -> Regex)
                 const newNickname = await vscode.window.showInputBox({
@@ -68,17 +301,12 @@ export class FilterItemCommandManager {
                     return;
                 }
 
-                const newPattern = await vscode.window.showInputBox({
+                const newPattern = await FilterPreviewQuickPick.show({
+                    title: newNickname || group.name,
                     prompt: Constants.Prompts.EnterRegexPattern,
                     value: item.keyword,
-                    validateInput: (value) => {
-                        try {
-                            new RegExp(value);
-                            return null;
-                        } catch (_e) {
-                            return Constants.Messages.Error.InvalidRegularExpression;
-                        }
-                    }
+                    isRegex: true,
+                    caseSensitive: item.caseSensitive
                 });
 
                 if (newPattern === undefined) {
@@ -92,11 +320,24 @@ export class FilterItemCommandManager {
                     });
                 }
 
+            } else if (item.keyword.includes('\n')) {
+                const keywords = await this.promptKeywordList(item, group);
+                if (keywords && keywords.length > 0) {
+                    this.filterManager.updateFilter(group.id, item.id, {
+                        keyword: keywords.join('\n')
+                    });
+                }
             } else {
                 // Word Filter: simple keyword edit
-                const newKeyword = await vscode.window.showInputBox({
+                const newKeyword = await FilterPreviewQuickPick.show({
+                    title: group.name,
                     prompt: Constants.Prompts.EnterNewKeyword,
-                    value: item.keyword
+                    value: item.keyword,
+                    isRegex: false,
+                    caseSensitive: item.caseSensitive,
+                    wholeWord: item.wholeWord,
+                    wildcard: item.wildcard,
+                    template: item.template
                 });
 
                 if (newKeyword && newKeyword !== item.keyword) {
@@ -113,7 +354,11 @@ export class FilterItemCommandManager {
                 return;
             }
 
-            const keyword = await vscode.window.showInputBox({ prompt: Constants.Prompts.EnterFilterKeyword });
+            const keyword = await FilterPreviewQuickPick.show({
+                title: this.filterManager.getGroups().find(g => g.id === targetGroupId)?.name ?? '',
+                prompt: Constants.Prompts.EnterFilterKeyword,
+                isRegex: false
+            });
             if (!keyword) {
                 return;
             }
@@ -136,16 +381,10 @@ export class FilterItemCommandManager {
                 return;
             }
 
-            const pattern = await vscode.window.showInputBox({
+            const pattern = await FilterPreviewQuickPick.show({
+                title: nickname,
                 prompt: Constants.Prompts.EnterRegexPattern,
-                validateInput: (value) => {
-                    try {
-                        new RegExp(value);
-                        return null;
-                    } catch (_e) {
-                        return Constants.Messages.Error.InvalidRegularExpression;
-                    }
-                }
+                isRegex: true
             });
             if (!pattern) {
                 return;
@@ -157,6 +396,99 @@ export class FilterItemCommandManager {
             }
         }));
 
+        this.context.subscriptions.push(vscode.commands.registerCommand(Constants.Commands.AddTimeRangeFilter, async (group: FilterGroup | undefined) => {
+            const targetGroupId = await this.ensureGroupId(group, !!group?.isRegex);
+            if (!targetGroupId) {
+                return;
+            }
+
+            const range = await this.promptTimeRange();
+            if (range) {
+                this.filterManager.addTimeRangeFilter(targetGroupId, range);
+            }
+        }));
+
+        this.context.subscriptions.push(vscode.commands.registerCommand(Constants.Commands.AddFieldFilter, async (group: FilterGroup | undefined) => {
+            const targetGroupId = await this.ensureGroupId(group, !!group?.isRegex);
+            if (!targetGroupId) {
+                return;
+            }
+
+            const condition = await this.promptFieldCondition();
+            if (!condition) {
+                return;
+            }
+
+            const filter = this.filterManager.addFieldFilter(targetGroupId, condition);
+            if (!filter) {
+                const keyword = LogFieldUtils.formatCondition(condition);
+                vscode.window.showErrorMessage(Constants.Messages.Error.FilterExistsInGroup.replace('{0}', keyword).replace('{1}', Constants.FilterTypes.Include));
+            }
+        }));
+
+        this.context.subscriptions.push(vscode.commands.registerCommand(Constants.Commands.AddKeywordList, async (group: FilterGroup | undefined) => {
+            const targetGroupId = await this.ensureGroupId(group, false);
+            if (!targetGroupId) {
+                return;
+            }
+
+            const keywords = await this.readClipboardKeywords();
+            if (keywords.length === 0) {
+                vscode.window.showInformationMessage(Constants.Messages.Info.ClipboardHasNoKeywords);
+                return;
+            }
+
+            const nickname = await vscode.window.showInputBox({
+                prompt: Constants.Prompts.EnterKeywordListName,
+                placeHolder: keywords.join(', ')
+            });
+            if (nickname === undefined) {
+                return;
+            }
+
+            const type = Constants.FilterTypes.Include as FilterType;
+            const filter = this.filterManager.addFilter(targetGroupId, keywords.join('\n'), type, false, nickname || undefined);
+            if (!filter) {
+                vscode.window.showErrorMessage(Constants.Messages.Error.FilterExistsInGroup.replace('{0}', nickname || keywords.join(', ')).replace('{1}', type));
+            }
+        }));
+
+        this.context.subscriptions.push(vscode.commands.registerCommand(Constants.Commands.SetTimeRangeFromSelection, async () => {
+            const editor = vscode.window.activeTextEditor;
+            if (!editor || editor.selection.isEmpty) {
+                vscode.window.showInformationMessage(Constants.Messages.Info.SelectTextFirst);
+                return;
+            }
+
+            const { start, end } = editor.selection;
+            // A selection of whole lines ends at column 0 of the following line
+            const lastLine = end.character === 0 && end.line > start.line ? end.line - 1 : end.line;
+            const startText = this.findTimestampAbove(editor.document, start.line);
+            const endText = this.findTimestampAbove(editor.document, lastLine);
+            if (!startText || !endText) {
+                vscode.window.showWarningMessage(Constants.Messages.Warn.NoTimestampInSelection);
+                return;
+            }
+
+            const target = this.findTimeRangeFilter();
+            if (target) {
+                // The custom pattern describes the log, not the window, so it is kept
+                this.filterManager.updateTimeRange(target.groupId, target.filter.id, { start: startText, end: endText, pattern: target.filter.timeRange?.pattern });
+            } else {
+                let group = this.filterManager.getGroups().find(g => g.isEnabled && !g.isRegex && !g.inheritedFrom);
+                if (!group) {
+                    group = this.filterManager.addGroup('Time Range', false)
+                        ?? this.filterManager.getGroups().find(g => g.name === 'Time Range' && !g.isRegex && !g.inheritedFrom);
+                }
+                if (!group) {
+                    return;
+                }
+                this.filterManager.addTimeRangeFilter(group.id, { start: startText, end: endText });
+            }
+
+            vscode.window.setStatusBarMessage(Constants.Messages.Info.TimeRangeSet.replace('{0}', TimestampUtils.formatRange({ start: startText, end: endText })), 3000);
+        }));
+
         this.context.subscriptions.push(vscode.commands.registerCommand(Constants.Commands.AddSelectionToFilter, async () => {
             const editor = vscode.window.activeTextEditor;
             if (!editor || editor.selection.isEmpty) {
@@ -169,68 +501,45 @@ export class FilterItemCommandManager {
                 return;
             }
 
-            // Check for focused group in Word Search view
-            const focusedItem = this.wordTreeView.selection[0];
-            let targetGroupId: string | undefined;
-
-            if (focusedItem) {
-                // Determine group ID from focused item
-                if ((focusedItem as FilterGroup).filters !== undefined) {
-                    // It is a group
-                    targetGroupId = focusedItem.id;
-                } else {
-                    // It is an item, find its parent group
-                    const parentGroup = this.filterManager.findGroupByFilterId(focusedItem.id);
-                    if (parentGroup) {
-                        targetGroupId = parentGroup.id;
-                    }
-                }
+            const keywords = RegexUtils.getKeywords(selectedText);
+            if (keywords.length === 0) {
+                return;
+            }
+            if (keywords.length === 1) {
+                this.addKeywordsFromEditor(keywords);
+                return;
             }
 
-            if (targetGroupId) {
-                // Add to existing group
-                // Check if it's a regex group.
-                // Requirement implies "Word filters".
-                const targetGroup = this.filterManager.getGroups().find(g => g.id === targetGroupId);
-                if (targetGroup) {
-                    if (targetGroup.isRegex) {
-                        // Cannot add simple text selection to regex group as-is.
-                        // Assume we only target Word Filter groups context.
-                        targetGroupId = undefined;
-                    } else {
-                        // Check for duplicate keyword regardless of type
-                        const existingFilter = targetGroup.filters.find(f => f.keyword.toLowerCase() === selectedText.toLowerCase());
-                        if (existingFilter) {
-                            vscode.window.showWarningMessage(Constants.Messages.Warn.FilterAlreadyExistsInGroup.replace('{0}', selectedText).replace('{1}', targetGroup.name));
-                            return;
-                        }
-                    }
-                }
+            // A multi-line selection can be several filters or a single keyword list matching any of its lines.
+            const choice = await vscode.window.showQuickPick([
+                { label: Constants.Labels.FilterPerLine, perLine: true },
+                { label: Constants.Labels.KeywordList, perLine: false }
+            ], {
+                placeHolder: Constants.Prompts.SelectMultiLineSelection.replace('{0}', String(keywords.length))
+            });
+            if (!choice) {
+                return;
             }
+            this.addKeywordsFromEditor(choice.perLine ? keywords : [keywords.join('\n')]);
+        }));
 
-            if (!targetGroupId) {
-                // Create new group with keyword name
-                // If group doesn't exist, create it.
-                const newGroup = this.filterManager.addGroup(selectedText, false);
-                if (newGroup) {
-                    targetGroupId = newGroup.id;
-                } else {
-                    // Group with same name exists.
-                    const existingGroup = this.filterManager.getGroups().find(g => g.name === selectedText && !g.isRegex);
-                    if (existingGroup) {
-                        targetGroupId = existingGroup.id;
-                        // Check for duplicate in this existing group as well, just in case
-                        const existingFilter = existingGroup.filters.find(f => f.keyword.toLowerCase() === selectedText.toLowerCase());
-                        if (existingFilter) {
-                            vscode.window.showWarningMessage(Constants.Messages.Warn.FilterAlreadyExistsInGroup.replace('{0}', selectedText).replace('{1}', existingGroup.name));
-                            return;
-                        }
-                    }
-                }
+        this.context.subscriptions.push(vscode.commands.registerCommand(Constants.Commands.AddSelectionAsTemplate, async () => {
+            const editor = vscode.window.activeTextEditor;
+            if (!editor) {
+                return;
+            }
+            // Without a selection, the template is taken from the line at the cursor
+            const text = (editor.selection.isEmpty
+                ? editor.document.lineAt(editor.selection.active.line).text
+                : editor.document.getText(editor.selection).split(/\r?\n/)[0]).trim();
+            if (!text) {
+                vscode.window.showInformationMessage(Constants.Messages.Info.SelectTextFirst);
+                return;
             }
 
-            if (targetGroupId) {
-                this.filterManager.addFilter(targetGroupId, selectedText, Constants.FilterTypes.Include as FilterType, false);
+            const template = await this.promptTemplate(text);
+            if (template) {
+                this.addKeywordsFromEditor([template], { template: true });
             }
         }));
 
@@ -3,6 +3,7 @@ import { Constants } from '../Constants';
 import { FilterManager } from '../services/FilterManager';
 import { FilterItem, FilterType } from '../models/Filter';
 import { IconUtils } from '../utils/IconUtils';
+import { RegexUtils } from '../utils/RegexUtils';
 
 export class FilterPropertyCommandManager {
     constructor(
@@ -86,6 +87,33 @@ export class FilterPropertyCommandManager {
         this.context.subscriptions.push(vscode.commands.registerCommand(Constants.Commands.SetFilterCaseSensitivity.On, setCaseSensitivityHandler(true)));
         this.context.subscriptions.push(vscode.commands.registerCommand(Constants.Commands.SetFilterCaseSensitivity.Off, setCaseSensitivityHandler(false)));
 
+        this.context.subscriptions.push(vscode.commands.registerCommand(Constants.Commands.SetKeywordOptions, async (item: FilterItem) => {
+            const targetGroup = item && this.filterManager.findGroupByFilterId(item.id);
+            if (!targetGroup) {
+                return;
+            }
+            if (item.isRegex || (item.kind && item.kind !== 'keyword')) {
+                vscode.window.showInformationMessage(Constants.Messages.Info.KeywordOptionsWordFiltersOnly);
+                return;
+            }
+
+            const picks = await vscode.window.showQuickPick([
+                { label: 'Whole Word', description: 'Not as part of a longer word', option: 'wholeWord' as const, picked: !!item.wholeWord },
+                { label: 'Wildcards', description: '* matches any text, ? any one character', option: 'wildcard' as const, picked: !!item.wildcard },
+                { label: 'Message Template', description: '<num>, <hex>, <uuid> and <dur> match any such token', option: 'template' as const, picked: !!item.template }
+            ], {
+                canPickMany: true,
+                placeHolder: Constants.Prompts.SelectKeywordOptions.replace('{0}', item.nickname || RegexUtils.getKeywords(item.keyword).join(', '))
+            });
+            if (picks) {
+                this.filterManager.setKeywordOptions(targetGroup.id, item.id, {
+                    wholeWord: picks.some(p => p.option === 'wholeWord'),
+                    wildcard: picks.some(p => p.option === 'wildcard'),
+                    template: picks.some(p => p.option === 'template')
+                });
+            }
+        }));
+
         const toggleContextLineHandler = (item: FilterItem) => {
             const targetGroup = this.filterManager.findGroupByFilterId(item.id);
 
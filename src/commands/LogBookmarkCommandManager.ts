@@ -249,6 +249,10 @@ export class LogBookmarkCommandManager {
         if (!filter) {
             return;
         }
+        if (filter.kind && filter.kind !== 'keyword') {
+            vscode.window.showInformationMessage(Constants.Messages.Info.FilterNotSearchable);
+            return;
+        }
 
         const editor = await this.getActiveEditor();
         if (!editor) { return; }
@@ -261,7 +265,7 @@ export class LogBookmarkCommandManager {
         const config = vscode.workspace.getConfiguration(Constants.Configuration.Section);
         const MAX_MATCHES = config.get<number>(Constants.Configuration.Bookmark.MaxMatches, 500);
 
-        const regex = RegexUtils.create(keyword, !!filter.isRegex, !!filter.caseSensitive);
+        const regex = RegexUtils.create(keyword, !!filter.isRegex, !!filter.caseSensitive, filter);
         const matchedLines: number[] = [];
         this.findMatchingLines(editor.document, regex, MAX_MATCHES + 1, (line) => matchedLines.push(line));
 
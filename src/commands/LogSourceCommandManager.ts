@@ -0,0 +1,140 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { Constants } from '../Constants';
+import { LogProcessor } from '../services/LogProcessor';
+import { SourceMapService } from '../services/SourceMapService';
+import { Logger } from '../services/Logger';
+import { GeneratedFileService } from '../services/GeneratedFileService';
+import { LogMergeCore, MergeOrder, MergeSource } from '../services/LogMergeCore';
+import { ArchiveEntryContentProvider } from '../providers/ArchiveEntryContentProvider';
+
+export class LogSourceCommandManager {
+
+    constructor(
+        private context: vscode.ExtensionContext,
+        private logProcessor: LogProcessor,
+        private sourceMapService: SourceMapService,
+        private logger: Logger
+    ) {
+        this.registerCommands();
+    }
+
+    private registerCommands() {
+        // From the explorer, VS Code passes the clicked file and all selected files
+        this.context.subscriptions.push(vscode.commands.registerCommand(Constants.Commands.MergeLogFiles, async (_uri?: vscode.Uri, uris?: vscode.Uri[]) => {
+            const selected = uris && uris.length > 1 ? uris : await this.pickFiles();
+            if (!selected) {
+                return;
+            }
+            if (selected.length < 2) {
+                vscode.window.showWarningMessage(Constants.Messages.Warn.MergeNeedsFiles);
+                return;
+            }
+            await this.mergeFiles(selected);
+        }));
+    }
+
+    private async pickFiles(): Promise<vscode.Uri[] | undefined> {
+        const choice = await vscode.window.showQuickPick([
+            { label: '$(files) Select Files...', id: 'files' },
+            { label: '$(search) Enter Glob Pattern...', id: 'glob' }
+        ], { placeHolder: Constants.Prompts.SelectMergeInput });
+
+        if (!choice) {
+            return undefined;
+        }
+
+        if (choice.id === 'files') {
+            return vscode.window.showOpenDialog({
+                canSelectMany: true,
+                canSelectFolders: false,
+                openLabel: Constants.Prompts.SelectMergeFiles
+            });
+        }
+
+        const pattern = await vscode.window.showInputBox({
+            prompt: Constants.Prompts.EnterMergeGlob,
+            placeHolder: Constants.PlaceHolders.MergeGlob
+        });
+        if (!pattern) {
+            return undefined;
+        }
+
+        const found = await vscode.workspace.findFiles(pattern);
+        if (found.length === 0) {
+            vscode.window.showWarningMessage(Constants.Messages.Warn.MergeNoFilesMatched.replace('{0}', pattern));
+            return undefined;
+        }
+        return found;
+    }
+
+    private async mergeFiles(uris: vscode.Uri[]) {
+        // Archives with several entries ask which entry to use
+        const sources: MergeSource[] = [];
+        for (const uri of uris) {
+            const source = await ArchiveEntryContentProvider.resolveSource(uri);
+            if (!source) {
+                return;
+            }
+            sources.push({ path: source.path, entry: source.entry });
+        }
+
+        const ordered = LogMergeCore.sortByRotation(sources);
+        const orderChoice = await vscode.window.showQuickPick([
+            { label: 'Rotation Order', description: 'Concatenate oldest first (app.log.2, app.log.1, app.log)', order: 'concat' as MergeOrder },
+            { label: 'Interleave by Timestamp', description: 'Sort lines from all files by their timestamp', order: 'timestamp' as MergeOrder }
+        ], { placeHolder: Constants.Prompts.SelectMergeOrder.replace('{0}', ordered.length.toString()) });
+
+        if (!orderChoice) {
+            return;
+        }
+
+        let result: Awaited<ReturnType<LogProcessor['mergeFiles']>> | undefined;
+        try {
+            result = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: Constants.Messages.Info.MergingLogFiles.replace('{0}', ordered.length.toString()),
+                cancellable: true
+            }, async (progress, token) => {
+                let reportedPercent = 0;
+                return this.logProcessor.mergeFiles(ordered, orderChoice.order, {
+                    token,
+                    onProgress: (bytesRead, totalBytes) => {
+                        const percent = totalBytes > 0 ? Math.min(100, Math.floor((bytesRead / totalBytes) * 100)) : 100;
+                        if (percent > reportedPercent) {
+                            progress.report({ increment: percent - reportedPercent, message: `${percent}%` });
+                            reportedPercent = percent;
+                        }
+                    }
+                });
+            });
+        } catch (error) {
+            if (error instanceof vscode.CancellationError) {
+                vscode.window.setStatusBarMessage(Constants.Messages.Info.MergeCancelled, 3000);
+                return;
+            }
+            this.logger.error(`Failed to merge log files: ${error}`);
+            vscode.window.showErrorMessage(Constants.Messages.Error.MergeFailed.replace('{0}', error instanceof Error ? error.message : String(error)));
+            return;
+        }
+
+        const mergedUri = vscode.Uri.file(result.outputPath);
+        GeneratedFileService.getInstance().track(result.outputPath, 'merge');
+        this.logger.info(`Merged ${ordered.map(s => path.basename(s.path)).join(', ')} into ${result.outputPath}`);
+
+        const doc = await vscode.workspace.openTextDocument(mergedUri);
+        if (doc.languageId !== 'log') {
+            try {
+                await vscode.languages.setTextDocumentLanguage(doc, 'log');
+            } catch (_e) { /* ignore */ }
+        }
+        await vscode.window.showTextDocument(doc, { preview: false });
+
+        // Registered after the language switch, which closes and reopens the document
+        this.sourceMapService.registerMerged(mergedUri, result.sourceUris, result.sourceIndexes, result.lineMapping);
+        this.sourceMapService.updateContextKey(vscode.window.activeTextEditor);
+
+        const timeout = vscode.workspace.getConfiguration(Constants.Configuration.Section).get<number>(Constants.Configuration.StatusBarTimeout) || 5000;
+        vscode.window.setStatusBarMessage(Constants.Messages.Info.MergeCompleted.replace('{0}', ordered.length.toString()).replace('{1}', result.lineCount.toLocaleString()), timeout);
+    }
+}
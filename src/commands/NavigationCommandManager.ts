@@ -1,13 +1,14 @@
 
 import * as vscode from 'vscode';
+import * as path from 'path';
 
 import { Constants } from '../Constants';
-import { FileHierarchyService } from '../services/FileHierarchyService';
+import { FileHierarchyService, HierarchyNode } from '../services/FileHierarchyService';
 import { Logger } from '../services/Logger';
 
 interface HierarchyQuickPickItem extends vscode.QuickPickItem {
     _uri: vscode.Uri;
-    _type: 'original' | 'filter' | 'bookmark';
+    _type: HierarchyNode['type'] | 'source'; // 'source': an original file of a merged source
 }
 
 export class NavigationCommandManager {
@@ -71,6 +72,7 @@ export class NavigationCommandManager {
                 const indent = '\u2007\u2007'.repeat(depth);
                 let icon = '$(file)';
                 if (node.type === 'original') { icon = '$(home)'; }
+                else if (node.type === 'merged') { icon = '$(files)'; }
                 else if (node.type === 'bookmark') { icon = '$(bookmark)'; }
                 else if (node.type === 'filter') { icon = '$(filter)'; }
 
@@ -84,7 +86,7 @@ export class NavigationCommandManager {
                     buttons: [
                         {
                             iconPath: new vscode.ThemeIcon('trash'),
-                            tooltip: node.type === 'original' ? 'Delete this and all children' : 'Delete this item'
+                            tooltip: node.type === 'original' || node.type === 'merged' ? 'Delete this and all children' : 'Delete this item'
                         }
                     ],
                     _uri: uri,
@@ -93,6 +95,18 @@ export class NavigationCommandManager {
 
                 items.push(item);
 
+                // Original files of a merged source (not hierarchy nodes themselves, so no delete button)
+                const sourceIndent = '\u2007\u2007'.repeat(depth + 1);
+                for (const source of this.hierarchyService.getSources(uri)) {
+                    items.push({
+                        label: `${sourceIndent}$(file) ${path.basename(source.path)}`,
+                        description: 'Source',
+                        detail: source.scheme === 'file' ? source.fsPath : source.toString(),
+                        _uri: source,
+                        _type: 'source'
+                    });
+                }
+
                 const children = this.hierarchyService.getChildren(uri);
                 // Sort children
                 children.sort((a, b) => {
@@ -126,7 +140,7 @@ export class NavigationCommandManager {
             const type = item._type;
 
             if (uri) {
-                const isRecursive = type === 'original';
+                const isRecursive = type === 'original' || type === 'merged';
                 this.hierarchyService.unregister(uri, isRecursive);
                 updateItems();
             }
@@ -134,18 +148,9 @@ export class NavigationCommandManager {
 
         picker.onDidAccept(() => {
             const selection = picker.selectedItems[0];
-            if (selection && selection.detail) {
-                let targetUri: vscode.Uri | undefined;
-
-                if (selection.detail.startsWith('Untitled:') || selection.detail.startsWith('untitled:')) {
-                    targetUri = vscode.Uri.parse(selection.detail);
-                } else {
-                    targetUri = vscode.Uri.file(selection.detail);
-                }
-
-                if (targetUri) {
-                    this.openFile(targetUri);
-                }
+            if (selection) {
+                // Use the item's URI, so non-file sources (e.g. archive entries) open correctly
+                this.openFile(selection._uri);
             }
             picker.dispose();
         });
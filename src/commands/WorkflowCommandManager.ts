@@ -34,8 +34,11 @@ export class WorkflowCommandManager {
 
                 if (document) {
                     // Check scheme
-                    if (document.uri.scheme === 'file' || document.uri.scheme === 'untitled') {
+                    if (document.uri.scheme === 'file' || document.uri.scheme === 'untitled' || document.uri.scheme === Constants.Schemes.Result) {
                         await this.workflowManager.run(activeId, document);
+                    } else if (document.uri.scheme === Constants.Schemes.Archive) {
+                        // Archive entry documents are re-read from the archive
+                        await this.workflowManager.run(activeId, document.uri);
                     } else {
                         vscode.window.showErrorMessage("Workflow can only run on file or untitled documents.");
                     }
@@ -67,10 +70,13 @@ export class WorkflowCommandManager {
                 const document = await EditorUtils.resolveActiveDocument();
 
                 if (document) {
-                    if (document.uri.scheme === 'file' || document.uri.scheme === 'untitled') {
+                    if (document.uri.scheme === 'file' || document.uri.scheme === 'untitled' || document.uri.scheme === Constants.Schemes.Result) {
                         // Set active for visibility
                         await this.workflowManager.setActiveWorkflow(simId);
                         await this.workflowManager.run(simId, document);
+                    } else if (document.uri.scheme === Constants.Schemes.Archive) {
+                        await this.workflowManager.setActiveWorkflow(simId);
+                        await this.workflowManager.run(simId, document.uri);
                     } else {
                         vscode.window.showErrorMessage("Workflow can only run on file or untitled documents.");
                     }
@@ -4,6 +4,9 @@ export const Ids = {
     Schemes: {
         File: 'file',
         Untitled: 'untitled',
+        Archive: 'logmagnifier-archive',
+        Result: 'logmagnifier-result',
+        Extract: 'logmagnifier-extract', // Extraction tables, which have source maps but no documents
     },
 
     Commands: {
@@ -11,8 +14,17 @@ export const Ids = {
         AddRegexFilterGroup: 'logmagnifier.addRegexFilterGroup',
         AddFilter: 'logmagnifier.addFilter',
         AddRegexFilter: 'logmagnifier.addRegexFilter',
+        AddTimeRangeFilter: 'logmagnifier.addTimeRangeFilter',
+        AddFieldFilter: 'logmagnifier.addFieldFilter',
+        AddKeywordList: 'logmagnifier.addKeywordList',
         ApplyWordFilter: 'logmagnifier.applyWordFilter',
         ApplyRegexFilter: 'logmagnifier.applyRegexFilter',
+        FollowWordFilter: 'logmagnifier.followWordFilter',
+        FollowRegexFilter: 'logmagnifier.followRegexFilter',
+        ApplyWordFilterShowDropped: 'logmagnifier.applyWordFilterShowDropped',
+        ApplyRegexFilterShowDropped: 'logmagnifier.applyRegexFilterShowDropped',
+        ExtractRegexFilter: 'logmagnifier.extractRegexFilter',
+        StopFollow: 'logmagnifier.stopFollow',
         DeleteFilter: 'logmagnifier.deleteFilter',
         EnableGroup: 'logmagnifier.enableGroup',
         DisableGroup: 'logmagnifier.disableGroup',
@@ -77,6 +89,8 @@ export const Ids = {
             Off: 'logmagnifier.setFilterCaseSensitivity.off',
         },
 
+        SetKeywordOptions: 'logmagnifier.setKeywordOptions',
+
         SetFilterHighlightMode: {
             Word: 'logmagnifier.setFilterHighlightMode.word',
             Line: 'logmagnifier.setFilterHighlightMode.line',
@@ -94,6 +108,10 @@ export const Ids = {
             Enable: 'logmagnifier.togglePrependLineNumbers.enable',
             Disable: 'logmagnifier.togglePrependLineNumbers.disable',
         },
+        SetRecordStartPattern: 'logmagnifier.setRecordStartPattern',
+        SetLogFormat: 'logmagnifier.setLogFormat',
+        SetCollapseRepeats: 'logmagnifier.setCollapseRepeats',
+        SetSeparateBlocks: 'logmagnifier.setSeparateBlocks',
 
         ToggleWordWrap: 'logmagnifier.toggleWordWrap',
         ToggleMinimap: 'logmagnifier.toggleMinimap',
@@ -107,6 +125,11 @@ export const Ids = {
         ExportRegexFilters: 'logmagnifier.exportRegexFilters',
         ImportRegexFilters: 'logmagnifier.importRegexFilters',
         ManageProfiles: 'logmagnifier.manageProfiles',
+        TogglePinProfile: 'logmagnifier.togglePinProfile',
+        SetProfileLayers: 'logmagnifier.setProfileLayers',
+        OverrideInheritedGroup: 'logmagnifier.overrideInheritedGroup',
+        UndoFilterEdit: 'logmagnifier.undoFilterEdit',
+        RedoFilterEdit: 'logmagnifier.redoFilterEdit',
 
         // ADB Devices
         RefreshDevices: 'logmagnifier.refreshDevices',
@@ -134,6 +157,7 @@ export const Ids = {
         ControlToggleShowTouches: 'logmagnifier.control.toggleShowTouches',
         OpenChromeInspect: 'logmagnifier.openChromeInspect',
         ClearAllData: 'logmagnifier.clearAllData',
+        CleanGeneratedFiles: 'logmagnifier.cleanGeneratedFiles',
 
         ControlAppLaunch: 'logmagnifier.adb.controlApp.launch',
         ControlAppMore: 'logmagnifier.adb.controlApp.more',
@@ -176,6 +200,8 @@ export const Ids = {
         ExportGroup: 'logmagnifier.exportGroup',
         EditFilterItem: 'logmagnifier.editFilterItem',
         AddSelectionToFilter: 'logmagnifier.addSelectionToFilter',
+        AddSelectionAsTemplate: 'logmagnifier.addSelectionAsTemplate',
+        SetTimeRangeFromSelection: 'logmagnifier.setTimeRangeFromSelection',
         RemoveMatchesWithSelection: 'logmagnifier.removeMatchesWithSelection',
         ExpandAllWordGroups: 'logmagnifier.expandAllWordGroups',
         CollapseAllWordGroups: 'logmagnifier.collapseAllWordGroups',
@@ -183,6 +209,9 @@ export const Ids = {
         CollapseAllRegexGroups: 'logmagnifier.collapseAllRegexGroups',
         EnableAllItemsInGroup: 'logmagnifier.enableAllItemsInGroup',
         DisableAllItemsInGroup: 'logmagnifier.disableAllItemsInGroup',
+        SetGroupMatchModeAny: 'logmagnifier.setGroupMatchMode.any',
+        SetGroupMatchModeAll: 'logmagnifier.setGroupMatchMode.all',
+        EditGroupMatchExpression: 'logmagnifier.editGroupMatchExpression',
         ApplyJsonPretty: 'logmagnifier.applyJsonPretty',
 
         // Bookmark internal
@@ -197,6 +226,9 @@ export const Ids = {
         HierarchyShowQuickPick: 'logmagnifier.hierarchy.showQuickPick',
         HierarchyShowFullTree: 'logmagnifier.hierarchy.showFullTree',
 
+        // Log Sources
+        MergeLogFiles: 'logmagnifier.mergeLogFiles',
+
         // Shell Commander
         AddShellGroup: 'logmagnifier.addShellGroup',
         ImportShellGroup: 'logmagnifier.importShellGroup',
@@ -248,6 +280,24 @@ export const Ids = {
         JsonPreviewEnabled: 'jsonPreview.enabled',
         JsonPreviewMaxLines: 'jsonPreview.maxLines',
         StatusBarTimeout: 'statusBarTimeout',
+        Records: {
+            StartPattern: 'records.startPattern',
+            CustomStartPattern: 'records.customStartPattern',
+        },
+        Fields: {
+            Format: 'fields.format',
+            CustomPattern: 'fields.customPattern',
+        },
+        Output: {
+            CollapseRepeats: 'output.collapseRepeats',
+            SeparateBlocks: 'output.separateBlocks',
+            Encoding: 'output.encoding',
+        },
+        GeneratedFiles: {
+            Section: 'generatedFiles',
+            MaxAgeDays: 'generatedFiles.maxAgeDays',
+            MaxSizeMB: 'generatedFiles.maxSizeMB',
+        },
         HighlightColors: {
             Section: 'logmagnifier.highlightColors',
             // Individual colors are constructed dynamically or accessed via loop, but base is here
@@ -256,6 +306,7 @@ export const Ids = {
             Section: 'regex',
             EnableHighlight: 'regex.enableHighlight',
             HighlightColor: 'regex.highlightColor',
+            TimeBudgetMs: 'regex.timeBudgetMs',
             DefaultHighlightColor: 'rgba(255, 255, 0, 0.3)',
         },
         Bookmark: {
@@ -271,6 +322,11 @@ export const Ids = {
             RemoveMatchesMaxLines: 'removeMatches.maxLines',
             LargeFileOptimizations: 'largeFileOptimizations',
         },
+        Profiles: {
+            Section: 'profiles',
+            AutoSelect: 'profiles.autoSelect',
+            AutoSelectLines: 'profiles.autoSelectLines',
+        },
         Adb: {
             Path: 'adbPath',
             DefaultOptions: 'adbLogcatDefaultOptions',
@@ -285,6 +341,9 @@ export const Ids = {
     ContextKeys: {
         PrependLineNumbersEnabled: 'logmagnifier.prependLineNumbersEnabled',
         BookmarkMouseOver: 'logmagnifier.bookmark.mouseOver',
+        FollowedLogs: 'logmagnifier.followedLogs', // Paths of filtered files whose sources are followed
+        CanUndoFilterEdit: 'logmagnifier.canUndoFilterEdit',
+        CanRedoFilterEdit: 'logmagnifier.canRedoFilterEdit',
 
     },
 
@@ -299,11 +358,13 @@ export const Ids = {
         BookmarkFileOrder: 'logmagnifier.bookmarks_fileOrder',
         Workflows: 'logmagnifier.workflows',
         ActiveWorkflow: 'logmagnifier.activeWorkflow',
+        GeneratedFiles: 'logmagnifier.generatedFiles',
     },
 
     Defaults: {
         TempFilePrefix: 'filtered_',
         AdbPath: 'adb',
         AdbDefaultOptions: '-v threadtime',
+        WorkspaceProfileFile: '.vscode/logmagnifier.json',
     },
 } as const;
@@ -17,10 +17,36 @@ export const Messages = {
         SelectLaunchApp: 'Select an installed app to launch',
 
         EnterNewGroupName: 'Enter new group name',
+        SelectArchiveEntry: 'Select a log file inside {0}',
+        SelectMergeInput: 'Select the log files to treat as one source',
+        SelectMergeFiles: 'Merge',
+        EnterMergeGlob: 'Enter a glob pattern for the log files to merge (relative to the workspace)',
+        SelectMergeOrder: 'How should the {0} files be combined?',
+        SelectRecordStart: 'Select how log records start (current: {0})',
+        EnterRecordStartPattern: 'Enter a regex matching the first line of each record',
+        EnterTimeRangeStart: 'Enter the start time (e.g. 14:02:10.500, 01-31 14:02:10 or 2024-01-31T14:02:10). Leave empty for no lower bound.',
+        EnterTimeRangeEnd: 'Enter the end time (inclusive). Leave empty for no upper bound.',
+        EnterFieldCondition: 'Enter a field condition, e.g. level >= W, tag == ActivityManager, pid in (1234, 5678) or message contains timeout',
+        SelectLogFormat: 'Select how lines are split into fields (current: {0})',
+        SelectCollapseRepeats: 'Select how repeated lines are collapsed in filter output (current: {0})',
+        SelectSeparateBlocks: 'Select how blocks of filter output are laid out (current: {0})',
+        EnterFieldPattern: 'Enter a regex whose named groups become the fields of a line',
+        EnterTimeRangePattern: 'Optional: regex with named groups (year, month, day, hour, minute, second, fraction) for custom timestamps. Leave empty to auto-detect.',
+        SelectFollowToStop: 'Select the log to stop following',
+        SelectGeneratedFilesToDelete: 'Select the generated files to delete ({0} kept: bookmarked, with derived results, holding a filter result or open)',
+        ExportExtractedTable: 'Export Extracted Values',
+        EnterGroupMatchExpression: 'Enter match expression for "{0}" (e.g. #1 AND NOT #2). Leave empty to use the match mode.',
         EnterNickname: 'Enter Name (Nickname)',
         EnterNewKeyword: 'Enter new keyword',
+        SelectKeywordOptions: 'Select how \'{0}\' is matched',
+        EditKeywordList: 'Uncheck keywords to remove them from the list',
+        SelectMultiLineSelection: 'The selection has {0} lines. How should they be added?',
+        ReviewTemplateTokens: 'Uncheck the tokens to match literally: {0}',
+        EnterKeywordListName: 'Enter a name for the keyword list (optional)',
         EnterNewProfileName: 'Enter name for new profile',
         EnterDuplicateProfileName: 'Enter name for duplicated profile',
+        EnterWorkspaceProfileName: 'Enter name for the workspace profile',
+        SelectProfileLayers: 'Select the profiles whose groups \'{0}\' inherits',
         SelectGroupsToExport: 'Select Filter Groups to Export',
         SelectOccurrencesHighlightMode: 'Select Occurrences Highlight Mode (Current: {0})',
 
@@ -35,6 +61,14 @@ export const Messages = {
 
     PlaceHolders: {
         SessionName: 'My App Debug',
+        GroupMatchExpression: '(#1 OR "Auth failed") AND NOT timeout',
+        MergeGlob: 'logs/app.log*',
+        RecordStartPattern: '^\\d{4}-\\d{2}-\\d{2} ',
+        FieldCondition: 'level >= W',
+        FieldPattern: '^(?<time>\\S+) (?<level>\\w+) (?<message>.*)$',
+        TimeRangeStart: '14:02:10.500',
+        TimeRangeEnd: '14:03:00',
+        TimeRangePattern: '^(?<hour>\\d{2})(?<minute>\\d{2})(?<second>\\d{2})',
         TagFormat: 'Tag:Priority',
         SelectTargetApp: 'Select Target Application (filters by PID)',
         SelectLaunchApp: 'Choose installed app',
@@ -62,6 +96,11 @@ export const Messages = {
         MultiFile: 'Multi File',
         NewProfile: 'New Profile...',
         DuplicateProfile: 'Duplicate Profile...',
+        SaveProfileToWorkspace: 'Save to Workspace...',
+        InheritFromProfiles: 'Inherit from Profiles...',
+        WorkspaceProfile: 'Workspace',
+        FilterPerLine: 'One filter per line',
+        KeywordList: 'One keyword list matching any of the lines',
     },
 
     Descriptions: {
@@ -70,6 +109,8 @@ export const Messages = {
         OccurrencesMulti: 'Highlight occurrences across all open files',
         CreateNewProfile: 'Create a new empty profile',
         DuplicateProfile: 'Make a copy of the current profile',
+        SaveProfileToWorkspace: 'Share the current filters with the project in .vscode/logmagnifier.json',
+        InheritFromProfiles: 'Use the groups of other profiles as read-only layers',
         SwitchProfile: 'Switch to this profile',
     },
 
@@ -105,6 +146,10 @@ export const Messages = {
             ProfileCreated: 'Profile \'{0}\' created and activated.',
             ProfileDuplicated: 'Profile duplicated as \'{0}\'.',
             ProfileSwitched: 'Switched to profile \'{0}\'.',
+            ProfileLayersSet: 'Profile \'{0}\' inherits the groups of: {1}',
+            ProfileLayersCleared: 'Profile \'{0}\' no longer inherits groups.',
+            InheritedGroupTooltip: 'Inherited from profile \'{0}\'. Override locally to edit it in this profile.',
+            ProfileSavedToWorkspace: 'Saved workspace profile \'{0}\' to .vscode/logmagnifier.json.',
             SelectFilterFirst: 'Please select a filter in the Word Filters view first.',
             FilterDisabled: 'Filter \'{0}\' is disabled.',
             NoMatchesForFilter: 'No matches found for: {0}',
@@ -113,11 +158,46 @@ export const Messages = {
             ImportSuccess: 'Successfully imported {0} {1} filter groups.',
             NoSourceMapping: 'No source mapping found for this line.',
             FallbackToOpen: 'Failed to open text document (likely too large), falling back to vscode.open: {0}',
+            FilterQueued: 'A filter operation is already in progress. This run is queued ({0} ahead).',
+            FilterCancelled: 'Filter operation cancelled.',
+            FollowStarted: 'Following {0}. New lines are filtered as they are written.',
+            FollowStopped: 'Stopped following {0}.',
+            ProfilePinned: 'Profile \'{0}\' pinned. Automatic profile selection is paused.',
+            ProfileUnpinned: 'Profile unpinned. Automatic profile selection resumed.',
+            ProfilePinnedTooltip: 'Profile pinned: rules do not switch profiles. Click to unpin.',
+            ProfileRuleTooltip: 'Profile selected by rule {0}. Click to pin.',
+            ProfileNoRuleTooltip: 'No profile rule applies to this file. Click to pin the profile.',
+            NothingToUndo: 'No filter edit to undo in profile \'{0}\'.',
+            NothingToRedo: 'No filter edit to redo in profile \'{0}\'.',
+            FollowTooltip: 'Filtered lines are appended as these logs grow. Click to stop following.\n{0}',
+            NotFollowing: 'No log is being followed.',
+            ReadingArchive: 'Reading archive {0}...',
+            MergingLogFiles: 'Merging {0} log files...',
+            MergeCancelled: 'Merging log files cancelled.',
+            MergeCompleted: 'Merged {0} files into {1} lines.',
+            RecordStartChanged: 'Filters now match whole records ({0}).',
+            RecordStartDisabled: 'Filters now match single lines.',
+            TimeRangeSet: 'Time range set to {0}.',
+            LogFormatChanged: 'Field filters now read lines as {0}.',
+            CollapseRepeatsChanged: 'Filter output now collapses {0}.',
+            CollapseRepeatsDisabled: 'Filter output now keeps repeated lines.',
+            SeparateBlocksEnabled: 'Filter output now separates blocks with "--" and marks context lines.',
+            SeparateBlocksDisabled: 'Filter output is now written without block separators.',
+            NoGeneratedFiles: 'No generated files to delete.',
+            GeneratedFilesDeleted: 'Deleted {0} generated files ({1} MB).',
+            ExtractedTableExported: 'Exported {0} rows to {1}',
+            NoVolatileTokens: 'No numbers, hex values, UUIDs or durations found in the selection. Use Add Selection to Word Filter instead.',
+            ClipboardHasNoKeywords: 'Copy the keywords to add, one per line, then run this command again.',
+            KeywordOptionsWordFiltersOnly: 'Keyword options apply to the keywords of word filters only.',
+            FilterNotSearchable: 'Time range and field filters have no text to search for. Apply the filter to see the lines they keep.',
             AllBookmarksCopied: 'All bookmarks copied to clipboard.',
             RemovedBookmarks: 'Removed {0} bookmarks matching selection \'{1}\'.',
             NoHierarchyFound: 'No hierarchy found.',
             WorkflowInputName: 'Enter new name for Workflow',
             SelectProfileToAdd: 'Select a profile to add to the workflow',
+            FilterPreviewMatches: '{0} matching lines in {1}',
+            FilterPreviewPartialMatches: '{0} matching lines in the first {1} lines of {2}',
+            FilterPreviewNoDocument: 'Open a log to preview the lines this filter matches.',
         },
         Warn: {
             UninstallConfirm: 'Are you sure you want to uninstall {0}?',
@@ -133,10 +213,19 @@ export const Messages = {
             OriginalFileClosed: 'LogMagnifier: Original file is closed or not available.',
             JsonPreviewLimited: 'JSON Preview limited to first {0} selected lines.',
             FoundMoreThanMaxMatches: 'Found more than {0} matches. Limited to {0} bookmarks based on your settings.',
+            MergeNeedsFiles: 'Select at least two log files to merge.',
+            MergeNoFilesMatched: 'No files match \'{0}\'.',
+            FollowNeedsFile: 'Only log files on disk can be followed. Compressed files, archive entries and untitled documents are filtered once.',
+            FollowSourceTruncated: 'Stopped following {0}: the file was truncated or replaced.',
+            NoCaptureGroups: 'No enabled regex include filter has capture groups to extract, e.g. latency=(\\d+)ms or user=(?<user>\\w+).',
+            NoTimestampInSelection: 'No timestamp found at or above the selected lines.',
             FilteredLogViewBookmark: 'Note: This is a filtered log view. Bookmarks added here may be lost if you re-apply filters or close this temporary file.',
-            FilterAlreadyProcessing: 'Filter operation is already in progress.',
             DeleteWorkflowConfirm: 'Are you sure you want to delete workflow \'{0}\'?',
             RemoveProfileConfirm: 'Remove profile \'{0}\' from workflow?',
+            SlowFilterPattern: 'Slow pattern: previewing took {0} ms. Filtering large logs with it may take a long time.',
+            SlowHighlightFilter: 'Filter \'{0}\' took too long to match and is no longer highlighted. Simplify its pattern or raise logmagnifier.regex.timeBudgetMs.',
+            SlowSearchFilter: 'Filter \'{0}\' took too long to match, so the search was stopped. Simplify its pattern or raise logmagnifier.regex.timeBudgetMs.',
+            SlowFiltersDisabled: 'Disabled for this run, as they took too long on a single line: {0}. Simplify their patterns or raise logmagnifier.regex.timeBudgetMs.',
         },
         Error: {
             InvalidTagFormat: 'Invalid Tag format. Use "Tag" or "Tag:Priority" (V, D, I, W, E, F, S)',
@@ -156,11 +245,14 @@ export const Messages = {
             FilterExistsInGroup: 'Filter \'{0}\' ({1}) already exists in this group.',
             RegexFilterExists: 'Regex Filter with pattern \'{0}\' or nickname \'{1}\' already exists in this group.',
             ProfileCreateFailed: 'Failed to create profile \'{0}\'.',
+            ProfileSaveToWorkspaceFailed: 'Failed to save workspace profile \'{0}\'.',
             NoFilterGroups: 'No {0} filter groups exist. Create a group first.',
             NoActiveFile: 'No active file found. Please ensure a log file is open and visible.',
             ApplyFiltersError: 'Error applying filters: {0}',
+            FollowFailed: 'Stopped following {0}: {1}',
             ExportFailed: 'Failed to export filters: {0}',
             ExportGroupFailed: 'Failed to export group: {0}',
+            ExportExtractedTableFailed: 'Failed to export extracted values: {0}',
             ImportFailed: 'Failed to import filters: {0}',
             ReadFilterFileFailed: 'Failed to read filter file: {0}',
             JumpToSourceFailed: 'Failed to jump to source: {0}',
@@ -168,13 +260,27 @@ export const Messages = {
             FailedToOpenBookmarks: 'Failed to open all bookmarks: {0}',
 
             ImportInvalidFormat: 'Invalid filter data format: expected an object with a "groups" array.',
+            WorkspaceProfileFileInvalid: 'Cannot read workspace profiles from {0}: {1}',
+            WorkspaceProfileFileFormat: 'expected an object with a "profiles" array.',
+            InvalidProfileRulePattern: 'Invalid content pattern in profile rule: "{0}": {1}',
             InvalidFilterPattern: 'Invalid filter pattern: "{0}"',
+            ArchiveReadFailed: 'Failed to read archive {0}: {1}',
+            ArchiveEmpty: 'No files found in archive {0}.',
+            MergeFailed: 'Failed to merge log files: {0}',
+            InvalidRecordStartPattern: 'Invalid record start pattern in settings (logmagnifier.records.customStartPattern): {0}',
+            InvalidFieldPattern: 'Invalid field pattern in settings (logmagnifier.fields.customPattern): {0}',
+            InvalidFieldCondition: 'Invalid field condition: {0}',
+            FieldPatternNeedsGroups: 'The pattern needs at least one named group, e.g. (?<level>\\w+).',
             InvalidRegularExpression: 'Invalid Regular Expression',
+            InvalidPreviewPattern: 'Invalid pattern: {0}',
+            InvalidTimestamp: 'Unrecognized time. Use HH:MM[:SS[.mmm]], MM-DD HH:MM:SS, "Jan 31 14:02:10" or an ISO 8601 date and time.',
+            TimeRangeEmpty: 'A time range needs a start or an end.',
             LogcatStartFailed: 'Failed to start logcat process: {0}',
             RecordingFailed: 'Screen recording failed: {0}',
             RecordingEmpty: 'Screen recording file is empty.',
             RetrieveRecordingFailed: 'Failed to retrieve screen recording.',
             InvalidRegexPatternDetailed: 'Invalid Regex Pattern: "{0}". Error: {1}',
+            InvalidGroupExpression: 'Match expression of group "{0}" is invalid, so the group matches no lines: {1}',
             OpenFileFailed: 'Failed to open file: {0}',
         },
         Progress: {
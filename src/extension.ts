@@ -7,6 +7,7 @@ import { LogProcessor } from './services/LogProcessor';
 import { HighlightService } from './services/HighlightService';
 import { ResultCountService } from './services/ResultCountService';
 import { Logger } from './services/Logger';
+import { RegexUtils } from './utils/RegexUtils';
 import { CommandManager } from './commands/CommandManager';
 import { AdbService } from './services/AdbService';
 import { AdbDeviceTreeProvider } from './views/AdbDeviceTreeProvider';
@@ -17,23 +18,30 @@ import { LogBookmarkCommandManager } from './commands/LogBookmarkCommandManager'
 import { JsonPrettyService } from './services/JsonPrettyService';
 import { JsonTreeWebview } from './views/JsonTreeWebview';
 import { SourceMapService } from './services/SourceMapService';
+import { LogFollowService } from './services/LogFollowService';
 import { FilteredLogDefinitionProvider } from './providers/FilteredLogDefinitionProvider';
+import { ArchiveEntryContentProvider } from './providers/ArchiveEntryContentProvider';
+import { FilterResultFileSystemProvider } from './providers/FilterResultFileSystemProvider';
 import { ShellCommanderService } from './services/ShellCommanderService';
 import { ShellCommanderTreeDataProvider } from './views/ShellCommanderTreeDataProvider';
 import { ShellCommanderCommandManager } from './commands/ShellCommanderCommandManager';
 import { Constants } from './Constants';
 import { FilterGroup, FilterItem } from './models/Filter';
 import { FileHierarchyService } from './services/FileHierarchyService';
+import { GeneratedFileService } from './services/GeneratedFileService';
 import { NavigationCommandManager } from './commands/NavigationCommandManager';
+import { LogSourceCommandManager } from './commands/LogSourceCommandManager';
 import { FileHierarchyLensProvider } from './providers/FileHierarchyLensProvider';
 import { WorkflowManager } from './services/WorkflowManager';
 import { WorkflowWebviewProvider } from './views/WorkflowWebviewProvider';
 import { WorkflowCommandManager } from './commands/WorkflowCommandManager';
+import { ProfileAutoSelectService } from './services/ProfileAutoSelectService';
 
 export function activate(context: vscode.ExtensionContext) {
     const logger = Logger.getInstance();
     context.subscriptions.push(logger);
     logger.info('LogMagnifier activated');
+    RegexUtils.reportError = message => vscode.window.showErrorMessage(message);
 
     let debounceTimer: NodeJS.Timeout | undefined;
     context.subscriptions.push({
@@ -48,6 +56,8 @@ export function activate(context: vscode.ExtensionContext) {
     context.subscriptions.push(filterManager);
 
     const sourceMapService = SourceMapService.getInstance();
+    context.subscriptions.push(sourceMapService);
+    context.subscriptions.push(LogFollowService.getInstance()); // Stops watching followed files
     const logProcessor = new LogProcessor();
     const highlightService = new HighlightService(filterManager, logger);
     const workflowManager = new WorkflowManager(context, filterManager.profileManagerRef, logProcessor, logger, highlightService, sourceMapService);
@@ -64,6 +74,7 @@ export function activate(context: vscode.ExtensionContext) {
     );
 
     const refreshHighlightsForEditor = async (editor: vscode.TextEditor) => {
+        sourceMapService.updateBlockMarkers(editor);
         const counts = await highlightService.updateHighlights(editor);
         if (counts) {
             resultCountService.updateCounts(counts);
@@ -109,12 +120,26 @@ export function activate(context: vscode.ExtensionContext) {
     setupExpansionSync(wordTreeView);
     setupExpansionSync(regexTreeView);
 
+    // Read-only documents for entries of compressed logs / archives
+    context.subscriptions.push(
+        vscode.workspace.registerTextDocumentContentProvider(Constants.Schemes.Archive, new ArchiveEntryContentProvider())
+    );
+
+    // Filter results, kept in memory instead of temp files (removes the files of large results on deactivation)
+    const resultProvider = FilterResultFileSystemProvider.getInstance();
+    resultProvider.removeOrphanedStorage().catch(e => logger.warn(`Failed to remove stale filter results: ${e}`));
+    context.subscriptions.push(
+        resultProvider,
+        vscode.workspace.registerFileSystemProvider(Constants.Schemes.Result, resultProvider, { isCaseSensitive: true })
+    );
+
     // Register Definition Provider for Click-to-Navigate
     context.subscriptions.push(
         vscode.languages.registerDefinitionProvider(
             [
                 { scheme: Constants.Schemes.File, language: 'log' },
                 { scheme: Constants.Schemes.Untitled, language: 'log' },
+                { scheme: Constants.Schemes.Result },
                 { scheme: Constants.Schemes.Untitled, language: 'jsonc' },
                 { scheme: Constants.Schemes.Untitled, language: 'json' }
             ],
@@ -128,17 +153,20 @@ export function activate(context: vscode.ExtensionContext) {
 
     const jsonPrettyService = new JsonPrettyService(logger, sourceMapService, jsonTreeWebview, highlightService);
     context.subscriptions.push(jsonPrettyService);
-    new CommandManager(context, filterManager, highlightService, resultCountService, logProcessor, quickAccessProvider, logger, wordTreeView, regexTreeView, jsonPrettyService, sourceMapService);
+    const profileAutoSelectService = new ProfileAutoSelectService(filterManager, logger);
+    context.subscriptions.push(profileAutoSelectService);
+    new CommandManager(context, filterManager, highlightService, resultCountService, logProcessor, quickAccessProvider, logger, wordTreeView, regexTreeView, jsonPrettyService, sourceMapService, profileAutoSelectService);
     new WorkflowCommandManager(context, workflowManager, filterManager, logger);
 
     // File Hierarchy Service & Navigation
     const fileHierarchyService = FileHierarchyService.getInstance();
     fileHierarchyService.initialize(context);
     new NavigationCommandManager(context, fileHierarchyService);
+    new LogSourceCommandManager(context, logProcessor, sourceMapService, logger);
     const hierarchyLensProvider = new FileHierarchyLensProvider(fileHierarchyService);
     context.subscriptions.push(
         vscode.languages.registerCodeLensProvider(
-            [{ scheme: Constants.Schemes.File }, { scheme: Constants.Schemes.Untitled }],
+            [{ scheme: Constants.Schemes.File }, { scheme: Constants.Schemes.Untitled }, { scheme: Constants.Schemes.Archive }, { scheme: Constants.Schemes.Result }],
             hierarchyLensProvider
         )
     );
@@ -169,6 +197,9 @@ export function activate(context: vscode.ExtensionContext) {
     const bookmarkService = new LogBookmarkService(context);
     context.subscriptions.push(bookmarkService);
 
+    // Workflow results, merged logs, screenshots and recordings: deleted once over the quota
+    GeneratedFileService.getInstance().initialize(context, bookmarkService);
+
     const bookmarkWebviewProvider = new LogBookmarkWebviewProvider(context.extensionUri, bookmarkService, logger);
     context.subscriptions.push(bookmarkWebviewProvider);
     context.subscriptions.push(
@@ -240,14 +271,15 @@ export function activate(context: vscode.ExtensionContext) {
                 if (activeTab && activeTab.input instanceof vscode.TabInputText) {
                     const uri = activeTab.input.uri;
                     try {
-                        if (uri.scheme === Constants.Schemes.File) {
+                        if (uri.scheme === Constants.Schemes.File || uri.scheme === Constants.Schemes.Result) {
                             // Use EditorUtils or direct async fs
                             try {
                                 const stat = await vscode.workspace.fs.stat(uri);
                                 const sizeMB = stat.size / (1024 * 1024);
                                 if (sizeMB > 50) {
                                     lastProcessedDoc = undefined;
-                                    resultCountService.clearCounts();
+                                    // Counts gathered by the last filter run on this file, if any
+                                    resultCountService.showStreamedCounts(uri);
                                     quickAccessProvider.refresh();
                                     logger.info(`Active editor changed to (Tab): ${uri.fsPath} (${sizeMB.toFixed(2)}MB). - Too large for extension host (Limit 50MB).`);
                                     vscode.window.setStatusBarMessage(`LogMagnifier: File too large (${sizeMB.toFixed(1)}MB). VS Code limits extension support to 50MB.`, 5000);
@@ -286,7 +318,9 @@ export function activate(context: vscode.ExtensionContext) {
     context.subscriptions.push(vscode.workspace.onDidChangeConfiguration(async e => {
         try {
             if (e.affectsConfiguration(`${Constants.Configuration.Section}.${Constants.Configuration.Regex.HighlightColor}`) ||
-                e.affectsConfiguration(`${Constants.Configuration.Section}.${Constants.Configuration.Regex.EnableHighlight}`)) {
+                e.affectsConfiguration(`${Constants.Configuration.Section}.${Constants.Configuration.Regex.EnableHighlight}`) ||
+                e.affectsConfiguration(`${Constants.Configuration.Section}.${Constants.Configuration.Fields.Format}`) ||
+                e.affectsConfiguration(`${Constants.Configuration.Section}.${Constants.Configuration.Fields.CustomPattern}`)) {
                 highlightService.refreshDecorationType();
                 lastProcessedDoc = undefined; // Force update
                 if (vscode.window.activeTextEditor) {
@@ -385,6 +419,10 @@ export function activate(context: vscode.ExtensionContext) {
                 quickAccessProvider.refresh();
             }
             sourceMapService.unregister(doc.uri);
+            LogFollowService.getInstance().stop(doc.uri);
+            if (doc.uri.scheme === Constants.Schemes.Result) {
+                resultProvider.releaseClosed(doc.uri);
+            }
             // Hierarchy unregister handled above
         } catch (error) {
             logger.error(`Error in onDidCloseTextDocument: ${error}`);
@@ -405,5 +443,6 @@ export function deactivate() {
 }
 
 function isSupportedScheme(uri: vscode.Uri): boolean {
-    return uri.scheme === Constants.Schemes.File || uri.scheme === Constants.Schemes.Untitled;
+    return uri.scheme === Constants.Schemes.File || uri.scheme === Constants.Schemes.Untitled || uri.scheme === Constants.Schemes.Archive
+        || uri.scheme === Constants.Schemes.Result;
 }
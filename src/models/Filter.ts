@@ -1,8 +1,45 @@
 export type FilterType = 'include' | 'exclude';
 
+/**
+ * How the include filters of a group are combined.
+ * - 'any': A line matches if at least one include filter matches. (Default)
+ * - 'all': A line matches only if every enabled include filter matches.
+ */
+export type GroupMatchMode = 'any' | 'all';
+
+/**
+ * What a filter item matches on.
+ * - 'keyword': Text or regex match on the line. (Default)
+ * - 'timeRange': The line's timestamp must lie inside `timeRange`.
+ * - 'field': A field of the parsed line must satisfy `field` (see the `fields.format` setting).
+ */
+export type FilterKind = 'keyword' | 'timeRange' | 'field';
+
+/**
+ * Window of a time range filter. Bounds are written like the log's own timestamps
+ * ("14:02:10.500", "01-31 14:02:10", "2024-01-31T14:02:10Z"); a missing bound leaves
+ * that side open.
+ */
+export interface TimeRange {
+    start?: string;
+    end?: string;
+    pattern?: string; // Custom timestamp regex with named groups (year, month, day, hour, minute, second, fraction)
+}
+
+export type FieldOperator = '==' | '!=' | '<' | '<=' | '>' | '>=' | 'contains' | 'matches' | 'in';
+
+/**
+ * Condition of a field filter, e.g. `level >= W`, `tag == ActivityManager` or `pid in (1234, 5678)`.
+ */
+export interface FieldCondition {
+    field: string;
+    operator: FieldOperator;
+    value: string; // For 'in', a comma separated list, optionally in parentheses
+}
+
 export interface FilterItem {
     id: string;
-    keyword: string;
+    keyword: string; // A word filter with several lines in its keyword is a keyword list, matching any of them
     type: FilterType;
     isEnabled: boolean;
     isRegex?: boolean;
@@ -10,9 +47,16 @@ export interface FilterItem {
     color?: string;
     highlightMode?: number; // 0: Word, 1: Line, 2: Full Line
     caseSensitive?: boolean;
+    wholeWord?: boolean; // Word filters: matches only where the keyword is not part of a longer word
+    wildcard?: boolean; // Word filters: '*' in the keyword matches any text, '?' any one character
+    template?: boolean; // Word filters: the keyword is a message template, e.g. "Took <dur> for job <num>"
     resultCount?: number;
+    dropCount?: number; // Lines this exclude filter dropped in the last run that showed dropped lines
     contextLine?: number; // 0, 3, 5, 9
     excludeStyle?: 'line-through' | 'hidden'; // Default: line-through
+    kind?: FilterKind; // Default: 'keyword'
+    timeRange?: TimeRange; // Set for 'timeRange' filters, whose keyword holds a display label
+    field?: FieldCondition; // Set for 'field' filters, whose keyword holds the condition text
 }
 
 export interface FilterGroup {
@@ -23,4 +67,7 @@ export interface FilterGroup {
     isRegex?: boolean;
     resultCount?: number;
     isExpanded?: boolean; // UI state persistence
+    matchMode?: GroupMatchMode; // Default: 'any'
+    expression?: string; // Optional boolean expression over the group's filters, overrides matchMode
+    inheritedFrom?: string; // Set on groups of the active profile that come from one of its layers; such groups are read-only and never stored
 }
@@ -48,5 +48,6 @@ export interface WorkflowPackage {
     profiles: {
         name: string;
         groups: FilterGroup[];
+        layers?: string[]; // Profiles this one inherits; they are part of the package too
     }[];
 }
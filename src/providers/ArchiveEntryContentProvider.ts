@@ -0,0 +1,118 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { Constants } from '../Constants';
+import { ArchiveUtils } from '../utils/ArchiveUtils';
+import { EncodingUtils } from '../utils/EncodingUtils';
+
+/**
+ * A log file to filter: a plain file, a gzip file, or an entry inside a zip/tar archive.
+ * `uri` is what users see as the original (the archive entry document for archives).
+ */
+export interface LogSource {
+    path: string;
+    entry?: string;
+    uri: vscode.Uri;
+}
+
+/**
+ * Serves decompressed archive entries as read-only documents, so that jumping back
+ * from filtered output and the file hierarchy can open the original log.
+ *
+ * URI format: `logmagnifier-archive:/<entry path>?archive=<encoded archive path>`
+ */
+export class ArchiveEntryContentProvider implements vscode.TextDocumentContentProvider {
+
+    public static createUri(archivePath: string, entry?: string): vscode.Uri {
+        const entryPath = entry ?? path.basename(archivePath).replace(/\.gz$/i, '');
+        const query = new URLSearchParams({ archive: archivePath });
+        if (entry) {
+            query.set('entry', entry);
+        }
+        return vscode.Uri.from({
+            scheme: Constants.Schemes.Archive,
+            path: '/' + entryPath.replace(/^\/+/, ''),
+            query: query.toString()
+        });
+    }
+
+    public static parseUri(uri: vscode.Uri): { archivePath: string, entry?: string } | undefined {
+        if (uri.scheme !== Constants.Schemes.Archive) {
+            return undefined;
+        }
+        const query = new URLSearchParams(uri.query);
+        const archivePath = query.get('archive');
+        if (!archivePath) {
+            return undefined;
+        }
+        return { archivePath, entry: query.get('entry') ?? undefined };
+    }
+
+    public async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+        const parsed = ArchiveEntryContentProvider.parseUri(uri);
+        if (!parsed) {
+            throw new Error(`Invalid archive URI: ${uri.toString()}`);
+        }
+        // Text that is not valid UTF-8 is read with the `files.encoding` of the archive, as when it is filtered
+        const encoding = vscode.workspace.getConfiguration('files', vscode.Uri.file(parsed.archivePath)).get<string>('encoding');
+        return ArchiveUtils.readEntryText(parsed.archivePath, parsed.entry, encoding ? EncodingUtils.fromVsCodeEncoding(encoding) : undefined);
+    }
+
+    /**
+     * Resolves a file or archive entry URI to a LogSource.
+     * For zip/tar archives the user picks the entry (skipped when there is only one).
+     * @returns undefined if the user cancelled or the archive could not be read.
+     */
+    public static async resolveSource(uri: vscode.Uri): Promise<LogSource | undefined> {
+        const parsed = ArchiveEntryContentProvider.parseUri(uri);
+        if (parsed) {
+            return { path: parsed.archivePath, entry: parsed.entry, uri };
+        }
+
+        const filePath = uri.fsPath;
+        if (!ArchiveUtils.isArchive(filePath)) {
+            return { path: filePath, uri };
+        }
+        if (!ArchiveUtils.hasEntries(filePath)) {
+            return { path: filePath, uri: ArchiveEntryContentProvider.createUri(filePath) };
+        }
+
+        const archiveName = path.basename(filePath);
+        let entries;
+        try {
+            entries = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Window,
+                title: Constants.Messages.Info.ReadingArchive.replace('{0}', archiveName)
+            }, () => ArchiveUtils.listEntries(filePath));
+        } catch (e) {
+            vscode.window.showErrorMessage(Constants.Messages.Error.ArchiveReadFailed.replace('{0}', archiveName).replace('{1}', e instanceof Error ? e.message : String(e)));
+            return undefined;
+        }
+
+        if (entries.length === 0) {
+            vscode.window.showErrorMessage(Constants.Messages.Error.ArchiveEmpty.replace('{0}', archiveName));
+            return undefined;
+        }
+
+        let entry = entries[0].name;
+        if (entries.length > 1) {
+            const picked = await vscode.window.showQuickPick(
+                entries.map(e => ({
+                    label: path.basename(e.name),
+                    description: path.dirname(e.name) !== '.' ? path.dirname(e.name) : undefined,
+                    detail: e.size >= 0 ? `${(e.size / 1024).toFixed(1)} KB` : undefined,
+                    name: e.name
+                })),
+                {
+                    placeHolder: Constants.Prompts.SelectArchiveEntry.replace('{0}', archiveName),
+                    matchOnDescription: true
+                }
+            );
+            if (!picked) {
+                return undefined;
+            }
+            entry = picked.name;
+        }
+
+        return { path: filePath, entry, uri: ArchiveEntryContentProvider.createUri(filePath, entry) };
+    }
+}
@@ -15,8 +15,9 @@ export class FileHierarchyLensProvider implements vscode.CodeLensProvider {
         const parent = this.hierarchyService.getParent(uri);
         const children = this.hierarchyService.getChildren(uri);
         const root = this.hierarchyService.getRoot(uri);
+        const sources = this.hierarchyService.getSources(uri);
 
-        if (!parent && children.length === 0) {
+        if (!parent && children.length === 0 && sources.length === 0) {
             return [];
         }
 
@@ -30,6 +31,16 @@ export class FileHierarchyLensProvider implements vscode.CodeLensProvider {
             arguments: [uri, 'tree']
         }));
 
+        // Merged source: its originals are listed in the tree
+        if (sources.length > 0) {
+            lenses.push(new vscode.CodeLens(range, {
+                title: `$(files) Sources: ${sources.length} files`,
+                tooltip: sources.map(source => source.scheme === Constants.Schemes.File ? source.fsPath : source.toString()).join('\n'),
+                command: Constants.Commands.HierarchyShowQuickPick,
+                arguments: [uri, 'tree']
+            }));
+        }
+
         // 2. Original & Parent
         // Design: Origin | Parent
         // Special Case: Origin (Parent) if same
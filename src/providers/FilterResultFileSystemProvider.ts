@@ -0,0 +1,344 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { Constants } from '../Constants';
+import { FileHierarchyService } from '../services/FileHierarchyService';
+import { GeneratedFileService } from '../services/GeneratedFileService';
+
+interface ResultEntry {
+    content?: Uint8Array; // Results held in memory
+    backingPath?: string; // Results too large to hold in memory
+    size: number;
+    ctime: number;
+    mtime: number;
+}
+
+// Larger results stay on disk; VS Code still loads them when they are opened in an editor
+const MEMORY_LIMIT = 16 * 1024 * 1024;
+// Beyond this, the least recently used results held in memory are moved to disk
+const TOTAL_MEMORY_LIMIT = 256 * 1024 * 1024;
+// Named after the process, so that a session can tell the directories of sessions that are gone
+const STORAGE_DIR_PATTERN = /^logmagnifier-results-(\d+)-/;
+
+/**
+ * Serves filter results as documents without a file of their own. Results are held in memory;
+ * large ones, and the least recently used ones once all of them take too much memory, are kept in
+ * a backing file in a temp directory of the session, which is removed when the extension is deactivated.
+ * Backing files count towards the quota of GeneratedFileService.
+ * A result is released when its document is closed, unless a document filtered from it is still open.
+ *
+ * URI format: `logmagnifier-result:/<source id>/<source name> ▸ <label>`. A source and label
+ * keep their URI, so re-running a filter replaces the result in its open editor. The name has
+ * no '.log' extension; package.json associates the '▸' in it with the 'log' language instead.
+ */
+export class FilterResultFileSystemProvider implements vscode.FileSystemProvider, vscode.Disposable {
+    private static instance: FilterResultFileSystemProvider;
+    private entries: Map<string, ResultEntry> = new Map(); // Key: URI path, least recently used first
+    // Next to the filter output files, so that large results are moved there without copying
+    private readonly storageDir = path.join(os.tmpdir(), `logmagnifier-results-${process.pid}-${crypto.randomUUID()}`);
+
+    private _onDidChangeFile = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
+    public readonly onDidChangeFile: vscode.Event<vscode.FileChangeEvent[]> = this._onDidChangeFile.event;
+
+    private constructor() { }
+
+    public static getInstance(): FilterResultFileSystemProvider {
+        if (!FilterResultFileSystemProvider.instance) {
+            FilterResultFileSystemProvider.instance = new FilterResultFileSystemProvider();
+        }
+        return FilterResultFileSystemProvider.instance;
+    }
+
+    /**
+     * Creates the URI of the result of filtering a source, titled e.g. "app.log ▸ AuthFlow".
+     */
+    public static createUri(sourceUri: vscode.Uri, label: string): vscode.Uri {
+        // Sources with the same name in different folders get results of their own
+        const sourceId = crypto.createHash('sha1').update(sourceUri.toString()).digest('hex').substring(0, 8);
+        const sourceName = path.posix.basename(sourceUri.path) || 'Untitled';
+        const name = `${sourceName} ▸ ${label}`.replace(/[\\/]/g, '_');
+        return vscode.Uri.from({ scheme: Constants.Schemes.Result, path: `/${sourceId}/${name}` });
+    }
+
+    /**
+     * Makes a filter output file the content of a result, replacing any previous content.
+     * Small outputs are read into memory and their file is deleted, large ones are moved to the storage directory.
+     */
+    public async publish(uri: vscode.Uri, outputPath: string): Promise<void> {
+        const { size } = await fs.promises.stat(outputPath);
+        const entry: ResultEntry = { size, ctime: Date.now(), mtime: Date.now() };
+        if (size <= MEMORY_LIMIT) {
+            entry.content = await fs.promises.readFile(outputPath);
+            await fs.promises.unlink(outputPath);
+        } else {
+            entry.backingPath = await this.createBackingPath();
+            await this.move(outputPath, entry.backingPath);
+        }
+        this.setEntry(uri, entry);
+        await this.limitMemory();
+    }
+
+    /**
+     * Appends to a result, e.g. the lines filtered from a followed source.
+     */
+    public async append(uri: vscode.Uri, data: string | Buffer): Promise<void> {
+        const entry = this.getEntry(uri);
+        const bytes = typeof data === 'string' ? Buffer.from(data, 'utf8') : data;
+        if (entry.backingPath) {
+            await fs.promises.appendFile(entry.backingPath, bytes);
+        } else if (entry.size + bytes.length > MEMORY_LIMIT) {
+            const backingPath = await this.createBackingPath();
+            await fs.promises.writeFile(backingPath, Buffer.concat([entry.content!, bytes]));
+            entry.backingPath = backingPath;
+            entry.content = undefined;
+        } else {
+            entry.content = Buffer.concat([entry.content!, bytes]);
+        }
+        entry.size += bytes.length;
+        entry.mtime = Date.now();
+        this._onDidChangeFile.fire([{ type: vscode.FileChangeType.Changed, uri }]);
+        await this.limitMemory();
+    }
+
+    /**
+     * The file holding a large result, so that it can be streamed without loading it.
+     * @returns undefined for results held in memory
+     */
+    public getBackingPath(uri: vscode.Uri): string | undefined {
+        return this.entries.get(uri.path)?.backingPath;
+    }
+
+    public has(uri: vscode.Uri): boolean {
+        return this.entries.has(uri.path);
+    }
+
+    /**
+     * Whether a file holds a result, so that it must not be deleted.
+     */
+    public isBackingFile(filePath: string): boolean {
+        return Array.from(this.entries.values()).some(entry => entry.backingPath === filePath);
+    }
+
+    /**
+     * Deletes the storage directories of sessions that ended without deactivating the extension, e.g.
+     * when VS Code crashed. Directories of other windows that are still running are kept.
+     */
+    public async removeOrphanedStorage(): Promise<void> {
+        const tmpDir = path.dirname(this.storageDir);
+        const names = await fs.promises.readdir(tmpDir).catch(() => [] as string[]);
+        for (const name of names) {
+            const match = STORAGE_DIR_PATTERN.exec(name);
+            if (!match || path.join(tmpDir, name) === this.storageDir || FilterResultFileSystemProvider.isRunning(Number(match[1]))) {
+                continue;
+            }
+            await fs.promises.rm(path.join(tmpDir, name), { recursive: true, force: true }).catch(() => { /* ignore cleanup error */ });
+        }
+    }
+
+    public watch(): vscode.Disposable {
+        // Every change is made through this provider, which reports it
+        return new vscode.Disposable(() => { });
+    }
+
+    public stat(uri: vscode.Uri): vscode.FileStat {
+        const entry = this.entries.get(uri.path);
+        if (entry) {
+            return { type: vscode.FileType.File, ctime: entry.ctime, mtime: entry.mtime, size: entry.size };
+        }
+        if (this.isDirectory(uri.path)) {
+            return { type: vscode.FileType.Directory, ctime: 0, mtime: 0, size: 0 };
+        }
+        throw vscode.FileSystemError.FileNotFound(uri);
+    }
+
+    public readDirectory(uri: vscode.Uri): [string, vscode.FileType][] {
+        if (!this.isDirectory(uri.path)) {
+            throw vscode.FileSystemError.FileNotFound(uri);
+        }
+        const prefix = uri.path.endsWith('/') ? uri.path : uri.path + '/';
+        const children = new Map<string, vscode.FileType>();
+        for (const key of this.entries.keys()) {
+            if (key.startsWith(prefix)) {
+                const [name, ...rest] = key.substring(prefix.length).split('/');
+                children.set(name, rest.length > 0 ? vscode.FileType.Directory : vscode.FileType.File);
+            }
+        }
+        return Array.from(children.entries());
+    }
+
+    public createDirectory(uri: vscode.Uri): void {
+        throw vscode.FileSystemError.NoPermissions(uri);
+    }
+
+    public async readFile(uri: vscode.Uri): Promise<Uint8Array> {
+        const entry = this.getEntry(uri);
+        return entry.backingPath ? fs.promises.readFile(entry.backingPath) : entry.content!;
+    }
+
+    /**
+     * Saves edits made to a result in its editor.
+     */
+    public async writeFile(uri: vscode.Uri, content: Uint8Array, options: { create: boolean, overwrite: boolean }): Promise<void> {
+        const existing = this.entries.get(uri.path);
+        if (!existing && !options.create) {
+            throw vscode.FileSystemError.FileNotFound(uri);
+        }
+        if (existing && !options.overwrite) {
+            throw vscode.FileSystemError.FileExists(uri);
+        }
+        const entry: ResultEntry = { size: content.length, ctime: existing?.ctime ?? Date.now(), mtime: Date.now() };
+        if (content.length <= MEMORY_LIMIT) {
+            entry.content = content;
+        } else {
+            entry.backingPath = await this.createBackingPath();
+            await fs.promises.writeFile(entry.backingPath, content);
+        }
+        this.setEntry(uri, entry);
+        await this.limitMemory();
+    }
+
+    public delete(uri: vscode.Uri): void {
+        const keys = this.entries.has(uri.path)
+            ? [uri.path]
+            : Array.from(this.entries.keys()).filter(key => key.startsWith(uri.path.replace(/\/?$/, '/')));
+        if (keys.length === 0) {
+            throw vscode.FileSystemError.FileNotFound(uri);
+        }
+        for (const key of keys) {
+            this.release(this.entries.get(key)!);
+            this.entries.delete(key);
+        }
+        this._onDidChangeFile.fire([{ type: vscode.FileChangeType.Deleted, uri }]);
+    }
+
+    public rename(oldUri: vscode.Uri, newUri: vscode.Uri, options: { overwrite: boolean }): void {
+        const entry = this.getEntry(oldUri);
+        if (this.entries.has(newUri.path) && !options.overwrite) {
+            throw vscode.FileSystemError.FileExists(newUri);
+        }
+        this.entries.delete(oldUri.path);
+        this.setEntry(newUri, entry);
+        this._onDidChangeFile.fire([{ type: vscode.FileChangeType.Deleted, uri: oldUri }]);
+    }
+
+    public dispose(): void {
+        this.entries.clear();
+        try {
+            fs.rmSync(this.storageDir, { recursive: true, force: true });
+        } catch (_e) { /* ignore cleanup error */ }
+        this._onDidChangeFile.dispose();
+    }
+
+    /**
+     * Releases the result of a closed document, and the parent results that were kept only for it.
+     * A result stays while a document filtered from it is open, as that document's lines map back to it.
+     */
+    public releaseClosed(uri: vscode.Uri): void {
+        const hierarchy = FileHierarchyService.getInstance();
+        const open = new Set(vscode.workspace.textDocuments.map(doc => doc.uri.toString()));
+        // A tab keeps its document, e.g. while its language changes
+        for (const group of vscode.window.tabGroups.all) {
+            for (const tab of group.tabs) {
+                if (tab.input instanceof vscode.TabInputText) {
+                    open.add(tab.input.uri.toString());
+                }
+            }
+        }
+        open.delete(uri.toString());
+
+        const isInUse = (resultUri: vscode.Uri): boolean => open.has(resultUri.toString())
+            || hierarchy.getChildren(resultUri).some(isInUse);
+        let current: vscode.Uri | undefined = uri;
+        while (current?.scheme === Constants.Schemes.Result && this.entries.has(current.path) && !isInUse(current)) {
+            this.delete(current);
+            current = hierarchy.getParent(current);
+        }
+    }
+
+    // Also marks the entry as the most recently used
+    private getEntry(uri: vscode.Uri): ResultEntry {
+        const entry = this.entries.get(uri.path);
+        if (!entry) {
+            throw vscode.FileSystemError.FileNotFound(uri);
+        }
+        this.entries.delete(uri.path);
+        this.entries.set(uri.path, entry);
+        return entry;
+    }
+
+    private setEntry(uri: vscode.Uri, entry: ResultEntry) {
+        const previous = this.entries.get(uri.path);
+        if (previous && previous.backingPath !== entry.backingPath) {
+            this.release(previous);
+        }
+        this.entries.delete(uri.path);
+        this.entries.set(uri.path, entry);
+        this._onDidChangeFile.fire([{ type: previous ? vscode.FileChangeType.Changed : vscode.FileChangeType.Created, uri }]);
+    }
+
+    // Moves the least recently used results to disk until those left in memory fit the total limit
+    private async limitMemory(): Promise<void> {
+        let total = 0;
+        for (const entry of this.entries.values()) {
+            total += entry.content ? entry.size : 0;
+        }
+        for (const [key, entry] of Array.from(this.entries)) {
+            if (total <= TOTAL_MEMORY_LIMIT) {
+                break;
+            }
+            if (entry.content) {
+                const content = entry.content;
+                const backingPath = await this.createBackingPath();
+                await fs.promises.writeFile(backingPath, content);
+                // Released, replaced or appended to meanwhile
+                if (this.entries.get(key) !== entry || entry.content !== content) {
+                    await fs.promises.unlink(backingPath).catch(() => { /* ignore cleanup error */ });
+                    continue;
+                }
+                entry.backingPath = backingPath;
+                entry.content = undefined;
+                total -= entry.size;
+            }
+        }
+    }
+
+    private release(entry: ResultEntry) {
+        if (entry.backingPath) {
+            fs.promises.unlink(entry.backingPath).catch(() => { /* ignore cleanup error */ });
+        }
+    }
+
+    private isDirectory(dirPath: string): boolean {
+        const prefix = dirPath.endsWith('/') ? dirPath : dirPath + '/';
+        return Array.from(this.entries.keys()).some(key => key.startsWith(prefix));
+    }
+
+    private async createBackingPath(): Promise<string> {
+        await fs.promises.mkdir(this.storageDir, { recursive: true });
+        const backingPath = path.join(this.storageDir, `${crypto.randomUUID()}.log`);
+        GeneratedFileService.getInstance().track(backingPath, 'filter');
+        return backingPath;
+    }
+
+    // Signal 0 only checks that the process exists; EPERM means it runs as another user
+    private static isRunning(pid: number): boolean {
+        try {
+            process.kill(pid, 0);
+            return true;
+        } catch (e) {
+            return (e as NodeJS.ErrnoException).code === 'EPERM';
+        }
+    }
+
+    // Falls back to copying if the output file is on another device, e.g. with a custom temp directory per process
+    private async move(from: string, to: string): Promise<void> {
+        try {
+            await fs.promises.rename(from, to);
+        } catch (_e) {
+            await fs.promises.copyFile(from, to);
+            await fs.promises.unlink(from);
+        }
+    }
+}
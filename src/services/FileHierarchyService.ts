@@ -5,8 +5,9 @@ export interface HierarchyNode {
     uri: vscode.Uri;
     parentId?: string; // URI string
     children: Set<string>; // URI strings
-    type: 'original' | 'filter' | 'bookmark';
+    type: 'original' | 'merged' | 'filter' | 'bookmark';
     label: string;
+    sources?: string[]; // URI strings of the original files of a merged source
 }
 
 export class FileHierarchyService {
@@ -70,7 +71,8 @@ export class FileHierarchyService {
                     parentId: rawNode.parentId,
                     children: new Set(rawNode.children || []), // Convert Array back to Set
                     type: rawNode.type,
-                    label: rawNode.label
+                    label: rawNode.label,
+                    sources: rawNode.sources
                 });
             }
         }
@@ -106,6 +108,34 @@ export class FileHierarchyService {
         this._onDidChangeHierarchy.fire();
     }
 
+    /**
+     * Registers a merged source (several log files combined into one) as a root node.
+     * Its original files are kept on the node and listed with it, filter results become its children.
+     */
+    public registerMergedSource(mergedUri: vscode.Uri, sourceUris: vscode.Uri[], label?: string) {
+        const key = mergedUri.toString();
+        const existing = this.nodes.get(key);
+
+        this.nodes.set(key, {
+            uri: mergedUri,
+            children: existing ? existing.children : new Set(),
+            type: 'merged',
+            label: label || path.basename(mergedUri.fsPath),
+            sources: sourceUris.map(uri => uri.toString())
+        });
+
+        this.save();
+        this._onDidChangeHierarchy.fire();
+    }
+
+    /**
+     * Returns the original files of a merged source, or an empty array for any other node.
+     */
+    public getSources(uri: vscode.Uri): vscode.Uri[] {
+        const node = this.nodes.get(uri.toString());
+        return node?.sources ? node.sources.map(source => vscode.Uri.parse(source)) : [];
+    }
+
     public unregister(uri: vscode.Uri, recursive: boolean = false) {
         if (recursive) {
             this.removeGroup(uri);
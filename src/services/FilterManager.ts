@@ -1,14 +1,30 @@
 import * as vscode from 'vscode';
 import { Constants } from '../Constants';
-import { FilterGroup, FilterItem, FilterType } from '../models/Filter';
+import { FieldCondition, FilterGroup, FilterItem, FilterType, GroupMatchMode, TimeRange } from '../models/Filter';
 import { Logger } from './Logger';
 import { ColorService, ColorPreset } from './ColorService';
 import { ProfileManager } from './ProfileManager';
 import { FilterStateService } from './FilterStateService';
+import { TimestampUtils } from '../utils/TimestampUtils';
+import { LogFieldUtils } from '../utils/LogFieldUtils';
+import { KeywordOptions } from '../utils/RegexUtils';
+import { FilterExpression } from '../utils/FilterExpression';
 import * as crypto from 'crypto';
 
+// Edits of one profile's groups, as snapshots from `FilterManager.toSnapshot`
+interface FilterEditHistory {
+    undo: string[];
+    redo: string[];
+    snapshot?: string; // State after the last recorded edit
+}
+
 export class FilterManager implements vscode.Disposable {
+    private static readonly MAX_HISTORY = 100;
+
     private groups: FilterGroup[] = [];
+    private inheritedGroups: FilterGroup[] = []; // Read-only groups of the layers of the active profile
+    private history: Map<string, FilterEditHistory> = new Map(); // Key: profile name
+    private isRecordingHistory = true;
     private colorPresets: ColorPreset[] = [];
     private activeFiltersCache: { filter: FilterItem, groupId: string }[] | null = null;
     private _onDidChangeFilters: vscode.EventEmitter<void> = new vscode.EventEmitter<void>();
@@ -40,6 +56,8 @@ export class FilterManager implements vscode.Disposable {
         this.groups = this.stateService.loadFromState();
         this.resetCounts();
         this.initDefaultFilters();
+        this.refreshInheritedGroups();
+        this.recordHistory();
 
         // Relay profile changes & Reload filters
         this.profileManager.onDidChangeProfile(async () => {
@@ -69,17 +87,26 @@ export class FilterManager implements vscode.Disposable {
         } else {
             this.logger.warn(`Failed to load groups for profile: ${activeProfileName}`);
         }
+        this.refreshInheritedGroups();
 
         this.debouncedSaveToState();
         this.invalidateCache();
         this._onDidChangeFilters.fire();
     }
 
-    private resetCounts() {
-        for (const group of this.groups) {
+    // Resolves the groups the active profile inherits, as they are stored now
+    private refreshInheritedGroups() {
+        this.inheritedGroups = this.profileManager.getInheritedGroups(this.profileManager.getActiveProfile(), this.groups);
+        this.resetCounts(this.inheritedGroups);
+        this.invalidateCache();
+    }
+
+    private resetCounts(groups: FilterGroup[] = this.groups) {
+        for (const group of groups) {
             group.resultCount = 0;
             for (const filter of group.filters) {
                 filter.resultCount = 0;
+                filter.dropCount = undefined;
             }
         }
     }
@@ -101,6 +128,7 @@ export class FilterManager implements vscode.Disposable {
     }
 
     private debouncedSaveToState() {
+        this.recordHistory(); // Every edit is saved through here
         if (this.saveDebounceTimer) {
             clearTimeout(this.saveDebounceTimer);
         }
@@ -136,14 +164,21 @@ export class FilterManager implements vscode.Disposable {
         }
     }
 
+    /**
+     * Groups the active profile applies: those it inherits from its layers (read-only), then its own.
+     */
     public getGroups(): FilterGroup[] {
-        return this.groups;
+        return this.inheritedGroups.length > 0 ? [...this.inheritedGroups, ...this.groups] : this.groups;
+    }
+
+    public getInheritedGroups(): FilterGroup[] {
+        return this.inheritedGroups;
     }
 
     public getActiveFilters(): { filter: FilterItem, groupId: string }[] {
         if (this.activeFiltersCache === null) {
             this.activeFiltersCache = [];
-            for (const group of this.groups) {
+            for (const group of this.getGroups()) {
                 if (group.isEnabled) {
                     for (const filter of group.filters) {
                         if (filter.isEnabled) {
@@ -220,7 +255,7 @@ export class FilterManager implements vscode.Disposable {
         }
     }
 
-    public addFilter(groupId: string, keyword: string, type: FilterType, isRegex: boolean = false, nickname?: string): FilterItem | undefined {
+    public addFilter(groupId: string, keyword: string, type: FilterType, isRegex: boolean = false, nickname?: string, options?: KeywordOptions): FilterItem | undefined {
         const group = this.groups.find(g => g.id === groupId);
         if (group) {
             const exists = group.filters.some(f => {
@@ -242,7 +277,8 @@ export class FilterManager implements vscode.Disposable {
                 isRegex,
                 nickname,
                 color: (!isRegex && type === Constants.FilterTypes.Include) ? this.assignColor(group) : undefined,
-                contextLine: 0
+                contextLine: 0,
+                ...options
             };
             group.filters.push(newFilter);
             this.logger.info(`Filter added to group '${group.name}': ${keyword} (Type: ${type}, Regex: ${isRegex})`);
@@ -254,6 +290,91 @@ export class FilterManager implements vscode.Disposable {
         return undefined;
     }
 
+    /**
+     * Adds a filter that keeps (or, as exclude, drops) lines whose timestamp lies inside the range.
+     * The keyword holds a display label of the range.
+     */
+    public addTimeRangeFilter(groupId: string, range: TimeRange, type: FilterType = 'include'): FilterItem | undefined {
+        const group = this.groups.find(g => g.id === groupId);
+        if (group) {
+            const newFilter: FilterItem = {
+                id: crypto.randomUUID(),
+                keyword: TimestampUtils.formatRange(range),
+                type,
+                isEnabled: true,
+                kind: 'timeRange',
+                timeRange: { ...range },
+                contextLine: 0
+            };
+            group.filters.push(newFilter);
+            this.logger.info(`Time range filter added to group '${group.name}': ${newFilter.keyword} (Type: ${type})`);
+            this.debouncedSaveToState();
+            this.invalidateCache();
+            this._onDidChangeFilters.fire();
+            return newFilter;
+        }
+        return undefined;
+    }
+
+    public updateTimeRange(groupId: string, filterId: string, range: TimeRange): void {
+        const found = this._findFilter(groupId, filterId);
+        if (found && found.filter.kind === 'timeRange') {
+            const { filter } = found;
+            filter.timeRange = { ...range };
+            filter.keyword = TimestampUtils.formatRange(range);
+            this.logger.info(`Time range filter '${filter.id}' set to ${filter.keyword}`);
+            this.debouncedSaveToState();
+            this.invalidateCache();
+            this._onDidChangeFilters.fire();
+        }
+    }
+
+    /**
+     * Adds a filter on a parsed field of the line, e.g. `level >= W`.
+     * The keyword holds the condition text.
+     */
+    public addFieldFilter(groupId: string, condition: FieldCondition, type: FilterType = 'include'): FilterItem | undefined {
+        const group = this.groups.find(g => g.id === groupId);
+        if (group) {
+            const keyword = LogFieldUtils.formatCondition(condition);
+            if (group.filters.some(f => f.kind === 'field' && f.keyword === keyword)) {
+                return undefined;
+            }
+
+            const newFilter: FilterItem = {
+                id: crypto.randomUUID(),
+                keyword,
+                type,
+                isEnabled: true,
+                kind: 'field',
+                field: { ...condition },
+                color: type === Constants.FilterTypes.Include ? this.assignColor(group) : undefined,
+                highlightMode: 1,
+                contextLine: 0
+            };
+            group.filters.push(newFilter);
+            this.logger.info(`Field filter added to group '${group.name}': ${keyword} (Type: ${type})`);
+            this.debouncedSaveToState();
+            this.invalidateCache();
+            this._onDidChangeFilters.fire();
+            return newFilter;
+        }
+        return undefined;
+    }
+
+    public updateFieldCondition(groupId: string, filterId: string, condition: FieldCondition): void {
+        const found = this._findFilter(groupId, filterId);
+        if (found && found.filter.kind === 'field') {
+            const { filter } = found;
+            filter.field = { ...condition };
+            filter.keyword = LogFieldUtils.formatCondition(condition);
+            this.logger.info(`Field filter '${filter.id}' set to ${filter.keyword}`);
+            this.debouncedSaveToState();
+            this.invalidateCache();
+            this._onDidChangeFilters.fire();
+        }
+    }
+
     private assignColor(group: FilterGroup): string {
         return this.colorService.assignColor(group);
     }
@@ -349,10 +470,13 @@ export class FilterManager implements vscode.Disposable {
             this.groups = this.groups.filter(g => g.id !== groupId);
             this.logger.info(`Filter group removed: ${group.name}`);
 
-            // If all regex groups are gone, restore defaults
+            // If all regex groups are gone, restore defaults, as part of the same edit
             if (group.isRegex) {
+                this.isRecordingHistory = false;
                 this.initDefaultFilters();
+                this.isRecordingHistory = true;
             }
+            this.refreshInheritedGroups(); // The group may have overridden an inherited one
 
             this.debouncedSaveToState();
             this.invalidateCache();
@@ -371,6 +495,34 @@ export class FilterManager implements vscode.Disposable {
         }
     }
 
+    public setGroupMatchMode(groupId: string, mode: GroupMatchMode): void {
+        const group = this.groups.find(g => g.id === groupId);
+        if (group && (group.matchMode ?? 'any') !== mode) {
+            group.matchMode = mode;
+            this.logger.info(`Filter group '${group.name}' match mode set to '${mode}'`);
+            this.debouncedSaveToState();
+            this.invalidateCache();
+            this._onDidChangeFilters.fire();
+        }
+    }
+
+    public setGroupExpression(groupId: string, expression: string | undefined): void {
+        const group = this.groups.find(g => g.id === groupId);
+        if (group) {
+            const trimmed = expression?.trim();
+            // Saved with filter IDs, so that the expression survives reordering
+            const normalized = trimmed ? FilterExpression.format(trimmed, group.filters, 'id') : undefined;
+            if (group.expression === normalized) {
+                return;
+            }
+            group.expression = normalized;
+            this.logger.info(`Filter group '${group.name}' match expression ${normalized ? `set to '${normalized}'` : 'cleared'}`);
+            this.debouncedSaveToState();
+            this.invalidateCache();
+            this._onDidChangeFilters.fire();
+        }
+    }
+
     public enableAllFiltersInGroup(groupId: string): void {
         const group = this.groups.find(g => g.id === groupId);
         if (group) {
@@ -466,6 +618,23 @@ export class FilterManager implements vscode.Disposable {
         }
     }
 
+    /**
+     * Sets how the keyword of a word filter is matched. Options that are off are removed from the filter.
+     */
+    public setKeywordOptions(groupId: string, filterId: string, options: KeywordOptions): void {
+        const found = this._findFilter(groupId, filterId);
+        if (found) {
+            const { filter } = found;
+            filter.wholeWord = options.wholeWord || undefined;
+            filter.wildcard = options.wildcard || undefined;
+            filter.template = options.template || undefined;
+            this.logger.info(`Filter '${filter.id}' keyword options set: whole word ${!!filter.wholeWord}, wildcards ${!!filter.wildcard}, template ${!!filter.template}`);
+            this.debouncedSaveToState();
+            this.invalidateCache();
+            this._onDidChangeFilters.fire();
+        }
+    }
+
     public setFilterExcludeStyle(groupId: string, filterId: string, style: 'line-through' | 'hidden'): void {
         const found = this._findFilter(groupId, filterId);
         if (found) {
@@ -623,7 +792,8 @@ export class FilterManager implements vscode.Disposable {
     }
 
     public exportFilters(mode: 'word' | 'regex', groupIds?: string[]): string {
-        const groupsToExport = this.groups
+        // Inherited groups are exported like own ones, so that the file stands on its own
+        const groupsToExport = this.getGroups()
             .filter(g => {
                 const modeMatch = mode === 'regex' ? g.isRegex : !g.isRegex;
                 if (!modeMatch) { return false; }
@@ -633,11 +803,12 @@ export class FilterManager implements vscode.Disposable {
                 return true;
             })
             .map(g => {
-                const { resultCount: _1, id: _2, ...rest } = g;
+                const { resultCount: _1, id: _2, inheritedFrom: _6, ...rest } = g;
                 return {
                     ...rest,
+                    ...FilterManager.exportExpression(g),
                     filters: g.filters.map(f => {
-                        const { resultCount: _3, id: _4, ...itemRest } = f;
+                        const { resultCount: _3, id: _4, dropCount: _5, ...itemRest } = f;
                         return itemRest;
                     })
                 };
@@ -652,17 +823,23 @@ export class FilterManager implements vscode.Disposable {
         return JSON.stringify(exportData, null, 4);
     }
 
+    // Exported filters have no IDs, so references are written as positions
+    private static exportExpression(group: FilterGroup): { expression?: string } {
+        return group.expression ? { expression: FilterExpression.format(group.expression, group.filters, 'position') } : {};
+    }
+
     public exportGroup(groupId: string): string | undefined {
-        const group = this.groups.find(g => g.id === groupId);
+        const group = this.getGroups().find(g => g.id === groupId);
         if (!group) {
             return undefined;
         }
 
-        const { resultCount: _1, id: _2, ...rest } = group;
+        const { resultCount: _1, id: _2, inheritedFrom: _6, ...rest } = group;
         const exportedGroup = {
             ...rest,
+            ...FilterManager.exportExpression(group),
             filters: group.filters.map(f => {
-                const { resultCount: _3, id: _4, ...itemRest } = f;
+                const { resultCount: _3, id: _4, dropCount: _5, ...itemRest } = f;
                 return itemRest;
             })
         };
@@ -726,6 +903,9 @@ export class FilterManager implements vscode.Disposable {
                         id: crypto.randomUUID()
                     }))
                 };
+                if (newGroup.expression) {
+                    newGroup.expression = FilterExpression.format(newGroup.expression, newGroup.filters, 'id');
+                }
 
                 this.groups.push(newGroup);
                 addedCount++;
@@ -748,7 +928,7 @@ export class FilterManager implements vscode.Disposable {
 
     public updateResultCounts(counts: { filterId: string, count: number }[], groupCounts: { groupId: string, count: number }[]): void {
         let changed = false;
-        for (const group of this.groups) {
+        for (const group of this.getGroups()) {
             const gCount = groupCounts.find(c => c.groupId === group.id);
             if (gCount !== undefined && group.resultCount !== gCount.count) {
                 group.resultCount = gCount.count;
@@ -774,6 +954,29 @@ export class FilterManager implements vscode.Disposable {
         }
     }
 
+    /**
+     * Sets the lines each exclude filter of the given groups dropped, or clears them.
+     * @param groups Groups of the run (may be a snapshot); filters are matched by ID
+     * @param counts Key: filter ID; undefined clears the counts of these filters
+     */
+    public updateDropCounts(groups: FilterGroup[], counts: Map<string, number> | undefined): void {
+        const excludes = groups.flatMap(g => g.filters.filter(f => f.type === 'exclude'));
+        const filterIds = new Set(excludes.map(f => f.id));
+        const enabledIds = new Set(excludes.filter(f => f.isEnabled).map(f => f.id)); // Disabled filters dropped nothing
+        for (const group of this.getGroups()) {
+            for (const filter of group.filters) {
+                if (!filterIds.has(filter.id)) {
+                    continue;
+                }
+                const dropCount = counts && enabledIds.has(filter.id) ? counts.get(filter.id) ?? 0 : undefined;
+                if (filter.dropCount !== dropCount) {
+                    filter.dropCount = dropCount;
+                    this._onDidChangeResultCounts.fire(filter);
+                }
+            }
+        }
+    }
+
     // Profile Management
 
     public getActiveProfile(): string {
@@ -784,13 +987,14 @@ export class FilterManager implements vscode.Disposable {
         return this.profileManager.getProfileNames();
     }
 
-    public getProfilesMetadata(): { name: string, wordCount: number, regexCount: number }[] {
+    public getProfilesMetadata(): { name: string, wordCount: number, regexCount: number, isWorkspace: boolean, layers: string[] }[] {
         return this.profileManager.getProfilesMetadata();
     }
 
     public async deleteProfile(name: string): Promise<boolean> {
         const success = await this.profileManager.deleteProfile(name);
         if (success) {
+            this.history.delete(name);
             if (this.profileManager.getActiveProfile() === Constants.Labels.DefaultProfile) {
                 await this.loadProfile(Constants.Labels.DefaultProfile);
             }
@@ -808,13 +1012,16 @@ export class FilterManager implements vscode.Disposable {
         // For now, let's manually create the default group structure or just use empty if initDefaultFilters depends on this.groups state.
         const previousGroups = this.stateService.deepCopy(this.groups);
         this.groups = [];
+        this.isRecordingHistory = false; // The defaults belong to the new profile, not the active one
         this.initDefaultFilters();
+        this.isRecordingHistory = true;
 
         const success = await this.profileManager.createProfile(name, this.stateService.deepCopy(this.groups));
         if (success) {
             this.stateService.saveToState(this.groups);
             await this.profileManager.loadProfile(name);
-            this.invalidateCache();
+            this.refreshInheritedGroups();
+            this.recordHistory();
             this._onDidChangeFilters.fire();
             this.logger.info(`Created and switched to new profile: ${name}`);
             return true;
@@ -840,7 +1047,7 @@ export class FilterManager implements vscode.Disposable {
                 return false;
             }
 
-            await this.profileManager.updateProfileData(name, this.groups);
+            await this.profileManager.updateProfileData(name, this.groups, this.getProfileLayers());
             this.logger.info(`Duplicated current profile to: ${name}`);
             return true;
         } catch (e) {
@@ -849,12 +1056,27 @@ export class FilterManager implements vscode.Disposable {
         }
     }
 
+    /**
+     * Saves the current filters as a profile in the workspace profile file and switches to it.
+     * @returns false if no folder is open or a profile of that name exists
+     */
+    public async saveProfileToWorkspace(name: string): Promise<boolean> {
+        const success = await this.profileManager.createWorkspaceProfile(name, this.stateService.deepCopy(this.groups), this.getProfileLayers());
+        if (success) {
+            await this.loadProfile(name);
+            this.logger.info(`Saved current filters to workspace profile: ${name}`);
+        }
+        return success;
+    }
+
     public async loadProfile(name: string): Promise<boolean> {
         const groups = await this.profileManager.loadProfile(name);
 
         if (groups) {
             this.groups = this.stateService.deepCopy(groups);
             this.resetCounts();
+            this.refreshInheritedGroups();
+            this.recordHistory();
             this.stateService.saveToState(this.groups);
             this._onDidChangeFilters.fire();
             this.logger.info(`Switched to profile: ${name}`);
@@ -863,6 +1085,8 @@ export class FilterManager implements vscode.Disposable {
             // Default profile explicit switch
             this.groups = [];
             this.initDefaultFilters();
+            this.refreshInheritedGroups();
+            this.recordHistory();
             this.stateService.saveToState(this.groups);
             this._onDidChangeFilters.fire();
             return true;
@@ -870,6 +1094,136 @@ export class FilterManager implements vscode.Disposable {
         return false;
     }
 
+    public getProfileLayers(): string[] {
+        return this.profileManager.getProfileLayers(this.profileManager.getActiveProfile());
+    }
+
+    /**
+     * Makes the active profile inherit the groups of the given profiles, in order.
+     */
+    public async setProfileLayers(layers: string[]): Promise<void> {
+        await this.saveFilters(); // The profile may not be stored yet, e.g. an unchanged Default profile
+        await this.profileManager.setProfileLayers(this.profileManager.getActiveProfile(), layers);
+        this.refreshInheritedGroups();
+        this._onDidChangeFilters.fire();
+        this.logger.info(`Profile '${this.getActiveProfile()}' inherits: ${layers.join(', ') || '(none)'}`);
+    }
+
+    /**
+     * Copies an inherited group into the active profile, where it can be edited and replaces the inherited one.
+     */
+    public overrideGroup(groupId: string): FilterGroup | undefined {
+        const inherited = this.inheritedGroups.find(g => g.id === groupId);
+        if (!inherited) {
+            return undefined;
+        }
+        const { inheritedFrom: _, ...copy } = this.stateService.deepCopy(inherited);
+        this.groups.unshift(copy);
+        this.inheritedGroups = this.inheritedGroups.filter(g => g !== inherited);
+        this.logger.info(`Inherited group '${inherited.name}' from '${inherited.inheritedFrom}' overridden locally.`);
+        this.debouncedSaveToState();
+        this.invalidateCache();
+        this._onDidChangeFilters.fire();
+        return copy;
+    }
+
+    // Edit History
+
+    public canUndo(): boolean {
+        return this.getHistory().undo.length > 0;
+    }
+
+    public canRedo(): boolean {
+        return this.getHistory().redo.length > 0;
+    }
+
+    /**
+     * Restores the groups of the active profile as they were before its last edit.
+     * @returns false if there is nothing to undo
+     */
+    public undo(): boolean {
+        this.recordHistory();
+        const history = this.getHistory();
+        const current = history.snapshot;
+        if (current === undefined || history.undo.length === 0) {
+            return false;
+        }
+        const previous = history.undo.pop()!;
+        history.redo.push(current);
+        this.restoreSnapshot(history, previous);
+        this.logger.info(`Undid filter edit in profile '${this.getActiveProfile()}'`);
+        return true;
+    }
+
+    /**
+     * Applies the last undone edit of the active profile again.
+     * @returns false if there is nothing to redo
+     */
+    public redo(): boolean {
+        this.recordHistory();
+        const history = this.getHistory();
+        const current = history.snapshot;
+        if (current === undefined || history.redo.length === 0) {
+            return false;
+        }
+        const next = history.redo.pop()!;
+        history.undo.push(current);
+        this.restoreSnapshot(history, next);
+        this.logger.info(`Redid filter edit in profile '${this.getActiveProfile()}'`);
+        return true;
+    }
+
+    private getHistory(): FilterEditHistory {
+        const profile = this.profileManager.getActiveProfile();
+        let history = this.history.get(profile);
+        if (!history) {
+            history = { undo: [], redo: [] };
+            this.history.set(profile, history);
+        }
+        return history;
+    }
+
+    // Adds the state before the current one to the history of the active profile, if the groups changed since.
+    // The first state recorded for a profile only becomes the base of its history.
+    private recordHistory() {
+        if (!this.isRecordingHistory) {
+            return;
+        }
+        const history = this.getHistory();
+        const snapshot = FilterManager.toSnapshot(this.groups);
+        if (history.snapshot !== undefined && history.snapshot !== snapshot) {
+            history.undo.push(history.snapshot);
+            if (history.undo.length > FilterManager.MAX_HISTORY) {
+                history.undo.shift();
+            }
+            history.redo = [];
+        }
+        history.snapshot = snapshot;
+        this.updateHistoryContext(history);
+    }
+
+    private restoreSnapshot(history: FilterEditHistory, snapshot: string) {
+        // Expanded state is not part of the history, so groups stay as the user left them in the views
+        const expanded = new Map(this.groups.map(g => [g.id, g.isExpanded]));
+        this.groups = (JSON.parse(snapshot) as FilterGroup[]).map(g => ({ ...g, isExpanded: expanded.get(g.id) ?? g.isExpanded }));
+        history.snapshot = snapshot;
+        this.resetCounts();
+        this.refreshInheritedGroups();
+        this.debouncedSaveToState();
+        this.updateHistoryContext(history);
+        this._onDidChangeFilters.fire();
+    }
+
+    private updateHistoryContext(history: FilterEditHistory) {
+        vscode.commands.executeCommand('setContext', Constants.ContextKeys.CanUndoFilterEdit, history.undo.length > 0);
+        vscode.commands.executeCommand('setContext', Constants.ContextKeys.CanRedoFilterEdit, history.redo.length > 0);
+    }
+
+    // Counts and expanded state change without the user editing anything, so they are left out
+    private static toSnapshot(groups: FilterGroup[]): string {
+        return JSON.stringify(groups, (key, value) => key === 'resultCount' || key === 'dropCount' || key === 'isExpanded' ? undefined : value);
+    }
+
     public dispose() {
         if (this.saveDebounceTimer) {
             clearTimeout(this.saveDebounceTimer);
@@ -878,6 +1232,7 @@ export class FilterManager implements vscode.Disposable {
         this._onDidChangeFilters.dispose();
         this._onDidChangeResultCounts.dispose();
         this._onDidChangeProfile.dispose();
+        this.profileManager.dispose();
         this.configDisposable.dispose();
     }
 }
@@ -0,0 +1,196 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { Constants } from '../Constants';
+import { FileHierarchyService } from './FileHierarchyService';
+import { LogBookmarkService } from './LogBookmarkService';
+import { Logger } from './Logger';
+import { FilterResultFileSystemProvider } from '../providers/FilterResultFileSystemProvider';
+
+export type GeneratedFileKind = 'filter' | 'logcat' | 'workflow' | 'merge' | 'screenshot' | 'recording';
+
+interface GeneratedFileRecord {
+    path: string;
+    kind: GeneratedFileKind;
+    created: number; // Epoch ms
+}
+
+export interface GeneratedFile extends GeneratedFileRecord {
+    size: number;
+    keptBecause?: string; // Set for files that must not be deleted
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MB = 1024 * 1024;
+
+/**
+ * Tracks the files the extension writes to disk (filter outputs and the results held on disk, copies of
+ * untitled documents and logcat sessions made to filter them, workflow step results, merged logs,
+ * screenshots and screen recordings) across sessions, and deletes them once they exceed the age or size quota
+ * (`generatedFiles.maxAgeDays`, `generatedFiles.maxSizeMB`). Oldest files are deleted first.
+ *
+ * Files with bookmarks, with results derived from them, holding a filter result or open in an editor are never deleted.
+ * Files generated in the current window are only deleted on request, as they may still be opened.
+ */
+export class GeneratedFileService {
+    private static instance: GeneratedFileService;
+    private files: Map<string, GeneratedFileRecord> = new Map(); // Key: file path
+    private sessionFiles: Set<string> = new Set();
+    private storage: vscode.Memento | undefined;
+    private bookmarkService: LogBookmarkService | undefined;
+    private quotaRun: Promise<void> = Promise.resolve();
+
+    private constructor() { }
+
+    public static getInstance(): GeneratedFileService {
+        if (!GeneratedFileService.instance) {
+            GeneratedFileService.instance = new GeneratedFileService();
+        }
+        return GeneratedFileService.instance;
+    }
+
+    public initialize(context: vscode.ExtensionContext, bookmarkService: LogBookmarkService) {
+        this.storage = context.globalState;
+        this.bookmarkService = bookmarkService;
+        for (const record of this.storage.get<GeneratedFileRecord[]>(Constants.GlobalState.GeneratedFiles, [])) {
+            this.files.set(record.path, record);
+        }
+
+        context.subscriptions.push(vscode.workspace.onDidChangeConfiguration(e => {
+            if (e.affectsConfiguration(`${Constants.Configuration.Section}.${Constants.Configuration.GeneratedFiles.Section}`)) {
+                this.enforceQuota();
+            }
+        }));
+        this.enforceQuota();
+    }
+
+    public track(filePath: string, kind: GeneratedFileKind) {
+        this.files.set(filePath, { path: filePath, kind, created: Date.now() });
+        this.sessionFiles.add(filePath);
+        this.save();
+        this.enforceQuota();
+    }
+
+    /**
+     * Generated files that still exist, oldest first. Files deleted by other means are forgotten.
+     */
+    public async list(): Promise<GeneratedFile[]> {
+        const files: GeneratedFile[] = [];
+        for (const record of Array.from(this.files.values())) {
+            try {
+                const { size } = await fs.promises.stat(record.path);
+                files.push({ ...record, size, keptBecause: this.getKeepReason(vscode.Uri.file(record.path)) });
+            } catch (_e) {
+                this.files.delete(record.path);
+            }
+        }
+        this.save();
+        return files.sort((a, b) => a.created - b.created);
+    }
+
+    /**
+     * Deletes generated files, skipping those that must be kept.
+     * @returns The deleted files
+     */
+    public async delete(files: GeneratedFile[]): Promise<GeneratedFile[]> {
+        const deleted: GeneratedFile[] = [];
+        for (const file of files) {
+            // Checked again: a file may have been bookmarked or opened since it was listed
+            const uri = vscode.Uri.file(file.path);
+            if (this.getKeepReason(uri)) {
+                continue;
+            }
+            try {
+                await fs.promises.unlink(file.path);
+                deleted.push(file);
+            } catch (e) {
+                Logger.getInstance().error(`Failed to delete generated file ${file.path}: ${e}`);
+                continue;
+            }
+            this.files.delete(file.path);
+            FileHierarchyService.getInstance().unregister(uri);
+        }
+        this.save();
+        return deleted;
+    }
+
+    /**
+     * Deletes the files exceeding the quota. Runs are queued, so that a file is not deleted twice.
+     */
+    public enforceQuota(): Promise<void> {
+        this.quotaRun = this.quotaRun.then(() => this.applyQuota()).catch(e => {
+            Logger.getInstance().error(`Failed to clean generated files: ${e}`);
+        });
+        return this.quotaRun;
+    }
+
+    private async applyQuota() {
+        const config = vscode.workspace.getConfiguration(Constants.Configuration.Section);
+        const maxAgeDays = config.get<number>(Constants.Configuration.GeneratedFiles.MaxAgeDays, 7);
+        const maxSizeMB = config.get<number>(Constants.Configuration.GeneratedFiles.MaxSizeMB, 2048);
+        if (maxAgeDays <= 0 && maxSizeMB <= 0) {
+            return;
+        }
+
+        const files = await this.list();
+        const deletable = (file: GeneratedFile) => !file.keptBecause && !this.sessionFiles.has(file.path);
+        const expired = new Set<GeneratedFile>();
+
+        if (maxAgeDays > 0) {
+            const cutoff = Date.now() - maxAgeDays * DAY_MS;
+            files.filter(file => file.created < cutoff && deletable(file)).forEach(file => expired.add(file));
+        }
+        if (maxSizeMB > 0) {
+            let total = files.reduce((sum, file) => sum + (expired.has(file) ? 0 : file.size), 0);
+            for (const file of files) {
+                if (total <= maxSizeMB * MB) {
+                    break;
+                }
+                if (!expired.has(file) && deletable(file)) {
+                    expired.add(file);
+                    total -= file.size;
+                }
+            }
+        }
+
+        if (expired.size > 0) {
+            const deleted = await this.delete(Array.from(expired));
+            Logger.getInstance().info(`Deleted ${deleted.length} generated files exceeding the quota.`);
+        }
+    }
+
+    private getKeepReason(uri: vscode.Uri): string | undefined {
+        if (this.bookmarkService && this.bookmarkService.getFileActiveLinesCount(uri.toString()) > 0) {
+            return 'has bookmarks';
+        }
+        if (FileHierarchyService.getInstance().getChildren(uri).some(child => this.exists(child))) {
+            return 'has derived results';
+        }
+        if (FilterResultFileSystemProvider.getInstance().isBackingFile(uri.fsPath)) {
+            return 'holds a filter result';
+        }
+        const isOpen = vscode.window.tabGroups.all.some(group => group.tabs.some(tab =>
+            (tab.input instanceof vscode.TabInputText || tab.input instanceof vscode.TabInputCustom) && tab.input.uri.toString() === uri.toString()));
+        if (isOpen) {
+            return 'is open';
+        }
+        return undefined;
+    }
+
+    // Results of earlier sessions stay in the hierarchy after their documents are gone
+    private exists(uri: vscode.Uri): boolean {
+        switch (uri.scheme) {
+            case Constants.Schemes.File:
+                return fs.existsSync(uri.fsPath);
+            case Constants.Schemes.Result:
+                return FilterResultFileSystemProvider.getInstance().has(uri);
+            case Constants.Schemes.Untitled:
+                return vscode.workspace.textDocuments.some(doc => doc.uri.toString() === uri.toString());
+            default:
+                return true;
+        }
+    }
+
+    private save() {
+        this.storage?.update(Constants.GlobalState.GeneratedFiles, Array.from(this.files.values()));
+    }
+}
@@ -2,9 +2,12 @@ import * as vscode from 'vscode';
 import { Constants } from '../Constants';
 
 import { FilterManager } from './FilterManager';
-import { FilterItem } from '../models/Filter';
+import { FilterGroup, FilterItem } from '../models/Filter';
 import { Logger } from './Logger';
+import { CompiledGroup, LogProcessor } from './LogProcessor';
 import { RegexUtils } from '../utils/RegexUtils';
+import { TimestampUtils } from '../utils/TimestampUtils';
+import { LogFieldUtils } from '../utils/LogFieldUtils';
 
 export type HighlightColor = string | { light: string; dark: string };
 
@@ -19,6 +22,11 @@ export interface DecorationConfig {
 export class HighlightService implements vscode.Disposable {
     // Map of URI string -> specific filters for that file
     private documentFilters: Map<string, { filter: FilterItem, groupId: string }[]> = new Map();
+    // Map of URI string -> groups used to evaluate match modes / expressions for that file
+    private documentGroups: Map<string, FilterGroup[]> = new Map();
+    private logProcessor = new LogProcessor();
+    // Keyword filters whose regex ran out of the time budget; skipped until the keyword or its options change
+    private slowFilters: Set<string> = new Set();
 
     // Map of color string -> DecorationType
     private static readonly MAX_DECORATION_CACHE = 1000;
@@ -31,8 +39,108 @@ export class HighlightService implements vscode.Disposable {
         private logger: Logger
     ) { }
 
-    public registerDocumentFilters(uri: vscode.Uri, filters: { filter: FilterItem, groupId: string }[]) {
+    public registerDocumentFilters(uri: vscode.Uri, filters: { filter: FilterItem, groupId: string }[], groups?: FilterGroup[]) {
         this.documentFilters.set(uri.toString(), filters);
+        if (groups) {
+            this.documentGroups.set(uri.toString(), groups);
+        } else {
+            this.documentGroups.delete(uri.toString());
+        }
+    }
+
+    /**
+     * Builds per-group line predicates for groups whose includes are not simply OR'd
+     * ('all' match mode, an expression or time ranges). Include highlights and counts of
+     * such groups are restricted to lines where the whole group matches.
+     * Filters too slow to highlight are left out of the groups, like disabled filters.
+     */
+    private buildGroupGates(editor: vscode.TextEditor): Map<string, (line: number) => boolean> {
+        const gates = new Map<string, (line: number) => boolean>();
+        const groups = this.documentGroups.get(editor.document.uri.toString())
+            ?? this.filterManager.getGroups().filter(g => g.isEnabled);
+        let lines: string[] | undefined;
+        const getLines = () => lines ??= editor.document.getText().split(/\r?\n/);
+
+        for (const group of groups) {
+            const hasTimeRanges = group.filters.some(f => f.isEnabled && f.kind === 'timeRange');
+            if ((group.matchMode ?? 'any') === 'any' && !group.expression?.trim() && !hasTimeRanges) {
+                continue;
+            }
+            let compiled: CompiledGroup;
+            try {
+                compiled = this.logProcessor.compileGroup(this.withoutSlowFilters(group, getLines));
+            } catch (e) {
+                this.logger.warn(`Failed to evaluate group '${group.name}': ${e}`);
+                continue;
+            }
+            if (hasTimeRanges) {
+                // Lines without a timestamp inherit the previous one, so lines are evaluated in order
+                const results: boolean[] = [];
+                gates.set(group.id, (line: number) => {
+                    for (let next = results.length; next <= line; next++) {
+                        results.push(this.logProcessor.checkGroupCompiled(editor.document.lineAt(next).text, compiled));
+                    }
+                    return results[line];
+                });
+                continue;
+            }
+            const lineCache = new Map<number, boolean>();
+            gates.set(group.id, (line: number) => {
+                let result = lineCache.get(line);
+                if (result === undefined) {
+                    result = this.logProcessor.checkGroupCompiled(editor.document.lineAt(line).text, compiled);
+                    lineCache.set(line, result);
+                }
+                return result;
+            });
+        }
+        return gates;
+    }
+
+    /**
+     * Disables the keyword filters of a group whose regex runs longer than the time budget on a line of the document.
+     * The gates then evaluate the remaining regexes without a budget, which cannot block: each of them
+     * already got through every line in time.
+     */
+    private withoutSlowFilters(group: FilterGroup, getLines: () => string[]): FilterGroup {
+        const budgetMs = this.getRegexTimeBudget();
+        const slowIds: string[] = [];
+        for (const filter of group.filters) {
+            if (!filter.isEnabled || !filter.keyword || (filter.kind && filter.kind !== 'keyword')) {
+                continue;
+            }
+            if (!this.slowFilters.has(this.getSlowFilterKey(filter))) {
+                if (budgetMs === 0 || !RegexUtils.testLinesByLine(RegexUtils.create(filter.keyword, !!filter.isRegex, !!filter.caseSensitive, filter), getLines(), budgetMs).timedOut) {
+                    continue;
+                }
+                this.reportSlowFilter(filter, group.id);
+            }
+            slowIds.push(filter.id);
+        }
+        return slowIds.length > 0 ? this.logProcessor.disableFilters([group], slowIds)[0] : group;
+    }
+
+    /**
+     * Builds line predicates for time range and field filters, which match whole lines instead of text.
+     * A time range keeps the last timestamp it saw, so the same predicate must be used for all chunks of a document.
+     */
+    private buildLinePredicates(filters: { filter: FilterItem }[]): Map<string, (line: string) => boolean> {
+        const predicates = new Map<string, (line: string) => boolean>();
+        for (const { filter } of filters) {
+            try {
+                if (filter.kind === 'timeRange' && filter.timeRange) {
+                    const range = TimestampUtils.compileRange(filter.timeRange);
+                    predicates.set(filter.id, line => TimestampUtils.testRange(line, range));
+                } else if (filter.kind === 'field' && filter.field) {
+                    const { format, pattern } = this.logProcessor.getFieldFormat();
+                    const condition = LogFieldUtils.compileCondition(filter.field, format, pattern);
+                    predicates.set(filter.id, line => LogFieldUtils.testCondition(line, condition));
+                }
+            } catch (e) {
+                this.logger.warn(`Failed to apply filter '${filter.keyword}': ${e}`);
+            }
+        }
+        return predicates;
     }
 
     private getDecorationKey(colorNameOrValue: HighlightColor | undefined, isFullLine: boolean, textDecoration?: string, fontWeight?: string, textColor?: string): string {
@@ -171,8 +279,11 @@ export class HighlightService implements vscode.Disposable {
 
         const defaultColor = vscode.workspace.getConfiguration(Constants.Configuration.Section).get<string | { light: string, dark: string }>(Constants.Configuration.Regex.HighlightColor) || Constants.Configuration.Regex.DefaultHighlightColor;
 
+        const groupGates = this.buildGroupGates(editor);
+        const linePredicates = this.buildLinePredicates(filtersToRun);
+
         filtersToRun.forEach(({ filter, groupId }) => {
-            this.processFilter(editor, text, filter, groupId, defaultColor, rangesByDeco, matchCounts, 0);
+            this.processFilter(editor, text, filter, groupId, defaultColor, rangesByDeco, matchCounts, 0, groupGates.get(groupId), linePredicates.get(filter.id));
         });
 
         this.applyDecorations(editor, rangesByDeco);
@@ -215,6 +326,8 @@ export class HighlightService implements vscode.Disposable {
 
         const defaultColor = vscode.workspace.getConfiguration(Constants.Configuration.Section).get<string | { light: string, dark: string }>(Constants.Configuration.Regex.HighlightColor) || Constants.Configuration.Regex.DefaultHighlightColor;
 
+        const groupGates = this.buildGroupGates(editor);
+        const linePredicates = this.buildLinePredicates(filtersToRun);
         let lastYield = Date.now();
 
         for (let startLine = 0; startLine < editor.document.lineCount; startLine += CHUNK_SIZE) {
@@ -224,7 +337,7 @@ export class HighlightService implements vscode.Disposable {
             const chunkOffset = editor.document.offsetAt(new vscode.Position(startLine, 0));
 
             for (const { filter, groupId } of filtersToRun) {
-                this.processFilter(editor, chunkText, filter, groupId, defaultColor, rangesByDeco, matchCounts, chunkOffset);
+                this.processFilter(editor, chunkText, filter, groupId, defaultColor, rangesByDeco, matchCounts, chunkOffset, groupGates.get(groupId), linePredicates.get(filter.id));
             }
 
             // Yield to UI thread if needed
@@ -249,13 +362,25 @@ export class HighlightService implements vscode.Disposable {
         defaultColor: HighlightColor,
         rangesByDeco: Map<string, vscode.Range[]>,
         matchCounts: Map<string, number>,
-        offset: number
+        offset: number,
+        groupGate?: (line: number) => boolean,
+        linePredicate?: (line: string) => boolean
     ) {
-        if (!filter.keyword) {
+        if (filter.kind && filter.kind !== 'keyword') {
+            if (linePredicate) {
+                // Like keyword includes, include field filters are restricted by the group gate
+                const lineGate = filter.kind === 'field' && filter.type !== 'exclude' ? groupGate : undefined;
+                this.processLineFilter(editor, text, filter, defaultColor, rangesByDeco, matchCounts, offset, linePredicate, lineGate);
+            }
+            return;
+        }
+        if (!filter.keyword || this.slowFilters.has(this.getSlowFilterKey(filter))) {
             return;
         }
 
         const isExclude = filter.type === 'exclude';
+        // Excludes veto lines on their own, so only includes are restricted by the group gate
+        const lineGate = isExclude ? undefined : groupGate;
         const decoRequests: { color: HighlightColor | undefined, isFullLine: boolean, textDecoration?: string, fontWeight?: string, useLineRange: boolean, textColor?: string }[] = [];
 
         if (isExclude) {
@@ -307,16 +432,27 @@ export class HighlightService implements vscode.Disposable {
         });
 
         try {
-            const regex = RegexUtils.create(filter.keyword, !!filter.isRegex, !!filter.caseSensitive);
+            const regex = RegexUtils.create(filter.keyword, !!filter.isRegex, !!filter.caseSensitive, filter);
+            // The text spans many lines; the budget applies per line, as when filtering
+            const found = RegexUtils.findAllByLine(regex, text, this.getRegexTimeBudget());
+            if (found.timedOut) {
+                this.reportSlowFilter(filter, groupId);
+                return;
+            }
             let count = 0;
-            let match;
 
-            while ((match = regex.exec(text))) {
-                count++;
-                const startIndex = match.index;
+            for (let i = 0; i < found.matches.length; i += 2) {
+                const startIndex = found.matches[i];
                 const absStartIndex = offset + startIndex;
 
                 let startPos: vscode.Position | undefined;
+                if (lineGate) {
+                    startPos = editor.document.positionAt(absStartIndex);
+                    if (!lineGate(startPos.line)) {
+                        continue;
+                    }
+                }
+                count++;
 
                 decoContexts.forEach(ctx => {
                     if (!startPos) {
@@ -326,8 +462,7 @@ export class HighlightService implements vscode.Disposable {
                     if (ctx.useLineRange) {
                         rangesByDeco.get(ctx.key)!.push(editor.document.lineAt(startPos.line).range);
                     } else {
-                        const endIndex = startIndex + match![0].length;
-                        const absEndIndex = offset + endIndex;
+                        const absEndIndex = absStartIndex + found.matches[i + 1];
                         const endPos = editor.document.positionAt(absEndIndex);
                         rangesByDeco.get(ctx.key)!.push(new vscode.Range(startPos, endPos));
                     }
@@ -367,6 +502,60 @@ export class HighlightService implements vscode.Disposable {
         }
     }
 
+    /**
+     * Highlights a filter that matches whole lines (time range or field filter).
+     * Include time ranges dim the lines outside the range, include field filters color the
+     * matching lines, and excludes apply the exclude style to the matching lines.
+     * The count is the number of matching lines.
+     */
+    private processLineFilter(
+        editor: vscode.TextEditor,
+        text: string,
+        filter: FilterItem,
+        defaultColor: HighlightColor,
+        rangesByDeco: Map<string, vscode.Range[]>,
+        matchCounts: Map<string, number>,
+        offset: number,
+        predicate: (line: string) => boolean,
+        lineGate?: (line: number) => boolean
+    ) {
+        const isExclude = filter.type === 'exclude';
+        // Time ranges mark the lines outside an include window, everything else marks the matching lines
+        const markMatches = isExclude || filter.kind !== 'timeRange';
+        const hidden = isExclude && filter.excludeStyle === 'hidden';
+        const color = !isExclude && filter.kind === 'field' ? filter.color || defaultColor : undefined;
+        const fontWeight = color ? 'bold' : undefined;
+        const textDecoration = isExclude && !hidden ? 'line-through' : undefined;
+        const textColor = hidden ? 'transparent' : undefined;
+        const isFullLine = !color || filter.highlightMode === 2;
+
+        this.getDecorationInfo(color, isFullLine, textDecoration, fontWeight, textColor);
+        const key = this.getDecorationKey(color, isFullLine, textDecoration, fontWeight, textColor);
+        if (!rangesByDeco.has(key)) {
+            rangesByDeco.set(key, []);
+        }
+        const ranges = rangesByDeco.get(key)!;
+
+        const startLine = editor.document.positionAt(offset).line;
+        const lines = text.split('\n');
+        // A chunk ends with the line break before the next chunk's first line
+        const lineCount = text.endsWith('\n') ? lines.length - 1 : lines.length;
+        let count = 0;
+
+        for (let i = 0; i < lineCount; i++) {
+            // The predicate sees every line, as time ranges carry the last timestamp forward
+            const matched = predicate(lines[i]) && (!lineGate || lineGate(startLine + i));
+            if (matched) {
+                count++;
+            }
+            if (matched === markMatches) {
+                ranges.push(editor.document.lineAt(startLine + i).range);
+            }
+        }
+
+        matchCounts.set(filter.id, (matchCounts.get(filter.id) || 0) + count);
+    }
+
     private applyDecorations(editor: vscode.TextEditor, rangesByDeco: Map<string, vscode.Range[]>) {
         rangesByDeco.forEach((ranges, key) => {
             const decoInfo = this.decorationTypes.get(key);
@@ -400,25 +589,52 @@ export class HighlightService implements vscode.Disposable {
         });
     }
 
+    private getRegexTimeBudget(): number {
+        return Math.max(0, vscode.workspace.getConfiguration(Constants.Configuration.Section).get<number>(Constants.Configuration.Regex.TimeBudgetMs) ?? 0);
+    }
+
+    private getSlowFilterKey(filter: FilterItem): string {
+        // Same regex as the one that ran out of time, whichever of its options changes it
+        return `${filter.id}\n${RegexUtils.getKey(filter.keyword, !!filter.isRegex, !!filter.caseSensitive, filter)}`;
+    }
+
+    // Stops highlighting with the filter and tells the user once, instead of blocking the editor on every update
+    private reportSlowFilter(filter: FilterItem, groupId: string) {
+        this.slowFilters.add(this.getSlowFilterKey(filter));
+        this.logger.warn(`Filter '${filter.keyword}' exceeded the regex time budget; it is no longer highlighted.`);
+        vscode.window.showWarningMessage(
+            Constants.Messages.Warn.SlowHighlightFilter.replace('{0}', filter.nickname || filter.keyword),
+            'Edit Filter',
+            'Disable Filter'
+        ).then(selection => {
+            if (selection === 'Edit Filter') {
+                vscode.commands.executeCommand('logmagnifier.editFilter', filter);
+            } else if (selection === 'Disable Filter') {
+                this.filterManager.toggleFilter(groupId, filter.id);
+            }
+        });
+    }
+
     private getEffectiveLineColor(text: string): string | undefined {
         const activeGroups = this.filterManager.getGroups().filter(g => g.isEnabled);
         const config = vscode.workspace.getConfiguration(Constants.Configuration.Section);
         const enableRegexHighlight = config.get<boolean>(Constants.Configuration.Regex.EnableHighlight) || false;
         const defaultColor = config.get<string | { light: string, dark: string }>(Constants.Configuration.Regex.HighlightColor) || Constants.Configuration.Regex.DefaultHighlightColor;
+        const budgetMs = this.getRegexTimeBudget();
 
         // Check all filters to find a match
         for (const group of activeGroups) {
             for (const filter of group.filters) {
-                if (!filter.isEnabled || !filter.keyword) {
+                if (!filter.isEnabled || !filter.keyword || (filter.kind && filter.kind !== 'keyword')) {
                     continue;
                 }
-                if (filter.isRegex && !enableRegexHighlight) {
+                if ((filter.isRegex && !enableRegexHighlight) || this.slowFilters.has(this.getSlowFilterKey(filter))) {
                     continue;
                 }
 
                 try {
-                    const regex = RegexUtils.create(filter.keyword, !!filter.isRegex, !!filter.caseSensitive);
-                    if (regex.test(text)) {
+                    const regex = RegexUtils.create(filter.keyword, !!filter.isRegex, !!filter.caseSensitive, filter);
+                    if (RegexUtils.findAll(regex, text, budgetMs).matches.length > 0) {
                         return filter.color || (typeof defaultColor === 'string' ? defaultColor : undefined);
                     }
                 } catch (_e) { /* ignore invalid regex */ }
@@ -206,6 +206,9 @@ export class LogBookmarkService implements vscode.Disposable {
 
             // Check if it's a filtered log
             const sourceMapService = SourceMapService.getInstance();
+            if (sourceMapService.isSeparatorLine(uri, line)) {
+                return { success: false, message: 'Block separator lines cannot be bookmarked.' };
+            }
             if (sourceMapService.hasMapping(uri)) {
                 // We show a warning but allow adding the bookmark
                 vscode.window.showWarningMessage(Constants.Messages.Warn.FilteredLogViewBookmark);
@@ -274,12 +277,16 @@ export class LogBookmarkService implements vscode.Disposable {
 
         let addedCount = 0;
         const groupId = options?.groupId || Date.now().toString();
+        const sourceMapService = SourceMapService.getInstance();
 
         for (const line of lines) {
             // Check if EXACT exists
             if (list.some(b => b.line === line && b.matchText === matchText)) {
                 continue;
             }
+            if (sourceMapService.isSeparatorLine(uri, line)) {
+                continue;
+            }
 
             const lineContent = editor.document.lineAt(line).text;
             const bookmark: BookmarkItem = {
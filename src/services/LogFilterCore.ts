@@ -0,0 +1,767 @@
+import * as fs from 'fs';
+import * as readline from 'readline';
+import { ArchiveUtils, LogInputStream } from '../utils/ArchiveUtils';
+import { CircularBuffer } from '../utils/CircularBuffer';
+import { FilterExpression, FilterExpressionNode } from '../utils/FilterExpression';
+import { CompiledTimeRange, TimestampUtils } from '../utils/TimestampUtils';
+import { CompiledFieldCondition, LogFieldUtils } from '../utils/LogFieldUtils';
+import { LogTemplateUtils, RepeatCollapseMode } from '../utils/LogTemplateUtils';
+import { EncodingUtils, OutputEncoding } from '../utils/EncodingUtils';
+import { GroupMatchMode } from '../models/Filter';
+
+// This module must stay free of 'vscode' imports: it is loaded by LogFilterWorker in a worker thread.
+
+export interface CompiledGroup {
+    includes: { regex: RegExp, contextLine: number, filterId?: string }[];
+    excludes: RegExp[];
+    excludeIds?: string[]; // Filter ID of each exclude, to tell which one dropped a line
+    matchMode?: GroupMatchMode;
+    expression?: CompiledExpression;
+    // Include ranges must all contain the line for the group to match, exclude ranges reject it
+    timeRanges?: { range: CompiledTimeRange, exclude: boolean, filterId?: string }[];
+    // Field filters combine with the keyword includes according to the match mode; excludes reject the line
+    fields?: { condition: CompiledFieldCondition, contextLine: number, exclude: boolean, filterId?: string }[];
+}
+
+export interface CompiledExpression {
+    root: FilterExpressionNode;
+    // Index: position of the filter in its group. Disabled filters have no entry and evaluate to false.
+    // Time range terms are the same objects as in the group's timeRanges.
+    terms: Map<number, RegExp | CompiledTimeRange | CompiledFieldCondition>;
+    filterIds?: string[]; // Filter ID by position in the group
+}
+
+/**
+ * Counts the hits of the filters of one group while streaming, the way the editor highlights count them:
+ * keyword filters count occurrences, time range and field filters count matching lines.
+ */
+export interface CompiledHitCounters {
+    // Separately compiled copy of the group, for groups whose includes are not simply OR'd.
+    // Include keywords and include field filters only count on lines where the whole group matches.
+    gate?: CompiledGroup;
+    filters: { filterId: string, regex?: RegExp, condition?: CompiledFieldCondition, range?: CompiledTimeRange, gated: boolean }[];
+}
+
+/**
+ * Reads the capture groups of a regex filter into the columns of an extraction table.
+ */
+export interface CompiledExtractor {
+    filterId: string;
+    regex: RegExp;
+    columns: number[]; // Table column of each capture group, in group order
+}
+
+export interface ExtractedRow {
+    line: number; // 1-based source line of the record
+    timestamp?: string; // As written in the record
+    filterId: string;
+    cells: string[]; // One per table column; empty where the filter has no such group or it did not participate
+}
+
+export interface FilterRunRequest {
+    inputPath: string;
+    archiveEntry?: string; // Entry to read when inputPath is a zip/tar archive
+    outputPath: string;
+    compiledGroups: CompiledGroup[];
+    prependLineNumbers: boolean;
+    totalLineCount: number;
+    // When set, lines are grouped into records that begin at lines matching this pattern.
+    // Filters then decide per record and continuation lines travel with their record.
+    recordStart?: RegExp;
+    endByte?: number; // Reads a plain file only up to this offset (exclusive)
+    collapseRepeats?: RepeatCollapseMode;
+    separateBlocks?: boolean;
+    hitCounters?: CompiledHitCounters[];
+    encoding?: string; // Encoding of the input; detected from its first bytes if not set
+    fallbackEncoding?: string; // Used when the input is not valid UTF-8 and has no byte order mark
+    outputEncoding?: OutputEncoding; // Default 'utf8'
+    // Second output receiving the records that were not kept, each annotated with why it was dropped
+    droppedOutputPath?: string;
+    dropLabels?: Map<string, string>; // Key: filter ID, names the exclude filters in the dropped output
+    extract?: { extractors: CompiledExtractor[], columnCount: number };
+}
+
+export interface FilterPassOptions {
+    prependLineNumbers: boolean;
+    totalLineCount: number; // Sets the width of prepended line numbers
+    recordStart?: RegExp;
+    firstLine?: number; // 1-based source line number of the first line passed in (default 1)
+    // Consecutive repeated output lines are written once with a "(×N)" suffix and map to the first occurrence
+    collapseRepeats?: RepeatCollapseMode;
+    // grep-style output: a separator line between blocks that are not adjacent in the source,
+    // and context lines marked with '-' instead of ':' after their line number
+    separateBlocks?: boolean;
+    // Every line passed in is counted against these, whether it is written or not
+    hitCounters?: CompiledHitCounters[];
+    dropLabels?: Map<string, string>; // Key: filter ID, names the exclude filters in dropped lines
+    // Each kept record yields a row per extractor whose regex matches it (context records yield none)
+    extract?: { extractors: CompiledExtractor[], columnCount: number };
+}
+
+/**
+ * What an output line is: a line that matched, a context line around it, or a block separator
+ * (which has no source line).
+ */
+export type OutputLineKind = 'match' | 'context' | 'separator';
+
+export const BLOCK_SEPARATOR = '--';
+
+export interface FilterRunResult {
+    processed: number;
+    matched: number;
+    lineMapping: number[]; // Index = Output Line Number, Value = 1-based Source Line Number (0 for separators)
+    contextLines?: number[]; // 0-based output line numbers of context lines, set with `separateBlocks`
+    hitCounts?: Map<string, number>; // Key: filter ID, set with `hitCounters`
+    encoding: string; // Encoding the input was read with
+    dropped?: DroppedLines; // Set with `droppedOutputPath`
+    extracted?: { rows: ExtractedRow[], truncated: boolean }; // Set with `extract`
+}
+
+export interface DroppedLines {
+    lineMapping: number[]; // Index = Line Number in the dropped output, Value = 1-based Source Line Number
+    excludeCounts: Map<string, number>; // Key: filter ID, dropped lines per exclude filter
+    unmatched: number; // Lines dropped because no include matched them
+}
+
+export interface FilterRunHooks {
+    onProgress?: (bytesRead: number, totalBytes: number) => void;
+    isCancelled?: () => boolean;
+}
+
+/**
+ * Thrown by LogFilterCore.run when a run is cancelled through its hooks.
+ * The partial output file has already been removed at that point.
+ */
+export class FilterRunCancelledError extends Error {
+    constructor() {
+        super('Filter run cancelled');
+        this.name = 'FilterRunCancelledError';
+    }
+}
+
+interface LogRecord {
+    lines: string[];
+    index: number; // 1-based line number of the first line
+}
+
+const DEFAULT_MAX_BEFORE_LINES = 20; // Maximum supported context lines (9) + safety margin
+const MAX_RECORD_LINES = 1000; // Bounds memory when the record start pattern never matches
+const PROGRESS_INTERVAL_MS = 100;
+const NO_FIELDS: NonNullable<CompiledGroup['fields']> = [];
+const MAX_EXTRACTED_ROWS = 100000; // Bounds memory and the size of the table view
+
+export class LogFilterCore {
+
+    /**
+     * Checks if a line matches filters using pre-compiled regex groups.
+     *
+     * Excludes of any group reject the line. Each group that constrains the output
+     * (has include filters, include field filters, include time ranges or an expression) decides according to
+     * its match mode, and the line is kept if at least one of these groups matches
+     * (OR across groups). Lines must be passed in file order when time ranges are used.
+     */
+    public static checkMatchCompiled(line: string, compiledGroups: CompiledGroup[]): { isMatched: boolean, contextLines: number } {
+        let maxContext = 0;
+        let anyIncludeDefined = false;
+        let matchFound = false;
+
+        if (compiledGroups.length === 0) {
+            return { isMatched: false, contextLines: 0 };
+        }
+
+        // Every range sees every line, so that continuation lines inherit the right timestamp
+        for (const group of compiledGroups) {
+            LogFilterCore.updateTimeRanges(line, group);
+        }
+
+        for (const group of compiledGroups) {
+            // Excludes: Highest priority. If ANY active group excludes the line, it's out.
+            for (const excludeRegex of group.excludes) {
+                excludeRegex.lastIndex = 0; // Reset state for global regex
+                if (excludeRegex.test(line)) {
+                    return { isMatched: false, contextLines: 0 };
+                }
+            }
+            if (LogFilterCore.isExcludedByRangeOrField(line, group)) {
+                return { isMatched: false, contextLines: 0 };
+            }
+
+            // Includes: OR logic between groups.
+            // If any group has include filters, we enter "include mode".
+            if (LogFilterCore.constrainsOutput(group)) {
+                anyIncludeDefined = true;
+                const result = LogFilterCore.evaluateGroupIncludes(line, group);
+                if (result.isMatched) {
+                    matchFound = true;
+                    maxContext = Math.max(maxContext, result.contextLines);
+                }
+            }
+        }
+
+        // Final determination:
+        // 1. If no include filters are defined anywhere, we include everything (that wasn't excluded).
+        // 2. If include filters are defined, we only include if at least ONE group matched.
+        const isMatched = !anyIncludeDefined || matchFound;
+
+        return { isMatched, contextLines: maxContext };
+    }
+
+    /**
+     * Checks a line against a single group, including its excludes.
+     * A group without includes, include field filters, include time ranges or expression accepts every line it does not exclude.
+     * Lines must be passed in file order when the group has time ranges.
+     */
+    public static checkGroupCompiled(line: string, group: CompiledGroup): boolean {
+        LogFilterCore.updateTimeRanges(line, group);
+        for (const excludeRegex of group.excludes) {
+            excludeRegex.lastIndex = 0;
+            if (excludeRegex.test(line)) {
+                return false;
+            }
+        }
+        if (LogFilterCore.isExcludedByRangeOrField(line, group)) {
+            return false;
+        }
+        if (!LogFilterCore.constrainsOutput(group)) {
+            return true;
+        }
+        return LogFilterCore.evaluateGroupIncludes(line, group).isMatched;
+    }
+
+    /**
+     * Tells why `checkMatchCompiled` rejected a line. Call it right after that call, with the same
+     * line: time ranges are read as it left them.
+     * @returns The exclude filter that rejected the line, or `excluded: false` if no include matched it.
+     * `filterId` is missing for groups compiled without filter IDs.
+     */
+    public static explainDrop(line: string, compiledGroups: CompiledGroup[]): { excluded: boolean, filterId?: string } {
+        for (const group of compiledGroups) {
+            for (let i = 0; i < group.excludes.length; i++) {
+                group.excludes[i].lastIndex = 0;
+                if (group.excludes[i].test(line)) {
+                    return { excluded: true, filterId: group.excludeIds?.[i] };
+                }
+            }
+            const range = group.timeRanges?.find(t => t.exclude && t.range.inRange);
+            if (range) {
+                return { excluded: true, filterId: range.filterId };
+            }
+            const field = group.fields?.find(f => f.exclude && LogFieldUtils.testCondition(line, f.condition));
+            if (field) {
+                return { excluded: true, filterId: field.filterId };
+            }
+        }
+        return { excluded: false };
+    }
+
+    private static updateTimeRanges(line: string, group: CompiledGroup): void {
+        if (group.timeRanges) {
+            for (const t of group.timeRanges) {
+                TimestampUtils.testRange(line, t.range);
+            }
+        }
+    }
+
+    private static isExcludedByRangeOrField(line: string, group: CompiledGroup): boolean {
+        return !!group.timeRanges?.some(t => t.exclude && t.range.inRange)
+            || !!group.fields?.some(f => f.exclude && LogFieldUtils.testCondition(line, f.condition));
+    }
+
+    private static constrainsOutput(group: CompiledGroup): boolean {
+        return group.includes.length > 0 || !!group.expression
+            || !!group.timeRanges?.some(t => !t.exclude) || !!group.fields?.some(f => !f.exclude);
+    }
+
+    private static evaluateGroupIncludes(line: string, group: CompiledGroup): { isMatched: boolean, contextLines: number } {
+        // Include time ranges form a window around the group's keyword logic,
+        // unless an expression decides how they combine
+        if (!group.expression && group.timeRanges?.some(t => !t.exclude && !t.range.inRange)) {
+            return { isMatched: false, contextLines: 0 };
+        }
+
+        let isMatched: boolean;
+        let contextLines = 0;
+        const fieldIncludes = group.fields ? group.fields.filter(f => !f.exclude) : NO_FIELDS;
+
+        if (group.expression) {
+            const { root, terms } = group.expression;
+            isMatched = FilterExpression.evaluate(root, index => {
+                const term = terms.get(index);
+                if (!term) {
+                    return false;
+                }
+                if (term instanceof RegExp) {
+                    term.lastIndex = 0;
+                    return term.test(line);
+                }
+                if ('operator' in term) {
+                    return LogFieldUtils.testCondition(line, term);
+                }
+                return !!term.inRange;
+            });
+            if (isMatched) {
+                // Context follows the include filters that actually hit the line
+                for (const include of group.includes) {
+                    include.regex.lastIndex = 0;
+                    if (include.regex.test(line)) {
+                        contextLines = Math.max(contextLines, include.contextLine);
+                    }
+                }
+                for (const field of fieldIncludes) {
+                    if (LogFieldUtils.testCondition(line, field.condition)) {
+                        contextLines = Math.max(contextLines, field.contextLine);
+                    }
+                }
+            }
+        } else if (group.matchMode === 'all') {
+            isMatched = true;
+            for (const include of group.includes) {
+                include.regex.lastIndex = 0;
+                if (!include.regex.test(line)) {
+                    isMatched = false;
+                    break;
+                }
+                contextLines = Math.max(contextLines, include.contextLine);
+            }
+            for (let i = 0; isMatched && i < fieldIncludes.length; i++) {
+                if (!LogFieldUtils.testCondition(line, fieldIncludes[i].condition)) {
+                    isMatched = false;
+                    break;
+                }
+                contextLines = Math.max(contextLines, fieldIncludes[i].contextLine);
+            }
+            if (!isMatched) {
+                contextLines = 0;
+            }
+        } else {
+            // A group holding only time ranges matches every line inside its window
+            isMatched = group.includes.length === 0 && fieldIncludes.length === 0;
+            for (const include of group.includes) {
+                include.regex.lastIndex = 0; // Reset state for global regex
+                if (include.regex.test(line)) {
+                    isMatched = true;
+                    contextLines = Math.max(contextLines, include.contextLine);
+                }
+            }
+            for (const field of fieldIncludes) {
+                if (LogFieldUtils.testCondition(line, field.condition)) {
+                    isMatched = true;
+                    contextLines = Math.max(contextLines, field.contextLine);
+                }
+            }
+        }
+
+        return { isMatched, contextLines };
+    }
+
+    /**
+     * Streams the input file through the compiled groups and writes matching lines
+     * (plus context) to the output file. With `request.recordStart`, whole records are
+     * matched and written instead of single lines, with `request.collapseRepeats`
+     * consecutive repeated output lines are written once, and with `request.separateBlocks`
+     * discontiguous blocks are separated by a `--` line. With `request.hitCounters`, the hits of
+     * each filter are counted on every line read, not only on the lines written. With
+     * `request.droppedOutputPath`, the records that were not kept go to a second file, annotated with
+     * the exclude filter that dropped them or as not matched by any include. With `request.extract`,
+     * the capture groups of the kept records are returned as table rows.
+     * On error or cancellation the partial output files are deleted.
+     * @throws FilterRunCancelledError if `hooks.isCancelled` returned true during the run.
+     */
+    public static async run(request: FilterRunRequest, hooks?: FilterRunHooks): Promise<FilterRunResult> {
+        const { inputPath, outputPath } = request;
+
+        // Plain files are read directly, compressed files and archive entries are decompressed on the fly
+        const input = await ArchiveUtils.openInput(inputPath, request.archiveEntry, request.endByte);
+        const decoder = EncodingUtils.createDecodingStream(request.encoding, request.fallbackEncoding);
+        const rl = readline.createInterface({
+            input: input.stream.pipe(decoder),
+            crlfDelay: Infinity
+        });
+        const outputEncoding = request.outputEncoding ?? 'utf8';
+        const outputStream = fs.createWriteStream(outputPath);
+        const droppedPath = request.droppedOutputPath;
+        const droppedStream = droppedPath ? fs.createWriteStream(droppedPath) : undefined;
+        const byteOrderMark = EncodingUtils.byteOrderMark(outputEncoding);
+        if (byteOrderMark) {
+            outputStream.write(byteOrderMark);
+            droppedStream?.write(byteOrderMark);
+        }
+
+        // Surface stream errors as rejections
+        const streamError = new Promise<never>((_, reject) => {
+            input.stream.on('error', (err) => reject(new Error(`Failed to read file ${inputPath}: ${err.message}`)));
+            decoder.on('error', (err) => reject(new Error(`Failed to decode file ${inputPath}: ${err.message}`)));
+            rl.on('error', (err) => reject(new Error(`Readline error while processing ${inputPath}: ${err.message}`)));
+            outputStream.on('error', (err) => reject(new Error(`Failed to write output file ${outputPath}: ${err.message}`)));
+            droppedStream?.on('error', (err) => reject(new Error(`Failed to write output file ${droppedPath}: ${err.message}`)));
+        });
+
+        let lastProgress = 0;
+        const reportProgress = (force: boolean) => {
+            const now = Date.now();
+            if (hooks?.onProgress && (force || now - lastProgress >= PROGRESS_INTERVAL_MS)) {
+                lastProgress = now;
+                hooks.onProgress(input.bytesRead(), input.totalBytes);
+            }
+        };
+
+        let cancelled = false;
+
+        // Line Mapping: Index = Output Line Number, Value = Source Line Number
+        const lineMapping: number[] = [];
+        const contextLines: number[] | undefined = request.separateBlocks ? [] : undefined;
+        const droppedMapping: number[] = [];
+
+        const pass = new LogFilterPass(request.compiledGroups, request, (line, sourceLine, kind) => {
+            outputStream.write(EncodingUtils.encode(line + '\n', outputEncoding));
+            if (kind === 'context') {
+                contextLines?.push(lineMapping.length);
+            }
+            lineMapping.push(sourceLine);
+        }, droppedStream && ((line, sourceLine) => {
+            droppedStream.write(EncodingUtils.encode(line + '\n', outputEncoding));
+            droppedMapping.push(sourceLine);
+        }));
+
+        const waitForDrain = (stream: fs.WriteStream) => new Promise<void>(resolve => stream.once('drain', resolve));
+
+        const processLines = async () => {
+            for await (const line of rl) {
+                if (hooks?.isCancelled?.()) {
+                    cancelled = true;
+                    break;
+                }
+
+                pass.pushLine(line);
+
+                // Backpressure is handled once per line; a record is written in one go
+                if (outputStream.writableNeedDrain) {
+                    await waitForDrain(outputStream);
+                }
+                if (droppedStream?.writableNeedDrain) {
+                    await waitForDrain(droppedStream);
+                }
+                reportProgress(false);
+            }
+
+            if (!cancelled) {
+                pass.flush();
+            }
+
+            for (const stream of droppedStream ? [outputStream, droppedStream] : [outputStream]) {
+                stream.end();
+                await new Promise<void>(resolve => stream.on('finish', resolve));
+            }
+        };
+
+        const discardOutputs = async () => {
+            await LogFilterCore.discardOutput(input, outputStream, outputPath);
+            if (droppedStream && droppedPath) {
+                await LogFilterCore.discardOutput(input, droppedStream, droppedPath);
+            }
+        };
+
+        try {
+            // Race: process lines vs stream errors
+            await Promise.race([processLines(), streamError]);
+        } catch (e) {
+            await discardOutputs();
+            throw e;
+        }
+
+        if (cancelled) {
+            await discardOutputs();
+            throw new FilterRunCancelledError();
+        }
+
+        input.destroy();
+        reportProgress(true);
+        return {
+            processed: pass.processed,
+            matched: pass.matched,
+            lineMapping,
+            contextLines,
+            hitCounts: request.hitCounters && pass.hitCounts,
+            encoding: decoder.encoding ?? 'utf-8',
+            dropped: droppedStream && { lineMapping: droppedMapping, excludeCounts: pass.excludeCounts, unmatched: pass.unmatched },
+            extracted: request.extract && { rows: pass.extracted, truncated: pass.extractTruncated }
+        };
+    }
+
+    private static async discardOutput(input: LogInputStream, output: fs.WriteStream, outputPath: string): Promise<void> {
+        input.destroy();
+        if (!output.closed) {
+            await new Promise<void>(resolve => {
+                output.once('close', () => resolve());
+                output.destroy();
+            });
+        }
+        try {
+            await fs.promises.unlink(outputPath);
+        } catch (_e) { /* ignore cleanup error */ }
+    }
+}
+
+/**
+ * Filtering state of one pass over a log: the context buffer, the record being collected
+ * and the line counters. `LogFilterCore.run` feeds a whole file through one pass; a followed
+ * file keeps its pass and feeds it the lines appended since the last read.
+ */
+export class LogFilterPass {
+    public processed = 0;
+    public matched = 0;
+    public readonly hitCounts = new Map<string, number>(); // Key: filter ID, filled with `options.hitCounters`
+    // Dropped lines, counted when the pass writes them
+    public readonly excludeCounts = new Map<string, number>(); // Key: filter ID of the exclude that dropped them
+    public unmatched = 0;
+    public readonly extracted: ExtractedRow[] = []; // Filled with `options.extract`
+    public extractTruncated = false;
+
+    // In record mode the buffer holds records and context counts records, not lines
+    private readonly beforeBuffer = new CircularBuffer<LogRecord>(DEFAULT_MAX_BEFORE_LINES);
+    private bufferedRecords = 0; // Records pushed to the before buffer so far
+    // Records not kept, held back while a later match could still write them as 'Before' context
+    private droppedRecords: { record: LogRecord, seq: number, excluded: boolean, filterId?: string }[] = [];
+    private afterLinesRemaining = 0;
+    private lastWrittenLineIndex = -1; // Index of the first line of the last record written to output
+    private lastWrittenLineEnd = 0; // Index of the last line written to output, to detect gaps between blocks
+    private pending: LogRecord | undefined;
+    private repeat: { line: string, key: string, sourceLine: number, kind: OutputLineKind, count: number } | undefined; // Output line being collapsed
+    private readonly padding: number;
+    private readonly lineOffset: number;
+
+    /**
+     * @param write Receives each output line (with its line number prefix, if enabled), its 1-based source line
+     * (0 for separators) and what kind of line it is
+     * @param writeDropped Receives each line of the records that are not kept, annotated on the first line of
+     * the record, and its 1-based source line. Records written as context are kept, so they are not dropped;
+     * the others are received once no later match can write them as context, or on `flush`.
+     */
+    constructor(
+        private readonly compiledGroups: CompiledGroup[],
+        private readonly options: FilterPassOptions,
+        private readonly write: (line: string, sourceLine: number, kind: OutputLineKind) => void,
+        private readonly writeDropped?: (line: string, sourceLine: number) => void
+    ) {
+        this.padding = options.totalLineCount.toString().length;
+        this.lineOffset = (options.firstLine ?? 1) - 1;
+        // A pass continuing a run separates its first block from the lines written before
+        this.lastWrittenLineEnd = this.lineOffset;
+    }
+
+    /**
+     * Filters the next line of the log. In record mode the line may only be written
+     * once the next record starts, or on `flush`.
+     */
+    public pushLine(line: string): void {
+        this.processed++;
+        const index = this.lineOffset + this.processed; // 1-based
+        if (this.options.hitCounters) {
+            this.countHits(line, this.options.hitCounters);
+        }
+
+        const recordStart = this.options.recordStart;
+        if (!recordStart) {
+            this.processRecord({ lines: [line], index });
+            return;
+        }
+
+        recordStart.lastIndex = 0;
+        if (!this.pending) {
+            // Lines before the first record start form a record of their own
+            this.pending = { lines: [line], index };
+        } else if (recordStart.test(line) || this.pending.lines.length >= MAX_RECORD_LINES) {
+            this.processRecord(this.pending);
+            this.pending = { lines: [line], index };
+        } else {
+            this.pending.lines.push(line);
+        }
+    }
+
+    /**
+     * Filters the record still being collected. Call once no more lines follow it.
+     */
+    public flush(): void {
+        if (this.pending) {
+            this.processRecord(this.pending);
+            this.pending = undefined;
+        }
+        this.flushRepeat();
+        this.flushDropped(Infinity);
+    }
+
+    /**
+     * Writes the repeated line being collapsed, so that the output written so far is complete.
+     * Repeats that continue afterwards are collapsed into a new line.
+     */
+    public flushRepeat(): void {
+        if (this.repeat) {
+            const { line, sourceLine, kind, count } = this.repeat;
+            this.write(this.formatLine(LogTemplateUtils.formatRepeat(line, count), sourceLine, kind), sourceLine, kind);
+            this.repeat = undefined;
+        }
+    }
+
+    private countHits(line: string, hitCounters: CompiledHitCounters[]): void {
+        for (const { gate, filters } of hitCounters) {
+            // The gate sees every line, as its time ranges carry the last timestamp forward
+            const isGateOpen = !gate || LogFilterCore.checkGroupCompiled(line, gate);
+            for (const counter of filters) {
+                let hits = 0;
+                if (counter.regex) {
+                    // Keyword regexes are global, so exec walks through all occurrences
+                    counter.regex.lastIndex = 0;
+                    let match;
+                    while ((match = counter.regex.exec(line))) {
+                        hits++;
+                        if (match[0].length === 0) {
+                            counter.regex.lastIndex++;
+                        }
+                    }
+                } else if (counter.condition) {
+                    hits = LogFieldUtils.testCondition(line, counter.condition) ? 1 : 0;
+                } else if (counter.range) {
+                    hits = TimestampUtils.testRange(line, counter.range) ? 1 : 0;
+                }
+                if (hits > 0 && (isGateOpen || !counter.gated)) {
+                    this.hitCounts.set(counter.filterId, (this.hitCounts.get(counter.filterId) ?? 0) + hits);
+                }
+            }
+        }
+    }
+
+    private formatLine(line: string, index: number, kind: OutputLineKind): string {
+        if (this.options.prependLineNumbers) {
+            const marker = kind === 'context' && this.options.separateBlocks ? '-' : ':';
+            return `${index.toString().padStart(this.padding, '0')}${marker} ${line}`;
+        }
+        return line;
+    }
+
+    private writeRecord(record: LogRecord, kind: OutputLineKind): void {
+        if (this.options.separateBlocks && this.lastWrittenLineEnd > 0 && record.index > this.lastWrittenLineEnd + 1) {
+            this.flushRepeat();
+            this.write(BLOCK_SEPARATOR, 0, 'separator');
+        }
+        for (let i = 0; i < record.lines.length; i++) {
+            this.writeLine(record.lines[i], record.index + i, kind);
+        }
+        this.lastWrittenLineIndex = record.index;
+        this.lastWrittenLineEnd = record.index + record.lines.length - 1;
+    }
+
+    private writeLine(line: string, sourceLine: number, kind: OutputLineKind): void {
+        const mode = this.options.collapseRepeats;
+        if (!mode || mode === 'off') {
+            this.write(this.formatLine(line, sourceLine, kind), sourceLine, kind);
+            return;
+        }
+
+        const key = mode === 'normalized' ? LogTemplateUtils.normalize(line) : line;
+        if (this.repeat && this.repeat.key === key) {
+            this.repeat.count++;
+            return;
+        }
+        this.flushRepeat();
+        this.repeat = { line, key, sourceLine, kind, count: 1 };
+    }
+
+    // Writes the dropped records pushed to the before buffer up to `lastSeq`
+    private flushDropped(lastSeq: number): void {
+        if (!this.writeDropped) {
+            return;
+        }
+        let count = 0;
+        while (count < this.droppedRecords.length && this.droppedRecords[count].seq <= lastSeq) {
+            const { record, excluded, filterId } = this.droppedRecords[count];
+            this.writeDroppedRecord(record, excluded, filterId, this.writeDropped);
+            count++;
+        }
+        if (count > 0) {
+            this.droppedRecords = this.droppedRecords.slice(count);
+        }
+    }
+
+    private writeDroppedRecord(record: LogRecord, excluded: boolean, filterId: string | undefined, writeDropped: (line: string, sourceLine: number) => void): void {
+        let reason: string;
+        if (excluded) {
+            if (filterId) {
+                this.excludeCounts.set(filterId, (this.excludeCounts.get(filterId) ?? 0) + record.lines.length);
+            }
+            reason = `[excluded by ${(filterId && this.options.dropLabels?.get(filterId)) || 'exclude filter'}]`;
+        } else {
+            this.unmatched += record.lines.length;
+            reason = '[no include match]';
+        }
+        for (let i = 0; i < record.lines.length; i++) {
+            const line = i === 0 ? `${reason} ${record.lines[i]}` : record.lines[i];
+            writeDropped(this.formatLine(line, record.index + i, 'match'), record.index + i);
+        }
+    }
+
+    private extractRecord(record: LogRecord, text: string, extract: NonNullable<FilterPassOptions['extract']>): void {
+        for (const extractor of extract.extractors) {
+            extractor.regex.lastIndex = 0;
+            const match = extractor.regex.exec(text);
+            if (!match) {
+                continue;
+            }
+            if (this.extracted.length >= MAX_EXTRACTED_ROWS) {
+                this.extractTruncated = true;
+                return;
+            }
+            const cells = new Array<string>(extract.columnCount).fill('');
+            extractor.columns.forEach((column, i) => {
+                cells[column] = match[i + 1] ?? '';
+            });
+            this.extracted.push({ line: record.index, timestamp: TimestampUtils.extract(record.lines[0]), filterId: extractor.filterId, cells });
+        }
+    }
+
+    private processRecord(record: LogRecord): void {
+        // Records are matched as a whole; '.' does not cross the joined line breaks
+        const text = record.lines.length === 1 ? record.lines[0] : record.lines.join('\n');
+        const matchResult = LogFilterCore.checkMatchCompiled(text, this.compiledGroups);
+
+        if (matchResult.isMatched) {
+            this.matched += record.lines.length;
+            const maxContext = matchResult.contextLines;
+            if (this.options.extract) {
+                this.extractRecord(record, text, this.options.extract);
+            }
+
+            // 1. Write 'Before' context that hasn't been written yet
+            const allBuffer = this.beforeBuffer.getAll();
+            const startIndex = Math.max(0, allBuffer.length - maxContext);
+            for (const bufferedItem of allBuffer.slice(startIndex)) {
+                if (bufferedItem.index > this.lastWrittenLineIndex) {
+                    this.writeRecord(bufferedItem, 'context');
+                    this.droppedRecords = this.droppedRecords.filter(dropped => dropped.record !== bufferedItem);
+                }
+            }
+
+            // 2. Write current matching record
+            if (record.index > this.lastWrittenLineIndex) {
+                this.writeRecord(record, 'match');
+            }
+
+            // 3. Set/Update 'After' context counter
+            this.afterLinesRemaining = Math.max(this.afterLinesRemaining, maxContext);
+        } else if (this.afterLinesRemaining > 0) {
+            // This is an 'After' context record
+            if (record.index > this.lastWrittenLineIndex) {
+                this.writeRecord(record, 'context');
+            }
+            this.afterLinesRemaining--;
+        } else if (this.writeDropped) {
+            // Explained now, while time ranges are as the match left them
+            this.droppedRecords.push({ record, seq: this.bufferedRecords, ...LogFilterCore.explainDrop(text, this.compiledGroups) });
+        }
+
+        // Maintain before buffer using CircularBuffer
+        this.beforeBuffer.push(record);
+        this.bufferedRecords++;
+        // Records that left the buffer can no longer be written as context
+        this.flushDropped(this.bufferedRecords - DEFAULT_MAX_BEFORE_LINES - 1);
+    }
+}
@@ -0,0 +1,53 @@
+import { parentPort, workerData } from 'worker_threads';
+import { FilterRunCancelledError, FilterRunRequest, FilterRunResult, LogFilterCore } from './LogFilterCore';
+import { RegexWatch } from './RegexWatch';
+
+/**
+ * Messages exchanged between LogProcessor and this worker.
+ * The worker runs one FilterRunRequest (passed in FilterWorkerData) and exits.
+ */
+export type FilterWorkerMessage =
+    | { type: 'progress', bytesRead: number, totalBytes: number }
+    | { type: 'done', result: FilterRunResult }
+    | { type: 'cancelled' }
+    | { type: 'error', message: string };
+
+export type FilterWorkerCommand = { type: 'cancel' };
+
+export interface FilterWorkerData {
+    request: FilterRunRequest;
+    watchBuffer?: SharedArrayBuffer; // Shared with a RegexWatch on the starting thread
+}
+
+if (parentPort) {
+    const port = parentPort;
+    let cancelRequested = false;
+
+    port.on('message', (command: FilterWorkerCommand) => {
+        if (command.type === 'cancel') {
+            cancelRequested = true;
+        }
+    });
+
+    const post = (message: FilterWorkerMessage) => port.postMessage(message);
+
+    const { request, watchBuffer } = workerData as FilterWorkerData;
+    if (watchBuffer) {
+        new RegexWatch(watchBuffer).instrument(request);
+    }
+
+    LogFilterCore.run(request, {
+        onProgress: (bytesRead, totalBytes) => post({ type: 'progress', bytesRead, totalBytes }),
+        isCancelled: () => cancelRequested
+    }).then(result => {
+        post({ type: 'done', result });
+    }).catch(e => {
+        if (e instanceof FilterRunCancelledError) {
+            post({ type: 'cancelled' });
+        } else {
+            post({ type: 'error', message: e instanceof Error ? e.message : String(e) });
+        }
+    }).finally(() => {
+        port.close();
+    });
+}
@@ -0,0 +1,274 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { TextDecoder } from 'util';
+import { Constants } from '../Constants';
+import { LogFilterPass, OutputLineKind } from './LogFilterCore';
+import { SourceMapService } from './SourceMapService';
+import { EncodingUtils, OutputEncoding } from '../utils/EncodingUtils';
+import { Logger } from './Logger';
+import { FilterResultFileSystemProvider } from '../providers/FilterResultFileSystemProvider';
+
+interface FollowSession {
+    sourcePath: string;
+    outputUri: vscode.Uri;
+    pass: LogFilterPass;
+    offset: number; // Bytes of the source read so far
+    decoder: TextDecoder;
+    outputEncoding: OutputEncoding;
+    partialLine: string; // Text after the last line break, filtered once the line is complete
+    output: { lines: string[], mapping: number[], contextLines: number[] }; // Output of the current read, appended in one write
+    appendedLines: number;
+    reading: boolean;
+    changedWhileReading: boolean;
+    listener: (current: fs.Stats, previous: fs.Stats) => void;
+}
+
+const POLL_INTERVAL_MS = 1000;
+const READ_CHUNK_SIZE = 1024 * 1024; // Bounds memory and extension host blocking when a lot is appended at once
+const LINE_END_SEARCH_SIZE = 64 * 1024;
+
+/**
+ * Keeps filtered documents in sync with source files that are still being written.
+ * Each followed source is polled; lines appended to it run through the filter pass of the
+ * original run and the result is appended to the filtered document and its source mapping.
+ */
+export class LogFollowService implements vscode.Disposable {
+    private static instance: LogFollowService;
+    private sessions: Map<string, FollowSession> = new Map(); // Key: filtered file URI string
+    private statusBarItem: vscode.StatusBarItem | undefined;
+
+    private constructor() { }
+
+    public static getInstance(): LogFollowService {
+        if (!LogFollowService.instance) {
+            LogFollowService.instance = new LogFollowService();
+        }
+        return LogFollowService.instance;
+    }
+
+    /**
+     * Finds where the last complete line of a file ends. A line still being written is left
+     * for the follow session, so that it is not filtered in two halves.
+     * @returns Byte offset just after the last line break, or 0 if the file has none
+     */
+    public static async findLastLineEnd(filePath: string): Promise<number> {
+        const handle = await fs.promises.open(filePath, 'r');
+        try {
+            let end = (await handle.stat()).size;
+            const buffer = Buffer.alloc(LINE_END_SEARCH_SIZE);
+
+            // UTF-16 line breaks are two bytes at an even offset; other encodings keep the '\n' byte for line breaks
+            const { bytesRead: sampleLength } = await handle.read(buffer, 0, LINE_END_SEARCH_SIZE, 0);
+            const encoding = EncodingUtils.detect(buffer.subarray(0, sampleLength));
+            const lineBreak = Buffer.from(encoding === 'utf-16le' ? [0x0a, 0x00] : encoding === 'utf-16be' ? [0x00, 0x0a] : [0x0a]);
+
+            while (end > 0) {
+                const start = Math.max(0, end - LINE_END_SEARCH_SIZE);
+                const { bytesRead } = await handle.read(buffer, 0, end - start, start);
+                const chunk = buffer.subarray(0, bytesRead);
+                let index = chunk.lastIndexOf(lineBreak);
+                while (index > 0 && (start + index) % lineBreak.length !== 0) {
+                    index = chunk.lastIndexOf(lineBreak, index - 1);
+                }
+                if (index !== -1 && (start + index) % lineBreak.length === 0) {
+                    return start + index + lineBreak.length;
+                }
+                if (start === 0) {
+                    break;
+                }
+                // Overlap the chunks, so that a line break across their boundary is found
+                end = start + lineBreak.length - 1;
+            }
+            return 0;
+        } finally {
+            await handle.close();
+        }
+    }
+
+    /**
+     * Starts following a source file.
+     * @param sourcePath Plain file the filtered document was created from
+     * @param outputUri The filtered document (a `FilterResultFileSystemProvider` result), which receives the appended results
+     * @param offset Byte offset up to which the source has already been filtered
+     * @param encodings Encoding the source was read with (a `TextDecoder` label) and encoding of the filtered file
+     * @param createPass Creates the filter pass continuing the original run, writing to the given callback
+     */
+    public start(sourcePath: string, outputUri: vscode.Uri, offset: number, encodings: { input: string, output: OutputEncoding }, createPass: (write: (line: string, sourceLine: number, kind: OutputLineKind) => void) => LogFilterPass): void {
+        this.stop(outputUri);
+
+        const output = { lines: [] as string[], mapping: [] as number[], contextLines: [] as number[] };
+        const session: FollowSession = {
+            sourcePath,
+            outputUri,
+            pass: createPass((line, sourceLine, kind) => {
+                if (kind === 'context') {
+                    output.contextLines.push(output.lines.length);
+                }
+                output.lines.push(line + '\n');
+                output.mapping.push(sourceLine);
+            }),
+            offset,
+            // Reading starts after the byte order mark, if the source has one
+            decoder: new TextDecoder(encodings.input, { ignoreBOM: offset > 0 }),
+            outputEncoding: encodings.output,
+            partialLine: '',
+            output,
+            appendedLines: 0,
+            reading: false,
+            changedWhileReading: false,
+            listener: current => this.onSourceChanged(session, current)
+        };
+
+        this.sessions.set(outputUri.toString(), session);
+        fs.watchFile(sourcePath, { interval: POLL_INTERVAL_MS }, session.listener);
+        this.updateState();
+
+        // Catch up with anything written since the first run read the file
+        this.readAppended(session);
+    }
+
+    /**
+     * Stops following the source of a filtered file.
+     * @returns false if the file was not being followed
+     */
+    public stop(outputUri: vscode.Uri): boolean {
+        const session = this.sessions.get(outputUri.toString());
+        if (!session) {
+            return false;
+        }
+        fs.unwatchFile(session.sourcePath, session.listener);
+        this.sessions.delete(outputUri.toString());
+        this.updateState();
+        return true;
+    }
+
+    public isFollowing(outputUri: vscode.Uri): boolean {
+        return this.sessions.has(outputUri.toString());
+    }
+
+    /**
+     * Filtered files whose sources are being followed.
+     */
+    public getFollowedUris(): vscode.Uri[] {
+        return Array.from(this.sessions.values()).map(s => s.outputUri);
+    }
+
+    public getSourcePath(outputUri: vscode.Uri): string | undefined {
+        return this.sessions.get(outputUri.toString())?.sourcePath;
+    }
+
+    public dispose(): void {
+        for (const session of this.sessions.values()) {
+            fs.unwatchFile(session.sourcePath, session.listener);
+        }
+        this.sessions.clear();
+        this.statusBarItem?.dispose();
+        this.statusBarItem = undefined;
+    }
+
+    // A session stays active until it is stopped or replaced by a new run for the same filtered file
+    private isActive(session: FollowSession): boolean {
+        return this.sessions.get(session.outputUri.toString()) === session;
+    }
+
+    private onSourceChanged(session: FollowSession, current: fs.Stats) {
+        if (!this.isActive(session)) {
+            return;
+        }
+        // A missing file reports zero stats; a shorter one was truncated or replaced (e.g. by log rotation)
+        if (current.nlink === 0 || current.size < session.offset) {
+            this.stop(session.outputUri);
+            vscode.window.showWarningMessage(Constants.Messages.Warn.FollowSourceTruncated.replace('{0}', path.basename(session.sourcePath)));
+            return;
+        }
+        if (current.size > session.offset) {
+            this.readAppended(session);
+        }
+    }
+
+    private async readAppended(session: FollowSession) {
+        if (session.reading) {
+            session.changedWhileReading = true;
+            return;
+        }
+        session.reading = true;
+
+        try {
+            const handle = await fs.promises.open(session.sourcePath, 'r');
+            try {
+                const buffer = Buffer.alloc(READ_CHUNK_SIZE);
+                while (this.isActive(session)) {
+                    const { size } = await handle.stat();
+                    if (size <= session.offset) {
+                        break;
+                    }
+                    const { bytesRead } = await handle.read(buffer, 0, Math.min(size - session.offset, READ_CHUNK_SIZE), session.offset);
+                    if (bytesRead === 0) {
+                        break;
+                    }
+                    session.offset += bytesRead;
+
+                    const lines = (session.partialLine + session.decoder.decode(buffer.subarray(0, bytesRead), { stream: true })).split('\n');
+                    session.partialLine = lines.pop()!;
+                    for (const line of lines) {
+                        session.pass.pushLine(line.endsWith('\r') ? line.substring(0, line.length - 1) : line);
+                    }
+                    await this.flushOutput(session);
+                }
+                // Show the end of a burst of repeated lines now, not when a different line arrives
+                session.pass.flushRepeat();
+                await this.flushOutput(session);
+            } finally {
+                await handle.close();
+            }
+        } catch (e) {
+            if (this.isActive(session)) {
+                this.stop(session.outputUri);
+                Logger.getInstance().error(`Failed to follow ${session.sourcePath}: ${e}`);
+                vscode.window.showErrorMessage(Constants.Messages.Error.FollowFailed.replace('{0}', path.basename(session.sourcePath)).replace('{1}', e instanceof Error ? e.message : String(e)));
+            }
+        } finally {
+            session.reading = false;
+        }
+
+        if (session.changedWhileReading) {
+            session.changedWhileReading = false;
+            this.readAppended(session);
+        }
+    }
+
+    private async flushOutput(session: FollowSession) {
+        const { lines, mapping, contextLines } = session.output;
+        if (lines.length === 0) {
+            return;
+        }
+        session.output.lines = [];
+        session.output.mapping = [];
+        session.output.contextLines = [];
+
+        await FilterResultFileSystemProvider.getInstance().append(session.outputUri, EncodingUtils.encode(lines.join(''), session.outputEncoding));
+        SourceMapService.getInstance().append(session.outputUri, mapping, contextLines);
+        session.appendedLines += mapping.length;
+        this.updateState();
+    }
+
+    private updateState() {
+        const sessions = Array.from(this.sessions.values());
+        vscode.commands.executeCommand('setContext', Constants.ContextKeys.FollowedLogs, sessions.map(s => s.outputUri.fsPath));
+
+        if (sessions.length === 0) {
+            this.statusBarItem?.hide();
+            return;
+        }
+        if (!this.statusBarItem) {
+            this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 100);
+            this.statusBarItem.command = Constants.Commands.StopFollow;
+        }
+        const appended = sessions.reduce((sum, s) => sum + s.appendedLines, 0);
+        const label = sessions.length === 1 ? path.basename(sessions[0].sourcePath) : `${sessions.length} logs`;
+        this.statusBarItem.text = `$(eye) Following ${label} (+${appended.toLocaleString()})`;
+        this.statusBarItem.tooltip = Constants.Messages.Info.FollowTooltip.replace('{0}', sessions.map(s => s.sourcePath).join('\n'));
+        this.statusBarItem.show();
+    }
+}
@@ -0,0 +1,202 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as readline from 'readline';
+import { ArchiveUtils, LogInputStream } from '../utils/ArchiveUtils';
+import { TimestampUtils } from '../utils/TimestampUtils';
+import { FilterRunCancelledError, FilterRunHooks } from './LogFilterCore';
+
+// Like LogFilterCore, this module must stay free of 'vscode' imports.
+
+export type MergeOrder = 'concat' | 'timestamp';
+
+export interface MergeSource {
+    path: string;
+    entry?: string; // Entry to read when path is a zip/tar archive
+}
+
+export interface MergeRequest {
+    sources: MergeSource[];
+    outputPath: string;
+    order: MergeOrder;
+}
+
+export interface MergeResult {
+    lineCount: number;
+    sourceIndexes: number[]; // Index = Output Line Number, Value = index into request.sources
+    lineMapping: number[]; // Index = Output Line Number, Value = 1-based Line Number in that source
+}
+
+interface SourceCursor {
+    index: number;
+    input: LogInputStream;
+    lines: AsyncIterator<string>;
+    line?: string; // undefined once the source is exhausted
+    lineNumber: number;
+    time: number;
+    hasOwnTime: boolean; // false for lines without a timestamp (continuations), which inherit the previous one
+}
+
+const PROGRESS_INTERVAL_MS = 100;
+
+export class LogMergeCore {
+
+    /**
+     * Orders rotated log files oldest first: `app.log.2`, `app.log.1`, `app.log`.
+     * Files with different base names are grouped by name. A trailing `.gz` is ignored for ordering.
+     */
+    public static sortByRotation<T extends { path: string }>(sources: T[]): T[] {
+        const keyOf = (source: T) => {
+            const name = path.basename(source.path).replace(/\.gz$/i, '');
+            const m = /^(.*)\.(\d+)$/.exec(name);
+            return m ? { base: m[1], rotation: Number(m[2]) } : { base: name, rotation: 0 };
+        };
+        return sources
+            .map(source => ({ source, key: keyOf(source) }))
+            .sort((a, b) => a.key.base.localeCompare(b.key.base) || b.key.rotation - a.key.rotation)
+            .map(item => item.source);
+    }
+
+    /**
+     * Writes the lines of all sources to one output file, either one source after another
+     * or interleaved by the timestamp at the start of each line.
+     * When interleaving, lines without a timestamp stay with the line before them, so
+     * multi-line records (stack traces) are not torn apart. Ties keep the source order.
+     * On error or cancellation the partial output file is deleted.
+     * @throws FilterRunCancelledError if `hooks.isCancelled` returned true during the run.
+     */
+    public static async merge(request: MergeRequest, hooks?: FilterRunHooks): Promise<MergeResult> {
+        const { sources, outputPath } = request;
+        const cursors: SourceCursor[] = [];
+        const outputStream = fs.createWriteStream(outputPath);
+
+        // Surface stream errors as rejections; inputs register themselves as they are opened
+        let onStreamError: (err: Error) => void = () => { };
+        const streamError = new Promise<never>((_, reject) => {
+            onStreamError = reject;
+            outputStream.on('error', (err) => reject(new Error(`Failed to write output file ${outputPath}: ${err.message}`)));
+        });
+
+        const sourceIndexes: number[] = [];
+        const lineMapping: number[] = [];
+        let cancelled = false;
+
+        let lastProgress = 0;
+        const reportProgress = (force: boolean) => {
+            const now = Date.now();
+            if (hooks?.onProgress && (force || now - lastProgress >= PROGRESS_INTERVAL_MS)) {
+                lastProgress = now;
+                const bytesRead = cursors.reduce((sum, c) => sum + c.input.bytesRead(), 0);
+                const totalBytes = cursors.reduce((sum, c) => sum + c.input.totalBytes, 0);
+                hooks.onProgress(bytesRead, totalBytes);
+            }
+        };
+
+        const advance = async (cursor: SourceCursor) => {
+            const next = await cursor.lines.next();
+            if (next.done) {
+                cursor.line = undefined;
+                return;
+            }
+            cursor.line = next.value;
+            cursor.lineNumber++;
+            const time = TimestampUtils.parse(next.value);
+            cursor.hasOwnTime = time !== undefined;
+            if (time !== undefined) {
+                cursor.time = time;
+            }
+        };
+
+        const waitForDrain = () => new Promise<void>(resolve => outputStream.once('drain', resolve));
+
+        const emit = async (cursor: SourceCursor) => {
+            sourceIndexes.push(cursor.index);
+            lineMapping.push(cursor.lineNumber);
+            if (!outputStream.write(cursor.line + '\n')) {
+                await waitForDrain();
+            }
+            await advance(cursor);
+            reportProgress(false);
+        };
+
+        const pickNext = (current: SourceCursor | undefined): SourceCursor | undefined => {
+            if (request.order === 'concat') {
+                return cursors.find(c => c.line !== undefined);
+            }
+            // Keep continuation lines with their record
+            if (current && current.line !== undefined && !current.hasOwnTime) {
+                return current;
+            }
+            let best: SourceCursor | undefined;
+            for (const cursor of cursors) {
+                if (cursor.line !== undefined && (!best || cursor.time < best.time)) {
+                    best = cursor;
+                }
+            }
+            return best;
+        };
+
+        const processLines = async () => {
+            for (let index = 0; index < sources.length; index++) {
+                const input = await ArchiveUtils.openInput(sources[index].path, sources[index].entry);
+                input.stream.setEncoding('utf8');
+                const rl = readline.createInterface({ input: input.stream, crlfDelay: Infinity });
+                const sourcePath = sources[index].path;
+                input.stream.on('error', (err) => onStreamError(new Error(`Failed to read file ${sourcePath}: ${err.message}`)));
+                rl.on('error', (err) => onStreamError(new Error(`Readline error while processing ${sourcePath}: ${err.message}`)));
+
+                const cursor: SourceCursor = {
+                    index,
+                    input,
+                    lines: rl[Symbol.asyncIterator](),
+                    lineNumber: 0,
+                    time: -Infinity, // Lines before the first timestamp go first
+                    hasOwnTime: false
+                };
+                cursors.push(cursor);
+                await advance(cursor);
+            }
+
+            let cursor = pickNext(undefined);
+            while (cursor) {
+                if (hooks?.isCancelled?.()) {
+                    cancelled = true;
+                    break;
+                }
+                await emit(cursor);
+                cursor = pickNext(cursor);
+            }
+
+            outputStream.end();
+            await new Promise<void>(resolve => outputStream.on('finish', resolve));
+        };
+
+        try {
+            await Promise.race([processLines(), streamError]);
+        } catch (e) {
+            await LogMergeCore.discardOutput(cursors, outputStream, outputPath);
+            throw e;
+        }
+
+        if (cancelled) {
+            await LogMergeCore.discardOutput(cursors, outputStream, outputPath);
+            throw new FilterRunCancelledError();
+        }
+
+        cursors.forEach(c => c.input.destroy());
+        reportProgress(true);
+        return { lineCount: lineMapping.length, sourceIndexes, lineMapping };
+    }
+
+    private static async discardOutput(cursors: SourceCursor[], output: fs.WriteStream, outputPath: string): Promise<void> {
+        cursors.forEach(c => c.input.destroy());
+        if (!output.closed) {
+            await new Promise<void>(resolve => {
+                output.once('close', () => resolve());
+                output.destroy();
+            });
+        }
+        try {
+            await fs.promises.unlink(outputPath);
+        } catch (_e) { /* ignore cleanup error */ }
+    }
+}
@@ -1,245 +1,434 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
-import * as readline from 'readline';
 import * as os from 'os';
 import * as path from 'path';
+import { Worker } from 'worker_threads';
 import { FilterGroup, FilterItem } from '../models/Filter';
 import { FileHierarchyService } from './FileHierarchyService';
-import { RegexUtils } from '../utils/RegexUtils';
-import { CircularBuffer } from '../utils/CircularBuffer';
+import { ArchiveUtils } from '../utils/ArchiveUtils';
+import { RecordStartPreset, RecordUtils } from '../utils/RecordUtils';
+import { LogFormat } from '../utils/LogFieldUtils';
+import { RepeatCollapseMode } from '../utils/LogTemplateUtils';
+import { EncodingUtils, OutputEncoding } from '../utils/EncodingUtils';
+import { ArchiveEntryContentProvider } from '../providers/ArchiveEntryContentProvider';
+import { CompiledExtractor, CompiledGroup, FilterRunCancelledError, FilterRunRequest, FilterRunResult, LogFilterCore, LogFilterPass, OutputLineKind } from './LogFilterCore';
+import { DEFAULT_MAX_LINE_COUNT, LogProcessorCore } from './LogProcessorCore';
+import { FilterWorkerCommand, FilterWorkerData, FilterWorkerMessage } from './LogFilterWorker';
+import { RegexWatch, SlowFilterError } from './RegexWatch';
+import { LogMergeCore, MergeOrder, MergeSource } from './LogMergeCore';
 import { Constants } from '../Constants';
-
-export interface CompiledGroup {
-    includes: { regex: RegExp, contextLine: number }[];
-    excludes: RegExp[];
+import { Logger } from './Logger';
+import { GeneratedFileService } from './GeneratedFileService';
+
+export type { CompiledGroup, CompiledExpression, OutputLineKind } from './LogFilterCore';
+
+export interface ProcessFileOptions {
+    prependLineNumbers?: boolean;
+    totalLineCount?: number;
+    originalPath?: string;
+    mergeGroups?: boolean;
+    archiveEntry?: string; // Entry to filter when the input is a zip/tar archive
+    recordStart?: RegExp | null; // Overrides the record start setting; null filters single lines
+    endByte?: number; // Filters a plain file only up to this byte offset (exclusive)
+    collapseRepeats?: RepeatCollapseMode; // Overrides the output.collapseRepeats setting
+    separateBlocks?: boolean; // Overrides the output.separateBlocks setting
+    countHits?: boolean; // Counts the hits of each filter in the input, e.g. for files too large to highlight
+    encoding?: string; // Encoding of the input (a `TextDecoder` label); detected if not set
+    outputEncoding?: OutputEncoding; // Overrides the output.encoding setting
+    sourceUri?: vscode.Uri; // Document the input was copied from, registered as the parent of the output
+    outputUri?: vscode.Uri; // Document the output is shown as, if not the output file itself
+    writeDropped?: boolean; // Also writes the lines that were not kept, annotated with why
+    droppedUri?: vscode.Uri; // Document the dropped lines are shown as, if not their output file itself
+    extract?: boolean; // Reads the capture groups of the regex include filters from the kept records
+    onProgress?: (bytesRead: number, totalBytes: number) => void;
+    token?: vscode.CancellationToken;
 }
 
-const DEFAULT_MAX_BEFORE_LINES = 20; // Maximum supported context lines (9) + safety margin
-const DEFAULT_MAX_LINE_COUNT = 999999;
+export interface MergeFilesOptions {
+    onProgress?: (bytesRead: number, totalBytes: number) => void;
+    token?: vscode.CancellationToken;
+}
 
-export class LogProcessor {
+/**
+ * Lines a run did not keep, written with `ProcessFileOptions.writeDropped`.
+ */
+export interface DroppedOutput {
+    outputPath: string;
+    lineMapping: number[]; // 0-based source line of each line of the output
+    excludeCounts: Map<string, number>; // Key: filter ID of the exclude filter that dropped the lines
+    unmatched: number; // Lines no include matched
+}
 
-    public compileGroups(activeGroups: FilterGroup[]): CompiledGroup[] {
-        return activeGroups.map(group => {
-            // Compile filters for this group.
-            // We only consider filters that are explicitly enabled.
+/**
+ * Capture groups read from the records a run kept, with `ProcessFileOptions.extract`.
+ */
+export interface ExtractedTable {
+    columns: string[]; // Group names, or `$1`, `$2`… for numbered groups; filters share columns of the same name
+    rows: { line: number, timestamp?: string, filter: string, cells: string[] }[]; // line: 0-based source line
+    truncated: boolean; // The row limit was reached
+}
 
-            const filters = group.filters;
-            const effectiveIncludes: FilterItem[] = [];
-            const effectiveExcludes: FilterItem[] = [];
+export class LogProcessor extends LogProcessorCore {
 
-            for (const f of filters) {
-                if (f.isEnabled) {
-                    if (f.type === 'include') {
-                        effectiveIncludes.push(f);
-                    } else if (f.type === 'exclude') {
-                        effectiveExcludes.push(f);
-                    }
-                }
-            }
+    /**
+     * Reads the line format used by field filters from the `fields.format` setting.
+     * @throws Error if the custom pattern is not a valid regular expression
+     */
+    public getFieldFormat(): { format: LogFormat, pattern?: RegExp } {
+        const config = vscode.workspace.getConfiguration(Constants.Configuration.Section);
+        const format = config.get<LogFormat>(Constants.Configuration.Fields.Format) || 'auto';
+        if (format !== 'custom') {
+            return { format };
+        }
+        const customPattern = config.get<string>(Constants.Configuration.Fields.CustomPattern);
+        try {
+            return { format, pattern: customPattern?.trim() ? new RegExp(customPattern) : undefined };
+        } catch (e) {
+            throw new Error(Constants.Messages.Error.InvalidFieldPattern.replace('{0}', e instanceof Error ? e.message : String(e)));
+        }
+    }
 
-            return {
-                includes: effectiveIncludes.map(f => ({
-                    regex: RegexUtils.create(f.keyword, !!f.isRegex, !!f.caseSensitive),
-                    contextLine: f.contextLine ?? 0
-                })),
-                excludes: effectiveExcludes.map(f => RegexUtils.create(f.keyword, !!f.isRegex, !!f.caseSensitive))
-            };
-        });
+    protected warn(message: string) {
+        Logger.getInstance().warn(message);
     }
 
     /**
      * Processes a log file and returns filtered lines.
+     * Filtering runs in a worker thread so large files do not block the extension host.
      *
      * @param inputPath - Absolute path to the input log file
      * @param filterGroups - Array of filter groups to apply
      * @param options - Optional processing options
      * @param options.prependLineNumbers - Whether to prepend original line numbers
      * @param options.totalLineCount - Total number of lines for padding calculation
-     * @returns Promise resolving to output path and statistics
+     * @param options.archiveEntry - Entry to read when inputPath is a zip/tar archive (.gz files need none)
+     * @param options.recordStart - Pattern of record first lines; defaults to the `records.startPattern` setting
+     * @param options.endByte - Stops reading a plain file at this offset, e.g. the end of its last complete line
+     * @param options.collapseRepeats - Collapses consecutive repeated output lines; defaults to the `output.collapseRepeats` setting
+     * @param options.separateBlocks - Separates discontiguous blocks with `--` lines; defaults to the `output.separateBlocks` setting
+     * @param options.countHits - Returns `hitCounts`, the hits of each enabled filter in the whole input (Key: filter ID)
+     * @param options.encoding - Encoding of the input; by default detected from a byte order mark, UTF-16 or UTF-8
+     * content, or else the `files.encoding` setting of the source
+     * @param options.outputEncoding - Encoding of the output file; defaults to the `output.encoding` setting
+     * @param options.sourceUri - Parent of the output in FileHierarchyService; defaults to the input file
+     * @param options.outputUri - Output document registered in FileHierarchyService; defaults to the output file
+     * @param options.writeDropped - Writes the records that were not kept to a second file and returns it as `dropped`,
+     * with the lines dropped per exclude filter (Key: filter ID) and the lines no include matched
+     * @param options.droppedUri - Document of the dropped lines registered in FileHierarchyService; defaults to their file
+     * @param options.extract - Returns `extracted`, the capture groups of the regex include filters in the kept records
+     * @param options.onProgress - Called periodically with the number of bytes read so far
+     * @param options.token - Cancels the run; the partial output file is deleted
+     * @returns Promise resolving to output path, statistics and the 0-based source line of each output line
+     * (-1 for separators); `contextLines` lists the output lines that are context, when blocks are separated;
+     * `slowFilters` lists the filters whose regex spent longer than the `regex.timeBudgetMs` setting on one line,
+     * which were disabled and the run repeated without them
+     * @throws vscode.CancellationError if the run was cancelled
      * @throws Error if file cannot be read or written
      */
-    public async processFile(inputPath: string, filterGroups: FilterGroup[], options?: { prependLineNumbers?: boolean, totalLineCount?: number, originalPath?: string, mergeGroups?: boolean }): Promise<{ outputPath: string, processed: number, matched: number, lineMapping: number[] }> {
-        const fileStream = fs.createReadStream(inputPath, { encoding: 'utf8' });
+    public async processFile(inputPath: string, filterGroups: FilterGroup[], options?: ProcessFileOptions): Promise<{ outputPath: string, processed: number, matched: number, lineMapping: number[], contextLines?: number[], hitCounts?: Map<string, number>, encoding?: string, outputEncoding?: OutputEncoding, dropped?: DroppedOutput, extracted?: ExtractedTable, slowFilters?: FilterItem[] }> {
+        const budgetMs = this.getRegexTimeBudget();
+        const slowFilters: FilterItem[] = [];
+        let groups = filterGroups;
+        let request: FilterRunRequest;
+        let extract: { extractors: CompiledExtractor[], columns: string[] } | undefined;
+        let result: FilterRunResult;
+        for (;;) {
+            ({ request, extract } = this.createFileRequest(inputPath, groups, options));
+            try {
+                result = await this.runRequest(request, options, budgetMs);
+                break;
+            } catch (e) {
+                const filter = e instanceof SlowFilterError ? groups.flatMap(g => g.filters).find(f => f.id === e.filterId) : undefined;
+                if (!filter) {
+                    throw e;
+                }
+                // Rerun without the filter; each retry disables one more, so this ends
+                await this.deleteOutputs(request);
+                this.warn(`Disabled filter '${filter.nickname || filter.keyword}' for this run: ${(e as Error).message}`);
+                slowFilters.push(filter);
+                groups = this.disableFilters(groups, [filter.id]);
+            }
+        }
+        const activeGroups = groups.filter(g => g.isEnabled);
 
-        const rl = readline.createInterface({
-            input: fileStream,
-            crlfDelay: Infinity
-        });
+        // Adjust mapping to be 0-based for VS Code Positions
+        const adjustedMapping = result.lineMapping.map(l => l - 1);
 
-        const activeGroups = filterGroups.filter(g => g.isEnabled);
+        // Register with FileHierarchyService
+        // If originalPath is provided (e.g. from Workflow), use it as the parent
+        // Archives are represented by their entry document
+        const parentPath = options?.originalPath || inputPath;
+        const sourceUri = options?.sourceUri ?? (ArchiveUtils.isArchive(parentPath)
+            ? ArchiveEntryContentProvider.createUri(parentPath, options?.archiveEntry)
+            : vscode.Uri.file(parentPath));
+        const outputUri = options?.outputUri ?? vscode.Uri.file(request.outputPath);
+        FileHierarchyService.getInstance().registerChild(sourceUri, outputUri, 'filter');
 
-        // support OR logic by merging all groups into one if requested
-        let groupsToCompile = activeGroups;
-        if (options?.mergeGroups && activeGroups.length > 1) {
-            const mergedGroup: FilterGroup = {
-                id: 'merged',
-                name: 'Merged Group',
-                isEnabled: true,
-                isExpanded: true,
-                filters: activeGroups.flatMap(g => g.filters)
+        let dropped: DroppedOutput | undefined;
+        if (result.dropped && request.droppedOutputPath) {
+            FileHierarchyService.getInstance().registerChild(sourceUri, options?.droppedUri ?? vscode.Uri.file(request.droppedOutputPath), 'filter');
+            dropped = {
+                outputPath: request.droppedOutputPath,
+                lineMapping: result.dropped.lineMapping.map(l => l - 1),
+                excludeCounts: result.dropped.excludeCounts,
+                unmatched: result.dropped.unmatched
             };
-            groupsToCompile = [mergedGroup];
         }
 
-        const compiledGroups = this.compileGroups(groupsToCompile);
+        let extracted: ExtractedTable | undefined;
+        if (extract && result.extracted) {
+            const filterNames = new Map(activeGroups.flatMap(g => g.filters).map(f => [f.id, f.nickname || f.keyword]));
+            extracted = {
+                columns: extract.columns,
+                rows: result.extracted.rows.map(row => ({ line: row.line - 1, timestamp: row.timestamp, filter: filterNames.get(row.filterId) ?? '', cells: row.cells })),
+                truncated: result.extracted.truncated
+            };
+        }
 
-        // Path and stream setup
-        const tmpDir = os.tmpdir();
-        const prefix = vscode.workspace.getConfiguration(Constants.Configuration.Section).get<string>(Constants.Configuration.TempFilePrefix) || Constants.Defaults.TempFilePrefix;
-        const now = new Date();
-        const uniqueSuffix = Math.random().toString(36).substring(7);
-        const outputFilename = `${prefix}${now.getFullYear().toString().slice(-2)}${(now.getMonth() + 1).toString().padStart(2, '0')}${now.getDate().toString().padStart(2, '0')}_${now.getHours().toString().padStart(2, '0')}${now.getMinutes().toString().padStart(2, '0')}${now.getSeconds().toString().padStart(2, '0')}_${now.getMilliseconds().toString().padStart(3, '0')}_${uniqueSuffix}.log`;
-        const outputPath = path.join(tmpDir, outputFilename);
-        const outputStream = fs.createWriteStream(outputPath);
-
-        // Surface stream errors as rejections
-        const streamError = new Promise<never>((_, reject) => {
-            fileStream.on('error', (err) => reject(new Error(`Failed to read file ${inputPath}: ${err.message}`)));
-            rl.on('error', (err) => reject(new Error(`Readline error while processing ${inputPath}: ${err.message}`)));
-            outputStream.on('error', (err) => reject(new Error(`Failed to write output file ${outputPath}: ${err.message}`)));
-        });
+        return { outputPath: request.outputPath, processed: result.processed, matched: result.matched, lineMapping: adjustedMapping, contextLines: result.contextLines, hitCounts: result.hitCounts, encoding: result.encoding, outputEncoding: request.outputEncoding, dropped, extracted, slowFilters: slowFilters.length > 0 ? slowFilters : undefined };
+    }
 
-        let processed = 0;
-        let matched = 0;
+    private createFileRequest(inputPath: string, filterGroups: FilterGroup[], options?: ProcessFileOptions): { request: FilterRunRequest, extract?: { extractors: CompiledExtractor[], columns: string[] } } {
+        const request = this.createRequest(inputPath, filterGroups, {
+            archiveEntry: options?.archiveEntry,
+            outputPath: this.createOutputPath(),
+            prependLineNumbers: options?.prependLineNumbers,
+            totalLineCount: options?.totalLineCount,
+            mergeGroups: options?.mergeGroups,
+            recordStart: options?.recordStart === undefined ? this.getRecordStartPattern() : options.recordStart ?? undefined,
+            endByte: options?.endByte,
+            collapseRepeats: options?.collapseRepeats ?? this.getCollapseRepeatsMode(),
+            separateBlocks: options?.separateBlocks ?? this.getSeparateBlocks(),
+            countHits: options?.countHits,
+            encoding: options?.encoding,
+            fallbackEncoding: this.getSourceEncoding(options?.originalPath || inputPath),
+            outputEncoding: options?.outputEncoding ?? this.getOutputEncoding(),
+            droppedOutputPath: options?.writeDropped ? this.createOutputPath() : undefined
+        });
+        // Tracked until they are published, e.g. in case the window is closed during the run
+        for (const outputPath of [request.outputPath, request.droppedOutputPath]) {
+            if (outputPath) {
+                GeneratedFileService.getInstance().track(outputPath, 'filter');
+            }
+        }
+        const extract = options?.extract ? this.compileExtractors(filterGroups.filter(g => g.isEnabled)) : undefined;
+        if (extract) {
+            request.extract = { extractors: extract.extractors, columnCount: extract.columns.length };
+        }
+        return { request, extract };
+    }
 
-        const maxBeforeLines = DEFAULT_MAX_BEFORE_LINES;
-        const beforeBuffer = new CircularBuffer<{ line: string, index: number }>(maxBeforeLines);
-        let afterLinesRemaining = 0;
-        let lastWrittenLineIndex = -1; // Index of the last line written to output
+    /**
+     * Creates a filter pass that continues a `processFile` run on lines read later, e.g. the
+     * lines appended to a followed file. Runs on the extension host, so feed it small batches.
+     * Its `pushLine` throws SlowFilterError once a filter regex spends longer than the `regex.timeBudgetMs`
+     * setting on one line.
+     *
+     * @param filterGroups - The groups of the run being continued
+     * @param firstLine - 1-based source line number of the first line that will be passed in
+     * @param write - Receives each output line, its 0-based source line (-1 for separators) and its kind
+     */
+    public createFilterPass(
+        filterGroups: FilterGroup[],
+        firstLine: number,
+        options: Pick<ProcessFileOptions, 'prependLineNumbers' | 'totalLineCount' | 'recordStart' | 'collapseRepeats' | 'separateBlocks'>,
+        write: (line: string, sourceLine: number, kind: OutputLineKind) => void
+    ): LogFilterPass {
+        const activeGroups = filterGroups.filter(g => g.isEnabled);
+        const compiledGroups = this.compileGroups(activeGroups);
+        RegexWatch.bound({ compiledGroups }, this.getRegexTimeBudget());
+        return new LogFilterPass(compiledGroups, {
+            prependLineNumbers: options.prependLineNumbers || false,
+            totalLineCount: options.totalLineCount || DEFAULT_MAX_LINE_COUNT,
+            recordStart: options.recordStart === undefined ? this.getRecordStartPattern() : options.recordStart ?? undefined,
+            collapseRepeats: options.collapseRepeats ?? this.getCollapseRepeatsMode(),
+            separateBlocks: options.separateBlocks ?? this.getSeparateBlocks(),
+            firstLine
+        }, (line, sourceLine, kind) => write(line, sourceLine - 1, kind));
+    }
 
-        // Line Mapping: Index = Output Line Number, Value = Source Line Number
-        const lineMapping: number[] = [];
+    /**
+     * Combines several log files (e.g. `app.log.1` … `app.log.9`) into one merged source file,
+     * so that filters and workflows can run across them as one log.
+     * The merged file is registered in FileHierarchyService with its original files.
+     *
+     * @param sources - Files to merge, in the order they should be concatenated
+     * @param order - 'concat' keeps the given order, 'timestamp' interleaves lines by their parsed timestamp
+     * @returns Promise resolving to the merged file path and, per merged line, the source URI index and 0-based line
+     * @throws vscode.CancellationError if the run was cancelled
+     * @throws Error if a file cannot be read or written
+     */
+    public async mergeFiles(sources: MergeSource[], order: MergeOrder, options?: MergeFilesOptions): Promise<{ outputPath: string, lineCount: number, sourceUris: vscode.Uri[], sourceIndexes: number[], lineMapping: number[] }> {
+        const token = options?.token;
+        if (token?.isCancellationRequested) {
+            throw new vscode.CancellationError();
+        }
 
-        // Padding calculation
-        const prependLineNumbers = options?.prependLineNumbers || false;
-        const totalLineCount = options?.totalLineCount || DEFAULT_MAX_LINE_COUNT;
-        const padding = totalLineCount.toString().length;
+        const outputPath = this.createOutputPath();
+        let result;
+        try {
+            result = await LogMergeCore.merge({ sources, outputPath, order }, {
+                onProgress: options?.onProgress,
+                isCancelled: () => !!token?.isCancellationRequested
+            });
+        } catch (e) {
+            throw e instanceof FilterRunCancelledError ? new vscode.CancellationError() : e;
+        }
 
-        const formatLine = (line: string, index: number) => {
-            if (prependLineNumbers) {
-                return `${index.toString().padStart(padding, '0')}: ${line}`;
-            }
-            return line;
+        const sourceUris = sources.map(source => ArchiveUtils.isArchive(source.path)
+            ? ArchiveEntryContentProvider.createUri(source.path, source.entry)
+            : vscode.Uri.file(source.path));
+        const firstName = path.basename(sourceUris[0].path);
+        const label = sources.length > 1 ? `Merged: ${firstName} +${sources.length - 1}` : `Merged: ${firstName}`;
+        FileHierarchyService.getInstance().registerMergedSource(vscode.Uri.file(outputPath), sourceUris, label);
+
+        return {
+            outputPath,
+            lineCount: result.lineCount,
+            sourceUris,
+            sourceIndexes: result.sourceIndexes,
+            lineMapping: result.lineMapping.map(l => l - 1) // 0-based for VS Code Positions
         };
+    }
 
-        const waitForDrain = () => new Promise<void>(resolve => outputStream.once('drain', resolve));
-
-        const writeLine = (line: string, originalIndex: number) => {
-            const ok = outputStream.write(formatLine(line, originalIndex) + '\n');
-            lineMapping.push(originalIndex);
-            return ok;
-        };
+    private getRecordStartPattern(): RegExp | undefined {
+        const config = vscode.workspace.getConfiguration(Constants.Configuration.Section);
+        const preset = config.get<RecordStartPreset>(Constants.Configuration.Records.StartPattern);
+        const customPattern = config.get<string>(Constants.Configuration.Records.CustomStartPattern);
+        try {
+            return RecordUtils.getStartPattern(preset, customPattern);
+        } catch (e) {
+            throw new Error(Constants.Messages.Error.InvalidRecordStartPattern.replace('{0}', e instanceof Error ? e.message : String(e)));
+        }
+    }
 
-        const processLines = async () => {
-            for await (const line of rl) {
-                processed++; // 1-based index
-                const matchResult = this.checkMatchCompiled(line, compiledGroups);
-
-                if (matchResult.isMatched) {
-                    matched++;
-                    const maxContext = matchResult.contextLines;
-
-                    // 1. Write 'Before' context lines that haven't been written yet
-                    const allBuffer = beforeBuffer.getAll();
-                    const startIndex = Math.max(0, allBuffer.length - maxContext);
-                    const linesToSubmit = allBuffer.slice(startIndex);
-
-                    for (let i = 0; i < linesToSubmit.length; i++) {
-                        const bufferedItem = linesToSubmit[i];
-                        if (bufferedItem.index > lastWrittenLineIndex) {
-                            if (!writeLine(bufferedItem.line, bufferedItem.index)) {
-                                await waitForDrain();
-                            }
-                            lastWrittenLineIndex = bufferedItem.index;
-                        }
-                    }
-
-                    // 2. Write current matching line
-                    if (processed > lastWrittenLineIndex) {
-                        if (!writeLine(line, processed)) {
-                            await waitForDrain();
-                        }
-                        lastWrittenLineIndex = processed;
-                    }
-
-                    // 3. Set/Update 'After' context counter
-                    afterLinesRemaining = Math.max(afterLinesRemaining, maxContext);
-                } else if (afterLinesRemaining > 0) {
-                    // This is an 'After' context line
-                    if (processed > lastWrittenLineIndex) {
-                        if (!writeLine(line, processed)) {
-                            await waitForDrain();
-                        }
-                        lastWrittenLineIndex = processed;
-                    }
-                    afterLinesRemaining--;
-                }
+    private getCollapseRepeatsMode(): RepeatCollapseMode {
+        return vscode.workspace.getConfiguration(Constants.Configuration.Section).get<RepeatCollapseMode>(Constants.Configuration.Output.CollapseRepeats) || 'off';
+    }
 
-                // Maintain before buffer using CircularBuffer
-                beforeBuffer.push({ line, index: processed });
-            }
+    /**
+     * Reads the encoding of filter output files from the `output.encoding` setting.
+     */
+    public getOutputEncoding(): OutputEncoding {
+        return vscode.workspace.getConfiguration(Constants.Configuration.Section).get<OutputEncoding>(Constants.Configuration.Output.Encoding) || 'utf8';
+    }
 
-            outputStream.end();
-            await new Promise<void>(resolve => outputStream.on('finish', resolve));
-        };
+    // The encoding VS Code would open the source with, for sources that are not UTF-8
+    private getSourceEncoding(sourcePath: string): string | undefined {
+        const id = vscode.workspace.getConfiguration('files', vscode.Uri.file(sourcePath)).get<string>('encoding');
+        return id ? EncodingUtils.fromVsCodeEncoding(id) : undefined;
+    }
 
-        // Race: process lines vs stream errors
-        await Promise.race([processLines(), streamError]);
+    private getSeparateBlocks(): boolean {
+        return vscode.workspace.getConfiguration(Constants.Configuration.Section).get<boolean>(Constants.Configuration.Output.SeparateBlocks) || false;
+    }
 
-        // Adjust mapping to be 0-based for VS Code Positions
-        const adjustedMapping = lineMapping.map(l => l - 1);
+    /**
+     * Reads the time a filter regex may spend on one line from the `regex.timeBudgetMs` setting; 0 for no limit.
+     */
+    public getRegexTimeBudget(): number {
+        return Math.max(0, vscode.workspace.getConfiguration(Constants.Configuration.Section).get<number>(Constants.Configuration.Regex.TimeBudgetMs) ?? 0);
+    }
 
-        // Register with FileHierarchyService
-        // If originalPath is provided (e.g. from Workflow), use it as the parent
-        const parentPath = options?.originalPath || inputPath;
-        const sourceUri = vscode.Uri.file(parentPath);
-        const outputUri = vscode.Uri.file(outputPath);
-        FileHierarchyService.getInstance().registerChild(sourceUri, outputUri, 'filter');
+    private async deleteOutputs(request: FilterRunRequest): Promise<void> {
+        for (const outputPath of [request.outputPath, request.droppedOutputPath]) {
+            if (outputPath) {
+                await fs.promises.rm(outputPath, { force: true }).catch(() => { /* ignore cleanup error */ });
+            }
+        }
+    }
 
-        return { outputPath, processed, matched, lineMapping: adjustedMapping };
+    private createOutputPath(): string {
+        const tmpDir = os.tmpdir();
+        const prefix = vscode.workspace.getConfiguration(Constants.Configuration.Section).get<string>(Constants.Configuration.TempFilePrefix) || Constants.Defaults.TempFilePrefix;
+        const now = new Date();
+        const uniqueSuffix = Math.random().toString(36).substring(7);
+        const outputFilename = `${prefix}${now.getFullYear().toString().slice(-2)}${(now.getMonth() + 1).toString().padStart(2, '0')}${now.getDate().toString().padStart(2, '0')}_${now.getHours().toString().padStart(2, '0')}${now.getMinutes().toString().padStart(2, '0')}${now.getSeconds().toString().padStart(2, '0')}_${now.getMilliseconds().toString().padStart(3, '0')}_${uniqueSuffix}.log`;
+        return path.join(tmpDir, outputFilename);
     }
 
-    /**
-     * Checks if a line matches filters using pre-compiled regex groups.
-     */
-    public checkMatchCompiled(line: string, compiledGroups: CompiledGroup[]): { isMatched: boolean, contextLines: number } {
-        let maxContext = 0;
-        let anyIncludeDefined = false;
-        let matchFound = false;
+    // With a time budget, stops the run with SlowFilterError once a filter regex spends longer than it on one line
+    private async runRequest(request: FilterRunRequest, options?: ProcessFileOptions, budgetMs = 0): Promise<FilterRunResult> {
+        const token = options?.token;
+        if (token?.isCancellationRequested) {
+            throw new vscode.CancellationError();
+        }
 
-        if (compiledGroups.length === 0) {
-            return { isMatched: false, contextLines: 0 };
+        const workerPath = path.join(__dirname, 'LogFilterWorker.js');
+        if (!fs.existsSync(workerPath)) {
+            // Should not happen in a packaged extension; keep filtering functional anyway.
+            Logger.getInstance().warn(`Filter worker not found at ${workerPath}, filtering on the extension host.`);
+            RegexWatch.bound(request, budgetMs);
+            try {
+                return await LogFilterCore.run(request, {
+                    onProgress: options?.onProgress,
+                    isCancelled: () => !!token?.isCancellationRequested
+                });
+            } catch (e) {
+                throw e instanceof FilterRunCancelledError ? new vscode.CancellationError() : e;
+            }
         }
 
-        for (const group of compiledGroups) {
-            // Excludes: Highest priority. If ANY active group excludes the line, it's out.
-            for (const excludeRegex of group.excludes) {
-                excludeRegex.lastIndex = 0; // Reset state for global regex
-                if (excludeRegex.test(line)) {
-                    return { isMatched: false, contextLines: 0 };
+        return new Promise<FilterRunResult>((resolve, reject) => {
+            const watch = new RegexWatch();
+            const worker = new Worker(workerPath, { workerData: { request, watchBuffer: watch.buffer } satisfies FilterWorkerData });
+            let settled = false;
+            const settle = (fn: () => void) => {
+                if (!settled) {
+                    settled = true;
+                    cancelListener?.dispose();
+                    clearInterval(watchdog);
+                    fn();
                 }
-            }
+            };
 
-            // Includes: OR logic between groups.
-            // If any group has include filters, we enter "include mode".
-            if (group.includes.length > 0) {
-                anyIncludeDefined = true;
-                for (const include of group.includes) {
-                    include.regex.lastIndex = 0; // Reset state for global regex
-                    if (include.regex.test(line)) {
-                        matchFound = true;
-                        maxContext = Math.max(maxContext, include.contextLine);
-                    }
+            // A regex that backtracks catastrophically never yields, so the worker is stopped from here
+            const watchdog = budgetMs > 0 ? setInterval(() => {
+                const filterId = watch.findSlowFilter(request, budgetMs);
+                if (filterId) {
+                    settle(() => reject(new SlowFilterError(filterId, budgetMs)));
+                    void worker.terminate();
                 }
-            }
-        }
+            }, Math.max(50, budgetMs / 4)) : undefined;
+
+            const cancelListener = token?.onCancellationRequested(() => {
+                worker.postMessage({ type: 'cancel' } satisfies FilterWorkerCommand);
+            });
+
+            worker.on('message', (message: FilterWorkerMessage) => {
+                switch (message.type) {
+                    case 'progress':
+                        options?.onProgress?.(message.bytesRead, message.totalBytes);
+                        break;
+                    case 'done':
+                        settle(() => resolve(message.result));
+                        break;
+                    case 'cancelled':
+                        settle(() => reject(new vscode.CancellationError()));
+                        break;
+                    case 'error':
+                        settle(() => reject(new Error(message.message)));
+                        break;
+                }
+            });
+            worker.on('error', err => settle(() => reject(err)));
+            worker.on('exit', code => settle(() => reject(new Error(`Filter worker exited unexpectedly (code ${code})`))));
+        });
+    }
 
-        // Final determination:
-        // 1. If no include filters are defined anywhere, we include everything (that wasn't excluded).
-        // 2. If include filters are defined, we only include if at least ONE matched.
-        const isMatched = !anyIncludeDefined || matchFound;
+    /**
+     * Checks if a line matches filters using pre-compiled regex groups.
+     * @see LogFilterCore.checkMatchCompiled
+     */
+    public checkMatchCompiled(line: string, compiledGroups: CompiledGroup[]): { isMatched: boolean, contextLines: number } {
+        return LogFilterCore.checkMatchCompiled(line, compiledGroups);
+    }
 
-        return { isMatched, contextLines: maxContext };
+    /**
+     * Checks a line against a single group, including its excludes.
+     * @see LogFilterCore.checkGroupCompiled
+     */
+    public checkGroupCompiled(line: string, group: CompiledGroup): boolean {
+        return LogFilterCore.checkGroupCompiled(line, group);
     }
 }
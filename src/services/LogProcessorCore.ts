@@ -0,0 +1,300 @@
+import { FilterGroup, FilterItem } from '../models/Filter';
+import { RegexUtils } from '../utils/RegexUtils';
+import { FilterExpression } from '../utils/FilterExpression';
+import { CompiledTimeRange, TimestampUtils } from '../utils/TimestampUtils';
+import { CompiledFieldCondition, LogFieldUtils, LogFormat } from '../utils/LogFieldUtils';
+import { Constants } from '../Constants';
+import { CompiledExpression, CompiledExtractor, CompiledGroup, CompiledHitCounters, FilterRunRequest } from './LogFilterCore';
+
+export const DEFAULT_MAX_LINE_COUNT = 999999;
+
+/**
+ * Settings of a run given explicitly. LogProcessor fills them from the `logmagnifier` configuration.
+ */
+export interface FilterRequestOptions extends Omit<FilterRunRequest, 'inputPath' | 'compiledGroups' | 'prependLineNumbers' | 'totalLineCount' | 'hitCounters' | 'dropLabels' | 'extract'> {
+    prependLineNumbers?: boolean;
+    totalLineCount?: number; // Sets the width of prepended line numbers
+    mergeGroups?: boolean; // Runs the groups as one (OR), except groups with their own match semantics
+    countHits?: boolean; // Counts the hits of each enabled filter in the whole input
+}
+
+/**
+ * Turns filter groups into the compiled form LogFilterCore runs.
+ *
+ * Must not import 'vscode': the command-line interface filters with it outside the editor.
+ * LogProcessor extends it with the extension settings, the worker thread and the file hierarchy.
+ */
+export class LogProcessorCore {
+    // Invalid expressions already reported; groups are compiled for every run and highlight update
+    private static readonly MAX_REPORTED_EXPRESSIONS = 200;
+    private static reportedExpressions: Set<string> = new Set();
+
+    public compileGroups(activeGroups: FilterGroup[]): CompiledGroup[] {
+        return activeGroups.map(group => this.compileGroup(group));
+    }
+
+    public compileGroup(group: FilterGroup): CompiledGroup {
+        // Compile filters for this group.
+        // We only consider filters that are explicitly enabled.
+
+        const filters = group.filters;
+        const effectiveIncludes: FilterItem[] = [];
+        const effectiveExcludes: FilterItem[] = [];
+        const timeRanges = new Map<number, { range: CompiledTimeRange, exclude: boolean, filterId: string }>();
+        const fields = new Map<number, { condition: CompiledFieldCondition, contextLine: number, exclude: boolean, filterId: string }>();
+        const fieldFormat = filters.some(f => f.isEnabled && f.kind === 'field') ? this.getFieldFormat() : undefined;
+
+        filters.forEach((f, index) => {
+            if (!f.isEnabled) {
+                return;
+            }
+            if (f.kind === 'timeRange') {
+                const range = this.compileTimeRange(f, group);
+                if (range) {
+                    timeRanges.set(index, { range, exclude: f.type === 'exclude', filterId: f.id });
+                }
+            } else if (f.kind === 'field') {
+                const condition = fieldFormat && this.compileFieldCondition(f, group, fieldFormat);
+                if (condition) {
+                    fields.set(index, { condition, contextLine: f.contextLine ?? 0, exclude: f.type === 'exclude', filterId: f.id });
+                }
+            } else if (f.type === 'include') {
+                effectiveIncludes.push(f);
+            } else if (f.type === 'exclude') {
+                effectiveExcludes.push(f);
+            }
+        });
+
+        return {
+            includes: effectiveIncludes.map(f => ({
+                regex: RegexUtils.create(f.keyword, !!f.isRegex, !!f.caseSensitive, f),
+                contextLine: f.contextLine ?? 0,
+                filterId: f.id
+            })),
+            excludes: effectiveExcludes.map(f => RegexUtils.create(f.keyword, !!f.isRegex, !!f.caseSensitive, f)),
+            excludeIds: effectiveExcludes.map(f => f.id),
+            matchMode: group.matchMode ?? 'any',
+            expression: this.compileExpression(group, timeRanges, fields),
+            timeRanges: timeRanges.size > 0 ? Array.from(timeRanges.values()) : undefined,
+            fields: fields.size > 0 ? Array.from(fields.values()) : undefined
+        };
+    }
+
+    /**
+     * Prepares the enabled filters of the groups for counting their hits during a run.
+     * Filters that fail to compile are not counted.
+     */
+    public compileHitCounters(activeGroups: FilterGroup[]): CompiledHitCounters[] {
+        const fieldFormat = activeGroups.some(g => g.filters.some(f => f.isEnabled && f.kind === 'field')) ? this.getFieldFormat() : undefined;
+        return activeGroups.map(group => {
+            const hasTimeRanges = group.filters.some(f => f.isEnabled && f.kind === 'timeRange');
+            const needsGate = (group.matchMode ?? 'any') !== 'any' || !!group.expression?.trim() || hasTimeRanges;
+            const filters: CompiledHitCounters['filters'] = [];
+
+            for (const f of group.filters) {
+                if (!f.isEnabled) {
+                    continue;
+                }
+                const isExclude = f.type === 'exclude';
+                if (f.kind === 'timeRange') {
+                    const range = this.compileTimeRange(f, group);
+                    if (range) {
+                        filters.push({ filterId: f.id, range, gated: false });
+                    }
+                } else if (f.kind === 'field') {
+                    const condition = fieldFormat && this.compileFieldCondition(f, group, fieldFormat);
+                    if (condition) {
+                        filters.push({ filterId: f.id, condition, gated: !isExclude });
+                    }
+                } else if (f.keyword) {
+                    try {
+                        filters.push({ filterId: f.id, regex: RegexUtils.create(f.keyword, !!f.isRegex, !!f.caseSensitive, f), gated: !isExclude });
+                    } catch (e) {
+                        this.warn(`Not counting invalid filter '${f.keyword}' in group '${group.name}': ${e instanceof Error ? e.message : String(e)}`);
+                    }
+                }
+            }
+            return { gate: needsGate ? this.compileGroup(group) : undefined, filters };
+        });
+    }
+
+    /**
+     * Prepares the enabled regex include filters that have capture groups for extracting their groups.
+     * @returns The extractors and the table columns they fill
+     */
+    public compileExtractors(activeGroups: FilterGroup[]): { extractors: CompiledExtractor[], columns: string[] } {
+        const columns: string[] = [];
+        const extractors: CompiledExtractor[] = [];
+        for (const f of activeGroups.flatMap(g => g.filters)) {
+            if (!f.isEnabled || !f.isRegex || f.type !== 'include' || (f.kind && f.kind !== 'keyword')) {
+                continue;
+            }
+            const groups = RegexUtils.getCaptureGroups(f.keyword);
+            if (groups.length === 0) {
+                continue;
+            }
+            extractors.push({
+                filterId: f.id,
+                regex: RegexUtils.create(f.keyword, true, !!f.caseSensitive),
+                columns: groups.map((name, i) => {
+                    const column = name ?? `$${i + 1}`;
+                    const index = columns.indexOf(column);
+                    return index === -1 ? columns.push(column) - 1 : index;
+                })
+            });
+        }
+        return { extractors, columns };
+    }
+
+    /**
+     * Line format used by field filters. The extension reads it from the `fields.format` setting.
+     * @throws Error if the custom pattern is not a valid regular expression
+     */
+    public getFieldFormat(): { format: LogFormat, pattern?: RegExp } {
+        return { format: 'auto' };
+    }
+
+    /**
+     * Builds the request for a run of the enabled groups over a file.
+     *
+     * @param inputPath - Absolute path to the input log file
+     * @param filterGroups - Groups to apply; disabled groups are skipped
+     * @param options - Output path and settings of the run
+     */
+    public createRequest(inputPath: string, filterGroups: FilterGroup[], options: FilterRequestOptions): FilterRunRequest {
+        const activeGroups = filterGroups.filter(g => g.isEnabled);
+        const { mergeGroups, countHits, ...settings } = options;
+        return {
+            ...settings,
+            inputPath,
+            compiledGroups: this.compileGroups(mergeGroups ? this.mergeGroups(activeGroups) : activeGroups),
+            prependLineNumbers: options.prependLineNumbers || false,
+            totalLineCount: options.totalLineCount || DEFAULT_MAX_LINE_COUNT,
+            // Counted per original group: merging groups for the run does not change what each filter hits
+            hitCounters: countHits ? this.compileHitCounters(activeGroups) : undefined,
+            dropLabels: options.droppedOutputPath ? this.getDropLabels(activeGroups) : undefined
+        };
+    }
+
+    /**
+     * Copies the groups with the given filters disabled, e.g. filters that were too slow for a run.
+     */
+    public disableFilters(filterGroups: FilterGroup[], filterIds: string[]): FilterGroup[] {
+        return filterGroups.map(g => g.filters.some(f => filterIds.includes(f.id))
+            ? { ...g, filters: g.filters.map(f => filterIds.includes(f.id) ? { ...f, isEnabled: false } : f) }
+            : g);
+    }
+
+    // Reports filters that are skipped because they fail to compile
+    protected warn(message: string) {
+        console.warn(message);
+    }
+
+    private compileTimeRange(filter: FilterItem, group: FilterGroup): CompiledTimeRange | undefined {
+        if (!filter.timeRange) {
+            return undefined;
+        }
+        try {
+            return TimestampUtils.compileRange(filter.timeRange);
+        } catch (e) {
+            // Ranges are validated when entered; one that still fails (e.g. from an edited export) is skipped
+            this.warn(`Ignoring invalid time range '${filter.keyword}' in group '${group.name}': ${e instanceof Error ? e.message : String(e)}`);
+            return undefined;
+        }
+    }
+
+    private compileFieldCondition(filter: FilterItem, group: FilterGroup, fieldFormat: { format: LogFormat, pattern?: RegExp }): CompiledFieldCondition | undefined {
+        if (!filter.field) {
+            return undefined;
+        }
+        try {
+            return LogFieldUtils.compileCondition(filter.field, fieldFormat.format, fieldFormat.pattern);
+        } catch (e) {
+            this.warn(`Ignoring invalid field filter '${filter.keyword}' in group '${group.name}': ${e instanceof Error ? e.message : String(e)}`);
+            return undefined;
+        }
+    }
+
+    private compileExpression(
+        group: FilterGroup,
+        timeRanges: Map<number, { range: CompiledTimeRange }>,
+        fields: Map<number, { condition: CompiledFieldCondition }>
+    ): CompiledExpression | undefined {
+        if (!group.expression || !group.expression.trim()) {
+            return undefined;
+        }
+
+        try {
+            const root = FilterExpression.parse(group.expression, group.filters);
+            const terms = new Map<number, RegExp | CompiledTimeRange | CompiledFieldCondition>();
+            for (const index of FilterExpression.collectTerms(root)) {
+                const f = group.filters[index];
+                if (!f.isEnabled) {
+                    continue;
+                }
+                if (f.kind === 'timeRange') {
+                    // Shares the range object, which is updated once per line
+                    const timeRange = timeRanges.get(index);
+                    if (timeRange) {
+                        terms.set(index, timeRange.range);
+                    }
+                } else if (f.kind === 'field') {
+                    const field = fields.get(index);
+                    if (field) {
+                        terms.set(index, field.condition);
+                    }
+                } else {
+                    terms.set(index, RegexUtils.create(f.keyword, !!f.isRegex, !!f.caseSensitive, f));
+                }
+            }
+            return { root, terms, filterIds: group.filters.map(f => f.id) };
+        } catch (e) {
+            // E.g. a referenced filter was deleted. Falling back to the match mode would widen the output unnoticed,
+            // so the group matches nothing and the user is told why.
+            const message = Constants.Messages.Error.InvalidGroupExpression
+                .replace('{0}', group.name)
+                .replace('{1}', e instanceof Error ? e.message : String(e));
+            if (!LogProcessorCore.reportedExpressions.has(message)) {
+                if (LogProcessorCore.reportedExpressions.size >= LogProcessorCore.MAX_REPORTED_EXPRESSIONS) {
+                    LogProcessorCore.reportedExpressions.clear();
+                }
+                LogProcessorCore.reportedExpressions.add(message);
+                RegexUtils.reportError(message);
+            }
+            return { root: { type: 'term', index: -1 }, terms: new Map(), filterIds: group.filters.map(f => f.id) };
+        }
+    }
+
+    // Supports OR logic by merging all groups into one.
+    // Groups with their own match mode, expression or time window are kept separate, as merging would change their meaning.
+    private mergeGroups(activeGroups: FilterGroup[]): FilterGroup[] {
+        if (activeGroups.length <= 1) {
+            return activeGroups;
+        }
+        const hasOwnSemantics = (g: FilterGroup) => (g.matchMode ?? 'any') !== 'any' || !!g.expression?.trim()
+            || g.filters.some(f => f.isEnabled && f.kind === 'timeRange');
+        const mergeable = activeGroups.filter(g => !hasOwnSemantics(g));
+        const mergedGroup: FilterGroup = {
+            id: 'merged',
+            name: 'Merged Group',
+            isEnabled: true,
+            isExpanded: true,
+            filters: mergeable.flatMap(g => g.filters)
+        };
+        return [
+            ...(mergeable.length > 0 ? [mergedGroup] : []),
+            ...activeGroups.filter(hasOwnSemantics)
+        ];
+    }
+
+    // Exclude filters are named in the dropped output the way the filter tree shows them
+    private getDropLabels(activeGroups: FilterGroup[]): Map<string, string> {
+        const labels = new Map<string, string>();
+        for (const f of activeGroups.flatMap(g => g.filters)) {
+            if (f.isEnabled && f.type === 'exclude') {
+                labels.set(f.id, f.isRegex ? f.nickname || f.keyword : `^${f.keyword}`);
+            }
+        }
+        return labels;
+    }
+}
@@ -0,0 +1,170 @@
+import * as vscode from 'vscode';
+import { Constants } from '../Constants';
+import { FilterManager } from './FilterManager';
+import { Logger } from './Logger';
+import { RegexUtils } from '../utils/RegexUtils';
+
+/**
+ * A rule of the `profiles.autoSelect` setting. A rule applies to a document if every pattern it sets matches.
+ */
+export interface ProfileRule {
+    profile: string;
+    filePattern?: string; // Glob on the file path; a glob without a slash is matched against the file name
+    contentPattern?: string; // Regex on the first `profiles.autoSelectLines` lines
+}
+
+/**
+ * Switches to the profile of the first rule that applies to the document of the active editor,
+ * unless a profile is pinned, and shows the rule that selected the active profile in the status bar.
+ */
+export class ProfileAutoSelectService implements vscode.Disposable {
+    private statusBarItem: vscode.StatusBarItem;
+    private disposables: vscode.Disposable[] = [];
+    private pinnedProfile: string | undefined;
+    private lastDocument: vscode.TextDocument | undefined;
+    private firedRule: ProfileRule | undefined;
+    // Patterns already reported as invalid, so that the error is not shown for every editor change
+    private reportedPatterns: Set<string> = new Set();
+
+    constructor(private filterManager: FilterManager, private logger: Logger) {
+        this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 99);
+        this.statusBarItem.command = Constants.Commands.TogglePinProfile;
+
+        this.disposables.push(
+            this.statusBarItem,
+            vscode.window.onDidChangeActiveTextEditor(editor => this.onEditorChanged(editor)),
+            vscode.workspace.onDidChangeConfiguration(e => {
+                if (e.affectsConfiguration(`${Constants.Configuration.Section}.${Constants.Configuration.Profiles.Section}`)) {
+                    this.reportedPatterns.clear();
+                    this.lastDocument = undefined;
+                    this.onEditorChanged(vscode.window.activeTextEditor);
+                }
+            }),
+            filterManager.onDidChangeProfile(() => {
+                // The rule no longer explains the active profile if it was switched by hand
+                if (this.firedRule && this.firedRule.profile !== this.filterManager.getActiveProfile()) {
+                    this.firedRule = undefined;
+                }
+                this.updateStatusBar();
+            })
+        );
+        this.onEditorChanged(vscode.window.activeTextEditor);
+    }
+
+    public getPinnedProfile(): string | undefined {
+        return this.pinnedProfile;
+    }
+
+    /**
+     * Pins the active profile so that rules stop switching profiles, or unpins it and applies
+     * the rules to the active editor again.
+     */
+    public async togglePin(): Promise<void> {
+        if (this.pinnedProfile) {
+            this.pinnedProfile = undefined;
+            this.lastDocument = undefined;
+            vscode.window.setStatusBarMessage(Constants.Messages.Info.ProfileUnpinned, 3000);
+            await this.onEditorChanged(vscode.window.activeTextEditor);
+        } else {
+            this.pinnedProfile = this.filterManager.getActiveProfile();
+            vscode.window.setStatusBarMessage(Constants.Messages.Info.ProfilePinned.replace('{0}', this.pinnedProfile), 3000);
+        }
+        this.updateStatusBar();
+    }
+
+    /**
+     * @returns The first rule that applies to the document, or undefined if none does
+     */
+    public findRule(document: vscode.TextDocument): ProfileRule | undefined {
+        const config = vscode.workspace.getConfiguration(Constants.Configuration.Section);
+        const rules = config.get<ProfileRule[]>(Constants.Configuration.Profiles.AutoSelect) || [];
+        const lineCount = Math.max(1, config.get<number>(Constants.Configuration.Profiles.AutoSelectLines) ?? 20);
+        const budgetMs = config.get<number>(Constants.Configuration.Regex.TimeBudgetMs) ?? 1000;
+
+        let lines: string[] | undefined;
+        return rules.find(rule => {
+            if (!rule?.profile || (!rule.filePattern && !rule.contentPattern)) {
+                return false;
+            }
+            if (rule.filePattern) {
+                const pattern = rule.filePattern.includes('/') ? rule.filePattern : `**/${rule.filePattern}`;
+                if (vscode.languages.match({ pattern }, document) === 0) {
+                    return false;
+                }
+            }
+            if (rule.contentPattern) {
+                let regex: RegExp;
+                try {
+                    regex = new RegExp(rule.contentPattern);
+                } catch (e) {
+                    this.reportInvalidPattern(rule.contentPattern, e);
+                    return false;
+                }
+                lines ??= document.getText(new vscode.Range(0, 0, Math.min(lineCount, document.lineCount), 0)).split(/\r?\n/);
+                if (RegexUtils.testLines(regex, lines, 1, budgetMs).matchCount === 0) {
+                    return false;
+                }
+            }
+            return true;
+        });
+    }
+
+    private async onEditorChanged(editor: vscode.TextEditor | undefined) {
+        if (!editor || editor.document.uri.scheme === 'output' || editor.document === this.lastDocument) {
+            return;
+        }
+        this.lastDocument = editor.document;
+
+        try {
+            const rule = this.pinnedProfile ? undefined : this.findRule(editor.document);
+            this.firedRule = rule;
+            if (rule && rule.profile !== this.filterManager.getActiveProfile()) {
+                if (await this.filterManager.loadProfile(rule.profile)) {
+                    this.logger.info(`Auto-selected profile '${rule.profile}' for ${editor.document.fileName}`);
+                } else {
+                    this.firedRule = undefined;
+                    this.logger.warn(`Profile '${rule.profile}' of an auto-select rule does not exist.`);
+                }
+            }
+        } catch (e) {
+            this.logger.error(`Error selecting profile for ${editor.document.fileName}: ${e}`);
+        }
+        this.updateStatusBar();
+    }
+
+    private updateStatusBar() {
+        const rules = vscode.workspace.getConfiguration(Constants.Configuration.Section).get<ProfileRule[]>(Constants.Configuration.Profiles.AutoSelect) || [];
+        if (!this.pinnedProfile && rules.length === 0) {
+            this.statusBarItem.hide();
+            return;
+        }
+
+        const activeProfile = this.filterManager.getActiveProfile();
+        if (this.pinnedProfile) {
+            this.statusBarItem.text = `$(pinned) ${activeProfile}`;
+            this.statusBarItem.tooltip = Constants.Messages.Info.ProfilePinnedTooltip;
+        } else if (this.firedRule) {
+            const conditions = [this.firedRule.filePattern, this.firedRule.contentPattern && `/${this.firedRule.contentPattern}/`].filter(Boolean).join(' + ');
+            this.statusBarItem.text = `$(book) ${activeProfile}`;
+            this.statusBarItem.tooltip = Constants.Messages.Info.ProfileRuleTooltip.replace('{0}', conditions);
+        } else {
+            this.statusBarItem.text = `$(book) ${activeProfile}`;
+            this.statusBarItem.tooltip = Constants.Messages.Info.ProfileNoRuleTooltip;
+        }
+        this.statusBarItem.show();
+    }
+
+    private reportInvalidPattern(pattern: string, e: unknown) {
+        if (this.reportedPatterns.has(pattern)) {
+            return;
+        }
+        this.reportedPatterns.add(pattern);
+        const message = Constants.Messages.Error.InvalidProfileRulePattern.replace('{0}', pattern).replace('{1}', e instanceof Error ? e.message : String(e));
+        this.logger.error(message);
+        vscode.window.showErrorMessage(message);
+    }
+
+    public dispose() {
+        this.disposables.forEach(d => d.dispose());
+    }
+}
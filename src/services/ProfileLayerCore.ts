@@ -0,0 +1,76 @@
+import { FilterGroup } from '../models/Filter';
+
+/**
+ * What the resolution needs of a profile: its own groups and the profiles it inherits, in order.
+ */
+export interface LayeredProfile {
+    groups: FilterGroup[];
+    layers?: string[];
+}
+
+/**
+ * Resolves the groups a profile inherits from other profiles (its layers).
+ *
+ * Must not import 'vscode': the command-line interface resolves the profiles of workflow packages with it.
+ */
+export class ProfileLayerCore {
+    /**
+     * Groups inherited through the given layers, deepest layer first. Each group is a copy marked with
+     * the profile that defines it. A group with the ID of one of `ownGroups` is overridden and left out;
+     * a group reached through several layers appears once, with the content of the last layer defining it.
+     * Missing profiles and layers that would inherit the profile itself are skipped.
+     *
+     * @param name - Name of the profile whose layers are resolved, to break cycles back to it
+     */
+    public static getInheritedGroups(name: string, layers: string[], ownGroups: FilterGroup[], getProfile: (name: string) => LayeredProfile | undefined): FilterGroup[] {
+        const inherited: Map<string, FilterGroup> = new Map(); // Key: group ID
+        const visited = new Set<string>([name]);
+
+        const visit = (layerName: string) => {
+            const profile = getProfile(layerName);
+            if (visited.has(layerName) || !profile) {
+                return;
+            }
+            visited.add(layerName);
+            for (const layer of profile.layers ?? []) {
+                visit(layer);
+            }
+            for (const group of profile.groups) {
+                // Map.set keeps the position of the first occurrence
+                inherited.set(group.id, { ...group, inheritedFrom: layerName, filters: group.filters.map(f => ({ ...f })) });
+            }
+        };
+        layers.forEach(visit);
+
+        const ownIds = new Set(ownGroups.map(g => g.id));
+        return [...inherited.values()].filter(g => !ownIds.has(g.id));
+    }
+
+    /**
+     * The groups a profile applies: those it inherits, then its own.
+     * @returns undefined if the profile does not exist
+     */
+    public static getEffectiveGroups(name: string, getProfile: (name: string) => LayeredProfile | undefined): FilterGroup[] | undefined {
+        const profile = getProfile(name);
+        if (!profile) {
+            return undefined;
+        }
+        return [...ProfileLayerCore.getInheritedGroups(name, profile.layers ?? [], profile.groups, getProfile), ...profile.groups];
+    }
+
+    /**
+     * Names of all profiles the given profile inherits from, directly or through other layers.
+     */
+    public static getLayerNames(name: string, getProfile: (name: string) => LayeredProfile | undefined): string[] {
+        const names: string[] = [];
+        const visit = (layerName: string) => {
+            if (layerName === name || names.includes(layerName) || !getProfile(layerName)) {
+                return;
+            }
+            names.push(layerName);
+            getProfile(layerName)!.layers?.forEach(visit);
+        };
+        getProfile(name)?.layers?.forEach(visit);
+        return names;
+    }
+}
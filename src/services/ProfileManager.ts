@@ -1,18 +1,126 @@
 import * as vscode from 'vscode';
+import * as crypto from 'crypto';
 import { Constants } from '../Constants';
 import { FilterGroup } from '../models/Filter';
+import { Logger } from './Logger';
+import { ProfileLayerCore } from './ProfileLayerCore';
+import { FilterExpression } from '../utils/FilterExpression';
 
 export interface FilterProfile {
     name: string;
     groups: FilterGroup[];
     updatedAt: number;
+    layers?: string[]; // Profiles whose groups this profile inherits, see ProfileLayerCore
 }
 
+// A profile read from the profile file of a workspace folder (`Constants.Defaults.WorkspaceProfileFile`)
+interface WorkspaceProfile extends FilterProfile {
+    file: vscode.Uri;
+}
+
+/**
+ * Content of a workspace profile file, meant to be committed with the project.
+ */
+interface WorkspaceProfileFile {
+    profiles: { name: string, groups: FilterGroup[], layers?: string[] }[];
+}
+
+/**
+ * Stores filter profiles. Profiles are kept in globalState, except workspace profiles: those are
+ * read from the profile file of each workspace folder, written back to it when they change, and
+ * reloaded when the file changes on disk. A workspace profile hides a global profile of the same name.
+ */
 export class ProfileManager implements vscode.Disposable {
     private _onDidChangeProfile: vscode.EventEmitter<void> = new vscode.EventEmitter<void>();
     readonly onDidChangeProfile: vscode.Event<void> = this._onDidChangeProfile.event;
 
-    constructor(private context: vscode.ExtensionContext) { }
+    private workspaceProfiles: WorkspaceProfile[] = [];
+    // Key: file URI. Text this manager last wrote, so that its own writes are not reloaded as external changes
+    private writtenContent: Map<string, string> = new Map();
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(private context: vscode.ExtensionContext) {
+        const watcher = vscode.workspace.createFileSystemWatcher(`**/${Constants.Defaults.WorkspaceProfileFile}`);
+        const onFileEvent = (uri: vscode.Uri) => {
+            if (this.getWorkspaceProfileFiles().some(file => file.toString() === uri.toString())) {
+                this.reloadWorkspaceProfiles();
+            }
+        };
+        this.disposables.push(
+            watcher,
+            watcher.onDidCreate(onFileEvent),
+            watcher.onDidChange(onFileEvent),
+            watcher.onDidDelete(onFileEvent),
+            vscode.workspace.onDidChangeWorkspaceFolders(() => this.reloadWorkspaceProfiles())
+        );
+        this.reloadWorkspaceProfiles();
+    }
+
+    /**
+     * Whether the profile is stored in a workspace profile file rather than in globalState.
+     */
+    public isWorkspaceProfile(name: string): boolean {
+        return this.findWorkspaceProfile(name) !== undefined;
+    }
+
+    /**
+     * Re-reads the profile files of the workspace folders. Fires onDidChangeProfile if they
+     * changed other than by this manager, so that e.g. an active workspace profile is reapplied.
+     */
+    public async reloadWorkspaceProfiles(): Promise<void> {
+        const profiles: WorkspaceProfile[] = [];
+        const contents: Map<string, string> = new Map();
+        for (const file of this.getWorkspaceProfileFiles()) {
+            let text: string;
+            try {
+                text = new TextDecoder('utf-8').decode(await vscode.workspace.fs.readFile(file));
+            } catch (_e) {
+                continue; // No profile file in this folder
+            }
+            contents.set(file.toString(), text);
+
+            try {
+                const data = JSON.parse(text) as Partial<WorkspaceProfileFile>;
+                if (!Array.isArray(data.profiles)) {
+                    throw new Error(Constants.Messages.Error.WorkspaceProfileFileFormat);
+                }
+                for (const profile of data.profiles) {
+                    if (typeof profile?.name !== 'string' || !Array.isArray(profile.groups) || profiles.some(p => p.name === profile.name)) {
+                        continue;
+                    }
+                    const layers = Array.isArray(profile.layers) ? profile.layers.filter(l => typeof l === 'string') : undefined;
+                    profiles.push({ name: profile.name, groups: ProfileManager.assignIds(profile.groups), layers, updatedAt: Date.now(), file });
+                }
+            } catch (e) {
+                const message = Constants.Messages.Error.WorkspaceProfileFileInvalid.replace('{0}', vscode.workspace.asRelativePath(file)).replace('{1}', e instanceof Error ? e.message : String(e));
+                Logger.getInstance().error(message);
+                vscode.window.showErrorMessage(message);
+            }
+        }
+
+        const changed = contents.size !== this.writtenContent.size ||
+            [...contents].some(([file, text]) => this.writtenContent.get(file) !== text);
+        this.writtenContent = contents;
+        if (changed) {
+            this.workspaceProfiles = profiles;
+            Logger.getInstance().info(`Loaded ${profiles.length} workspace profiles.`);
+            this._onDidChangeProfile.fire();
+        }
+    }
+
+    /**
+     * Adds a profile to the profile file of the first workspace folder, creating the file if needed.
+     * @returns false if no folder is open or a profile of that name exists
+     */
+    public async createWorkspaceProfile(name: string, groups: FilterGroup[], layers?: string[]): Promise<boolean> {
+        const file = this.getWorkspaceProfileFiles()[0];
+        if (!file || this.getProfileNames().includes(name)) {
+            return false;
+        }
+        this.workspaceProfiles.push({ name, groups, layers, updatedAt: Date.now(), file });
+        await this.writeWorkspaceProfiles(file);
+        return true;
+    }
 
     public getActiveProfile(): string {
         return this.context.globalState.get<string>(Constants.GlobalState.ActiveProfile) || Constants.Labels.DefaultProfile;
@@ -20,7 +128,8 @@ export class ProfileManager implements vscode.Disposable {
 
     public getProfileNames(): string[] {
         const profiles = this.context.globalState.get<FilterProfile[]>(Constants.GlobalState.FilterProfiles) || [];
-        const names = profiles.map(p => p.name);
+        const names = profiles.map(p => p.name).filter(name => !this.isWorkspaceProfile(name));
+        names.push(...this.workspaceProfiles.map(p => p.name));
         if (!names.includes(Constants.Labels.DefaultProfile)) {
             names.unshift(Constants.Labels.DefaultProfile);
         }
@@ -35,8 +144,11 @@ export class ProfileManager implements vscode.Disposable {
         });
     }
 
-    public getProfilesMetadata(): { name: string, wordCount: number, regexCount: number }[] {
-        const profiles = this.context.globalState.get<FilterProfile[]>(Constants.GlobalState.FilterProfiles) || [];
+    public getProfilesMetadata(): { name: string, wordCount: number, regexCount: number, isWorkspace: boolean, layers: string[] }[] {
+        const profiles = [
+            ...(this.context.globalState.get<FilterProfile[]>(Constants.GlobalState.FilterProfiles) || []).filter(p => !this.isWorkspaceProfile(p.name)),
+            ...this.workspaceProfiles
+        ];
 
         // Check if Default is present
         const hasDefault = profiles.some(p => p.name === Constants.Labels.DefaultProfile);
@@ -52,12 +164,12 @@ export class ProfileManager implements vscode.Disposable {
                     }
                 });
             }
-            return { name: p.name, wordCount, regexCount };
+            return { name: p.name, wordCount, regexCount, isWorkspace: this.isWorkspaceProfile(p.name), layers: p.layers ?? [] };
         });
 
         if (!hasDefault) {
             // Default profile usually has Presets (1 group)
-            metadata.unshift({ name: Constants.Labels.DefaultProfile, wordCount: 1, regexCount: 0 });
+            metadata.unshift({ name: Constants.Labels.DefaultProfile, wordCount: 1, regexCount: 0, isWorkspace: false, layers: [] });
         }
 
         return metadata.sort((a, b) => {
@@ -71,16 +183,30 @@ export class ProfileManager implements vscode.Disposable {
         });
     }
 
-    public async updateProfileData(name: string, groups: FilterGroup[]) {
+    /**
+     * Stores the groups of a profile, creating the profile if it does not exist.
+     * @param layers - Profiles the profile inherits; undefined keeps those it has
+     */
+    public async updateProfileData(name: string, groups: FilterGroup[], layers?: string[]) {
         // We allow saving Default Profile so it persists when switching away.
 
+        const workspaceProfile = this.findWorkspaceProfile(name);
+        if (workspaceProfile) {
+            workspaceProfile.groups = groups;
+            workspaceProfile.layers = layers ?? workspaceProfile.layers;
+            workspaceProfile.updatedAt = Date.now();
+            await this.writeWorkspaceProfiles(workspaceProfile.file);
+            return;
+        }
+
         const profiles = this.context.globalState.get<FilterProfile[]>(Constants.GlobalState.FilterProfiles) || [];
         const index = profiles.findIndex(p => p.name === name);
         if (index >= 0) {
             profiles[index].groups = groups;
+            profiles[index].layers = layers ?? profiles[index].layers;
             profiles[index].updatedAt = Date.now();
         } else {
-            profiles.push({ name, groups, updatedAt: Date.now() });
+            profiles.push({ name, groups, layers, updatedAt: Date.now() });
         }
         await this.context.globalState.update(Constants.GlobalState.FilterProfiles, profiles);
     }
@@ -92,10 +218,17 @@ export class ProfileManager implements vscode.Disposable {
 
         let profiles = this.context.globalState.get<FilterProfile[]>(Constants.GlobalState.FilterProfiles) || [];
         const initialLen = profiles.length;
-        profiles = profiles.filter(p => p.name !== name);
-
-        if (profiles.length !== initialLen) {
-            await this.context.globalState.update(Constants.GlobalState.FilterProfiles, profiles);
+        const workspaceProfile = this.findWorkspaceProfile(name);
+        profiles = workspaceProfile ? profiles : profiles.filter(p => p.name !== name);
+
+        if (workspaceProfile || profiles.length !== initialLen) {
+            if (workspaceProfile) {
+                this.workspaceProfiles = this.workspaceProfiles.filter(p => p !== workspaceProfile);
+                await this.writeWorkspaceProfiles(workspaceProfile.file);
+            } else {
+                await this.context.globalState.update(Constants.GlobalState.FilterProfiles, profiles);
+            }
+            await this.replaceLayer(name, undefined);
 
             // Switch to default if deleted active
             if (this.getActiveProfile() === name) {
@@ -117,15 +250,23 @@ export class ProfileManager implements vscode.Disposable {
         const profiles = this.context.globalState.get<FilterProfile[]>(Constants.GlobalState.FilterProfiles) || [];
 
         // Check if new name already exists
-        if (profiles.some(p => p.name === newName)) {
+        if (profiles.some(p => p.name === newName) || this.isWorkspaceProfile(newName)) {
             return false;
         }
 
-        const index = profiles.findIndex(p => p.name === oldName);
-        if (index >= 0) {
-            profiles[index].name = newName;
-            profiles[index].updatedAt = Date.now();
-            await this.context.globalState.update(Constants.GlobalState.FilterProfiles, profiles);
+        const workspaceProfile = this.findWorkspaceProfile(oldName);
+        const index = workspaceProfile ? -1 : profiles.findIndex(p => p.name === oldName);
+        if (workspaceProfile || index >= 0) {
+            if (workspaceProfile) {
+                workspaceProfile.name = newName;
+                workspaceProfile.updatedAt = Date.now();
+                await this.writeWorkspaceProfiles(workspaceProfile.file);
+            } else {
+                profiles[index].name = newName;
+                profiles[index].updatedAt = Date.now();
+                await this.context.globalState.update(Constants.GlobalState.FilterProfiles, profiles);
+            }
+            await this.replaceLayer(oldName, newName);
 
             // Update active profile if renamed
             if (this.getActiveProfile() === oldName) {
@@ -140,7 +281,7 @@ export class ProfileManager implements vscode.Disposable {
 
     public async createProfile(name: string, groupsCopy: FilterGroup[]): Promise<boolean> {
         const profiles = this.context.globalState.get<FilterProfile[]>(Constants.GlobalState.FilterProfiles) || [];
-        if (profiles.some(p => p.name === name) || name === Constants.Labels.DefaultProfile) {
+        if (profiles.some(p => p.name === name) || this.isWorkspaceProfile(name) || name === Constants.Labels.DefaultProfile) {
             return false;
         }
 
@@ -158,7 +299,7 @@ export class ProfileManager implements vscode.Disposable {
         // Update active profile immediately if found.
 
         const profiles = this.context.globalState.get<FilterProfile[]>(Constants.GlobalState.FilterProfiles) || [];
-        const profile = profiles.find(p => p.name === name);
+        const profile = this.findWorkspaceProfile(name) ?? profiles.find(p => p.name === name);
 
         if (profile) {
             await this.context.globalState.update(Constants.GlobalState.ActiveProfile, name);
@@ -184,7 +325,7 @@ export class ProfileManager implements vscode.Disposable {
         // However, ProfileManager doesn't persist Default Profile into the array unless explicitly saved?
         // Actually ProfileManager.updateProfileData handles saving Default Profile.
 
-        const profile = profiles.find(p => p.name === name);
+        const profile = this.findWorkspaceProfile(name) ?? profiles.find(p => p.name === name);
         if (profile) {
             return profile.groups;
         }
@@ -195,19 +336,133 @@ export class ProfileManager implements vscode.Disposable {
         return undefined;
     }
 
-    public async importProfile(name: string, groups: FilterGroup[], overwrite: boolean = false): Promise<boolean> {
+    public async importProfile(name: string, groups: FilterGroup[], overwrite: boolean = false, layers: string[] = []): Promise<boolean> {
         const profiles = this.context.globalState.get<FilterProfile[]>(Constants.GlobalState.FilterProfiles) || [];
-        const exists = profiles.some(p => p.name === name);
+        const exists = profiles.some(p => p.name === name) || this.isWorkspaceProfile(name);
 
         if (exists && !overwrite) {
             return false;
         }
 
-        await this.updateProfileData(name, groups);
+        await this.updateProfileData(name, groups, layers);
+        return true;
+    }
+
+    public getProfileLayers(name: string): string[] {
+        return this.findProfile(name)?.layers ?? [];
+    }
+
+    /**
+     * Sets the profiles whose groups a stored profile inherits.
+     * @returns false if the profile is not stored
+     */
+    public async setProfileLayers(name: string, layers: string[]): Promise<boolean> {
+        const profile = this.findProfile(name);
+        if (!profile) {
+            return false;
+        }
+        await this.updateProfileData(name, profile.groups, layers.filter(l => l !== name));
         return true;
     }
 
+    /**
+     * Groups the profile inherits from its layers, as read-only copies, leaving out those overridden by `ownGroups`.
+     * @param ownGroups - Current groups of the profile, which may be newer than the stored ones
+     */
+    public getInheritedGroups(name: string, ownGroups: FilterGroup[]): FilterGroup[] {
+        return ProfileLayerCore.getInheritedGroups(name, this.getProfileLayers(name), ownGroups, layer => this.findProfile(layer));
+    }
+
+    /**
+     * The groups a profile applies: those it inherits, then its own.
+     * @returns undefined if the profile is not stored
+     */
+    public getEffectiveGroups(name: string): FilterGroup[] | undefined {
+        return ProfileLayerCore.getEffectiveGroups(name, profile => this.findProfile(profile));
+    }
+
+    /**
+     * Names of all profiles the given profile inherits from, directly or through other layers.
+     */
+    public getLayerNames(name: string): string[] {
+        return ProfileLayerCore.getLayerNames(name, profile => this.findProfile(profile));
+    }
+
     public dispose() {
+        this.disposables.forEach(d => d.dispose());
         this._onDidChangeProfile.dispose();
     }
+
+    private findWorkspaceProfile(name: string): WorkspaceProfile | undefined {
+        return this.workspaceProfiles.find(p => p.name === name);
+    }
+
+    private findProfile(name: string): FilterProfile | undefined {
+        const profiles = this.context.globalState.get<FilterProfile[]>(Constants.GlobalState.FilterProfiles) || [];
+        return this.findWorkspaceProfile(name) ?? profiles.find(p => p.name === name);
+    }
+
+    // Renames a layer in the profiles inheriting it, or removes it from them if newName is undefined
+    private async replaceLayer(oldName: string, newName: string | undefined): Promise<void> {
+        const replace = (layers: string[]) => newName ? layers.map(l => l === oldName ? newName : l) : layers.filter(l => l !== oldName);
+
+        const profiles = this.context.globalState.get<FilterProfile[]>(Constants.GlobalState.FilterProfiles) || [];
+        const inheriting = profiles.filter(p => p.layers?.includes(oldName));
+        if (inheriting.length > 0) {
+            inheriting.forEach(p => p.layers = replace(p.layers!));
+            await this.context.globalState.update(Constants.GlobalState.FilterProfiles, profiles);
+        }
+
+        const files = new Map<string, vscode.Uri>();
+        for (const p of this.workspaceProfiles.filter(p => p.layers?.includes(oldName))) {
+            p.layers = replace(p.layers!);
+            files.set(p.file.toString(), p.file);
+        }
+        for (const file of files.values()) {
+            await this.writeWorkspaceProfiles(file);
+        }
+    }
+
+    private getWorkspaceProfileFiles(): vscode.Uri[] {
+        return (vscode.workspace.workspaceFolders ?? []).map(folder => vscode.Uri.joinPath(folder.uri, Constants.Defaults.WorkspaceProfileFile));
+    }
+
+    // Writes the profiles of a file in the format of `WorkspaceProfileFile`, without run state such as counts.
+    // Group IDs are kept, as profiles inheriting the groups override them by ID.
+    private async writeWorkspaceProfiles(file: vscode.Uri): Promise<void> {
+        const data: WorkspaceProfileFile = {
+            profiles: this.workspaceProfiles.filter(p => p.file.toString() === file.toString()).map(p => ({
+                name: p.name,
+                ...(p.layers?.length ? { layers: p.layers } : {}),
+                groups: p.groups.map(g => {
+                    const { resultCount: _1, ...group } = g;
+                    return {
+                        ...group,
+                        // The file holds no filter IDs, so references are written as positions
+                        ...(g.expression ? { expression: FilterExpression.format(g.expression, g.filters, 'position') } : {}),
+                        filters: g.filters.map(f => {
+                            const { resultCount: _2, id: _3, dropCount: _4, ...filter } = f;
+                            return filter;
+                        })
+                    } as FilterGroup;
+                })
+            }))
+        };
+        const text = `${JSON.stringify(data, null, 4)}\n`;
+        if (text === this.writtenContent.get(file.toString())) {
+            return;
+        }
+        this.writtenContent.set(file.toString(), text);
+        await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(file, '..'));
+        await vscode.workspace.fs.writeFile(file, new TextEncoder().encode(text));
+    }
+
+    // The file holds no filter IDs, and groups written by hand have no IDs either
+    private static assignIds(groups: FilterGroup[]): FilterGroup[] {
+        return groups.map(g => {
+            const filters = (g.filters ?? []).map(f => ({ ...f, id: f.id ?? crypto.randomUUID() }));
+            const expression = g.expression && FilterExpression.format(g.expression, filters, 'id');
+            return { ...g, id: g.id ?? crypto.randomUUID(), filters, ...(expression ? { expression } : {}) };
+        });
+    }
 }
@@ -0,0 +1,133 @@
+import { CompiledGroup, FilterRunRequest } from './LogFilterCore';
+import { RegexUtils } from '../utils/RegexUtils';
+
+// This module must stay free of 'vscode' imports: it is loaded by LogFilterWorker in a worker thread.
+
+// The parts of a request that hold filter regexes
+type WatchedRegexes = Pick<FilterRunRequest, 'compiledGroups' | 'hitCounters' | 'extract'>;
+
+// Layout of the shared state
+const EVALUATIONS = 0; // Regex evaluations so far (wraps around)
+const CURRENT = 1; // Slot of the regex being evaluated, -1 between evaluations
+
+/**
+ * Thrown when a filter's regex ran longer than the time budget on a single line and the run was stopped.
+ */
+export class SlowFilterError extends Error {
+    constructor(public readonly filterId: string, budgetMs: number) {
+        super(`Filter ${filterId} took longer than ${budgetMs} ms on a single line`);
+        this.name = 'SlowFilterError';
+    }
+}
+
+/**
+ * Lets the thread that started a filter run see which filter's regex the worker running it is
+ * evaluating. A regex that backtracks catastrophically cannot be interrupted on its own thread, so
+ * the starting thread stops the worker once a single evaluation exceeds the time budget, and names the filter.
+ *
+ * Slots number the filter regexes of a request in a fixed order, the same on both threads.
+ */
+export class RegexWatch {
+    public readonly buffer: SharedArrayBuffer;
+    private readonly state: Int32Array;
+    private lastEvaluations = 0;
+    private lastChange = Date.now();
+
+    constructor(buffer?: SharedArrayBuffer) {
+        this.buffer = buffer ?? new SharedArrayBuffer(2 * Int32Array.BYTES_PER_ELEMENT);
+        this.state = new Int32Array(this.buffer);
+        if (!buffer) {
+            this.state[CURRENT] = -1;
+        }
+    }
+
+    /**
+     * Worker side: makes each filter regex of the request report its evaluations to the watch.
+     * Wraps `exec`, through which `test` and the string methods run as well.
+     */
+    public instrument(request: FilterRunRequest): void {
+        const state = this.state;
+        const exec = RegExp.prototype.exec;
+        RegexWatch.collect(request).forEach(({ regex }, slot) => {
+            regex.exec = function (this: RegExp, text: string) {
+                state[EVALUATIONS]++;
+                state[CURRENT] = slot;
+                const result = exec.call(this, text);
+                state[CURRENT] = -1;
+                return result;
+            };
+        });
+    }
+
+    /**
+     * Makes each filter regex of the request give up once an evaluation spends longer than `budgetMs`
+     * (0 for no limit), for filtering on the extension host, where no other thread can stop a stuck regex.
+     * Each evaluation then switches into a vm context, so use it for small inputs or as a fallback.
+     * Evaluations that run out of time throw SlowFilterError, which ends the run.
+     */
+    public static bound(request: WatchedRegexes, budgetMs: number): void {
+        if (budgetMs <= 0) {
+            return;
+        }
+        for (const { regex, filterId } of RegexWatch.collect(request)) {
+            regex.exec = function (this: RegExp, text: string) {
+                const { match, timedOut } = RegexUtils.exec(this, text, budgetMs);
+                if (timedOut) {
+                    throw new SlowFilterError(filterId, budgetMs);
+                }
+                return match;
+            };
+        }
+    }
+
+    /**
+     * Starting side, called periodically while the run goes on.
+     * @returns The filter ID whose regex has been evaluating one line for longer than `budgetMs`, if any
+     */
+    public findSlowFilter(request: FilterRunRequest, budgetMs: number): string | undefined {
+        const evaluations = Atomics.load(this.state, EVALUATIONS);
+        const now = Date.now();
+        if (evaluations !== this.lastEvaluations) {
+            this.lastEvaluations = evaluations;
+            this.lastChange = now;
+            return undefined;
+        }
+        const slot = Atomics.load(this.state, CURRENT);
+        if (slot < 0 || now - this.lastChange <= budgetMs) {
+            return undefined;
+        }
+        return RegexWatch.collect(request)[slot]?.filterId;
+    }
+
+    // The regexes of user filters in slot order. The record start pattern is a setting, not a filter, and is not watched.
+    private static collect(request: WatchedRegexes): { regex: RegExp, filterId: string }[] {
+        const entries: { regex: RegExp, filterId: string }[] = [];
+        const add = (regex: RegExp | undefined, filterId: string | undefined) => {
+            if (regex && filterId) {
+                entries.push({ regex, filterId });
+            }
+        };
+        const addGroup = (group: CompiledGroup) => {
+            group.includes.forEach(include => add(include.regex, include.filterId));
+            group.excludes.forEach((exclude, i) => add(exclude, group.excludeIds?.[i]));
+            group.fields?.forEach(field => add(field.condition.regex, field.filterId));
+            if (group.expression) {
+                for (const [index, term] of group.expression.terms) {
+                    if (term instanceof RegExp) {
+                        add(term, group.expression.filterIds?.[index]);
+                    }
+                }
+            }
+        };
+
+        request.compiledGroups.forEach(addGroup);
+        for (const counters of request.hitCounters ?? []) {
+            if (counters.gate) {
+                addGroup(counters.gate);
+            }
+            counters.filters.forEach(f => add(f.regex ?? f.condition?.regex, f.filterId));
+        }
+        request.extract?.extractors.forEach(extractor => add(extractor.regex, extractor.filterId));
+        return entries;
+    }
+}
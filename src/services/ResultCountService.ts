@@ -1,6 +1,9 @@
+import * as vscode from 'vscode';
 import { FilterManager } from './FilterManager';
 
 export class ResultCountService {
+    // Counts gathered while filtering files that have no editor to highlight (Key: file URI string)
+    private streamedCounts: Map<string, Map<string, number>> = new Map();
 
     constructor(private filterManager: FilterManager) { }
 
@@ -8,6 +11,26 @@ export class ResultCountService {
         this.applyKnownCounts(knownCounts);
     }
 
+    /**
+     * Keeps the counts gathered while filtering a file too large to open in an editor,
+     * so that they are shown whenever its tab becomes active.
+     */
+    public setStreamedCounts(uri: vscode.Uri, counts: Map<string, number>) {
+        this.streamedCounts.set(uri.toString(), counts);
+    }
+
+    /**
+     * Shows the counts kept for a file, or clears the counts if there are none.
+     */
+    public showStreamedCounts(uri: vscode.Uri) {
+        const counts = this.streamedCounts.get(uri.toString());
+        if (counts) {
+            this.applyKnownCounts(counts);
+        } else {
+            this.clearCounts();
+        }
+    }
+
     private applyKnownCounts(knownCounts: Map<string, number>) {
         const groups = this.filterManager.getGroups();
         const filterCounts: { filterId: string, count: number }[] = [];
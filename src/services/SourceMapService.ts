@@ -3,12 +3,18 @@ import { Constants } from '../Constants';
 
 interface SourceMapping {
     sourceUri: vscode.Uri;
-    lineMapping: number[]; // Index: filtered line, Value: original line
+    lineMapping: number[]; // Index: filtered line, Value: original line (-1 for block separators)
+    // Set when the lines come from several files: Index: filtered line, Value: index into `sources`
+    sources?: vscode.Uri[];
+    sourceIndexes?: number[];
+    isMerged?: boolean; // The mapped document is a merged source (not a filter result)
+    contextLines?: Set<number>; // Filtered lines that are context, set when blocks were separated
 }
 
-export class SourceMapService {
+export class SourceMapService implements vscode.Disposable {
     private static instance: SourceMapService;
     private mappings: Map<string, SourceMapping> = new Map();
+    private blockMarkers: { context: vscode.TextEditorDecorationType, separator: vscode.TextEditorDecorationType } | undefined;
 
     private constructor() { }
 
@@ -23,12 +29,72 @@ export class SourceMapService {
      * Registers a mapping between a filtered file and its source.
      * @param filteredUri URI of the generated filtered file
      * @param sourceUri URI of the original source file
-     * @param lineMapping Array where index is filtered line number and value is source line number
+     * @param lineMapping Array where index is filtered line number and value is source line number (-1 for block separators)
+     * @param contextLines Filtered line numbers of context lines, when the output marks them
      */
-    public register(filteredUri: vscode.Uri, sourceUri: vscode.Uri, lineMapping: number[]): void {
+    public register(filteredUri: vscode.Uri, sourceUri: vscode.Uri, lineMapping: number[], contextLines?: number[]): void {
+        // Results filtered from a merged source map straight to the file each line came from
+        const merged = this.mappings.get(sourceUri.toString());
+        if (merged?.isMerged && merged.sources && merged.sourceIndexes) {
+            const mergedIndexes = merged.sourceIndexes;
+            this.mappings.set(filteredUri.toString(), {
+                sourceUri,
+                lineMapping: lineMapping.map(line => line < 0 ? line : merged.lineMapping[line]),
+                sources: merged.sources,
+                sourceIndexes: lineMapping.map(line => line < 0 ? line : mergedIndexes[line]),
+                contextLines: contextLines && new Set(contextLines)
+            });
+            return;
+        }
+
         this.mappings.set(filteredUri.toString(), {
             sourceUri,
-            lineMapping
+            lineMapping,
+            contextLines: contextLines && new Set(contextLines)
+        });
+    }
+
+    /**
+     * Extends the mapping of a filtered file whose output has grown, e.g. while its source is followed.
+     * @param filteredUri URI of the filtered file
+     * @param lineMapping Source line numbers of the lines appended to the filtered file (-1 for block separators)
+     * @param contextLines Indexes into `lineMapping` of the appended context lines
+     */
+    public append(filteredUri: vscode.Uri, lineMapping: number[], contextLines?: number[]): void {
+        const mapping = this.mappings.get(filteredUri.toString());
+        if (!mapping) {
+            return;
+        }
+        if (contextLines && mapping.contextLines) {
+            for (const index of contextLines) {
+                mapping.contextLines.add(mapping.lineMapping.length + index);
+            }
+        }
+        const merged = mapping.sourceIndexes ? this.mappings.get(mapping.sourceUri.toString()) : undefined;
+        for (const line of lineMapping) {
+            if (merged?.sourceIndexes && mapping.sourceIndexes) {
+                mapping.lineMapping.push(line < 0 ? line : merged.lineMapping[line]);
+                mapping.sourceIndexes.push(line < 0 ? line : merged.sourceIndexes[line]);
+            } else {
+                mapping.lineMapping.push(line);
+            }
+        }
+    }
+
+    /**
+     * Registers a merged source, whose lines come from several original files.
+     * @param mergedUri URI of the generated merged file
+     * @param sources URIs of the original files
+     * @param sourceIndexes Array where index is merged line number and value is an index into `sources`
+     * @param lineMapping Array where index is merged line number and value is the line number in that source
+     */
+    public registerMerged(mergedUri: vscode.Uri, sources: vscode.Uri[], sourceIndexes: number[], lineMapping: number[]): void {
+        this.mappings.set(mergedUri.toString(), {
+            sourceUri: mergedUri,
+            lineMapping,
+            sources,
+            sourceIndexes,
+            isMerged: true
         });
     }
 
@@ -44,14 +110,18 @@ export class SourceMapService {
         }
 
         const originalLine = mapping.lineMapping[line];
-        if (originalLine === undefined) {
+        if (originalLine === undefined || originalLine < 0) {
             return undefined;
         }
 
+        const sourceUri = mapping.sources && mapping.sourceIndexes
+            ? mapping.sources[mapping.sourceIndexes[line]]
+            : mapping.sourceUri;
+
         // Create a range for the target line (start to end of line)
         // Point to the start of the line (0, 0)
         const position = new vscode.Position(originalLine, 0);
-        return new vscode.Location(mapping.sourceUri, position);
+        return new vscode.Location(sourceUri, position);
     }
 
     /**
@@ -62,6 +132,66 @@ export class SourceMapService {
         this.mappings.delete(filteredUri.toString());
     }
 
+    /**
+     * Checks if a line of a filtered file is a block separator, which has no source line.
+     */
+    public isSeparatorLine(filteredUri: vscode.Uri, line: number): boolean {
+        const originalLine = this.mappings.get(filteredUri.toString())?.lineMapping[line];
+        return originalLine !== undefined && originalLine < 0;
+    }
+
+    /**
+     * Marks the context lines and block separators of a filtered file in the editor.
+     * Files filtered without block separators get no markers.
+     */
+    public updateBlockMarkers(editor: vscode.TextEditor): void {
+        const mapping = this.mappings.get(editor.document.uri.toString());
+        if (!mapping?.contextLines) {
+            if (this.blockMarkers) {
+                editor.setDecorations(this.blockMarkers.context, []);
+                editor.setDecorations(this.blockMarkers.separator, []);
+            }
+            return;
+        }
+
+        if (!this.blockMarkers) {
+            this.blockMarkers = {
+                context: vscode.window.createTextEditorDecorationType({
+                    isWholeLine: true,
+                    borderWidth: '0 0 0 2px',
+                    borderStyle: 'dotted',
+                    borderColor: new vscode.ThemeColor('editorLineNumber.foreground')
+                }),
+                separator: vscode.window.createTextEditorDecorationType({
+                    isWholeLine: true,
+                    color: new vscode.ThemeColor('editorLineNumber.foreground')
+                })
+            };
+        }
+
+        const lineCount = editor.document.lineCount;
+        const contextRanges: vscode.Range[] = [];
+        for (const line of mapping.contextLines) {
+            if (line < lineCount) {
+                contextRanges.push(new vscode.Range(line, 0, line, 0));
+            }
+        }
+        const separatorRanges: vscode.Range[] = [];
+        for (let line = 0; line < mapping.lineMapping.length && line < lineCount; line++) {
+            if (mapping.lineMapping[line] < 0) {
+                separatorRanges.push(new vscode.Range(line, 0, line, 0));
+            }
+        }
+        editor.setDecorations(this.blockMarkers.context, contextRanges);
+        editor.setDecorations(this.blockMarkers.separator, separatorRanges);
+    }
+
+    public dispose(): void {
+        this.blockMarkers?.context.dispose();
+        this.blockMarkers?.separator.dispose();
+        this.blockMarkers = undefined;
+    }
+
     /**
      * Checks if a document has a mapping.
      */
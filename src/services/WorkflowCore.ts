@@ -0,0 +1,95 @@
+import { FilterGroup } from '../models/Filter';
+import { WorkflowStep } from '../models/Workflow';
+
+/**
+ * Plans a workflow run: the order of its steps and the filters each step applies.
+ *
+ * Must not import 'vscode': the command-line interface runs workflow packages with it.
+ */
+export class WorkflowCore {
+    /**
+     * Orders the steps breadth first, so that every step runs after its parent.
+     * Steps whose parent does not exist are roots; steps not reached (e.g. in a cycle) run last, in list order.
+     * @returns Indices into `steps`
+     */
+    public static getProcessingOrder(steps: WorkflowStep[]): number[] {
+        const processingOrder: number[] = [];
+        const stepIds = new Set(steps.map(s => s.id));
+
+        const queue: number[] = [];
+        steps.forEach((s, idx) => {
+            if (!s.parentId || !stepIds.has(s.parentId)) {
+                queue.push(idx);
+            }
+        });
+
+        while (queue.length > 0) {
+            const currentIdx = queue.shift()!;
+            processingOrder.push(currentIdx);
+
+            const currentId = steps[currentIdx].id;
+            steps.forEach((s, idx) => {
+                if (s.parentId === currentId) {
+                    queue.push(idx);
+                }
+            });
+        }
+
+        if (processingOrder.length < steps.length) {
+            for (let i = 0; i < steps.length; i++) {
+                if (!processingOrder.includes(i)) {
+                    processingOrder.push(i);
+                }
+            }
+        }
+        return processingOrder;
+    }
+
+    /**
+     * Groups a step runs with: its own, plus those of all its descendants when it is cumulative or has children.
+     * Groups are copied with IDs unique to their step, so that the same profile can appear in several steps.
+     *
+     * @param profileGroups - Groups of the profile of each step, by step index; undefined for missing profiles
+     */
+    public static getEffectiveGroups(steps: WorkflowStep[], stepIndex: number, profileGroups: (FilterGroup[] | undefined)[]): FilterGroup[] {
+        const step = steps[stepIndex];
+        const effectiveGroups: FilterGroup[] = [];
+        if (profileGroups[stepIndex]) {
+            effectiveGroups.push(...WorkflowCore.cloneGroupsWithSuffix(profileGroups[stepIndex]!, `_s${stepIndex}`));
+        }
+
+        const hasChildren = steps.some(s => s.parentId === step.id);
+        if (step.executionMode === 'cumulative' || hasChildren) {
+            for (const desc of WorkflowCore.getDescendants(steps, step.id)) {
+                const descIndex = steps.indexOf(desc);
+                if (descIndex !== -1 && profileGroups[descIndex]) {
+                    effectiveGroups.push(...WorkflowCore.cloneGroupsWithSuffix(profileGroups[descIndex]!, `_s${descIndex}`));
+                }
+            }
+        }
+        return effectiveGroups;
+    }
+
+    public static getDescendants(steps: WorkflowStep[], parentId: string): WorkflowStep[] {
+        const children = steps.filter(s => s.parentId === parentId);
+        let descendants = [...children];
+        for (const child of children) {
+            descendants = descendants.concat(WorkflowCore.getDescendants(steps, child.id));
+        }
+        return descendants;
+    }
+
+    private static cloneGroupsWithSuffix(groups: FilterGroup[], suffix: string): FilterGroup[] {
+        return groups.map(g => {
+            const newGroup = JSON.parse(JSON.stringify(g)) as FilterGroup & { originalId?: string };
+            newGroup.originalId = newGroup.id;
+            newGroup.id = `${newGroup.id}${suffix}`;
+            newGroup.filters = newGroup.filters.map((f, fIndex) => ({
+                ...f,
+                originalId: f.id,
+                id: `${f.id}${suffix}_f${fIndex}`
+            }));
+            return newGroup;
+        });
+    }
+}
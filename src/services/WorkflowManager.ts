@@ -6,11 +6,15 @@ import * as os from 'os';
 import { Constants } from '../Constants';
 import { Workflow, WorkflowStep, WorkflowPackage, SimulationResult, SimulationStepResult } from '../models/Workflow';
 import { LogProcessor } from './LogProcessor';
+import { WorkflowCore } from './WorkflowCore';
 import { ProfileManager } from './ProfileManager';
 import { Logger } from './Logger';
 import { FilterGroup } from '../models/Filter';
 import { HighlightService } from './HighlightService';
 import { SourceMapService } from './SourceMapService';
+import { GeneratedFileService } from './GeneratedFileService';
+import { ArchiveUtils } from '../utils/ArchiveUtils';
+import { ArchiveEntryContentProvider, LogSource } from '../providers/ArchiveEntryContentProvider';
 
 export class WorkflowManager implements vscode.Disposable {
     private _onDidChangeWorkflow: vscode.EventEmitter<void> = new vscode.EventEmitter<void>();
@@ -23,7 +27,6 @@ export class WorkflowManager implements vscode.Disposable {
     private workflows: Workflow[] = [];
     private lastRunResults: Map<string, SimulationResult> = new Map();
     private lastExecutionId: string | undefined;
-    private sessionFiles: Set<string> = new Set(); // Track files created in session for cleanup on exit
     private _activeStepId: string | undefined;
     private _expandedWorkflowIds: Set<string> = new Set();
     public stepDelay: number = 200;
@@ -191,7 +194,7 @@ export class WorkflowManager implements vscode.Disposable {
             });
 
             const profiles = await Promise.all(flattenedSteps.map(async step => {
-                const groups = await this.profileManager.getProfileGroups(step.profileName);
+                const groups = this.profileManager.getEffectiveGroups(step.profileName);
                 const isMissing = !this.profileManager.getProfileNames().includes(step.profileName);
                 let filterCount = 0;
                 if (groups) {
@@ -436,7 +439,7 @@ export class WorkflowManager implements vscode.Disposable {
         const sim = this.getWorkflow(id);
         if (!sim) { return undefined; }
 
-        const profilesData: { name: string, groups: FilterGroup[] }[] = [];
+        const profilesData: WorkflowPackage['profiles'] = [];
 
         // Migration check
         if (!sim.steps && 'profileNames' in sim) {
@@ -447,12 +450,15 @@ export class WorkflowManager implements vscode.Disposable {
             }));
         }
 
-        for (const step of sim.steps) {
-            const groups = await this.profileManager.getProfileGroups(step.profileName);
+        // Profiles the steps inherit from are packaged with them, so that the layers resolve on import
+        const names = sim.steps.flatMap(step => [step.profileName, ...this.profileManager.getLayerNames(step.profileName)]);
+        for (const name of names) {
+            const groups = await this.profileManager.getProfileGroups(name);
             if (groups) {
                 // Check if already added
-                if (!profilesData.find(pd => pd.name === step.profileName)) {
-                    profilesData.push({ name: step.profileName, groups });
+                if (!profilesData.find(pd => pd.name === name)) {
+                    const layers = this.profileManager.getProfileLayers(name);
+                    profilesData.push({ name, groups, ...(layers.length > 0 ? { layers } : {}) });
                 }
             }
         }
@@ -512,10 +518,11 @@ export class WorkflowManager implements vscode.Disposable {
                 }
             }
 
-            // 3. Save Profiles
+            // 3. Save Profiles, with their layers renamed like the profiles they refer to
             for (const pData of pkg.profiles) {
                 const finalName = profileNameMapping.get(pData.name) || pData.name;
-                await this.profileManager.importProfile(finalName, pData.groups, true); // true because we either decided to overwrite or we have a unique name
+                const layers = (pData.layers ?? []).map(l => profileNameMapping.get(l) || l);
+                await this.profileManager.importProfile(finalName, pData.groups, true, layers); // true because we either decided to overwrite or we have a unique name
             }
 
             // 4. Save Workflow
@@ -561,9 +568,20 @@ export class WorkflowManager implements vscode.Disposable {
         let isDirty = false;
         let isUntitled = false;
         let documentContent = '';
+        let sourceIsTemp = false;
+
+        // Set when the root input is a compressed file or an archive entry
+        let archiveSource: LogSource | undefined;
 
         if (source instanceof vscode.Uri) {
             currentFilePath = source.fsPath;
+            if (source.scheme === Constants.Schemes.Archive || ArchiveUtils.isArchive(currentFilePath)) {
+                archiveSource = await ArchiveEntryContentProvider.resolveSource(source);
+                if (!archiveSource) {
+                    return;
+                }
+                currentFilePath = archiveSource.path;
+            }
             // If we only have a Uri, we assume it's a file on disk (not dirty/untitled in the editor sense) unless checked otherwise.
             // For large files, we won't have a document, so we can't check isDirty easily.
             // We assume 'file' scheme Uris are effectively saved files.
@@ -572,7 +590,8 @@ export class WorkflowManager implements vscode.Disposable {
             currentFilePath = source.uri.fsPath;
             lineCount = source.lineCount;
             isDirty = source.isDirty;
-            isUntitled = source.isUntitled;
+            // Filter results have no file of their own either
+            isUntitled = source.isUntitled || source.uri.scheme === Constants.Schemes.Result;
             documentContent = source.getText();
         }
 
@@ -586,7 +605,8 @@ export class WorkflowManager implements vscode.Disposable {
             try {
                 fs.writeFileSync(tempInputPath, documentContent, 'utf8');
                 currentFilePath = tempInputPath;
-                this.sessionFiles.add(currentFilePath);
+                sourceIsTemp = true;
+                GeneratedFileService.getInstance().track(currentFilePath, 'workflow');
                 this.logger.info(`Created temp source file for simulation (dirty/untitled): ${currentFilePath}`);
             } catch (e) {
                 this.logger.error(`Failed to create temp file for document: ${e}`);
@@ -618,7 +638,7 @@ export class WorkflowManager implements vscode.Disposable {
                 const resolvedProfiles: { name: string; groups: FilterGroup[] | undefined }[] = [];
                 for (const step of sim.steps) {
                     const groups = existingNames.includes(step.profileName)
-                        ? await this.profileManager.getProfileGroups(step.profileName)
+                        ? this.profileManager.getEffectiveGroups(step.profileName)
                         : undefined;
                     resolvedProfiles.push({ name: step.profileName, groups });
                 }
@@ -626,43 +646,8 @@ export class WorkflowManager implements vscode.Disposable {
                 const totalSteps = sim.steps.length;
                 const increment = 100 / totalSteps;
 
-                // 2. Execute Pipeline
                 // 2. Build Execution Order (BFS / Topological)
-                const processingOrder: number[] = []; // Indices of steps
-                const stepIdToIndex = new Map<string, number>();
-                sim.steps.forEach((s, idx) => stepIdToIndex.set(s.id, idx));
-
-                const queue: number[] = [];
-                // Find roots
-                sim.steps.forEach((s, idx) => {
-                    if (!s.parentId || !stepIdToIndex.has(s.parentId)) {
-                        queue.push(idx);
-                    }
-                });
-
-                while (queue.length > 0) {
-                    const currentIdx = queue.shift()!;
-                    processingOrder.push(currentIdx);
-
-                    // Find children
-                    const currentId = sim.steps[currentIdx].id;
-                    sim.steps.forEach((s, idx) => {
-                        if (s.parentId === currentId) {
-                            queue.push(idx);
-                        }
-                    });
-                }
-
-                // If disconnected cycles exist, they might be missed. Use remaining for safety?
-                // For now, assume tree structure created by UI is valid.
-                // Fallback: add remaining steps to end (linear)
-                if (processingOrder.length < totalSteps) {
-                    for (let i = 0; i < totalSteps; i++) {
-                        if (!processingOrder.includes(i)) {
-                            processingOrder.push(i);
-                        }
-                    }
-                }
+                const processingOrder = WorkflowCore.getProcessingOrder(sim.steps);
 
                 const stepIdToResult = new Map<string, SimulationStepResult>();
 
@@ -690,37 +675,26 @@ export class WorkflowManager implements vscode.Disposable {
                     }
 
                     // Calculate Filters based on Mode
-                    const effectiveGroups: FilterGroup[] = [];
-
-                    // Always include current step's groups
-                    if (profileData.groups) {
-                        effectiveGroups.push(...this.cloneGroupsWithSuffix(profileData.groups, `_s${stepIndex}`));
-                    }
-
-                    // Determine if we need to include descendants (Cumulative Logic)
-                    // Rule: If explicit 'cumulative' mode OR if this step is a Parent (has children)
-                    const hasChildren = sim.steps.some(s => s.parentId === step.id);
-                    if (step.executionMode === 'cumulative' || hasChildren) {
-                        // Gather descendants
-                        const descendants = this.getDescendants(sim.steps, step.id);
-                        for (const desc of descendants) {
-                            // Find desc index
-                            const descIndex = sim.steps.indexOf(desc);
-                            if (descIndex !== -1 && resolvedProfiles[descIndex].groups) {
-                                effectiveGroups.push(...this.cloneGroupsWithSuffix(resolvedProfiles[descIndex].groups!, `_s${descIndex}`));
-                            }
-                        }
-                    }
+                    const effectiveGroups = WorkflowCore.getEffectiveGroups(sim.steps, stepIndex, resolvedProfiles.map(p => p.groups));
 
                     // Run LogProcessor
+                    const isRootInput = inputFile === currentFilePath;
                     const result = await this.logProcessor.processFile(inputFile, effectiveGroups, {
                         prependLineNumbers: false,
                         totalLineCount: lineCount, // pass 0 or real count
-                        mergeGroups: true // Always use Union logic for multiple profiles/levels
+                        mergeGroups: true, // Always use Union logic for multiple profiles/levels
+                        separateBlocks: false, // Step results feed later steps, so they hold log lines only
+                        archiveEntry: isRootInput ? archiveSource?.entry : undefined,
+                        // A temp source holds the document text, which was written as UTF-8
+                        encoding: isRootInput && sourceIsTemp ? 'utf-8' : undefined
                     });
 
+                    if (result.slowFilters) {
+                        vscode.window.showWarningMessage(`${step.profileName}: ${Constants.Messages.Warn.SlowFiltersDisabled.replace('{0}', result.slowFilters.map(f => `'${f.nickname || f.keyword}'`).join(', '))}`);
+                    }
+
                     // Track file
-                    this.sessionFiles.add(result.outputPath);
+                    GeneratedFileService.getInstance().track(result.outputPath, 'workflow');
 
                     // Store Result
                     const stepResult: SimulationStepResult = {
@@ -736,7 +710,7 @@ export class WorkflowManager implements vscode.Disposable {
                     if (result.matched > 0) {
                         this.sourceMapService.register(
                             vscode.Uri.file(result.outputPath),
-                            vscode.Uri.file(inputFile),
+                            isRootInput && archiveSource ? archiveSource.uri : vscode.Uri.file(inputFile),
                             result.lineMapping
                         );
                         // Delay opening slightly to prevent UI flicker or race conditions
@@ -784,7 +758,8 @@ export class WorkflowManager implements vscode.Disposable {
                     return { filter: originalF, groupId: (g as import('../models/Filter').FilterGroup & { originalId?: string }).originalId || g.id };
                 })
         );
-        this.highlightService.registerDocumentFilters(uri, flatFilters);
+        const groups = step.effectiveGroups.map(g => ({ ...g, id: (g as import('../models/Filter').FilterGroup & { originalId?: string }).originalId || g.id }));
+        this.highlightService.registerDocumentFilters(uri, flatFilters, groups);
 
         try {
             // Check file size before opening
@@ -883,28 +858,6 @@ export class WorkflowManager implements vscode.Disposable {
             vscode.window.setStatusBarMessage(`Closed ${tabsToClose.length} result files.`, 3000);
         }
     }
-    private getDescendants(steps: import('../models/Workflow').WorkflowStep[], parentId: string): import('../models/Workflow').WorkflowStep[] {
-        const children = steps.filter(s => s.parentId === parentId);
-        let descendants = [...children];
-        for (const child of children) {
-            descendants = descendants.concat(this.getDescendants(steps, child.id));
-        }
-        return descendants;
-    }
-
-    private cloneGroupsWithSuffix(groups: FilterGroup[], suffix: string): FilterGroup[] {
-        return groups.map(g => {
-            const newGroup = JSON.parse(JSON.stringify(g)) as FilterGroup & { originalId?: string };
-            newGroup.originalId = newGroup.id;
-            newGroup.id = `${newGroup.id}${suffix}`;
-            newGroup.filters = newGroup.filters.map((f, fIndex) => ({
-                ...f,
-                originalId: f.id,
-                id: `${f.id}${suffix}_f${fIndex}`
-            }));
-            return newGroup;
-        });
-    }
 }
 
 export interface WorkflowViewModel {
@@ -6,6 +6,7 @@ import { AdbDevice } from '../../models/AdbModels';
 import { Logger } from '../Logger';
 import { Constants } from '../../Constants';
 import { AdbClient } from './AdbClient';
+import { GeneratedFileService } from '../GeneratedFileService';
 
 export class AdbDeviceService {
     private recordingProcesses: Map<string, { process: cp.ChildProcess, remotePath: string, pid?: string }> = new Map();
@@ -227,6 +228,7 @@ export class AdbDeviceService {
         }, async () => {
             try {
                 await this.client.execAdb(['-s', deviceId, 'pull', remotePath, localPath]);
+                GeneratedFileService.getInstance().track(localPath, 'recording');
                 const uri = vscode.Uri.file(localPath);
                 await vscode.commands.executeCommand('vscode.open', uri);
             } catch (_e: unknown) {
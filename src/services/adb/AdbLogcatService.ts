@@ -7,6 +7,8 @@ import { AdbClient } from './AdbClient';
 import { LogcatSession, LogcatTag, AdbDevice } from '../../models/AdbModels';
 import { AdbTargetAppService } from './AdbTargetAppService';
 
+const HEADER_PREFIX = 'Logcat session: ';
+
 export class AdbLogcatService {
     private sessions: Map<string, LogcatSession> = new Map();
     private processes: Map<string, cp.ChildProcess> = new Map();
@@ -22,6 +24,13 @@ export class AdbLogcatService {
         private targetAppService: AdbTargetAppService
     ) { }
 
+    /**
+     * Whether a document is the output of a logcat session, told by the header the session writes first.
+     */
+    public static isLogcatDocument(document: vscode.TextDocument): boolean {
+        return document.isUntitled && document.lineCount > 0 && document.lineAt(0).text.startsWith(HEADER_PREFIX);
+    }
+
     public getSessions(): LogcatSession[] {
         return Array.from(this.sessions.values());
     }
@@ -154,7 +163,7 @@ export class AdbLogcatService {
 
     private async createLogDocument(session: LogcatSession, command: string) {
         const now = new Date();
-        const header = `Logcat session: ${session.name}\nCommand: adb ${command}\nDate: ${now.toISOString()}\n${'='.repeat(80)}\n`;
+        const header = `${HEADER_PREFIX}${session.name}\nCommand: adb ${command}\nDate: ${now.toISOString()}\n${'='.repeat(80)}\n`;
         const doc = await vscode.workspace.openTextDocument({ language: 'log', content: header });
         await vscode.window.showTextDocument(doc, { preview: false, preserveFocus: true });
         session.outputDocumentUri = doc.uri.toString();
@@ -0,0 +1,105 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CliUsageError, LogMagnifierCli } from '../../cli/LogMagnifierCli';
+
+suite('LogMagnifierCli Test Suite', () => {
+    let tmpDir: string;
+    let logFile: string;
+
+    const profile = (keyword: string) => JSON.stringify({
+        version: '1.0.0',
+        groups: [{
+            name: 'Errors',
+            isEnabled: true,
+            filters: [
+                { keyword, type: 'include', isEnabled: true },
+                { keyword: 'ignored', type: 'exclude', isEnabled: true }
+            ]
+        }]
+    });
+
+    setup(() => {
+        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'logmagnifier_cli_test_'));
+        logFile = path.join(tmpDir, 'app.log');
+        fs.writeFileSync(logFile, 'INFO start\nERROR disk full\nERROR ignored\nINFO network up\nERROR timeout\n');
+    });
+
+    teardown(() => {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    test('parseArgs reads options and rejects invalid command lines', () => {
+        const options = LogMagnifierCli.parseArgs(['app.log', '--profile', 'errors.json', '-n', '--collapse-repeats=exact', '-o', 'out']);
+        assert.strictEqual(options?.logFile, 'app.log');
+        assert.strictEqual(options?.profile, 'errors.json');
+        assert.strictEqual(options?.lineNumbers, true);
+        assert.strictEqual(options?.collapseRepeats, 'exact');
+        assert.strictEqual(options?.outputDir, 'out');
+        assert.strictEqual(LogMagnifierCli.parseArgs(['--help']), undefined);
+
+        assert.throws(() => LogMagnifierCli.parseArgs(['app.log']), CliUsageError, 'A profile or workflow is required');
+        assert.throws(() => LogMagnifierCli.parseArgs(['app.log', '-p', 'a.json', '-w', 'b.json']), CliUsageError);
+        assert.throws(() => LogMagnifierCli.parseArgs(['app.log', '-p', 'a.json', '--collapse-repeats', 'all']), CliUsageError);
+        assert.throws(() => LogMagnifierCli.parseArgs(['app.log', '-p', 'a.json', '--bogus']), CliUsageError);
+    });
+
+    test('Runs an exported profile and sets the exit code by whether lines matched', async () => {
+        const profilePath = path.join(tmpDir, 'errors.json');
+        fs.writeFileSync(profilePath, profile('ERROR'));
+
+        const results = await LogMagnifierCli.run(LogMagnifierCli.parseArgs([logFile, '--profile', profilePath, '-o', tmpDir])!);
+        assert.strictEqual(results.length, 1);
+        assert.strictEqual(results[0].matched, 2);
+        assert.strictEqual(fs.readFileSync(path.join(tmpDir, 'app.filtered.log'), 'utf8'), 'ERROR disk full\nERROR timeout\n');
+        assert.deepStrictEqual(results[0].hits.map(h => h.hits), [3, 1]);
+
+        assert.strictEqual(await LogMagnifierCli.main([logFile, '-p', profilePath, '-o', tmpDir, '-q']), LogMagnifierCli.EXIT_FOUND);
+        assert.strictEqual(await LogMagnifierCli.main([logFile, '-p', profilePath, '-o', tmpDir, '-q', '--fail-on-match']), LogMagnifierCli.EXIT_NOT_FOUND);
+
+        fs.writeFileSync(profilePath, profile('FATAL'));
+        assert.strictEqual(await LogMagnifierCli.main([logFile, '-p', profilePath, '-o', tmpDir, '-q']), LogMagnifierCli.EXIT_NOT_FOUND);
+        assert.strictEqual(await LogMagnifierCli.main([path.join(tmpDir, 'missing.log'), '-p', profilePath, '-o', tmpDir, '-q']), LogMagnifierCli.EXIT_ERROR);
+    });
+
+    test('Runs a workflow package, feeding each step the output of its parent', async () => {
+        const workflowPath = path.join(tmpDir, 'workflow.json');
+        fs.writeFileSync(workflowPath, JSON.stringify({
+            version: '1.0.0',
+            workflow: {
+                id: 'w1',
+                name: 'Triage',
+                steps: [
+                    { id: 's1', profileName: 'Errors', executionMode: 'sequential' },
+                    { id: 's2', profileName: 'Timeouts', parentId: 's1', executionMode: 'sequential' }
+                ]
+            },
+            profiles: [
+                { name: 'Errors', groups: JSON.parse(profile('ERROR')).groups },
+                { name: 'Timeouts', groups: JSON.parse(profile('timeout')).groups }
+            ]
+        }));
+
+        const results = await LogMagnifierCli.run(LogMagnifierCli.parseArgs([logFile, '--workflow', workflowPath, '-o', tmpDir])!);
+        assert.deepStrictEqual(results.map(r => [r.name, r.matched, r.final]), [['Errors', 2, false], ['Timeouts', 1, true]]);
+        assert.strictEqual(fs.readFileSync(path.join(tmpDir, 'app.1-Errors.log'), 'utf8'), 'ERROR disk full\nERROR timeout\n');
+        assert.strictEqual(fs.readFileSync(path.join(tmpDir, 'app.2-Timeouts.log'), 'utf8'), 'ERROR timeout\n');
+    });
+
+    test('Resolves the layers of workflow package profiles', async () => {
+        const workflowPath = path.join(tmpDir, 'layered.json');
+        fs.writeFileSync(workflowPath, JSON.stringify({
+            version: '1.0.0',
+            workflow: { id: 'w1', name: 'Layered', steps: [{ id: 's1', profileName: 'Errors', executionMode: 'sequential' }] },
+            profiles: [
+                { name: 'Errors', layers: ['Noise'], groups: JSON.parse(profile('ERROR')).groups },
+                { name: 'Noise', groups: [{ name: 'Noise', isEnabled: true, filters: [{ keyword: 'disk', type: 'exclude', isEnabled: true }] }] }
+            ]
+        }));
+
+        const results = await LogMagnifierCli.run(LogMagnifierCli.parseArgs([logFile, '--workflow', workflowPath, '-o', tmpDir])!);
+        assert.strictEqual(results[0].matched, 1);
+        assert.strictEqual(fs.readFileSync(path.join(tmpDir, 'app.1-Errors.log'), 'utf8'), 'ERROR timeout\n');
+    });
+});
@@ -13,6 +13,7 @@ import { SourceMapService } from '../../services/SourceMapService';
 import { MockExtensionContext } from '../utils/Mocks';
 import { FilterGroup, FilterItem } from '../../models/Filter';
 import { EditorUtils } from '../../utils/EditorUtils';
+import { Constants } from '../../Constants';
 
 // Mock LogProcessor to capture processed groups without real file I/O
 class MockLogProcessor extends LogProcessor {
@@ -253,4 +254,38 @@ suite('FilterExecutionCommandManager Test Suite', () => {
             }
         }
     });
+
+    test('Apply Word Filter - Result lines resolve to their source', async function () {
+        this.timeout(20000);
+
+        // Runs the registered command, so that the result is opened and closed the way the extension handles it
+        const extension = vscode.extensions.getExtension('webispy.logmagnifier')!;
+        if (!extension.isActive) {
+            await extension.activate();
+        }
+        const extensionFilters: FilterManager = extension.exports.filterManager;
+
+        const sourcePath = path.join(os.tmpdir(), `source_map_test_${Date.now()}.log`);
+        fs.writeFileSync(sourcePath, 'INFO start\nERROR first\nINFO middle\nERROR second\n');
+        const group = extensionFilters.addGroup('Source Map Group', false)!;
+        try {
+            extensionFilters.toggleGroup(group.id);
+            extensionFilters.addFilter(group.id, 'ERROR', 'include');
+            await vscode.window.showTextDocument(vscode.Uri.file(sourcePath));
+            await vscode.commands.executeCommand(Constants.Commands.ApplyWordFilter);
+
+            const result = vscode.window.activeTextEditor!.document;
+            assert.strictEqual(result.uri.scheme, Constants.Schemes.Result);
+            assert.strictEqual(result.languageId, 'log', 'Results open as logs without changing their language');
+
+            const location = SourceMapService.getInstance().getOriginalLocation(result.uri, 1);
+            assert.ok(location, 'The source map of the result should still be registered');
+            assert.strictEqual(location.uri.fsPath, vscode.Uri.file(sourcePath).fsPath);
+            assert.strictEqual(location.range.start.line, 3);
+        } finally {
+            extensionFilters.removeGroup(group.id);
+            await vscode.commands.executeCommand('workbench.action.closeAllEditors');
+            fs.unlinkSync(sourcePath);
+        }
+    });
 });
@@ -173,4 +173,24 @@ suite('FileHierarchyService Test Suite', () => {
         const children = service.getChildren(originalUri);
         assert.strictEqual(children.length, 0, 'Original should have no children');
     });
+
+    test('Merged source lists its originals and is the root of its filter results', () => {
+        const mergedUri = vscode.Uri.file('/tmp/merged.log');
+        const rotatedUri = vscode.Uri.file('/logs/original.log.1');
+
+        service.registerMergedSource(mergedUri, [rotatedUri, originalUri], 'Merged: original.log.1 +1');
+        service.registerChild(mergedUri, filter1Uri, 'filter');
+
+        assert.strictEqual(service.getNode(mergedUri)?.type, 'merged');
+        assert.deepStrictEqual(service.getSources(mergedUri).map(uri => uri.toString()), [rotatedUri.toString(), originalUri.toString()]);
+        assert.deepStrictEqual(service.getSources(filter1Uri), []);
+        assert.strictEqual(service.getRoot(filter1Uri)?.toString(), mergedUri.toString());
+
+        // Sources survive a reload from workspace state
+        // @ts-expect-error: Resetting private singleton instance for testing
+        FileHierarchyService.instance = undefined;
+        const reloaded = FileHierarchyService.getInstance();
+        reloaded.initialize(mockContext as unknown as vscode.ExtensionContext);
+        assert.strictEqual(reloaded.getSources(mergedUri).length, 2);
+    });
 });
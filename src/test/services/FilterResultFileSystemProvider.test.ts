@@ -0,0 +1,106 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FilterResultFileSystemProvider } from '../../providers/FilterResultFileSystemProvider';
+import { FileHierarchyService } from '../../services/FileHierarchyService';
+
+suite('FilterResultFileSystemProvider Test Suite', () => {
+    let provider: FilterResultFileSystemProvider;
+
+    setup(() => {
+        // @ts-expect-error: Resetting private singleton instance for testing
+        FilterResultFileSystemProvider.instance = undefined;
+        provider = FilterResultFileSystemProvider.getInstance();
+    });
+
+    teardown(() => {
+        provider.dispose();
+    });
+
+    test('createUri is stable per source and label and names the result after both', () => {
+        const source = vscode.Uri.file('/logs/app.log');
+        const uri = FilterResultFileSystemProvider.createUri(source, 'AuthFlow');
+
+        assert.strictEqual(path.posix.basename(uri.path), 'app.log ▸ AuthFlow');
+        assert.strictEqual(FilterResultFileSystemProvider.createUri(vscode.Uri.file('/logs/app.log'), 'AuthFlow').toString(), uri.toString());
+        // Same file name in another folder
+        assert.notStrictEqual(FilterResultFileSystemProvider.createUri(vscode.Uri.file('/other/app.log'), 'AuthFlow').toString(), uri.toString());
+        assert.notStrictEqual(FilterResultFileSystemProvider.createUri(source, 'Network').toString(), uri.toString());
+    });
+
+    test('publish takes over the output file and re-publishing replaces the content', async () => {
+        const uri = FilterResultFileSystemProvider.createUri(vscode.Uri.file('/logs/app.log'), 'Errors');
+        const outputPath = path.join(os.tmpdir(), `result_test_${Date.now()}.log`);
+
+        fs.writeFileSync(outputPath, 'ERROR first\n');
+        await provider.publish(uri, outputPath);
+        assert.ok(!fs.existsSync(outputPath), 'Output file should be removed once published');
+        assert.strictEqual(Buffer.from(await provider.readFile(uri)).toString(), 'ERROR first\n');
+        assert.strictEqual(provider.getBackingPath(uri), undefined, 'Small results are held in memory');
+
+        await provider.append(uri, 'ERROR appended\n');
+        assert.strictEqual(Buffer.from(await provider.readFile(uri)).toString(), 'ERROR first\nERROR appended\n');
+        assert.strictEqual(provider.stat(uri).size, 'ERROR first\nERROR appended\n'.length);
+
+        fs.writeFileSync(outputPath, 'ERROR second\n');
+        await provider.publish(uri, outputPath);
+        assert.strictEqual(Buffer.from(await provider.readFile(uri)).toString(), 'ERROR second\n');
+    });
+
+    test('releaseClosed keeps a result while a document filtered from it is open', async () => {
+        const parent = FilterResultFileSystemProvider.createUri(vscode.Uri.file('/logs/app.log'), 'Errors');
+        const child = FilterResultFileSystemProvider.createUri(parent, 'Timeouts');
+        for (const uri of [parent, child]) {
+            const outputPath = path.join(os.tmpdir(), `result_test_${Math.random().toString(36).substring(7)}.log`);
+            fs.writeFileSync(outputPath, 'ERROR timeout\n');
+            await provider.publish(uri, outputPath);
+        }
+        const hierarchy = FileHierarchyService.getInstance();
+        hierarchy.registerChild(parent, child, 'filter');
+
+        const originalDescriptor = Object.getOwnPropertyDescriptor(vscode.workspace, 'textDocuments');
+        let openUris: vscode.Uri[] = [child];
+        Object.defineProperty(vscode.workspace, 'textDocuments', {
+            get: () => openUris.map(uri => ({ uri })),
+            configurable: true
+        });
+        try {
+            provider.releaseClosed(parent);
+            assert.ok(provider.has(parent), 'The open child still maps its lines to the parent');
+
+            openUris = [];
+            provider.releaseClosed(child);
+            assert.ok(!provider.has(child));
+            assert.ok(!provider.has(parent), 'The parent was only kept for the child');
+        } finally {
+            if (originalDescriptor) {
+                Object.defineProperty(vscode.workspace, 'textDocuments', originalDescriptor);
+            } else {
+                // eslint-disable-next-line @typescript-eslint/no-explicit-any
+                delete (vscode.workspace as any).textDocuments;
+            }
+            hierarchy.unregister(parent, true);
+        }
+    });
+
+    test('removeOrphanedStorage deletes the storage of sessions that are gone', async () => {
+        // Above the largest process ID on Linux, so no process has it
+        const orphaned = path.join(os.tmpdir(), 'logmagnifier-results-99999999-test');
+        const running = path.join(os.tmpdir(), `logmagnifier-results-${process.pid}-test`);
+        for (const dir of [orphaned, running]) {
+            fs.mkdirSync(dir, { recursive: true });
+            fs.writeFileSync(path.join(dir, 'result.log'), 'ERROR\n');
+        }
+        try {
+            await provider.removeOrphanedStorage();
+
+            assert.ok(!fs.existsSync(orphaned));
+            assert.ok(fs.existsSync(running), 'Another window of this process may still use it');
+        } finally {
+            fs.rmSync(running, { recursive: true, force: true });
+            fs.rmSync(orphaned, { recursive: true, force: true });
+        }
+    });
+});
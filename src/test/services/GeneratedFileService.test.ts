@@ -0,0 +1,57 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Constants } from '../../Constants';
+import { GeneratedFileService } from '../../services/GeneratedFileService';
+import { LogBookmarkService } from '../../services/LogBookmarkService';
+import { MockExtensionContext } from '../utils/Mocks';
+
+suite('GeneratedFileService Test Suite', () => {
+    const DAY_MS = 24 * 60 * 60 * 1000;
+    let tmpDir: string;
+
+    setup(() => {
+        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'generated_files_test_'));
+        // @ts-expect-error: Resetting private singleton instance for testing
+        GeneratedFileService.instance = undefined;
+    });
+
+    teardown(() => {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    test('Deletes files older than the age quota, except bookmarked and current files', async () => {
+        const createFile = (name: string) => {
+            const filePath = path.join(tmpDir, name);
+            fs.writeFileSync(filePath, 'log line\n');
+            return filePath;
+        };
+        const expired = createFile('expired.log');
+        const bookmarked = createFile('bookmarked.log');
+        const recent = createFile('recent.log');
+
+        const context = new MockExtensionContext();
+        await context.globalState.update(Constants.GlobalState.GeneratedFiles, [
+            { path: expired, kind: 'workflow', created: Date.now() - 30 * DAY_MS },
+            { path: bookmarked, kind: 'workflow', created: Date.now() - 30 * DAY_MS },
+            { path: recent, kind: 'merge', created: Date.now() - DAY_MS }
+        ]);
+        const bookmarkService = {
+            getFileActiveLinesCount: (uriKey: string) => uriKey === vscode.Uri.file(bookmarked).toString() ? 1 : 0
+        } as unknown as LogBookmarkService;
+
+        const service = GeneratedFileService.getInstance();
+        service.initialize(context as unknown as vscode.ExtensionContext, bookmarkService);
+        await service.enforceQuota();
+
+        assert.ok(!fs.existsSync(expired), 'Expired file should be deleted');
+        assert.ok(fs.existsSync(bookmarked), 'Bookmarked file should be kept');
+        assert.ok(fs.existsSync(recent), 'File within the quota should be kept');
+
+        const listed = await service.list();
+        assert.deepStrictEqual(listed.map(file => path.basename(file.path)), ['bookmarked.log', 'recent.log']);
+        assert.strictEqual(listed[0].keptBecause, 'has bookmarks');
+    });
+});
@@ -0,0 +1,346 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FilterRunCancelledError, FilterRunRequest, LogFilterCore, LogFilterPass } from '../../services/LogFilterCore';
+import { RegexUtils } from '../../utils/RegexUtils';
+import { TimestampUtils } from '../../utils/TimestampUtils';
+
+suite('LogFilterCore Test Suite', () => {
+    let inputPath: string;
+    let outputPath: string;
+
+    const createRequest = (): FilterRunRequest => ({
+        inputPath,
+        outputPath,
+        compiledGroups: [{ includes: [{ regex: RegexUtils.create('ERROR', false, false), contextLine: 0 }], excludes: [] }],
+        prependLineNumbers: false,
+        totalLineCount: 999999
+    });
+
+    setup(() => {
+        const suffix = Math.random().toString(36).substring(7);
+        inputPath = path.join(os.tmpdir(), `logfiltercore_in_${suffix}.log`);
+        outputPath = path.join(os.tmpdir(), `logfiltercore_out_${suffix}.log`);
+        fs.writeFileSync(inputPath, 'INFO start\nERROR one\nINFO middle\nERROR two\n'.repeat(5000));
+    });
+
+    teardown(() => {
+        for (const p of [inputPath, outputPath]) {
+            if (fs.existsSync(p)) {
+                fs.unlinkSync(p);
+            }
+        }
+    });
+
+    test('run writes matches and reports final progress', async () => {
+        const totalBytes = fs.statSync(inputPath).size;
+        let lastProgress: { bytesRead: number, totalBytes: number } | undefined;
+
+        const result = await LogFilterCore.run(createRequest(), {
+            onProgress: (bytesRead, total) => { lastProgress = { bytesRead, totalBytes: total }; }
+        });
+
+        assert.strictEqual(result.processed, 20000);
+        assert.strictEqual(result.matched, 10000);
+        assert.strictEqual(result.lineMapping[0], 2);
+        assert.deepStrictEqual(lastProgress, { bytesRead: totalBytes, totalBytes });
+        assert.strictEqual(fs.readFileSync(outputPath, 'utf8').split('\n')[0], 'ERROR one');
+    });
+
+    test('run removes partial output when cancelled', async () => {
+        let linesSeen = 0;
+
+        await assert.rejects(
+            LogFilterCore.run(createRequest(), { isCancelled: () => ++linesSeen > 100 }),
+            FilterRunCancelledError
+        );
+        assert.strictEqual(fs.existsSync(outputPath), false, 'Partial output should be deleted');
+    });
+
+    test('run with a record start keeps continuation lines with their record', async () => {
+        fs.writeFileSync(inputPath, [
+            '2024-01-31 10:00:00 INFO start',
+            '2024-01-31 10:00:01 ERROR request failed',
+            'java.lang.IllegalStateException: boom',
+            '    at Main.run(Main.java:10)',
+            '2024-01-31 10:00:02 INFO retry',
+            '2024-01-31 10:00:03 WARN slow',
+            '    caused by ERROR upstream'
+        ].join('\n'));
+
+        const request = { ...createRequest(), recordStart: /^\d{4}-\d{2}-\d{2} / };
+        const result = await LogFilterCore.run(request);
+
+        assert.deepStrictEqual(fs.readFileSync(outputPath, 'utf8').split('\n').slice(0, -1), [
+            '2024-01-31 10:00:01 ERROR request failed',
+            'java.lang.IllegalStateException: boom',
+            '    at Main.run(Main.java:10)',
+            '2024-01-31 10:00:03 WARN slow',
+            '    caused by ERROR upstream'
+        ]);
+        assert.deepStrictEqual(result.lineMapping, [2, 3, 4, 6, 7]);
+        assert.strictEqual(result.matched, 5);
+        assert.strictEqual(result.processed, 7);
+    });
+
+    test('run with a record start applies excludes to the whole record', async () => {
+        fs.writeFileSync(inputPath, [
+            'ERROR first',
+            '  detail keep',
+            'ERROR second',
+            '  detail timeout'
+        ].join('\n'));
+
+        const request = { ...createRequest(), recordStart: /^ERROR/ };
+        request.compiledGroups[0].excludes.push(RegexUtils.create('timeout', false, false));
+        const result = await LogFilterCore.run(request);
+
+        assert.strictEqual(fs.readFileSync(outputPath, 'utf8'), 'ERROR first\n  detail keep\n');
+        assert.deepStrictEqual(result.lineMapping, [1, 2]);
+    });
+
+    test('run with a time range keeps lines inside the window, including continuation lines', async () => {
+        fs.writeFileSync(inputPath, [
+            '01-31 14:02:09.999  100  100 E App: before',
+            '01-31 14:02:10.500  100  100 E App: start',
+            '    at Main.run(Main.java:10)',
+            '01-31 14:02:30.000  100  100 I App: inside',
+            '01-31 14:03:00.999  100  100 I App: end',
+            '01-31 14:03:01.000  100  100 E App: after'
+        ].join('\n'));
+
+        const range = TimestampUtils.compileRange({ start: '14:02:10.500', end: '14:03:00' });
+        const request = { ...createRequest(), compiledGroups: [{ includes: [], excludes: [], timeRanges: [{ range, exclude: false }] }] };
+        const result = await LogFilterCore.run(request);
+
+        assert.deepStrictEqual(result.lineMapping, [2, 3, 4, 5]);
+    });
+
+    test('run ANDs a time range with the include filters of its group', async () => {
+        fs.writeFileSync(inputPath, [
+            '2024-01-31 10:00:00 ERROR early',
+            '2024-01-31 10:05:00 INFO inside',
+            '2024-01-31 10:06:00 ERROR inside',
+            '2024-01-31 10:20:00 ERROR late'
+        ].join('\n'));
+
+        const range = TimestampUtils.compileRange({ start: '2024-01-31 10:01:00', end: '2024-01-31 10:10:00' });
+        const request = createRequest();
+        request.compiledGroups[0].timeRanges = [{ range, exclude: false }];
+        const result = await LogFilterCore.run(request);
+
+        assert.strictEqual(fs.readFileSync(outputPath, 'utf8'), '2024-01-31 10:06:00 ERROR inside\n');
+        assert.deepStrictEqual(result.lineMapping, [3]);
+    });
+
+    test('run with an end byte stops before a line still being written', async () => {
+        fs.writeFileSync(inputPath, 'ERROR one\nINFO two\nERROR thr');
+
+        const result = await LogFilterCore.run({ ...createRequest(), endByte: 'ERROR one\nINFO two\n'.length });
+
+        assert.strictEqual(result.processed, 2);
+        assert.strictEqual(fs.readFileSync(outputPath, 'utf8'), 'ERROR one\n');
+    });
+
+    test('a filter pass continues numbering and context across batches of lines', () => {
+        const output: string[] = [];
+        const mapping: number[] = [];
+        const groups = [{ includes: [{ regex: RegexUtils.create('ERROR', false, false), contextLine: 1 }], excludes: [] }];
+        const pass = new LogFilterPass(groups, { prependLineNumbers: true, totalLineCount: 999, firstLine: 11 }, (line, sourceLine) => {
+            output.push(line);
+            mapping.push(sourceLine);
+        });
+
+        pass.pushLine('INFO a');
+        pass.pushLine('INFO b');
+        // Next batch, e.g. lines appended to a followed file
+        pass.pushLine('ERROR c');
+        pass.pushLine('INFO d');
+        pass.flush();
+
+        assert.deepStrictEqual(output, ['012: INFO b', '013: ERROR c', '014: INFO d']);
+        assert.deepStrictEqual(mapping, [12, 13, 14]);
+        assert.strictEqual(pass.matched, 1);
+    });
+
+    test('run collapses consecutive repeated lines and maps them to the first occurrence', async () => {
+        fs.writeFileSync(inputPath, [
+            'ERROR retry 1',
+            'ERROR retry 2',
+            'ERROR retry 3',
+            'INFO skipped',
+            'ERROR retry 4',
+            'ERROR done'
+        ].join('\n'));
+
+        const exact = await LogFilterCore.run({ ...createRequest(), collapseRepeats: 'exact' });
+        assert.strictEqual(exact.lineMapping.length, 5);
+
+        const normalized = await LogFilterCore.run({ ...createRequest(), collapseRepeats: 'normalized' });
+        assert.strictEqual(fs.readFileSync(outputPath, 'utf8'), 'ERROR retry 1 (×4)\nERROR done\n');
+        assert.deepStrictEqual(normalized.lineMapping, [1, 6]);
+        assert.strictEqual(normalized.matched, 5);
+    });
+
+    test('run with separated blocks writes separators and marks context lines', async () => {
+        fs.writeFileSync(inputPath, ['INFO a', 'ERROR b', 'INFO c', 'INFO d', 'INFO e', 'INFO f', 'ERROR g', 'INFO h'].join('\n'));
+        const request: FilterRunRequest = {
+            ...createRequest(),
+            compiledGroups: [{ includes: [{ regex: RegexUtils.create('ERROR', false, false), contextLine: 1 }], excludes: [] }],
+            prependLineNumbers: true,
+            totalLineCount: 99,
+            separateBlocks: true
+        };
+
+        const result = await LogFilterCore.run(request);
+
+        assert.strictEqual(fs.readFileSync(outputPath, 'utf8'), '01- INFO a\n02: ERROR b\n03- INFO c\n--\n06- INFO f\n07: ERROR g\n08- INFO h\n');
+        assert.deepStrictEqual(result.lineMapping, [1, 2, 3, 0, 6, 7, 8]);
+        assert.deepStrictEqual(result.contextLines, [0, 2, 4, 6]);
+    });
+
+    test('run counts filter hits on every line, including lines not written', async () => {
+        fs.writeFileSync(inputPath, ['ERROR disk ERROR', 'WARN disk', 'ERROR net', 'INFO disk'].join('\n'));
+        const allGroup = {
+            includes: [
+                { regex: RegexUtils.create('ERROR', false, false), contextLine: 0 },
+                { regex: RegexUtils.create('disk', false, false), contextLine: 0 }
+            ],
+            excludes: [],
+            matchMode: 'all' as const
+        };
+        const request: FilterRunRequest = {
+            ...createRequest(),
+            hitCounters: [
+                { filters: [{ filterId: 'error', regex: RegexUtils.create('ERROR', false, false), gated: false }] },
+                {
+                    gate: allGroup,
+                    filters: [
+                        { filterId: 'all-error', regex: RegexUtils.create('ERROR', false, false), gated: true },
+                        { filterId: 'all-disk', regex: RegexUtils.create('disk', false, false), gated: true }
+                    ]
+                }
+            ]
+        };
+
+        const result = await LogFilterCore.run(request);
+
+        assert.strictEqual(result.matched, 2);
+        assert.deepStrictEqual(Object.fromEntries(result.hitCounts!), { 'error': 3, 'all-error': 2, 'all-disk': 1 });
+    });
+
+    test('run writes dropped lines annotated with the exclude filter that dropped them', async () => {
+        fs.writeFileSync(inputPath, ['ERROR disk', 'ERROR timeout', 'INFO ok', 'ERROR retry', 'WARN retry'].join('\n'));
+        const droppedPath = `${outputPath}.dropped`;
+        const request: FilterRunRequest = {
+            ...createRequest(),
+            compiledGroups: [{
+                includes: [{ regex: RegexUtils.create('ERROR', false, false), contextLine: 0 }],
+                excludes: [RegexUtils.create('timeout', false, false), RegexUtils.create('retry', false, false)],
+                excludeIds: ['timeout', 'retry']
+            }],
+            prependLineNumbers: true,
+            totalLineCount: 9,
+            droppedOutputPath: droppedPath,
+            dropLabels: new Map([['timeout', '^timeout']])
+        };
+
+        try {
+            const result = await LogFilterCore.run(request);
+
+            assert.strictEqual(fs.readFileSync(outputPath, 'utf8'), '1: ERROR disk\n');
+            assert.strictEqual(fs.readFileSync(droppedPath, 'utf8'), [
+                '2: [excluded by ^timeout] ERROR timeout',
+                '3: [no include match] INFO ok',
+                '4: [excluded by exclude filter] ERROR retry',
+                '5: [excluded by exclude filter] WARN retry',
+                ''
+            ].join('\n'));
+            assert.deepStrictEqual(result.dropped?.lineMapping, [2, 3, 4, 5]);
+            assert.deepStrictEqual(Object.fromEntries(result.dropped!.excludeCounts), { 'timeout': 1, 'retry': 2 });
+            assert.strictEqual(result.dropped?.unmatched, 1);
+        } finally {
+            fs.rmSync(droppedPath, { force: true });
+        }
+    });
+
+    test('run does not drop the records it writes as context', async () => {
+        const debugLines = Array.from({ length: 25 }, (_, i) => `DEBUG ${i + 1}`);
+        fs.writeFileSync(inputPath, [...debugLines, 'INFO before', 'ERROR disk', 'INFO after', 'INFO later'].join('\n'));
+        const droppedPath = `${outputPath}.dropped`;
+        const request: FilterRunRequest = {
+            ...createRequest(),
+            compiledGroups: [{
+                includes: [{ regex: RegexUtils.create('ERROR', false, false), contextLine: 1 }],
+                excludes: []
+            }],
+            droppedOutputPath: droppedPath
+        };
+
+        try {
+            const result = await LogFilterCore.run(request);
+
+            assert.strictEqual(fs.readFileSync(outputPath, 'utf8'), 'INFO before\nERROR disk\nINFO after\n');
+            assert.strictEqual(fs.readFileSync(droppedPath, 'utf8'), [...debugLines, 'INFO later', ''].map(line => line && `[no include match] ${line}`).join('\n'));
+            assert.deepStrictEqual(result.dropped?.lineMapping, [...debugLines.map((_, i) => i + 1), 29]);
+            assert.strictEqual(result.dropped?.unmatched, 26);
+        } finally {
+            fs.rmSync(droppedPath, { force: true });
+        }
+    });
+
+    test('run extracts the capture groups of kept records into table rows', async () => {
+        fs.writeFileSync(inputPath, [
+            '01-31 14:02:10.500 latency=120ms user=alice',
+            '01-31 14:02:11.000 latency=95ms',
+            '01-31 14:02:12.000 timeout user=bob',
+            '01-31 14:02:13.000 INFO idle'
+        ].join('\n'));
+        const request: FilterRunRequest = {
+            ...createRequest(),
+            compiledGroups: [{
+                includes: [
+                    { regex: RegexUtils.create('latency=(\\d+)ms', true, false), contextLine: 0 },
+                    { regex: RegexUtils.create('user=(?<user>\\w+)', true, false), contextLine: 0 }
+                ],
+                excludes: [RegexUtils.create('timeout', false, false)]
+            }],
+            extract: {
+                extractors: [
+                    { filterId: 'latency', regex: RegexUtils.create('latency=(\\d+)ms', true, false), columns: [0] },
+                    { filterId: 'user', regex: RegexUtils.create('user=(?<user>\\w+)', true, false), columns: [1] }
+                ],
+                columnCount: 2
+            }
+        };
+
+        const result = await LogFilterCore.run(request);
+
+        assert.deepStrictEqual(result.extracted, {
+            rows: [
+                { line: 1, timestamp: '01-31 14:02:10.500', filterId: 'latency', cells: ['120', ''] },
+                { line: 1, timestamp: '01-31 14:02:10.500', filterId: 'user', cells: ['', 'alice'] },
+                { line: 2, timestamp: '01-31 14:02:11.000', filterId: 'latency', cells: ['95', ''] }
+            ],
+            truncated: false
+        });
+    });
+
+    test('run decodes the input and writes the output in the requested encodings', async () => {
+        fs.writeFileSync(inputPath, Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from('INFO start\r\nERROR ログ\r\n', 'utf16le')]));
+
+        const result = await LogFilterCore.run({ ...createRequest(), outputEncoding: 'utf16be' });
+
+        assert.strictEqual(result.encoding, 'utf-16le');
+        const output = fs.readFileSync(outputPath);
+        assert.deepStrictEqual([...output.subarray(0, 2)], [0xfe, 0xff]);
+        assert.strictEqual(Buffer.from(output.subarray(2)).swap16().toString('utf16le'), 'ERROR ログ\n');
+
+        // "ERROR エラー" in Shift-JIS, read with the encoding configured for the source
+        fs.writeFileSync(inputPath, Buffer.concat([Buffer.from('ERROR '), Buffer.from([0x83, 0x47, 0x83, 0x89, 0x81, 0x5b, 0x0a])]));
+        const fallback = await LogFilterCore.run({ ...createRequest(), fallbackEncoding: 'shift_jis' });
+        assert.strictEqual(fallback.encoding, 'shift_jis');
+        assert.strictEqual(fs.readFileSync(outputPath, 'utf8'), 'ERROR エラー\n');
+    });
+});
@@ -0,0 +1,95 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { FilterRunCancelledError } from '../../services/LogFilterCore';
+import { LogMergeCore } from '../../services/LogMergeCore';
+
+suite('LogMergeCore Test Suite', () => {
+    let tmpDir: string;
+    let outputPath: string;
+
+    const writeLog = (name: string, content: string | Buffer) => {
+        const filePath = path.join(tmpDir, name);
+        fs.writeFileSync(filePath, content);
+        return filePath;
+    };
+
+    setup(() => {
+        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'logmergecore_'));
+        outputPath = path.join(tmpDir, 'merged.log');
+    });
+
+    teardown(() => {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    test('sortByRotation orders rotated files oldest first', () => {
+        const sorted = LogMergeCore.sortByRotation([
+            { path: '/logs/app.log' },
+            { path: '/logs/system.log' },
+            { path: '/logs/app.log.10.gz' },
+            { path: '/logs/app.log.2' },
+            { path: '/logs/app.log.1' }
+        ]);
+        assert.deepStrictEqual(sorted.map(s => path.basename(s.path)), ['app.log.10.gz', 'app.log.2', 'app.log.1', 'app.log', 'system.log']);
+    });
+
+    test('concat keeps the source order and maps lines back', async () => {
+        const older = writeLog('app.log.1', 'a1\na2\n');
+        const newer = writeLog('app.log.gz', zlib.gzipSync('b1\n'));
+
+        const result = await LogMergeCore.merge({ sources: [{ path: older }, { path: newer }], outputPath, order: 'concat' });
+
+        assert.strictEqual(fs.readFileSync(outputPath, 'utf8'), 'a1\na2\nb1\n');
+        assert.strictEqual(result.lineCount, 3);
+        assert.deepStrictEqual(result.sourceIndexes, [0, 0, 1]);
+        assert.deepStrictEqual(result.lineMapping, [1, 2, 1]);
+    });
+
+    test('timestamp interleaves lines and keeps continuation lines with their record', async () => {
+        const app = writeLog('app.log', [
+            '2024-01-01 10:00:01 app start',
+            '2024-01-01 10:00:03 app crash',
+            '    at Main.run',
+            '    at Main.main',
+            '2024-01-01 10:00:05 app exit'
+        ].join('\n'));
+        const radio = writeLog('radio.log', [
+            'radio header',
+            '2024-01-01 10:00:02 radio on',
+            '2024-01-01 10:00:03 radio lost',
+            '2024-01-01 10:00:04 radio off'
+        ].join('\n'));
+
+        const result = await LogMergeCore.merge({ sources: [{ path: app }, { path: radio }], outputPath, order: 'timestamp' });
+
+        assert.deepStrictEqual(fs.readFileSync(outputPath, 'utf8').split('\n').slice(0, -1), [
+            'radio header',
+            '2024-01-01 10:00:01 app start',
+            '2024-01-01 10:00:02 radio on',
+            '2024-01-01 10:00:03 app crash',
+            '    at Main.run',
+            '    at Main.main',
+            '2024-01-01 10:00:03 radio lost',
+            '2024-01-01 10:00:04 radio off',
+            '2024-01-01 10:00:05 app exit'
+        ]);
+        assert.deepStrictEqual(result.sourceIndexes, [1, 0, 1, 0, 0, 0, 1, 1, 0]);
+        assert.deepStrictEqual(result.lineMapping, [1, 1, 2, 2, 3, 4, 3, 4, 5]);
+    });
+
+    test('merge removes partial output when cancelled or a source is missing', async () => {
+        const app = writeLog('app.log', 'line\n'.repeat(1000));
+
+        await assert.rejects(
+            LogMergeCore.merge({ sources: [{ path: app }, { path: app }], outputPath, order: 'concat' }, { isCancelled: () => true }),
+            FilterRunCancelledError
+        );
+        assert.strictEqual(fs.existsSync(outputPath), false);
+
+        await assert.rejects(LogMergeCore.merge({ sources: [{ path: app }, { path: path.join(tmpDir, 'missing.log') }], outputPath, order: 'concat' }));
+        assert.strictEqual(fs.existsSync(outputPath), false);
+    });
+});
@@ -1,6 +1,7 @@
 import * as assert from 'assert';
 import { LogProcessor, CompiledGroup } from '../../services/LogProcessor';
 import { RegexUtils } from '../../utils/RegexUtils';
+import { FilterGroup, FilterItem } from '../../models/Filter';
 
 suite('LogProcessor Test Suite', () => {
     let processor: LogProcessor;
@@ -69,4 +70,86 @@ suite('LogProcessor Test Suite', () => {
         assert.strictEqual(result2.isMatched, true);
         assert.strictEqual(result2.contextLines, 2);
     });
+
+    const makeGroup = (filters: Partial<FilterItem>[], extra: Partial<FilterGroup> = {}): FilterGroup => ({
+        id: 'g1',
+        name: 'Group',
+        isEnabled: true,
+        filters: filters.map((f, i) => ({ id: `f${i}`, keyword: '', type: 'include', isEnabled: true, ...f })),
+        ...extra
+    });
+
+    test('checkMatchCompiled: all match mode requires every include', () => {
+        const group = processor.compileGroup(makeGroup(
+            [{ keyword: 'Error', contextLine: 2 }, { keyword: 'Auth', contextLine: 3 }],
+            { matchMode: 'all' }
+        ));
+
+        const result = processor.checkMatchCompiled('Auth Error', [group]);
+        assert.strictEqual(result.isMatched, true);
+        assert.strictEqual(result.contextLines, 3);
+        assert.strictEqual(processor.checkMatchCompiled('Error only', [group]).isMatched, false);
+    });
+
+    test('checkMatchCompiled: expression overrides match mode', () => {
+        const group = processor.compileGroup(makeGroup(
+            [{ keyword: 'Error' }, { keyword: 'Auth', nickname: 'auth' }, { keyword: 'timeout' }],
+            { matchMode: 'all', expression: '(#1 OR auth) AND NOT timeout' }
+        ));
+
+        assert.strictEqual(processor.checkMatchCompiled('Error happened', [group]).isMatched, true);
+        assert.strictEqual(processor.checkMatchCompiled('Auth request', [group]).isMatched, true);
+        assert.strictEqual(processor.checkMatchCompiled('Error timeout', [group]).isMatched, false);
+        assert.strictEqual(processor.checkMatchCompiled('Info', [group]).isMatched, false);
+    });
+
+    test('checkMatchCompiled: disabled filters in expression evaluate to false', () => {
+        const group = processor.compileGroup(makeGroup(
+            [{ keyword: 'Error' }, { keyword: 'Auth', isEnabled: false }],
+            { expression: '#1 OR #2' }
+        ));
+
+        assert.strictEqual(processor.checkMatchCompiled('Auth request', [group]).isMatched, false);
+        assert.strictEqual(processor.checkMatchCompiled('Error', [group]).isMatched, true);
+    });
+
+    test('checkMatchCompiled: groups stay OR-combined across match modes', () => {
+        const allGroup = processor.compileGroup(makeGroup([{ keyword: 'A' }, { keyword: 'B' }], { matchMode: 'all' }));
+        const anyGroup = processor.compileGroup(makeGroup([{ keyword: 'C' }]));
+
+        assert.strictEqual(processor.checkMatchCompiled('A only', [allGroup, anyGroup]).isMatched, false);
+        assert.strictEqual(processor.checkMatchCompiled('A and B', [allGroup, anyGroup]).isMatched, true);
+        assert.strictEqual(processor.checkMatchCompiled('C only', [allGroup, anyGroup]).isMatched, true);
+    });
+
+    test('compileGroup: invalid expression matches nothing and is reported', () => {
+        const originalReportError = RegexUtils.reportError;
+        const reported: string[] = [];
+        RegexUtils.reportError = message => reported.push(message);
+        try {
+            const group = processor.compileGroup(makeGroup([{ keyword: 'Error' }], { expression: '#5' }));
+
+            assert.ok(group.expression);
+            assert.strictEqual(processor.checkMatchCompiled('Error', [group]).isMatched, false, 'Falling back to the match mode would widen the output');
+            assert.strictEqual(reported.length, 1);
+            assert.ok(reported[0].includes('#5'));
+
+            processor.compileGroup(makeGroup([{ keyword: 'Error' }], { expression: '#5' }));
+            assert.strictEqual(reported.length, 1, 'Reported once, not on every compile');
+        } finally {
+            RegexUtils.reportError = originalReportError;
+        }
+    });
+
+    test('checkMatchCompiled: field filters combine with keywords and exclude on their own', () => {
+        const group = processor.compileGroup(makeGroup([
+            { keyword: 'level >= W', kind: 'field', field: { field: 'level', operator: '>=', value: 'W' } },
+            { keyword: 'Slow' },
+            { keyword: 'tag == Chatty', kind: 'field', field: { field: 'tag', operator: '==', value: 'Chatty' }, type: 'exclude' }
+        ], { matchMode: 'all' }));
+
+        assert.strictEqual(processor.checkMatchCompiled('01-31 13:45:10.123  1234  5678 W AM: Slow start', [group]).isMatched, true);
+        assert.strictEqual(processor.checkMatchCompiled('01-31 13:45:10.123  1234  5678 I AM: Slow start', [group]).isMatched, false);
+        assert.strictEqual(processor.checkMatchCompiled('01-31 13:45:10.123  1234  5678 E Chatty: Slow start', [group]).isMatched, false);
+    });
 });
@@ -1,7 +1,11 @@
 import * as assert from 'assert';
 import * as path from 'path';
 import * as fs from 'fs';
+import * as os from 'os';
+import * as vscode from 'vscode';
 import { LogProcessor } from '../../services/LogProcessor';
+import { SourceMapService } from '../../services/SourceMapService';
+import { FileHierarchyService } from '../../services/FileHierarchyService';
 import { FilterGroup, FilterItem, FilterType } from '../../models/Filter';
 // Mock VS Codde
 
@@ -213,4 +217,62 @@ suite('LogProcessor Integration Test Suite', () => {
             fs.unlinkSync(result.outputPath);
         }
     });
+
+    test('processFile: Progress and Cancellation', async () => {
+        const filterGroup = createGroup('g1', 'Error Group');
+        filterGroup.filters.push(createFilter('f1', 'Error', 'include'));
+
+        // 1. Progress is reported up to the full file size
+        const totalBytes = fs.statSync(sampleLogPath).size;
+        let lastBytesRead = 0;
+        const result = await processor.processFile(sampleLogPath, [filterGroup], {
+            onProgress: (bytesRead) => { lastBytesRead = bytesRead; }
+        });
+        assert.strictEqual(lastBytesRead, totalBytes);
+        fs.unlinkSync(result.outputPath);
+
+        // 2. A cancelled run rejects with CancellationError
+        const tokenSource = new vscode.CancellationTokenSource();
+        tokenSource.cancel();
+        await assert.rejects(
+            processor.processFile(sampleLogPath, [filterGroup], { token: tokenSource.token }),
+            vscode.CancellationError
+        );
+        tokenSource.dispose();
+    });
+
+    test('mergeFiles: Filtered results of a merged source map back to the original files', async () => {
+        const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'logmerge_'));
+        const olderPath = path.join(tmpDir, 'app.log.1');
+        const newerPath = path.join(tmpDir, 'app.log');
+        fs.writeFileSync(olderPath, 'INFO old\nERROR old failure\n');
+        fs.writeFileSync(newerPath, 'ERROR new failure\nINFO new\n');
+
+        const merged = await processor.mergeFiles([{ path: olderPath }, { path: newerPath }], 'concat');
+        const mergedUri = vscode.Uri.file(merged.outputPath);
+        assert.strictEqual(fs.readFileSync(merged.outputPath, 'utf8'), 'INFO old\nERROR old failure\nERROR new failure\nINFO new\n');
+        assert.deepStrictEqual(FileHierarchyService.getInstance().getSources(mergedUri).map(uri => uri.fsPath), [olderPath, newerPath]);
+
+        const filterGroup = createGroup('g1', 'Error Group');
+        filterGroup.filters.push(createFilter('f1', 'ERROR', 'include'));
+        const result = await processor.processFile(merged.outputPath, [filterGroup]);
+        const filteredUri = vscode.Uri.file(result.outputPath);
+
+        const sourceMapService = SourceMapService.getInstance();
+        sourceMapService.registerMerged(mergedUri, merged.sourceUris, merged.sourceIndexes, merged.lineMapping);
+        sourceMapService.register(filteredUri, mergedUri, result.lineMapping);
+
+        const first = sourceMapService.getOriginalLocation(filteredUri, 0);
+        const second = sourceMapService.getOriginalLocation(filteredUri, 1);
+        assert.strictEqual(first?.uri.fsPath, olderPath);
+        assert.strictEqual(first?.range.start.line, 1);
+        assert.strictEqual(second?.uri.fsPath, newerPath);
+        assert.strictEqual(second?.range.start.line, 0);
+
+        sourceMapService.unregister(filteredUri);
+        sourceMapService.unregister(mergedUri);
+        fs.unlinkSync(result.outputPath);
+        fs.unlinkSync(merged.outputPath);
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
 });
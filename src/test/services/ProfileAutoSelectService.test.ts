@@ -0,0 +1,75 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { FilterManager } from '../../services/FilterManager';
+import { Logger } from '../../services/Logger';
+import { ProfileAutoSelectService, ProfileRule } from '../../services/ProfileAutoSelectService';
+
+suite('ProfileAutoSelectService Test Suite', () => {
+    let service: ProfileAutoSelectService;
+    let activeProfile: string;
+    let loadedProfiles: string[];
+    let rules: ProfileRule[];
+    let originalGetConfiguration: typeof vscode.workspace.getConfiguration;
+
+    setup(() => {
+        activeProfile = 'Default';
+        loadedProfiles = [];
+        rules = [];
+        originalGetConfiguration = vscode.workspace.getConfiguration;
+        // @ts-expect-error Mocking for test
+        vscode.workspace.getConfiguration = () => ({
+            get: (key: string) => {
+                if (key === 'profiles.autoSelect') { return rules; }
+                if (key === 'profiles.autoSelectLines') { return 2; }
+                return undefined;
+            }
+        });
+
+        const filterManager = {
+            getActiveProfile: () => activeProfile,
+            loadProfile: async (name: string) => {
+                loadedProfiles.push(name);
+                activeProfile = name;
+                return true;
+            },
+            onDidChangeProfile: () => ({ dispose: () => { } })
+        } as unknown as FilterManager;
+        const logger = { info: () => { }, warn: () => { }, error: () => { } } as unknown as Logger;
+        service = new ProfileAutoSelectService(filterManager, logger);
+    });
+
+    teardown(() => {
+        service.dispose();
+        vscode.workspace.getConfiguration = originalGetConfiguration;
+    });
+
+    test('findRule returns the first rule whose patterns all match', async () => {
+        const document = await vscode.workspace.openTextDocument({ content: '--------- beginning of main\n01-01 00:00:00.000 I/Tag: hello\nGET /health 200' });
+        rules = [
+            { profile: 'Backend', contentPattern: 'GET /\\w+ \\d{3}' }, // Beyond the lines scanned
+            { profile: 'Logs', filePattern: '*.log', contentPattern: 'beginning of' }, // Untitled, not a .log file
+            { profile: 'Logcat', contentPattern: '^-+ beginning of \\w+' },
+            { profile: 'Other', contentPattern: 'hello' }
+        ];
+        assert.strictEqual(service.findRule(document)?.profile, 'Logcat');
+
+        rules = [{ profile: 'Empty' }, { profile: 'Invalid', contentPattern: '(' }];
+        assert.strictEqual(service.findRule(document), undefined);
+    });
+
+    test('a pinned profile stops automatic switching', async () => {
+        rules = [{ profile: 'Logcat', contentPattern: 'beginning of' }];
+        await service.togglePin();
+        assert.strictEqual(service.getPinnedProfile(), 'Default');
+
+        const document = await vscode.workspace.openTextDocument({ content: '--------- beginning of main' });
+        await vscode.window.showTextDocument(document);
+        await new Promise(resolve => setTimeout(resolve, 100));
+        assert.deepStrictEqual(loadedProfiles, []);
+
+        await service.togglePin();
+        assert.strictEqual(service.getPinnedProfile(), undefined);
+        assert.deepStrictEqual(loadedProfiles, ['Logcat']);
+        await vscode.commands.executeCommand('workbench.action.closeActiveEditor');
+    });
+});
@@ -1,4 +1,5 @@
 import * as assert from 'assert';
+import * as vscode from 'vscode';
 
 import { FilterManager } from '../../services/FilterManager';
 import { Constants } from '../../Constants';
@@ -134,4 +135,83 @@ suite('Profile Integration Test Suite', () => {
         await filterManager.loadProfile(Constants.Labels.DefaultProfile);
         assert.strictEqual(filterManager.getGroups().find(g => g.name === 'Export Group'), undefined, 'Default profile should not receive imported groups from another profile');
     });
+
+    test('Profile Layers', async () => {
+        // 1. Setup the layer profile
+        await filterManager.createProfile('Noise');
+        const noiseGroup = filterManager.addGroup('Noise Group', false)!;
+        filterManager.addFilter(noiseGroup.id, 'chatty', 'exclude');
+        filterManager.toggleGroup(noiseGroup.id); // Groups are added disabled
+        await wait(350);
+
+        // 2. Inherit it from another profile
+        await filterManager.createProfile('App');
+        await filterManager.setProfileLayers(['Noise']);
+        const inherited = filterManager.getGroups().find(g => g.name === 'Noise Group');
+        assert.strictEqual(inherited?.inheritedFrom, 'Noise');
+        assert.ok(filterManager.getActiveFilters().some(f => f.filter.keyword === 'chatty'), 'Inherited filters should apply');
+
+        // 3. Inherited groups are read-only
+        filterManager.addFilter(inherited.id, 'ignored', 'exclude');
+        assert.strictEqual(inherited.filters.length, 1);
+
+        // 4. Override locally
+        const local = filterManager.overrideGroup(inherited.id)!;
+        assert.strictEqual(local.inheritedFrom, undefined);
+        filterManager.addFilter(local.id, 'local', 'exclude');
+        assert.deepStrictEqual(filterManager.getGroups().filter(g => g.name === 'Noise Group').map(g => g.filters.length), [2]);
+        await wait(350);
+
+        // 5. The layer profile is unchanged, and removing the override restores the inherited group
+        const storedNoise = (await filterManager.profileManagerRef.getProfileGroups('Noise'))!.find(g => g.name === 'Noise Group')!;
+        assert.strictEqual(storedNoise.filters.length, 1);
+        filterManager.removeGroup(local.id);
+        assert.strictEqual(filterManager.getGroups().find(g => g.name === 'Noise Group')?.inheritedFrom, 'Noise');
+    });
+
+    test('Edit History per Profile', async () => {
+        // 1. Edits in Default
+        const group = filterManager.addGroup('History Group', false)!;
+        filterManager.addFilter(group.id, 'first', 'include');
+        filterManager.renameGroup(group.id, 'Renamed Group');
+        assert.ok(filterManager.canUndo());
+        assert.ok(!filterManager.canRedo());
+
+        // 2. Undo the rename, then the added filter
+        assert.ok(filterManager.undo());
+        assert.ok(filterManager.getGroups().some(g => g.name === 'History Group'));
+        assert.ok(filterManager.undo());
+        assert.strictEqual(filterManager.getGroups().find(g => g.id === group.id)?.filters.length, 0);
+
+        // 3. Redo restores the filter; a new edit drops what is left to redo
+        assert.ok(filterManager.redo());
+        assert.strictEqual(filterManager.getGroups().find(g => g.id === group.id)?.filters[0].keyword, 'first');
+        filterManager.toggleGroup(group.id);
+        assert.ok(!filterManager.canRedo());
+        await wait(350);
+
+        // 4. Another profile has a history of its own
+        await filterManager.createProfile('History B');
+        assert.ok(!filterManager.canUndo(), 'A new profile starts without history');
+        filterManager.addGroup('B Group', false);
+        assert.ok(filterManager.undo());
+        assert.ok(!filterManager.getGroups().some(g => g.name === 'B Group'));
+        assert.ok(!filterManager.undo());
+        await wait(350);
+
+        // 5. Back in Default, its edits can still be undone
+        await filterManager.loadProfile(Constants.Labels.DefaultProfile);
+        assert.ok(filterManager.undo());
+        assert.strictEqual(filterManager.getGroups().find(g => g.id === group.id)?.isEnabled, false);
+    });
+
+    test('Workspace profiles need an open folder', async () => {
+        if (vscode.workspace.workspaceFolders?.length) {
+            return; // The test instance runs without a folder; the file would be written into it otherwise
+        }
+
+        assert.strictEqual(await filterManager.saveProfileToWorkspace('Shared'), false);
+        assert.ok(!filterManager.getProfileNames().includes('Shared'));
+        assert.ok(filterManager.getProfilesMetadata().every(p => !p.isWorkspace));
+    });
 });
@@ -0,0 +1,47 @@
+import * as assert from 'assert';
+import { FilterGroup } from '../../models/Filter';
+import { LayeredProfile, ProfileLayerCore } from '../../services/ProfileLayerCore';
+
+suite('ProfileLayerCore Test Suite', () => {
+    const group = (id: string, keyword: string = id): FilterGroup => ({
+        id,
+        name: id,
+        isEnabled: true,
+        filters: [{ id: `${id}_f`, keyword, type: 'exclude', isEnabled: true }]
+    });
+
+    const profiles: Record<string, LayeredProfile> = {
+        Base: { groups: [group('noise'), group('spam')] },
+        Android: { groups: [group('logcat'), group('spam', 'chatty')], layers: ['Base'] },
+        App: { groups: [group('app'), group('noise', 'local')], layers: ['Android', 'Missing'] },
+        Loop: { groups: [group('loop')], layers: ['Loop2'] },
+        Loop2: { groups: [group('loop2')], layers: ['Loop'] }
+    };
+    const getProfile = (name: string) => profiles[name];
+
+    test('getEffectiveGroups puts deeper layers first and lets own groups override inherited ones', () => {
+        const groups = ProfileLayerCore.getEffectiveGroups('App', getProfile)!;
+        assert.deepStrictEqual(groups.map(g => [g.id, g.inheritedFrom, g.filters[0].keyword]), [
+            ['spam', 'Android', 'chatty'], // Android overrides the group of its own layer
+            ['logcat', 'Android', 'logcat'],
+            ['app', undefined, 'app'],
+            ['noise', undefined, 'local']
+        ]);
+        assert.strictEqual(ProfileLayerCore.getEffectiveGroups('Missing', getProfile), undefined);
+    });
+
+    test('getInheritedGroups copies groups and skips cycles back to the profile', () => {
+        const inherited = ProfileLayerCore.getInheritedGroups('Loop', ['Loop2'], profiles.Loop.groups, getProfile);
+        assert.deepStrictEqual(inherited.map(g => g.id), ['loop2']);
+
+        inherited[0].filters[0].resultCount = 5;
+        assert.strictEqual(profiles.Loop2.groups[0].filters[0].resultCount, undefined);
+        assert.strictEqual(profiles.Loop2.groups[0].inheritedFrom, undefined);
+    });
+
+    test('getLayerNames lists direct and indirect layers once', () => {
+        assert.deepStrictEqual(ProfileLayerCore.getLayerNames('App', getProfile), ['Android', 'Base']);
+        assert.deepStrictEqual(ProfileLayerCore.getLayerNames('Loop', getProfile), ['Loop2']);
+        assert.deepStrictEqual(ProfileLayerCore.getLayerNames('Base', getProfile), []);
+    });
+});
@@ -0,0 +1,77 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Worker } from 'worker_threads';
+import { FilterRunRequest, LogFilterCore } from '../../services/LogFilterCore';
+import { FilterWorkerData } from '../../services/LogFilterWorker';
+import { RegexWatch, SlowFilterError } from '../../services/RegexWatch';
+
+suite('RegexWatch Test Suite', () => {
+    let inputPath: string;
+    let outputPath: string;
+
+    const createRequest = (): FilterRunRequest => ({
+        inputPath,
+        outputPath,
+        compiledGroups: [{
+            includes: [
+                { regex: /ERROR/g, contextLine: 0, filterId: 'fast' },
+                { regex: /^(a+)+$/g, contextLine: 0, filterId: 'slow' }
+            ],
+            excludes: []
+        }],
+        prependLineNumbers: false,
+        totalLineCount: 999999
+    });
+
+    setup(() => {
+        const suffix = Math.random().toString(36).substring(7);
+        inputPath = path.join(os.tmpdir(), `regexwatch_in_${suffix}.log`);
+        outputPath = path.join(os.tmpdir(), `regexwatch_out_${suffix}.log`);
+        fs.writeFileSync(inputPath, `INFO start\n${'a'.repeat(40)}b\nERROR one\n`);
+    });
+
+    teardown(() => {
+        for (const p of [inputPath, outputPath]) {
+            fs.rmSync(p, { force: true });
+        }
+    });
+
+    test('findSlowFilter names the filter whose regex is stuck on a line in the worker', async () => {
+        const request = createRequest();
+        const watch = new RegexWatch();
+        assert.strictEqual(watch.findSlowFilter(request, 0), undefined);
+
+        const workerPath = path.join(__dirname, '../../services/LogFilterWorker.js');
+        const worker = new Worker(workerPath, { workerData: { request, watchBuffer: watch.buffer } satisfies FilterWorkerData });
+        try {
+            const filterId = await new Promise<string | undefined>(resolve => {
+                const started = Date.now();
+                const timer = setInterval(() => {
+                    const slow = watch.findSlowFilter(request, 100);
+                    if (slow || Date.now() - started > 5000) {
+                        clearInterval(timer);
+                        resolve(slow);
+                    }
+                }, 20);
+            });
+            assert.strictEqual(filterId, 'slow');
+        } finally {
+            await worker.terminate();
+        }
+    });
+
+    test('bound stops a run on this thread at the filter whose regex is stuck on a line', async () => {
+        const request = createRequest();
+        RegexWatch.bound(request, 100);
+
+        await assert.rejects(LogFilterCore.run(request), (e: unknown) => e instanceof SlowFilterError && e.filterId === 'slow');
+        assert.strictEqual(fs.existsSync(outputPath), false, 'The partial output is deleted');
+
+        const fast = createRequest();
+        fast.compiledGroups[0].includes.pop();
+        RegexWatch.bound(fast, 100);
+        assert.strictEqual((await LogFilterCore.run(fast)).matched, 1);
+    });
+});
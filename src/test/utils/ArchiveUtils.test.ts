@@ -0,0 +1,154 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { ArchiveUtils } from '../../utils/ArchiveUtils';
+
+// Minimal archive builders (no CRC validation is done by the reader)
+function tarHeader(name: string, size: number, type: string = '0'): Buffer {
+    const header = Buffer.alloc(512);
+    header.write(name, 0, 100, 'utf8');
+    header.write(size.toString(8).padStart(11, '0') + '\0', 124, 12, 'latin1');
+    header.write(type, 156, 1, 'latin1');
+    header.write('ustar\0', 257, 6, 'latin1');
+    return header;
+}
+
+function buildTar(files: { name: string, content: string }[]): Buffer {
+    const parts: Buffer[] = [];
+    for (const file of files) {
+        const data = Buffer.from(file.content);
+        parts.push(tarHeader(file.name, data.length), data, Buffer.alloc((512 - (data.length % 512)) % 512));
+    }
+    parts.push(Buffer.alloc(1024));
+    return Buffer.concat(parts);
+}
+
+function buildZip(files: { name: string, content: string, deflate: boolean }[]): Buffer {
+    const locals: Buffer[] = [];
+    const centrals: Buffer[] = [];
+    let offset = 0;
+    for (const file of files) {
+        const name = Buffer.from(file.name);
+        const raw = Buffer.from(file.content);
+        const data = file.deflate ? zlib.deflateRawSync(raw) : raw;
+
+        const local = Buffer.alloc(30);
+        local.writeUInt32LE(0x04034b50, 0);
+        local.writeUInt16LE(file.deflate ? 8 : 0, 8);
+        local.writeUInt32LE(data.length, 18);
+        local.writeUInt32LE(raw.length, 22);
+        local.writeUInt16LE(name.length, 26);
+        locals.push(local, name, data);
+
+        const central = Buffer.alloc(46);
+        central.writeUInt32LE(0x02014b50, 0);
+        central.writeUInt16LE(file.deflate ? 8 : 0, 10);
+        central.writeUInt32LE(data.length, 20);
+        central.writeUInt32LE(raw.length, 24);
+        central.writeUInt16LE(name.length, 28);
+        central.writeUInt32LE(offset, 42);
+        centrals.push(central, name);
+
+        offset += 30 + name.length + data.length;
+    }
+    const cd = Buffer.concat(centrals);
+    const eocd = Buffer.alloc(22);
+    eocd.writeUInt32LE(0x06054b50, 0);
+    eocd.writeUInt16LE(files.length, 8);
+    eocd.writeUInt16LE(files.length, 10);
+    eocd.writeUInt32LE(cd.length, 12);
+    eocd.writeUInt32LE(offset, 16);
+    return Buffer.concat([...locals, cd, eocd]);
+}
+
+suite('ArchiveUtils Test Suite', () => {
+    const tmpFiles: string[] = [];
+
+    const writeTemp = (name: string, data: Buffer) => {
+        const filePath = path.join(os.tmpdir(), `archiveutils_${Math.random().toString(36).substring(7)}_${name}`);
+        fs.writeFileSync(filePath, data);
+        tmpFiles.push(filePath);
+        return filePath;
+    };
+
+    teardown(() => {
+        while (tmpFiles.length > 0) {
+            fs.rmSync(tmpFiles.pop()!, { force: true });
+        }
+    });
+
+    test('getFormat detects formats by extension', () => {
+        assert.strictEqual(ArchiveUtils.getFormat('a/app.log.gz'), 'gzip');
+        assert.strictEqual(ArchiveUtils.getFormat('bundle.TAR.GZ'), 'tar.gz');
+        assert.strictEqual(ArchiveUtils.getFormat('bundle.tgz'), 'tar.gz');
+        assert.strictEqual(ArchiveUtils.getFormat('bundle.tar'), 'tar');
+        assert.strictEqual(ArchiveUtils.getFormat('bundle.zip'), 'zip');
+        assert.strictEqual(ArchiveUtils.getFormat('app.log'), undefined);
+        assert.strictEqual(ArchiveUtils.hasEntries('app.log.gz'), false);
+    });
+
+    test('gzip files are decompressed', async () => {
+        const gzPath = writeTemp('app.log.gz', zlib.gzipSync('line 1\nline 2\n'));
+        assert.strictEqual(await ArchiveUtils.readEntryText(gzPath), 'line 1\nline 2\n');
+        assert.deepStrictEqual((await ArchiveUtils.listEntries(gzPath)).map(e => e.name), [path.basename(gzPath, '.gz')]);
+    });
+
+    test('tar.gz entries are listed and extracted', async () => {
+        const tar = buildTar([
+            { name: 'logs/main.log', content: 'main log\n' },
+            { name: 'logs/radio.log', content: 'radio '.repeat(200) }
+        ]);
+        const tgzPath = writeTemp('bundle.tar.gz', zlib.gzipSync(tar));
+
+        const entries = await ArchiveUtils.listEntries(tgzPath);
+        assert.deepStrictEqual(entries.map(e => e.name), ['logs/main.log', 'logs/radio.log']);
+        assert.strictEqual(await ArchiveUtils.readEntryText(tgzPath, 'logs/radio.log'), 'radio '.repeat(200));
+        await assert.rejects(ArchiveUtils.readEntryText(tgzPath, 'missing.log'));
+    });
+
+    test('zip entries are listed and extracted (stored and deflated)', async () => {
+        const zipPath = writeTemp('bundle.zip', buildZip([
+            { name: 'a.log', content: 'stored content\n', deflate: false },
+            { name: 'dir/', content: '', deflate: false },
+            { name: 'dir/b.log', content: 'deflated content\n'.repeat(50), deflate: true }
+        ]));
+
+        const entries = await ArchiveUtils.listEntries(zipPath);
+        assert.deepStrictEqual(entries.map(e => e.name), ['a.log', 'dir/b.log'], 'Directories are skipped');
+        assert.strictEqual(await ArchiveUtils.readEntryText(zipPath, 'a.log'), 'stored content\n');
+        assert.strictEqual(await ArchiveUtils.readEntryText(zipPath, 'dir/b.log'), 'deflated content\n'.repeat(50));
+    });
+
+    test('ZIP64 archives are rejected instead of read at wrong offsets', async () => {
+        const entryZip = buildZip([{ name: 'huge.log', content: 'content\n', deflate: false }]);
+        const cdStart = entryZip.length - 22 - 46 - 'huge.log'.length;
+        entryZip.writeUInt32LE(0xffffffff, cdStart + 20); // Compressed size in the ZIP64 extra field
+        const entryZipPath = writeTemp('entry64.zip', entryZip);
+        await assert.rejects(ArchiveUtils.listEntries(entryZipPath), /ZIP64 archives are not supported/);
+        await assert.rejects(ArchiveUtils.openInput(entryZipPath, 'huge.log'), /ZIP64 archives are not supported/);
+
+        const directoryZip = buildZip([{ name: 'a.log', content: 'content\n', deflate: false }]);
+        directoryZip.writeUInt32LE(0xffffffff, directoryZip.length - 22 + 16); // Central directory offset
+        await assert.rejects(ArchiveUtils.listEntries(writeTemp('directory64.zip', directoryZip)), /ZIP64 archives are not supported/);
+    });
+
+    test('readEntryText decodes characters split across chunks', async () => {
+        // Three-byte characters after one byte cannot all end on a chunk boundary
+        const content = `x${'日本'.repeat(20000)}\n`;
+        const gzPath = writeTemp('wide.log.gz', zlib.gzipSync(Buffer.from(content)));
+        assert.strictEqual(await ArchiveUtils.readEntryText(gzPath), content);
+    });
+
+    test('readEntryText detects the encoding like filtering does', async () => {
+        const utf16 = Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from('UTF-16 line\n', 'utf16le')]);
+        assert.strictEqual(await ArchiveUtils.readEntryText(writeTemp('utf16.log.gz', zlib.gzipSync(utf16))), 'UTF-16 line\n');
+
+        const utf8Bom = Buffer.concat([Buffer.from([0xef, 0xbb, 0xbf]), Buffer.from('BOM line\n')]);
+        assert.strictEqual(await ArchiveUtils.readEntryText(writeTemp('bom.log.gz', zlib.gzipSync(utf8Bom))), 'BOM line\n', 'The byte order mark is not part of the text');
+
+        const latin1 = writeTemp('latin1.log.gz', zlib.gzipSync(Buffer.from('caf\xe9\n', 'latin1')));
+        assert.strictEqual(await ArchiveUtils.readEntryText(latin1, undefined, 'windows-1252'), 'caf\u00e9\n');
+    });
+});
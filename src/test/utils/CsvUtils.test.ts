@@ -0,0 +1,11 @@
+import * as assert from 'assert';
+import { CsvUtils } from '../../utils/CsvUtils';
+
+suite('CsvUtils Test Suite', () => {
+    test('format quotes fields holding the delimiter, quotes or line breaks', () => {
+        const rows = [['Line', 'user'], ['12', 'a,b'], ['13', 'say "hi"'], ['14', 'two\nlines']];
+
+        assert.strictEqual(CsvUtils.format(rows, 'csv'), 'Line,user\r\n12,"a,b"\r\n13,"say ""hi"""\r\n14,"two\nlines"\r\n');
+        assert.strictEqual(CsvUtils.format([['a,b', 'c\td']], 'tsv'), 'a,b\t"c\td"\r\n');
+    });
+});
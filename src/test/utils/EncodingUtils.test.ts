@@ -0,0 +1,25 @@
+import * as assert from 'assert';
+import { EncodingUtils } from '../../utils/EncodingUtils';
+
+suite('EncodingUtils Test Suite', () => {
+
+    test('detects byte order marks, UTF-16 without one and UTF-8', () => {
+        assert.strictEqual(EncodingUtils.detect(Buffer.from([0xff, 0xfe, 0x41, 0x00])), 'utf-16le');
+        assert.strictEqual(EncodingUtils.detect(Buffer.from([0xfe, 0xff, 0x00, 0x41])), 'utf-16be');
+        assert.strictEqual(EncodingUtils.detect(Buffer.from('ERROR one\nINFO two\n', 'utf16le')), 'utf-16le');
+        assert.strictEqual(EncodingUtils.detect(Buffer.from('ERROR ログ', 'utf8'), 'shift_jis'), 'utf-8');
+        // "エラー" in Shift-JIS is not valid UTF-8
+        const shiftJis = Buffer.from([0x83, 0x47, 0x83, 0x89, 0x81, 0x5b]);
+        assert.strictEqual(EncodingUtils.detect(shiftJis, 'shift_jis'), 'shift_jis');
+        assert.strictEqual(EncodingUtils.detect(shiftJis), 'utf-8');
+    });
+
+    test('maps VS Code encoding ids to decoder labels', () => {
+        assert.strictEqual(EncodingUtils.fromVsCodeEncoding('shiftjis'), 'shift_jis');
+        assert.strictEqual(EncodingUtils.fromVsCodeEncoding('windows1252'), 'windows-1252');
+        assert.strictEqual(EncodingUtils.fromVsCodeEncoding('iso88592'), 'iso-8859-2');
+        assert.strictEqual(EncodingUtils.fromVsCodeEncoding('utf16le'), 'utf-16le');
+        assert.strictEqual(EncodingUtils.fromVsCodeEncoding('gbk'), 'gbk');
+        assert.strictEqual(EncodingUtils.fromVsCodeEncoding('unknown'), undefined);
+    });
+});
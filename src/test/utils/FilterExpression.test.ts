@@ -0,0 +1,62 @@
+import * as assert from 'assert';
+import { FilterExpression } from '../../utils/FilterExpression';
+import { FilterItem } from '../../models/Filter';
+
+suite('FilterExpression Test Suite', () => {
+    const filters: FilterItem[] = [
+        { id: 'f1', keyword: 'Error', type: 'include', isEnabled: true },
+        { id: 'f2', keyword: 'Auth failed', type: 'include', isEnabled: true },
+        { id: 'f3', keyword: '^\\d+', type: 'include', isEnabled: true, isRegex: true, nickname: 'Number' }
+    ];
+
+    const evaluate = (expression: string, matched: number[]) =>
+        FilterExpression.evaluate(FilterExpression.parse(expression, filters), index => matched.includes(index));
+
+    test('parse resolves positional, quoted and named references', () => {
+        const terms = FilterExpression.collectTerms(FilterExpression.parse('#1 OR "auth failed" OR number', filters));
+        assert.deepStrictEqual([...terms].sort(), [0, 1, 2]);
+    });
+
+    test('words named like object members are references, not operators', () => {
+        const members: FilterItem[] = ['constructor', 'toString', 'valueOf', '__proto__'].map((keyword, i) => ({ id: `m${i}`, keyword, type: 'include', isEnabled: true }));
+        const root = FilterExpression.parse('constructor AND toString OR valueOf AND NOT __proto__', members);
+        assert.deepStrictEqual([...FilterExpression.collectTerms(root)].sort(), [0, 1, 2, 3]);
+        assert.ok(FilterExpression.validate('constructor', filters)?.includes('constructor'), 'Unknown member names are unresolved references');
+    });
+
+    test('format saves references as IDs and shows them as positions', () => {
+        const saved = FilterExpression.format('(#1 or "auth failed") && !Number', filters, 'id');
+        assert.strictEqual(saved, '(@f1 OR @f2) AND NOT @f3');
+        assert.strictEqual(FilterExpression.format(saved, filters, 'position'), '(#1 OR #2) AND NOT #3');
+
+        // Reordered: the saved expression still means the same filters
+        const reordered = [filters[2], filters[0], filters[1]];
+        assert.strictEqual(FilterExpression.format(saved, reordered, 'position'), '(#2 OR #3) AND NOT #1');
+        assert.deepStrictEqual([...FilterExpression.collectTerms(FilterExpression.parse(saved, reordered))].sort(), [0, 1, 2]);
+
+        // Deleted: the expression no longer parses, instead of pointing at another filter
+        const remaining = [filters[0], filters[2]];
+        assert.strictEqual(FilterExpression.validate(saved, remaining), 'A filter used in the expression was deleted');
+        assert.strictEqual(FilterExpression.format(saved, remaining, 'position'), '(#1 OR #?) AND NOT #2');
+    });
+
+    test('AND binds tighter than OR', () => {
+        assert.strictEqual(evaluate('#1 OR #2 AND #3', [0]), true);
+        assert.strictEqual(evaluate('(#1 OR #2) AND #3', [0]), false);
+    });
+
+    test('NOT and symbolic operators', () => {
+        assert.strictEqual(evaluate('#1 && !#2', [0]), true);
+        assert.strictEqual(evaluate('#1 && !#2', [0, 1]), false);
+        assert.strictEqual(evaluate('not #1 || #3', [2]), true);
+    });
+
+    test('validate reports syntax and reference errors', () => {
+        assert.strictEqual(FilterExpression.validate('#1 AND (#2 OR #3)', filters), undefined);
+        assert.ok(FilterExpression.validate('#1 AND', filters));
+        assert.ok(FilterExpression.validate('(#1 OR #2', filters));
+        assert.ok(FilterExpression.validate('#4', filters));
+        assert.ok(FilterExpression.validate('missing', filters));
+        assert.ok(FilterExpression.validate('   ', filters));
+    });
+});
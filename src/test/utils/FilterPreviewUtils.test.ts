@@ -0,0 +1,24 @@
+import * as assert from 'assert';
+import { FilterPreviewUtils } from '../../utils/FilterPreviewUtils';
+
+suite('FilterPreviewUtils Test Suite', () => {
+    const lines = ['INFO start', 'ERROR disk full', 'INFO idle', 'ERROR timeout', 'error lower case'];
+
+    test('scan counts all matching lines and returns the first ones', () => {
+        const result = FilterPreviewUtils.scan(lines, /ERROR/gi, { maxMatches: 2, timeBudgetMs: 1000 });
+
+        assert.strictEqual(result.matchCount, 3);
+        assert.deepStrictEqual(result.matches, [{ line: 1, text: 'ERROR disk full' }, { line: 3, text: 'ERROR timeout' }]);
+        assert.strictEqual(result.scannedLines, lines.length);
+        assert.strictEqual(result.timedOut, false);
+    });
+
+    test('scan stops a pattern that backtracks catastrophically', () => {
+        const result = FilterPreviewUtils.scan(['(a+)+ hit', `${'a'.repeat(40)}!`, 'never reached'], /^(a+)+$|hit/g, { maxMatches: 10, timeBudgetMs: 50 });
+
+        assert.strictEqual(result.timedOut, true);
+        assert.strictEqual(result.scannedLines, 1);
+        assert.strictEqual(result.matchCount, 1, 'Lines scanned before the budget ran out are counted');
+        assert.ok(result.elapsedMs < 5000);
+    });
+});
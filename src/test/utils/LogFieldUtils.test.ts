@@ -0,0 +1,50 @@
+import * as assert from 'assert';
+import { LogFieldUtils } from '../../utils/LogFieldUtils';
+
+suite('LogFieldUtils Test Suite', () => {
+
+    test('parses logcat, syslog and JSON lines into fields', () => {
+        assert.deepStrictEqual(LogFieldUtils.parseFields('01-31 13:45:10.123  1234  5678 W ActivityManager: Slow operation', 'auto'), {
+            date: '01-31', time: '13:45:10.123', pid: '1234', tid: '5678', level: 'W', tag: 'ActivityManager', message: 'Slow operation'
+        });
+        assert.deepStrictEqual(LogFieldUtils.parseFields('E/AndroidRuntime( 4321): FATAL EXCEPTION: main', 'logcatBrief'), {
+            level: 'E', tag: 'AndroidRuntime', pid: '4321', message: 'FATAL EXCEPTION: main'
+        });
+        assert.strictEqual(LogFieldUtils.parseFields('Jan 31 13:45:10 host sshd[99]: Accepted key', 'syslog')?.tag, 'sshd');
+        assert.deepStrictEqual(LogFieldUtils.parseFields('{"level":"warn","http":{"status":503},"ok":false}', 'auto'), {
+            'level': 'warn', 'http.status': '503', 'ok': 'false'
+        });
+        assert.strictEqual(LogFieldUtils.parseFields('plain text', 'auto'), undefined);
+    });
+
+    test('parses condition text', () => {
+        assert.deepStrictEqual(LogFieldUtils.parseCondition('level >= W'), { field: 'level', operator: '>=', value: 'W' });
+        assert.deepStrictEqual(LogFieldUtils.parseCondition('pid in (1234, 5678)'), { field: 'pid', operator: 'in', value: '(1234, 5678)' });
+        assert.deepStrictEqual(LogFieldUtils.parseCondition('message matches a>=b|c'), { field: 'message', operator: 'matches', value: 'a>=b|c' });
+        assert.throws(() => LogFieldUtils.parseCondition('level'), /Expected a condition/);
+        assert.throws(() => LogFieldUtils.parseCondition('level =='), /Missing value/);
+    });
+
+    test('compares levels by severity, numbers numerically and text exactly', () => {
+        const line = '01-31 13:45:10.123  1234  5678 W ActivityManager: Slow operation took 120ms';
+        const test = (text: string) => LogFieldUtils.testCondition(line, LogFieldUtils.compileCondition(LogFieldUtils.parseCondition(text), 'auto'));
+
+        assert.strictEqual(test('level >= W'), true);
+        assert.strictEqual(test('level > warning'), false);
+        assert.strictEqual(test('level < E'), true);
+        assert.strictEqual(test('pid in (1234, 5678)'), true);
+        assert.strictEqual(test('pid > 999'), true);
+        assert.strictEqual(test('tag == ActivityManager'), true);
+        assert.strictEqual(test('tag == activitymanager'), false);
+        assert.strictEqual(test('message contains took'), true);
+        assert.strictEqual(test('message matches \\d+ms$'), true);
+        assert.strictEqual(test('host != x'), false, 'Missing fields never match');
+    });
+
+    test('custom patterns use their named groups', () => {
+        const condition = LogFieldUtils.compileCondition({ field: 'status', operator: '>=', value: '500' }, 'custom', /"\w+ \S+" (?<status>\d{3})/);
+
+        assert.strictEqual(LogFieldUtils.testCondition('1.2.3.4 "GET /api" 503 12ms', condition), true);
+        assert.strictEqual(LogFieldUtils.testCondition('1.2.3.4 "GET /api" 200 3ms', condition), false);
+    });
+});
@@ -0,0 +1,39 @@
+import * as assert from 'assert';
+import { LogTemplateUtils } from '../../utils/LogTemplateUtils';
+
+suite('LogTemplateUtils Test Suite', () => {
+
+    test('masks numbers, hex values and UUIDs', () => {
+        assert.strictEqual(
+            LogTemplateUtils.normalize('01-31 13:45:10.123 Request 3f2504e0-4f89-11d3-9a0c-0305e82c3301 took 12.5ms at 0x7ffd1234'),
+            '<num>-<num> <num>:<num>:<num> Request <uuid> took <num>ms at <hex>'
+        );
+        assert.strictEqual(LogTemplateUtils.normalize('object a1b2c3d4e5 freed'), 'object <hex> freed');
+        // Words made of hex letters only are kept
+        assert.strictEqual(LogTemplateUtils.normalize('deadbeef cafe'), 'deadbeef cafe');
+    });
+
+    test('creates message templates from volatile tokens and matches other instances', () => {
+        const line = 'Request 3f2504e0-4f89-11d3-9a0c-0305e82c3301 by worker2 took 150ms at 0x7ffd1234 (retry 3)';
+        const tokens = LogTemplateUtils.findVolatileTokens(line);
+        assert.deepStrictEqual(tokens.map(t => [t.text, t.placeholder]), [
+            ['3f2504e0-4f89-11d3-9a0c-0305e82c3301', '<uuid>'],
+            ['150ms', '<dur>'],
+            ['0x7ffd1234', '<hex>'],
+            ['3', '<num>']
+        ]);
+
+        const template = LogTemplateUtils.toTemplate(line);
+        assert.strictEqual(template, 'Request <uuid> by worker2 took <dur> at <hex> (retry <num>)');
+        assert.strictEqual(LogTemplateUtils.toTemplate(line, tokens.slice(1, 2)), line.replace('150ms', '<dur>'), 'Unchecked tokens stay literal');
+
+        const regex = new RegExp(LogTemplateUtils.toPattern(template));
+        assert.ok(regex.test('Request 00000000-0000-0000-0000-000000000000 by worker2 took 2.5s at 0xdead (retry 12)'));
+        assert.ok(!regex.test('Request 00000000-0000-0000-0000-000000000000 by worker3 took 2.5s at 0xdead (retry 12)'));
+    });
+
+    test('formats the occurrence count of collapsed lines', () => {
+        assert.strictEqual(LogTemplateUtils.formatRepeat('Retrying', 1), 'Retrying');
+        assert.strictEqual(LogTemplateUtils.formatRepeat('Retrying', 1500), 'Retrying (×1500)');
+    });
+});
@@ -0,0 +1,32 @@
+import * as assert from 'assert';
+import { RecordUtils } from '../../utils/RecordUtils';
+
+suite('RecordUtils Test Suite', () => {
+
+    test('none and empty custom patterns disable records', () => {
+        assert.strictEqual(RecordUtils.getStartPattern('none'), undefined);
+        assert.strictEqual(RecordUtils.getStartPattern(undefined), undefined);
+        assert.strictEqual(RecordUtils.getStartPattern('custom', '  '), undefined);
+        assert.throws(() => RecordUtils.getStartPattern('custom', '(unclosed'));
+    });
+
+    test('logcat preset keeps crash stack lines with their record', () => {
+        const pattern = RecordUtils.getStartPattern('logcat')!;
+        assert.ok(pattern.test('01-31 13:45:10.123  1234  1234 E AndroidRuntime: FATAL EXCEPTION: main'));
+        assert.ok(pattern.test('01-31 13:45:10.200  1234  1250 I ActivityManager: Start proc'));
+        assert.ok(!pattern.test('01-31 13:45:10.123  1234  1234 E AndroidRuntime: \tat com.example.Main.run(Main.java:10)'));
+        assert.ok(!pattern.test('01-31 13:45:10.123  1234  1234 E AndroidRuntime: Caused by: java.lang.NullPointerException'));
+        assert.ok(!pattern.test('\tat com.example.Main.run(Main.java:10)'));
+    });
+
+    test('log4j and iso presets match record first lines only', () => {
+        const log4j = RecordUtils.getStartPattern('log4j')!;
+        assert.ok(log4j.test('2024-01-31 13:45:10,123 [main] ERROR com.example.App - failed'));
+        assert.ok(log4j.test('2024-01-31 13:45:10.123 WARN  retrying'));
+        assert.ok(!log4j.test('java.lang.IllegalStateException: boom'));
+
+        const iso = RecordUtils.getStartPattern('iso')!;
+        assert.ok(iso.test('[2024-01-31T13:45:10Z] message'));
+        assert.ok(!iso.test('    at Main.run'));
+    });
+});
@@ -57,4 +57,95 @@ suite('RegexUtils Test Suite', () => {
         // Both should work
         assert.strictEqual(regex1.source, regex2.source);
     });
+
+    test('validate reports the patterns create rejects', () => {
+        assert.strictEqual(RegexUtils.validate('ERROR (\\d+)', true), undefined);
+        assert.strictEqual(RegexUtils.validate('(unclosed', false), undefined, 'Word keywords are escaped');
+        assert.ok(RegexUtils.validate('(unclosed', true));
+        assert.strictEqual(RegexUtils.validate('(\\d+)+ms', true), undefined, 'Nested quantifiers are allowed; runs are time-boxed instead');
+    });
+
+    test('findAll returns match positions and stops catastrophic backtracking', () => {
+        assert.deepStrictEqual(RegexUtils.findAll(/ab/g, 'ab xab', 1000), { matches: [0, 2, 4, 2], timedOut: false });
+        assert.deepStrictEqual(RegexUtils.findAll(/x*/g, 'ab', 1000).matches, [0, 0, 1, 0, 2, 0], 'Empty matches advance');
+
+        const slow = RegexUtils.findAll(/^(a+)+$/g, `${'a'.repeat(40)}!`, 50);
+        assert.strictEqual(slow.timedOut, true);
+        assert.deepStrictEqual(RegexUtils.findAll(/b/g, 'ab', 1000), { matches: [1, 1], timedOut: false }, 'Evaluation works after a timeout');
+    });
+
+    test('findAllByLine spends the time budget on each line', () => {
+        // Each line takes a few milliseconds, far less than the budget, but all of them together take longer
+        const slowLine = `${'a'.repeat(18)}!`;
+        const text = Array(100).fill(slowLine).join('\n');
+        const regex = /^(a+)+$|!/gm;
+        const timeoutMs = 100;
+        assert.strictEqual(RegexUtils.findAll(regex, text, timeoutMs).timedOut, true);
+
+        const found = RegexUtils.findAllByLine(regex, text, timeoutMs);
+        assert.strictEqual(found.timedOut, false);
+        assert.strictEqual(found.matches.length, 200);
+        assert.deepStrictEqual(found.matches.slice(0, 4), [18, 1, 38, 1], 'Positions are relative to the whole text');
+
+        assert.strictEqual(RegexUtils.findAllByLine(/^(a+)+$/gm, `ok\n${'a'.repeat(40)}!`, timeoutMs).timedOut, true);
+    });
+
+    test('testLinesByLine spends the time budget on each line', () => {
+        const lines = Array(100).fill(`${'a'.repeat(18)}!`);
+        lines[50] = 'ok!';
+        const regex = /^(a+)+$|ok/g;
+        const timeoutMs = 100;
+        assert.strictEqual(RegexUtils.testLines(regex, lines, lines.length, timeoutMs).timedOut, true);
+
+        assert.deepStrictEqual(RegexUtils.testLinesByLine(regex, lines, timeoutMs), { matches: [50], timedOut: false });
+        assert.strictEqual(RegexUtils.testLinesByLine(/^(a+)+$/g, ['ok', `${'a'.repeat(40)}!`], timeoutMs).timedOut, true);
+    });
+
+    test('exec evaluates once within the time budget', () => {
+        const regex = /b(\d)/g;
+        regex.lastIndex = 3;
+        const { match, timedOut } = RegexUtils.exec(regex, 'b1 b2', 100);
+        assert.strictEqual(timedOut, false);
+        assert.strictEqual(match?.index, 3);
+        assert.strictEqual(match?.[1], '2');
+        assert.strictEqual(regex.lastIndex, 5);
+
+        assert.deepStrictEqual(RegexUtils.exec(/^(a+)+$/, `${'a'.repeat(40)}!`, 50), { match: null, timedOut: true });
+    });
+
+    test('create applies whole word, wildcard, template and keyword list options to word keywords', () => {
+        const wholeWord = RegexUtils.create('ANR', false, true, { wholeWord: true });
+        assert.ok(wholeWord.test('ANR in com.app'));
+        wholeWord.lastIndex = 0;
+        assert.ok(!wholeWord.test('TRANSACTION ANRS'));
+
+        const wildcard = RegexUtils.create('Conn*Timeout', false, false, { wildcard: true });
+        assert.deepStrictEqual('x ConnectTimeout and connection timeout'.match(wildcard), ['ConnectTimeout', 'connection timeout']);
+        assert.ok(RegexUtils.create('v?.2', false, false, { wildcard: true }).test('v1.2'));
+        assert.ok(!RegexUtils.create('v?.2', false, false).test('v1.2'), 'Wildcards are literal unless enabled');
+
+        const list = RegexUtils.create('Wifi\n  Wifi-Service \n\nBluetooth', false, true, { wholeWord: true });
+        assert.deepStrictEqual('Wifi-Service up, Bluetooth off, WifiManager idle'.match(list), ['Wifi-Service', 'Bluetooth']);
+        assert.deepStrictEqual(RegexUtils.getKeywords('Wifi\n  Wifi-Service \n\nBluetooth'), ['Wifi', 'Wifi-Service', 'Bluetooth']);
+        assert.deepStrictEqual(RegexUtils.getKeywords(' ERROR '), [' ERROR '], 'A single keyword is kept as is');
+
+        const template = RegexUtils.create('Took <dur> for job <num>', false, false, { template: true });
+        assert.ok(template.test('took 1.5s for job 42'));
+        assert.ok(!RegexUtils.create('Took <dur> for job <num>', false, false).test('took 1.5s for job 42'), 'Placeholders are literal unless enabled');
+        assert.strictEqual(RegexUtils.create('a*b', true, true, { wildcard: true, wholeWord: true }).source, 'a*b', 'Regex keywords ignore the options');
+    });
+
+    test('getKey changes with every option that changes the regex', () => {
+        const key = RegexUtils.getKey('a*b', false, false);
+        assert.notStrictEqual(RegexUtils.getKey('a*b', false, false, { wholeWord: true }), key);
+        assert.notStrictEqual(RegexUtils.getKey('a*b', false, false, { wildcard: true }), key);
+        assert.notStrictEqual(RegexUtils.getKey('a*b', false, false, { template: true }), key);
+        assert.strictEqual(RegexUtils.getKey('a*b', true, false, { wildcard: true }), RegexUtils.getKey('a*b', true, false), 'Regex keywords ignore the options');
+    });
+
+    test('getCaptureGroups lists named and numbered groups, skipping other parentheses', () => {
+        assert.deepStrictEqual(RegexUtils.getCaptureGroups('latency=(\\d+)ms user=(?<user>\\w+)'), [undefined, 'user']);
+        assert.deepStrictEqual(RegexUtils.getCaptureGroups('(?:a|b)(?=c)(?<!d)\\(x\\)[(]'), []);
+        assert.strictEqual(RegexUtils.getCaptureGroups('(a(b))').length, 2);
+    });
 });
@@ -0,0 +1,56 @@
+import * as assert from 'assert';
+import { TimestampUtils } from '../../utils/TimestampUtils';
+
+suite('TimestampUtils Test Suite', () => {
+
+    test('parses ISO 8601-like timestamps', () => {
+        assert.strictEqual(TimestampUtils.parse('2024-01-31T13:45:10.123Z INFO start'), Date.UTC(2024, 0, 31, 13, 45, 10, 123));
+        assert.strictEqual(TimestampUtils.parse('[2024-01-31 13:45:10,5] WARN'), Date.UTC(2024, 0, 31, 13, 45, 10, 500));
+        assert.strictEqual(TimestampUtils.parse('2024-01-31T13:45:10+09:00 boot'), Date.UTC(2024, 0, 31, 4, 45, 10));
+    });
+
+    test('parses syslog and logcat timestamps with the default year', () => {
+        assert.strictEqual(TimestampUtils.parse('Jan  3 07:08:09 host kernel: eth0 up', 2023), Date.UTC(2023, 0, 3, 7, 8, 9));
+        assert.strictEqual(TimestampUtils.parse('01-31 13:45:10.123  1234  5678 E Tag: boom', 2023), Date.UTC(2023, 0, 31, 13, 45, 10, 123));
+    });
+
+    test('returns undefined for lines without a leading timestamp', () => {
+        assert.strictEqual(TimestampUtils.parse('    at com.example.Main.run(Main.java:10)'), undefined);
+        assert.strictEqual(TimestampUtils.parse(`${'x'.repeat(80)} 2024-01-31T13:45:10Z`), undefined);
+    });
+
+    test('parses time range bounds with their granularity and span', () => {
+        assert.deepStrictEqual(TimestampUtils.parseBound('14:02:10.500'), { text: '14:02:10.500', time: Date.UTC(2000, 0, 1, 14, 2, 10, 500), granularity: 'time', span: 1 });
+        assert.strictEqual(TimestampUtils.parseBound('14:03')?.span, 60000);
+        assert.strictEqual(TimestampUtils.parseBound('01-31 14:02:10')?.granularity, 'date');
+        assert.strictEqual(TimestampUtils.parseBound('2024-01-31T14:02:10Z')?.granularity, 'full');
+        assert.strictEqual(TimestampUtils.parseBound('25:00'), undefined);
+        assert.strictEqual(TimestampUtils.parseBound('yesterday'), undefined);
+    });
+
+    test('testRange includes the whole end bound and inherits timestamps on continuation lines', () => {
+        const range = TimestampUtils.compileRange({ start: '14:02:10.500', end: '14:03:00' });
+
+        assert.strictEqual(TimestampUtils.testRange('    orphan line before any timestamp', range), false);
+        assert.strictEqual(TimestampUtils.testRange('2024-01-31 14:02:10,499 INFO a', range), false);
+        assert.strictEqual(TimestampUtils.testRange('2024-01-31 14:02:10,500 INFO b', range), true);
+        assert.strictEqual(TimestampUtils.testRange('    at Main.run(Main.java:10)', range), true);
+        assert.strictEqual(TimestampUtils.testRange('2024-01-31 14:03:00,999 INFO c', range), true);
+        assert.strictEqual(TimestampUtils.testRange('2024-01-31 14:03:01,000 INFO d', range), false);
+    });
+
+    test('testRange wraps time-of-day windows past midnight and supports custom patterns', () => {
+        const overnight = TimestampUtils.compileRange({ start: '23:00', end: '01:00' });
+        assert.strictEqual(TimestampUtils.testRange('Jan 31 23:30:00 host a', overnight), true);
+        assert.strictEqual(TimestampUtils.testRange('Feb  1 00:30:00 host b', overnight), true);
+        assert.strictEqual(TimestampUtils.testRange('Feb  1 12:00:00 host c', overnight), false);
+
+        const custom = TimestampUtils.compileRange({ start: '10:00', pattern: String.raw`^(?<hour>\d{2})(?<minute>\d{2})(?<second>\d{2}) ` });
+        assert.strictEqual(TimestampUtils.testRange('095959 I early', custom), false);
+        assert.strictEqual(TimestampUtils.testRange('100000 I late', custom), true);
+    });
+
+    test('compileRange rejects unrecognized bounds', () => {
+        assert.throws(() => TimestampUtils.compileRange({ start: 'noon' }), /start time/);
+    });
+});
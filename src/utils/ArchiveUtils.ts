@@ -0,0 +1,519 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { Readable, Transform, TransformCallback } from 'stream';
+import { EncodingUtils } from './EncodingUtils';
+
+// This module must stay free of 'vscode' imports: LogFilterCore uses it inside the filter worker.
+
+export type ArchiveFormat = 'gzip' | 'zip' | 'tar' | 'tar.gz';
+
+export interface ArchiveEntry {
+    name: string; // Path inside the archive
+    size: number; // Uncompressed size in bytes (-1 if unknown)
+}
+
+/**
+ * A readable (decompressed) log source.
+ * Progress is measured on the underlying file, so `bytesRead` / `totalBytes` refer to compressed bytes.
+ */
+export interface LogInputStream {
+    stream: Readable;
+    bytesRead: () => number;
+    totalBytes: number;
+    destroy: () => void;
+}
+
+interface ZipEntry extends ArchiveEntry {
+    method: number;
+    compressedSize: number;
+    localHeaderOffset: number;
+}
+
+const ZIP_EOCD_SIGNATURE = 0x06054b50;
+const ZIP_CD_SIGNATURE = 0x02014b50;
+const ZIP_LOCAL_SIGNATURE = 0x04034b50;
+// A field holding this value has its real value in a ZIP64 record, which is not read
+const ZIP64_MARKER_16 = 0xffff;
+const ZIP64_MARKER_32 = 0xffffffff;
+const TAR_BLOCK_SIZE = 512;
+
+export class ArchiveUtils {
+
+    /**
+     * Detects the archive format from the file name.
+     * @returns The format, or undefined for plain files.
+     */
+    public static getFormat(filePath: string): ArchiveFormat | undefined {
+        const lower = filePath.toLowerCase();
+        if (lower.endsWith('.tar.gz') || lower.endsWith('.tgz')) {
+            return 'tar.gz';
+        }
+        if (lower.endsWith('.tar')) {
+            return 'tar';
+        }
+        if (lower.endsWith('.gz')) {
+            return 'gzip';
+        }
+        if (lower.endsWith('.zip')) {
+            return 'zip';
+        }
+        return undefined;
+    }
+
+    public static isArchive(filePath: string): boolean {
+        return ArchiveUtils.getFormat(filePath) !== undefined;
+    }
+
+    /**
+     * Whether the format contains multiple entries, so one has to be chosen before reading.
+     */
+    public static hasEntries(filePath: string): boolean {
+        const format = ArchiveUtils.getFormat(filePath);
+        return format === 'zip' || format === 'tar' || format === 'tar.gz';
+    }
+
+    /**
+     * Lists the regular file entries of an archive.
+     * A gzip file has exactly one entry, named after the file without its '.gz' extension.
+     */
+    public static async listEntries(filePath: string): Promise<ArchiveEntry[]> {
+        switch (ArchiveUtils.getFormat(filePath)) {
+            case 'gzip':
+                return [{ name: path.basename(filePath).replace(/\.gz$/i, ''), size: -1 }];
+            case 'zip':
+                return (await ArchiveUtils.readZipDirectory(filePath)).map(e => ({ name: e.name, size: e.size }));
+            case 'tar':
+            case 'tar.gz':
+                return ArchiveUtils.readTarDirectory(filePath);
+            default:
+                throw new Error(`Not an archive: ${filePath}`);
+        }
+    }
+
+    /**
+     * Opens a log source for streaming. Plain files are read as-is, gzip files are decompressed
+     * and for zip/tar archives the given entry is extracted on the fly.
+     * @param end Reads a plain file only up to this byte offset (exclusive), e.g. when it is still being written
+     * @throws Error if the entry does not exist or uses an unsupported compression.
+     */
+    public static async openInput(filePath: string, entryName?: string, end?: number): Promise<LogInputStream> {
+        const format = ArchiveUtils.getFormat(filePath);
+
+        if (format === 'zip') {
+            return ArchiveUtils.openZipEntry(filePath, ArchiveUtils.requireEntry(filePath, entryName));
+        }
+
+        if (!format && end !== undefined) {
+            return ArchiveUtils.openRange(filePath, end);
+        }
+
+        const totalBytes = (await fs.promises.stat(filePath)).size;
+        const raw = fs.createReadStream(filePath);
+        let stream: Readable = raw;
+
+        if (format === 'gzip' || format === 'tar.gz') {
+            stream = ArchiveUtils.pipeWithErrors(raw, zlib.createGunzip());
+        }
+        if (format === 'tar' || format === 'tar.gz') {
+            const extractor = new TarEntryExtractor(ArchiveUtils.requireEntry(filePath, entryName));
+            stream = ArchiveUtils.pipeWithErrors(stream, extractor);
+            // Stop reading the rest of the archive once the entry is complete
+            extractor.on('end', () => raw.destroy());
+        }
+
+        return {
+            stream,
+            bytesRead: () => raw.bytesRead,
+            totalBytes,
+            destroy: () => {
+                stream.destroy();
+                raw.destroy();
+            }
+        };
+    }
+
+    private static openRange(filePath: string, end: number): LogInputStream {
+        // createReadStream cannot express an empty range
+        const raw = end > 0 ? fs.createReadStream(filePath, { start: 0, end: end - 1 }) : Readable.from([]);
+        return {
+            stream: raw,
+            bytesRead: () => raw instanceof fs.ReadStream ? raw.bytesRead : 0,
+            totalBytes: end,
+            destroy: () => raw.destroy()
+        };
+    }
+
+    /**
+     * Reads a whole (decompressed) entry as text, for the document that shows it in an editor.
+     * Filtering streams the entry with `openInput` instead. The encoding is detected the same way
+     * (see `EncodingUtils.detect`), so that the lines of the document are the lines filtered.
+     * @param fallbackEncoding - Encoding of text that is not valid UTF-8, e.g. the `files.encoding` of the archive
+     */
+    public static async readEntryText(filePath: string, entryName?: string, fallbackEncoding?: string): Promise<string> {
+        const input = await ArchiveUtils.openInput(filePath, entryName);
+        // Decoded as it arrives, so that the compressed and decoded forms are not held at the same time
+        const decoder = EncodingUtils.createDecodingStream(undefined, fallbackEncoding);
+        let text = '';
+        try {
+            for await (const chunk of ArchiveUtils.pipeWithErrors(input.stream, decoder)) {
+                text += chunk;
+            }
+        } finally {
+            input.destroy();
+        }
+        return text;
+    }
+
+    private static requireEntry(filePath: string, entryName: string | undefined): string {
+        if (!entryName) {
+            throw new Error(`No entry selected in archive ${path.basename(filePath)}`);
+        }
+        return entryName;
+    }
+
+    private static pipeWithErrors(source: Readable, target: Transform): Transform {
+        source.on('error', err => target.destroy(err));
+        return source.pipe(target);
+    }
+
+    private static async readZipDirectory(filePath: string): Promise<ZipEntry[]> {
+        const handle = await fs.promises.open(filePath, 'r');
+        try {
+            const { size } = await handle.stat();
+
+            // The end of central directory record sits in the last 22 bytes + up to 64KB of comment.
+            const tailSize = Math.min(size, 22 + 0xffff);
+            const tail = Buffer.alloc(tailSize);
+            await handle.read(tail, 0, tailSize, size - tailSize);
+
+            let eocd = -1;
+            for (let i = tailSize - 22; i >= 0; i--) {
+                if (tail.readUInt32LE(i) === ZIP_EOCD_SIGNATURE) {
+                    eocd = i;
+                    break;
+                }
+            }
+            if (eocd === -1) {
+                throw new Error(`Invalid zip file: ${path.basename(filePath)}`);
+            }
+
+            const entryCount = tail.readUInt16LE(eocd + 10);
+            const cdSize = tail.readUInt32LE(eocd + 12);
+            const cdOffset = tail.readUInt32LE(eocd + 16);
+            // Disk numbers, entry counts, directory size or offset that do not fit are in the ZIP64 end of central directory
+            const isZip64 = [4, 6, 8, 10].some(field => tail.readUInt16LE(eocd + field) === ZIP64_MARKER_16)
+                || cdSize === ZIP64_MARKER_32 || cdOffset === ZIP64_MARKER_32;
+            if (isZip64) {
+                throw ArchiveUtils.zip64Error(filePath);
+            }
+
+            const cd = Buffer.alloc(cdSize);
+            await handle.read(cd, 0, cdSize, cdOffset);
+
+            const entries: ZipEntry[] = [];
+            let pos = 0;
+            for (let i = 0; i < entryCount && pos + 46 <= cd.length; i++) {
+                if (cd.readUInt32LE(pos) !== ZIP_CD_SIGNATURE) {
+                    throw new Error(`Corrupt zip central directory: ${path.basename(filePath)}`);
+                }
+                const flags = cd.readUInt16LE(pos + 8);
+                const method = cd.readUInt16LE(pos + 10);
+                const compressedSize = cd.readUInt32LE(pos + 20);
+                const uncompressedSize = cd.readUInt32LE(pos + 24);
+                const nameLength = cd.readUInt16LE(pos + 28);
+                const extraLength = cd.readUInt16LE(pos + 30);
+                const commentLength = cd.readUInt16LE(pos + 32);
+                const diskStart = cd.readUInt16LE(pos + 34);
+                const localHeaderOffset = cd.readUInt32LE(pos + 42);
+                const name = cd.toString('utf8', pos + 46, pos + 46 + nameLength);
+                pos += 46 + nameLength + extraLength + commentLength;
+
+                // Entries of 4 GB or more, or beyond it, keep their sizes and offset in a ZIP64 extra field
+                if (compressedSize === ZIP64_MARKER_32 || uncompressedSize === ZIP64_MARKER_32
+                    || localHeaderOffset === ZIP64_MARKER_32 || diskStart === ZIP64_MARKER_16) {
+                    throw ArchiveUtils.zip64Error(filePath);
+                }
+
+                const isDirectory = name.endsWith('/');
+                const isEncrypted = (flags & 0x1) !== 0;
+                if (!isDirectory && !isEncrypted) {
+                    entries.push({ name, size: uncompressedSize, method, compressedSize, localHeaderOffset });
+                }
+            }
+            return entries;
+        } finally {
+            await handle.close();
+        }
+    }
+
+    private static zip64Error(filePath: string): Error {
+        return new Error(`ZIP64 archives are not supported: ${path.basename(filePath)}`);
+    }
+
+    private static async openZipEntry(filePath: string, entryName: string): Promise<LogInputStream> {
+        const entry = (await ArchiveUtils.readZipDirectory(filePath)).find(e => e.name === entryName);
+        if (!entry) {
+            throw new Error(`Entry '${entryName}' not found in ${path.basename(filePath)}`);
+        }
+        if (entry.method !== 0 && entry.method !== 8) {
+            throw new Error(`Unsupported zip compression method ${entry.method} for '${entryName}'`);
+        }
+
+        // The local header repeats name/extra fields with possibly different lengths than the central directory.
+        const handle = await fs.promises.open(filePath, 'r');
+        const header = Buffer.alloc(30);
+        try {
+            await handle.read(header, 0, 30, entry.localHeaderOffset);
+        } finally {
+            await handle.close();
+        }
+        if (header.readUInt32LE(0) !== ZIP_LOCAL_SIGNATURE) {
+            throw new Error(`Corrupt zip entry header for '${entryName}'`);
+        }
+        const dataStart = entry.localHeaderOffset + 30 + header.readUInt16LE(26) + header.readUInt16LE(28);
+
+        const raw = fs.createReadStream(filePath, {
+            start: dataStart,
+            // An empty range is not expressible with 'end', read nothing in that case
+            end: Math.max(dataStart, dataStart + entry.compressedSize - 1)
+        });
+        let stream: Readable = raw;
+        if (entry.compressedSize === 0) {
+            raw.destroy();
+            stream = Readable.from([]);
+        } else if (entry.method === 8) {
+            stream = ArchiveUtils.pipeWithErrors(raw, zlib.createInflateRaw());
+        }
+
+        return {
+            stream,
+            bytesRead: () => raw.bytesRead,
+            totalBytes: entry.compressedSize,
+            destroy: () => {
+                stream.destroy();
+                raw.destroy();
+            }
+        };
+    }
+
+    private static async readTarDirectory(filePath: string): Promise<ArchiveEntry[]> {
+        const entries: ArchiveEntry[] = [];
+        const raw = fs.createReadStream(filePath);
+        const source: Readable = ArchiveUtils.getFormat(filePath) === 'tar.gz'
+            ? ArchiveUtils.pipeWithErrors(raw, zlib.createGunzip())
+            : raw;
+
+        const parser = new TarParser({
+            onEntry: entry => {
+                entries.push(entry);
+                return false;
+            },
+            onData: () => { /* listing only */ },
+            onEntryEnd: () => { /* listing only */ }
+        });
+
+        try {
+            for await (const chunk of source) {
+                if (!parser.write(chunk as Buffer)) {
+                    break;
+                }
+            }
+        } finally {
+            raw.destroy();
+        }
+        return entries;
+    }
+}
+
+interface TarParserCallbacks {
+    // Returns true if the entry's data should be passed to onData
+    onEntry: (entry: ArchiveEntry) => boolean;
+    onData: (chunk: Buffer) => void;
+    onEntryEnd: () => void;
+}
+
+/**
+ * Incremental tar (ustar / GNU / pax) parser. Only regular files are reported as entries.
+ */
+class TarParser {
+    private buffer: Buffer = Buffer.alloc(0);
+    private remaining = 0; // Data bytes left in the current record
+    private padding = 0; // Padding bytes left after the current record
+    private current: { kind: 'file' | 'longname' | 'pax' | 'skip', emit: boolean, chunks: Buffer[] } | undefined;
+    private nextName: string | undefined; // From a preceding GNU long name or pax header
+    private ended = false;
+
+    constructor(private callbacks: TarParserCallbacks) { }
+
+    /**
+     * Feeds more archive bytes.
+     * @returns false once the end-of-archive marker has been reached.
+     */
+    public write(chunk: Buffer): boolean {
+        if (this.ended) {
+            return false;
+        }
+        this.buffer = this.buffer.length === 0 ? chunk : Buffer.concat([this.buffer, chunk]);
+
+        while (this.buffer.length > 0) {
+            if (this.remaining > 0) {
+                const n = Math.min(this.remaining, this.buffer.length);
+                this.consumeData(this.buffer.subarray(0, n));
+                this.buffer = this.buffer.subarray(n);
+                this.remaining -= n;
+                if (this.remaining === 0) {
+                    this.finishRecord();
+                }
+                continue;
+            }
+
+            if (this.padding > 0) {
+                const n = Math.min(this.padding, this.buffer.length);
+                this.buffer = this.buffer.subarray(n);
+                this.padding -= n;
+                continue;
+            }
+
+            if (this.buffer.length < TAR_BLOCK_SIZE) {
+                break;
+            }
+
+            const header = this.buffer.subarray(0, TAR_BLOCK_SIZE);
+            this.buffer = this.buffer.subarray(TAR_BLOCK_SIZE);
+
+            if (header.every(b => b === 0)) {
+                this.ended = true;
+                return false;
+            }
+            this.startRecord(header);
+        }
+        return true;
+    }
+
+    private startRecord(header: Buffer) {
+        const size = TarParser.readSize(header.subarray(124, 136));
+        const type = String.fromCharCode(header[156] || 0x30);
+        let name = TarParser.readString(header.subarray(0, 100));
+        const prefix = TarParser.readString(header.subarray(345, 500));
+        if (prefix && header.toString('latin1', 257, 262) === 'ustar') {
+            name = `${prefix}/${name}`;
+        }
+
+        if (type === '0' || type === '7') {
+            const entry: ArchiveEntry = { name: this.nextName ?? name, size };
+            this.nextName = undefined;
+            this.current = { kind: 'file', emit: this.callbacks.onEntry(entry), chunks: [] };
+        } else if (type === 'L') {
+            this.current = { kind: 'longname', emit: false, chunks: [] };
+        } else if (type === 'x') {
+            this.current = { kind: 'pax', emit: false, chunks: [] };
+        } else {
+            this.current = { kind: 'skip', emit: false, chunks: [] };
+        }
+
+        this.remaining = size;
+        this.padding = (TAR_BLOCK_SIZE - (size % TAR_BLOCK_SIZE)) % TAR_BLOCK_SIZE;
+        if (size === 0) {
+            this.finishRecord();
+        }
+    }
+
+    private consumeData(data: Buffer) {
+        if (!this.current) {
+            return;
+        }
+        if (this.current.kind === 'file') {
+            if (this.current.emit) {
+                this.callbacks.onData(data);
+            }
+        } else if (this.current.kind !== 'skip') {
+            this.current.chunks.push(Buffer.from(data));
+        }
+    }
+
+    private finishRecord() {
+        const record = this.current;
+        this.current = undefined;
+        if (!record) {
+            return;
+        }
+        if (record.kind === 'file') {
+            if (record.emit) {
+                this.callbacks.onEntryEnd();
+            }
+        } else if (record.kind === 'longname') {
+            this.nextName = TarParser.readString(Buffer.concat(record.chunks));
+        } else if (record.kind === 'pax') {
+            // Records look like "<length> <key>=<value>\n"
+            const match = /(?:^|\n)\d+ path=([^\n]*)\n/.exec(Buffer.concat(record.chunks).toString('utf8'));
+            if (match) {
+                this.nextName = match[1];
+            }
+        }
+    }
+
+    private static readString(buf: Buffer): string {
+        const end = buf.indexOf(0);
+        return buf.toString('utf8', 0, end === -1 ? buf.length : end);
+    }
+
+    private static readSize(buf: Buffer): number {
+        // GNU base-256 encoding for sizes >= 8GB
+        if (buf[0] & 0x80) {
+            let value = 0;
+            for (let i = 1; i < buf.length; i++) {
+                value = value * 256 + buf[i];
+            }
+            return value;
+        }
+        return parseInt(TarParser.readString(buf).trim() || '0', 8);
+    }
+}
+
+/**
+ * Transform that takes a tar stream and outputs only the content of one entry.
+ * Ends as soon as the entry is complete; errors if the archive ends without it.
+ */
+class TarEntryExtractor extends Transform {
+    private parser: TarParser;
+    private found = false;
+    private done = false;
+
+    constructor(private entryName: string) {
+        super();
+        this.parser = new TarParser({
+            onEntry: entry => {
+                if (!this.found && entry.name === this.entryName) {
+                    this.found = true;
+                    return true;
+                }
+                return false;
+            },
+            onData: chunk => this.push(chunk),
+            onEntryEnd: () => {
+                this.done = true;
+            }
+        });
+    }
+
+    _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+        if (this.done) {
+            callback();
+            return;
+        }
+        this.parser.write(chunk);
+        if (this.done) {
+            this.push(null);
+        }
+        callback();
+    }
+
+    _flush(callback: TransformCallback): void {
+        if (!this.found) {
+            callback(new Error(`Entry '${this.entryName}' not found in archive`));
+            return;
+        }
+        callback();
+    }
+}
@@ -0,0 +1,19 @@
+export type TableFormat = 'csv' | 'tsv';
+
+export class CsvUtils {
+    /**
+     * Writes rows as CSV or TSV with CRLF line breaks. Fields holding the delimiter, a quote or a
+     * line break are quoted as in RFC 4180, which spreadsheet applications also accept in TSV.
+     */
+    public static format(rows: string[][], format: TableFormat): string {
+        const delimiter = format === 'csv' ? ',' : '\t';
+        return rows.map(row => row.map(field => CsvUtils.quote(field, delimiter)).join(delimiter)).join('\r\n') + '\r\n';
+    }
+
+    private static quote(field: string, delimiter: string): string {
+        if (field.includes(delimiter) || /["\r\n]/.test(field)) {
+            return `"${field.replace(/"/g, '""')}"`;
+        }
+        return field;
+    }
+}
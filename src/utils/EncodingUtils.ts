@@ -0,0 +1,197 @@
+import { Transform, TransformCallback } from 'stream';
+import { TextDecoder } from 'util';
+
+// This module must stay free of 'vscode' imports: it is used by LogFilterCore in the filter worker.
+
+/**
+ * Encoding of filter output files. Other encodings can be read, but Node has no encoder for them.
+ */
+export type OutputEncoding = 'utf8' | 'utf8bom' | 'utf16le' | 'utf16be';
+
+const DETECTION_SAMPLE_SIZE = 64 * 1024;
+const UTF16_SAMPLE_SIZE = 4 * 1024;
+
+// VS Code `files.encoding` ids whose decoder label is not derived by the rules in `fromVsCodeEncoding`
+const VSCODE_ENCODING_LABELS: Record<string, string> = {
+    utf8bom: 'utf-8',
+    shiftjis: 'shift_jis',
+    eucjp: 'euc-jp',
+    euckr: 'euc-kr',
+    big5hkscs: 'big5',
+    gb2312: 'gbk',
+    macroman: 'macintosh',
+    cp866: 'ibm866'
+};
+
+export class EncodingUtils {
+
+    /**
+     * Maps a VS Code `files.encoding` id (e.g. 'shiftjis', 'windows1252', 'iso88592') to a label `TextDecoder` accepts.
+     * @returns undefined if the runtime cannot decode the encoding
+     */
+    public static fromVsCodeEncoding(id: string): string | undefined {
+        const label = VSCODE_ENCODING_LABELS[id] ?? id
+            .replace(/^utf(8|16le|16be)$/, (_m, rest: string) => `utf-${rest}`)
+            .replace(/^windows(\d+)$/, 'windows-$1')
+            .replace(/^iso8859(\d+)$/, 'iso-8859-$1')
+            .replace(/^koi8(\w)$/, 'koi8-$1');
+        return EncodingUtils.isSupported(label) ? label : undefined;
+    }
+
+    public static isSupported(label: string): boolean {
+        try {
+            new TextDecoder(label);
+            return true;
+        } catch (_e) {
+            return false;
+        }
+    }
+
+    /**
+     * Detects the encoding of the start of a file: a byte order mark first, then UTF-16 without
+     * one (zero bytes in every other position), then UTF-8. Text that is not valid UTF-8 is read
+     * with the fallback, e.g. the `files.encoding` of the source, or as UTF-8 if there is none.
+     * @returns A label `TextDecoder` accepts
+     */
+    public static detect(sample: Uint8Array, fallback?: string): string {
+        if (sample[0] === 0xef && sample[1] === 0xbb && sample[2] === 0xbf) {
+            return 'utf-8';
+        }
+        if (sample[0] === 0xff && sample[1] === 0xfe) {
+            return 'utf-16le';
+        }
+        if (sample[0] === 0xfe && sample[1] === 0xff) {
+            return 'utf-16be';
+        }
+
+        // ASCII text in UTF-16 has a zero byte in every other position
+        const pairs = Math.floor(Math.min(sample.length, UTF16_SAMPLE_SIZE) / 2);
+        let evenZeros = 0;
+        let oddZeros = 0;
+        for (let i = 0; i < pairs; i++) {
+            if (sample[i * 2] === 0) {
+                evenZeros++;
+            }
+            if (sample[i * 2 + 1] === 0) {
+                oddZeros++;
+            }
+        }
+        if (pairs > 0 && oddZeros > pairs * 0.3 && evenZeros < pairs * 0.05) {
+            return 'utf-16le';
+        }
+        if (pairs > 0 && evenZeros > pairs * 0.3 && oddZeros < pairs * 0.05) {
+            return 'utf-16be';
+        }
+
+        if (!fallback || fallback === 'utf-8' || EncodingUtils.isValidUtf8(sample)) {
+            return 'utf-8';
+        }
+        return fallback;
+    }
+
+    /**
+     * Creates a stream that turns the bytes of a file into text. Without an encoding, the encoding
+     * is detected from the first bytes (see `detect`). A byte order mark is not part of the text.
+     */
+    public static createDecodingStream(encoding?: string, fallback?: string): DecodingStream {
+        return new DecodingStream(encoding, fallback);
+    }
+
+    /**
+     * Converts text for writing to a file in the given encoding.
+     * Strings are returned as is, as Node streams write them as UTF-8.
+     */
+    public static encode(text: string, encoding: OutputEncoding): string | Buffer {
+        switch (encoding) {
+            case 'utf16le':
+                return Buffer.from(text, 'utf16le');
+            case 'utf16be':
+                return Buffer.from(text, 'utf16le').swap16();
+            default:
+                return text;
+        }
+    }
+
+    /**
+     * The byte order mark written at the start of an output file, so that editors recognize its encoding.
+     */
+    public static byteOrderMark(encoding: OutputEncoding): Buffer | undefined {
+        switch (encoding) {
+            case 'utf8bom':
+                return Buffer.from([0xef, 0xbb, 0xbf]);
+            case 'utf16le':
+                return Buffer.from([0xff, 0xfe]);
+            case 'utf16be':
+                return Buffer.from([0xfe, 0xff]);
+            default:
+                return undefined;
+        }
+    }
+
+    // A sequence cut off at the end of the sample does not make it invalid
+    private static isValidUtf8(sample: Uint8Array): boolean {
+        try {
+            new TextDecoder('utf-8', { fatal: true }).decode(sample, { stream: true });
+            return true;
+        } catch (_e) {
+            return false;
+        }
+    }
+}
+
+/**
+ * Decodes a byte stream into text chunks. Characters split across chunks are decoded once complete.
+ */
+class DecodingStream extends Transform {
+    private decoder: TextDecoder | undefined;
+    private sample: Buffer[] = [];
+    private sampleLength = 0;
+
+    constructor(encoding: string | undefined, private readonly fallback: string | undefined) {
+        super({ readableObjectMode: true });
+        if (encoding) {
+            this.decoder = new TextDecoder(encoding);
+        }
+    }
+
+    /**
+     * The encoding being decoded, once it is known.
+     */
+    public get encoding(): string | undefined {
+        return this.decoder?.encoding;
+    }
+
+    _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+        if (!this.decoder) {
+            // Collect enough of the file to detect its encoding
+            this.sample.push(chunk);
+            this.sampleLength += chunk.length;
+            if (this.sampleLength < DETECTION_SAMPLE_SIZE) {
+                callback();
+                return;
+            }
+            chunk = this.startDecoding();
+        }
+        this.pushText(this.decoder!.decode(chunk, { stream: true }));
+        callback();
+    }
+
+    _flush(callback: TransformCallback): void {
+        const rest = this.decoder ? undefined : this.startDecoding();
+        this.pushText(this.decoder!.decode(rest));
+        callback();
+    }
+
+    private startDecoding(): Buffer {
+        const sample = Buffer.concat(this.sample);
+        this.sample = [];
+        this.decoder = new TextDecoder(EncodingUtils.detect(sample, this.fallback));
+        return sample;
+    }
+
+    private pushText(text: string): void {
+        if (text.length > 0) {
+            this.push(text);
+        }
+    }
+}
@@ -0,0 +1,255 @@
+import { FilterItem } from '../models/Filter';
+
+export type FilterExpressionNode =
+    | { type: 'term', index: number }
+    | { type: 'not', operand: FilterExpressionNode }
+    | { type: 'and' | 'or', left: FilterExpressionNode, right: FilterExpressionNode };
+
+type Token =
+    | { kind: 'and' | 'or' | 'not' | 'lparen' | 'rparen' }
+    | { kind: 'ref', value: string, quoted: boolean };
+
+/**
+ * Parser and evaluator for group match expressions.
+ *
+ * Syntax: `AND` / `OR` / `NOT` (or `&&` / `||` / `!`) with parentheses over filter references.
+ * A reference is `#n` (1-based position in the group), `@id` (filter ID), a quoted string, or a bare word,
+ * where strings are resolved against the filter nickname first and then the keyword (case-insensitive).
+ *
+ * Groups save expressions with `@id` references, which keep pointing at their filters when filters are
+ * reordered or deleted; `#n` is what users type and see (see `format`).
+ *
+ * Example: `(#1 OR "Auth failed") AND NOT timeout`
+ */
+export class FilterExpression {
+    // A Map, so that words such as 'constructor' or 'toString' are references rather than inherited members
+    private static readonly OPERATORS: ReadonlyMap<string, 'and' | 'or' | 'not'> = new Map([
+        ['and', 'and'], ['&&', 'and'], ['&', 'and'],
+        ['or', 'or'], ['||', 'or'], ['|', 'or'],
+        ['not', 'not'], ['!', 'not']
+    ]);
+
+    /**
+     * Parses an expression and resolves its references against the given filters.
+     * @param expression The expression text.
+     * @param filters Filters of the group, in display order.
+     * @returns The expression tree. Term indices point into `filters`.
+     * @throws Error describing the first syntax error or unresolved reference.
+     */
+    public static parse(expression: string, filters: FilterItem[]): FilterExpressionNode {
+        const tokens = FilterExpression.tokenize(expression);
+        if (tokens.length === 0) {
+            throw new Error('Expression is empty');
+        }
+
+        let pos = 0;
+        const peek = () => tokens[pos];
+
+        const parseOr = (): FilterExpressionNode => {
+            let left = parseAnd();
+            while (peek()?.kind === 'or') {
+                pos++;
+                left = { type: 'or', left, right: parseAnd() };
+            }
+            return left;
+        };
+
+        const parseAnd = (): FilterExpressionNode => {
+            let left = parseUnary();
+            while (peek()?.kind === 'and') {
+                pos++;
+                left = { type: 'and', left, right: parseUnary() };
+            }
+            return left;
+        };
+
+        const parseUnary = (): FilterExpressionNode => {
+            const token = peek();
+            if (!token) {
+                throw new Error('Unexpected end of expression');
+            }
+            if (token.kind === 'not') {
+                pos++;
+                return { type: 'not', operand: parseUnary() };
+            }
+            if (token.kind === 'lparen') {
+                pos++;
+                const inner = parseOr();
+                if (peek()?.kind !== 'rparen') {
+                    throw new Error('Missing closing parenthesis');
+                }
+                pos++;
+                return inner;
+            }
+            if (token.kind === 'ref') {
+                pos++;
+                return { type: 'term', index: FilterExpression.resolve(token.value, token.quoted, filters) };
+            }
+            throw new Error(`Unexpected '${token.kind === 'rparen' ? ')' : token.kind.toUpperCase()}'`);
+        };
+
+        const root = parseOr();
+        if (pos < tokens.length) {
+            throw new Error('Unexpected token after end of expression');
+        }
+        return root;
+    }
+
+    /**
+     * Validates an expression without keeping the result.
+     * @returns An error message, or undefined if the expression is valid.
+     */
+    public static validate(expression: string, filters: FilterItem[]): string | undefined {
+        try {
+            FilterExpression.parse(expression, filters);
+            return undefined;
+        } catch (e) {
+            return e instanceof Error ? e.message : String(e);
+        }
+    }
+
+    /**
+     * Rewrites the references of an expression, e.g. to IDs for saving or to positions for showing and exporting.
+     * Operators are written as words; the structure and parentheses are kept.
+     * @param refs - 'id' for `@id` references, 'position' for `#n` references
+     * References that do not resolve are kept as written, except deleted `@id` references, which show as `#?`.
+     * @returns The rewritten expression, or the expression unchanged if it cannot be tokenized
+     */
+    public static format(expression: string, filters: FilterItem[], refs: 'id' | 'position'): string {
+        let tokens: Token[];
+        try {
+            tokens = FilterExpression.tokenize(expression);
+        } catch {
+            return expression;
+        }
+        return tokens.map(token => {
+            switch (token.kind) {
+                case 'lparen': return '(';
+                case 'rparen': return ')';
+                case 'ref': return FilterExpression.formatReference(token.value, token.quoted, filters, refs);
+                default: return token.kind.toUpperCase();
+            }
+        }).join(' ').replace(/\( /g, '(').replace(/ \)/g, ')');
+    }
+
+    private static formatReference(reference: string, quoted: boolean, filters: FilterItem[], refs: 'id' | 'position'): string {
+        try {
+            const index = FilterExpression.resolve(reference, quoted, filters);
+            return refs === 'id' ? `@${filters[index].id}` : `#${index + 1}`;
+        } catch {
+            if (refs === 'position' && !quoted && reference.startsWith('@')) {
+                return '#?';
+            }
+            return quoted ? `"${reference}"` : reference;
+        }
+    }
+
+    /**
+     * Evaluates an expression tree. Terms are evaluated lazily, so `isTermMatched`
+     * is only called for terms needed to decide the result.
+     */
+    public static evaluate(node: FilterExpressionNode, isTermMatched: (index: number) => boolean): boolean {
+        switch (node.type) {
+            case 'term':
+                return isTermMatched(node.index);
+            case 'not':
+                return !FilterExpression.evaluate(node.operand, isTermMatched);
+            case 'and':
+                return FilterExpression.evaluate(node.left, isTermMatched) && FilterExpression.evaluate(node.right, isTermMatched);
+            case 'or':
+                return FilterExpression.evaluate(node.left, isTermMatched) || FilterExpression.evaluate(node.right, isTermMatched);
+        }
+    }
+
+    /**
+     * Returns the distinct filter indices referenced by an expression tree.
+     */
+    public static collectTerms(node: FilterExpressionNode, result: Set<number> = new Set()): Set<number> {
+        if (node.type === 'term') {
+            result.add(node.index);
+        } else if (node.type === 'not') {
+            FilterExpression.collectTerms(node.operand, result);
+        } else {
+            FilterExpression.collectTerms(node.left, result);
+            FilterExpression.collectTerms(node.right, result);
+        }
+        return result;
+    }
+
+    private static tokenize(expression: string): Token[] {
+        const tokens: Token[] = [];
+        let i = 0;
+
+        while (i < expression.length) {
+            const ch = expression[i];
+
+            if (/\s/.test(ch)) {
+                i++;
+            } else if (ch === '(') {
+                tokens.push({ kind: 'lparen' });
+                i++;
+            } else if (ch === ')') {
+                tokens.push({ kind: 'rparen' });
+                i++;
+            } else if (ch === '"' || ch === '\'') {
+                const end = expression.indexOf(ch, i + 1);
+                if (end === -1) {
+                    throw new Error('Unterminated quoted reference');
+                }
+                tokens.push({ kind: 'ref', value: expression.substring(i + 1, end), quoted: true });
+                i = end + 1;
+            } else if (ch === '&' || ch === '|') {
+                const op = expression[i + 1] === ch ? ch + ch : ch;
+                tokens.push({ kind: FilterExpression.OPERATORS.get(op)! });
+                i += op.length;
+            } else if (ch === '!') {
+                tokens.push({ kind: 'not' });
+                i++;
+            } else {
+                let end = i;
+                while (end < expression.length && !/[\s()"'&|!]/.test(expression[end])) {
+                    end++;
+                }
+                const word = expression.substring(i, end);
+                const op = FilterExpression.OPERATORS.get(word.toLowerCase());
+                if (op && /^[a-z]+$/i.test(word)) {
+                    tokens.push({ kind: op });
+                } else {
+                    tokens.push({ kind: 'ref', value: word, quoted: false });
+                }
+                i = end;
+            }
+        }
+
+        return tokens;
+    }
+
+    private static resolve(reference: string, quoted: boolean, filters: FilterItem[]): number {
+        const positional = !quoted ? /^#(\d+)$/.exec(reference) : null;
+        if (positional) {
+            const index = parseInt(positional[1], 10) - 1;
+            if (index < 0 || index >= filters.length) {
+                throw new Error(`Filter #${positional[1]} does not exist (group has ${filters.length} filters)`);
+            }
+            return index;
+        }
+
+        const byId = !quoted ? /^@(.+)$/.exec(reference) : null;
+        if (byId) {
+            const index = filters.findIndex(f => f.id === byId[1]);
+            if (index !== -1) {
+                return index;
+            }
+        }
+
+        const needle = reference.toLowerCase();
+        let index = filters.findIndex(f => f.nickname?.toLowerCase() === needle);
+        if (index === -1) {
+            index = filters.findIndex(f => f.keyword.toLowerCase() === needle);
+        }
+        if (index === -1) {
+            throw new Error(byId ? 'A filter used in the expression was deleted' : `Unknown filter reference '${reference}'`);
+        }
+        return index;
+    }
+}
@@ -0,0 +1,33 @@
+import { RegexUtils } from './RegexUtils';
+
+export interface FilterPreviewResult {
+    matchCount: number; // Matching lines among the scanned lines
+    matches: { line: number, text: string }[]; // First matching lines (0-based), up to `maxMatches`
+    scannedLines: number;
+    timedOut: boolean; // The time budget ran out before the last line
+    elapsedMs: number;
+}
+
+export class FilterPreviewUtils {
+    /**
+     * Counts the lines a filter pattern matches, for previewing it while it is typed.
+     * Stops once the time budget is spent, so a slow pattern cannot block the editor for long,
+     * even if it backtracks catastrophically on a single line.
+     *
+     * @param lines - Lines to scan
+     * @param regex - The compiled filter keyword
+     * @param options.maxMatches - Matching lines to return (all are counted)
+     * @param options.timeBudgetMs - Time after which scanning stops
+     */
+    public static scan(lines: string[], regex: RegExp, options: { maxMatches: number, timeBudgetMs: number }): FilterPreviewResult {
+        const start = Date.now();
+        const result = RegexUtils.testLines(regex, lines, options.maxMatches, options.timeBudgetMs);
+        return {
+            matchCount: result.matchCount,
+            matches: result.matches.map(line => ({ line, text: lines[line] })),
+            scannedLines: result.scannedLines,
+            timedOut: result.timedOut,
+            elapsedMs: Date.now() - start
+        };
+    }
+}
@@ -0,0 +1,239 @@
+import { FieldCondition, FieldOperator } from '../models/Filter';
+
+/**
+ * Line format used to split log lines into fields.
+ * - 'auto': JSON for lines starting with '{', otherwise the first of logcat threadtime, logcat brief and syslog that matches.
+ * - 'custom': Named groups of a user-defined regex become the fields.
+ */
+export type LogFormat = 'auto' | 'logcatThreadtime' | 'logcatBrief' | 'syslog' | 'json' | 'custom';
+
+export type LogFields = Record<string, string>;
+
+/**
+ * A field condition prepared for matching. Plain data only, so it can be sent to the filter worker.
+ */
+export interface CompiledFieldCondition {
+    field: string;
+    operator: FieldOperator;
+    values: string[]; // A single value, or the list of an 'in' condition
+    regex?: RegExp; // For 'matches'
+    format: LogFormat;
+    pattern?: RegExp; // For the 'custom' format
+}
+
+// Longer operators first, so that ">=" is not read as ">"
+const OPERATORS: FieldOperator[] = ['>=', '<=', '!=', '==', '>', '<', 'contains', 'matches', 'in'];
+
+// 01-31 13:45:10.123  1234  5678 E Tag: message
+const LOGCAT_THREADTIME_PATTERN = /^(?<date>\d{2}-\d{2})\s+(?<time>\d{2}:\d{2}:\d{2}\.\d{3})\s+(?<pid>\d+)\s+(?<tid>\d+)\s+(?<level>[VDIWEFA])\s+(?<tag>[^:]*?)\s*:\s?(?<message>.*)$/;
+// E/Tag( 1234): message
+const LOGCAT_BRIEF_PATTERN = /^(?<level>[VDIWEFA])\/(?<tag>[^(]*?)\s*\(\s*(?<pid>\d+)\):\s?(?<message>.*)$/;
+// Jan 31 13:45:10 host program[1234]: message
+const SYSLOG_PATTERN = /^(?<timestamp>[A-Z][a-z]{2}\s+\d{1,2}\s+\d{2}:\d{2}:\d{2})\s+(?<host>\S+)\s+(?<tag>[^\s:[]+)(?:\[(?<pid>\d+)\])?:\s?(?<message>.*)$/;
+
+const LEVEL_FIELDS = new Set(['level', 'severity', 'priority', 'lvl', 'loglevel']);
+
+// Severity ranks shared by logcat letters, syslog and common logging framework names
+const LEVEL_RANKS: Record<string, number> = {
+    v: 0, verbose: 0, trace: 0,
+    d: 1, debug: 1,
+    i: 2, info: 2, information: 2, notice: 2,
+    w: 3, warn: 3, warning: 3,
+    e: 4, err: 4, error: 4,
+    f: 5, a: 5, fatal: 5, assert: 5, crit: 5, critical: 5, alert: 5, emerg: 5
+};
+
+// Lines are usually tested against several conditions in a row
+let lastParsed: { line: string, format: LogFormat, pattern?: RegExp, fields: LogFields | undefined } | undefined;
+
+export class LogFieldUtils {
+
+    /**
+     * Splits a line into named fields according to the format.
+     * JSON objects are flattened with dotted keys ("http.status"); field names are case-sensitive.
+     * @returns undefined if the line does not have the format
+     */
+    public static parseFields(line: string, format: LogFormat, pattern?: RegExp): LogFields | undefined {
+        if (lastParsed && lastParsed.line === line && lastParsed.format === format && lastParsed.pattern?.source === pattern?.source) {
+            return lastParsed.fields;
+        }
+        const fields = LogFieldUtils.parseUncached(line, format, pattern);
+        lastParsed = { line, format, pattern, fields };
+        return fields;
+    }
+
+    /**
+     * Parses condition text such as `level >= W`, `tag == ActivityManager` or `pid in (1234, 5678)`.
+     * @throws Error if the text has no field, operator or value
+     */
+    public static parseCondition(text: string): FieldCondition {
+        const trimmed = text.trim();
+
+        // The first operator in the text separates field and value; the value may contain operators itself
+        let found: { operator: FieldOperator, index: number, length: number } | undefined;
+        for (const operator of OPERATORS) {
+            const isWord = /^[a-z]/.test(operator);
+            const index = isWord ? trimmed.search(new RegExp(`\\s${operator}\\s`)) : trimmed.indexOf(operator);
+            if (index > 0 && (!found || index < found.index)) {
+                found = { operator, index, length: operator.length + (isWord ? 2 : 0) };
+            }
+        }
+        if (!found) {
+            throw new Error('Expected a condition like "level >= W" or "pid in (1234, 5678)"');
+        }
+
+        const field = trimmed.substring(0, found.index).trim();
+        const value = trimmed.substring(found.index + found.length).trim();
+        if (!/^[\w.-]+$/.test(field)) {
+            throw new Error(`Invalid field name '${field}'`);
+        }
+        if (!value) {
+            throw new Error(`Missing value after '${found.operator}'`);
+        }
+        return { field, operator: found.operator, value };
+    }
+
+    public static formatCondition(condition: FieldCondition): string {
+        return `${condition.field} ${condition.operator} ${condition.value}`;
+    }
+
+    /**
+     * Prepares a condition for `testCondition`.
+     * @throws Error if a 'matches' value is not a valid regular expression
+     */
+    public static compileCondition(condition: FieldCondition, format: LogFormat, pattern?: RegExp): CompiledFieldCondition {
+        const values = condition.operator === 'in'
+            ? condition.value.replace(/^\(|\)$/g, '').split(',').map(v => LogFieldUtils.unquote(v.trim())).filter(v => v.length > 0)
+            : [LogFieldUtils.unquote(condition.value.trim())];
+        return {
+            field: condition.field,
+            operator: condition.operator,
+            values,
+            regex: condition.operator === 'matches' ? new RegExp(values[0]) : undefined,
+            format,
+            pattern
+        };
+    }
+
+    /**
+     * Tests a line against a compiled condition. Lines that lack the field never match,
+     * whatever the operator. Levels compare by severity (V < D < I < W < E < F), numbers
+     * numerically and everything else as case-sensitive text.
+     * For a multi-line record, the fields come from its first line.
+     */
+    public static testCondition(line: string, condition: CompiledFieldCondition): boolean {
+        const lineBreak = line.indexOf('\n');
+        const firstLine = lineBreak === -1 ? line : line.substring(0, lineBreak);
+        const fields = LogFieldUtils.parseFields(firstLine, condition.format, condition.pattern);
+        const actual = fields?.[condition.field];
+        if (actual === undefined) {
+            return false;
+        }
+
+        switch (condition.operator) {
+            case 'contains':
+                return actual.includes(condition.values[0]);
+            case 'matches':
+                condition.regex!.lastIndex = 0;
+                return condition.regex!.test(actual);
+            case 'in':
+                return condition.values.some(v => LogFieldUtils.compare(condition.field, actual, v) === 0);
+            default:
+                return LogFieldUtils.satisfies(condition.operator, LogFieldUtils.compare(condition.field, actual, condition.values[0]));
+        }
+    }
+
+    private static parseUncached(line: string, format: LogFormat, pattern?: RegExp): LogFields | undefined {
+        switch (format) {
+            case 'logcatThreadtime':
+                return LogFieldUtils.matchGroups(LOGCAT_THREADTIME_PATTERN, line);
+            case 'logcatBrief':
+                return LogFieldUtils.matchGroups(LOGCAT_BRIEF_PATTERN, line);
+            case 'syslog':
+                return LogFieldUtils.matchGroups(SYSLOG_PATTERN, line);
+            case 'json':
+                return LogFieldUtils.parseJson(line);
+            case 'custom':
+                return pattern ? LogFieldUtils.matchGroups(pattern, line) : undefined;
+            default:
+                if (line.trimStart().startsWith('{')) {
+                    return LogFieldUtils.parseJson(line);
+                }
+                return LogFieldUtils.matchGroups(LOGCAT_THREADTIME_PATTERN, line)
+                    ?? LogFieldUtils.matchGroups(LOGCAT_BRIEF_PATTERN, line)
+                    ?? LogFieldUtils.matchGroups(SYSLOG_PATTERN, line);
+        }
+    }
+
+    private static matchGroups(pattern: RegExp, line: string): LogFields | undefined {
+        pattern.lastIndex = 0;
+        const groups = pattern.exec(line)?.groups;
+        if (!groups) {
+            return undefined;
+        }
+        const fields: LogFields = {};
+        for (const [key, value] of Object.entries(groups)) {
+            if (value !== undefined) {
+                fields[key] = value;
+            }
+        }
+        return fields;
+    }
+
+    private static parseJson(line: string): LogFields | undefined {
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(line);
+        } catch (_e) {
+            return undefined;
+        }
+        if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+            return undefined;
+        }
+        const fields: LogFields = {};
+        const flatten = (obj: Record<string, unknown>, prefix: string) => {
+            for (const [key, value] of Object.entries(obj)) {
+                if (value && typeof value === 'object' && !Array.isArray(value)) {
+                    flatten(value as Record<string, unknown>, `${prefix}${key}.`);
+                } else if (value !== null && value !== undefined) {
+                    fields[`${prefix}${key}`] = typeof value === 'string' ? value : JSON.stringify(value);
+                }
+            }
+        };
+        flatten(parsed as Record<string, unknown>, '');
+        return fields;
+    }
+
+    // Negative if actual < expected, 0 if equal, positive if greater
+    private static compare(field: string, actual: string, expected: string): number {
+        if (LEVEL_FIELDS.has(field.toLowerCase())) {
+            const actualRank = LEVEL_RANKS[actual.toLowerCase()];
+            const expectedRank = LEVEL_RANKS[expected.toLowerCase()];
+            if (actualRank !== undefined && expectedRank !== undefined) {
+                return actualRank - expectedRank;
+            }
+        }
+        const actualNumber = Number(actual);
+        const expectedNumber = Number(expected);
+        if (actual.trim() !== '' && expected.trim() !== '' && !isNaN(actualNumber) && !isNaN(expectedNumber)) {
+            return actualNumber - expectedNumber;
+        }
+        return actual === expected ? 0 : actual < expected ? -1 : 1;
+    }
+
+    private static satisfies(operator: FieldOperator, order: number): boolean {
+        switch (operator) {
+            case '==': return order === 0;
+            case '!=': return order !== 0;
+            case '>': return order > 0;
+            case '>=': return order >= 0;
+            case '<': return order < 0;
+            case '<=': return order <= 0;
+            default: return false;
+        }
+    }
+
+    private static unquote(value: string): string {
+        return /^(["']).*\1$/.test(value) ? value.substring(1, value.length - 1) : value;
+    }
+}
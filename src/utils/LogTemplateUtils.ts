@@ -0,0 +1,100 @@
+/**
+ * How consecutive repeated lines are collapsed in filter output.
+ * - 'exact': Identical lines.
+ * - 'normalized': Lines that differ only in numbers, hex values and UUIDs (see `LogTemplateUtils.normalize`).
+ */
+export type RepeatCollapseMode = 'off' | 'exact' | 'normalized';
+
+const UUID_PATTERN = /\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi;
+// 0x1f, or a bare run of 8+ hex digits mixing letters and digits (addresses, hashes)
+const HEX_PATTERN = /\b0x[0-9a-f]+\b|\b(?=\d*[a-f])(?=[a-f]*\d)[0-9a-f]{8,}\b/gi;
+const NUMBER_PATTERN = /\d+(?:\.\d+)?/g;
+
+/**
+ * Placeholders of a message template, each matching one kind of volatile token.
+ */
+export type TemplatePlaceholder = '<uuid>' | '<hex>' | '<dur>' | '<num>';
+
+/**
+ * A volatile token found in a line, that a message template replaces with its placeholder.
+ */
+export interface TemplateToken {
+    index: number;
+    text: string;
+    placeholder: TemplatePlaceholder;
+}
+
+// Patterns of the tokens each placeholder matches, in the order they are tried
+const PLACEHOLDER_PATTERNS: [TemplatePlaceholder, string][] = [
+    ['<uuid>', '[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}'],
+    ['<hex>', '0x[0-9a-fA-F]+|(?=\\d*[a-fA-F])(?=[a-fA-F]*\\d)[0-9a-fA-F]{8,}'],
+    ['<dur>', '\\d+(?:\\.\\d+)?(?:ns|us|µs|ms|s|min|m|h)'],
+    ['<num>', '\\d+(?:\\.\\d+)?']
+];
+// Tokens stand alone, so that e.g. the digits in a name like "worker2" stay part of the message
+const TOKEN_PATTERN = new RegExp(PLACEHOLDER_PATTERNS.map(([, pattern]) => `(?<!\\w)(${pattern})(?!\\w)`).join('|'), 'g');
+const PLACEHOLDER_PATTERN = /<(?:uuid|hex|dur|num)>/g;
+const ESCAPE_PATTERN = /[.*+?^${}()|[\]\\]/g;
+
+export class LogTemplateUtils {
+
+    /**
+     * Masks the variable parts of a line, so that lines logged by the same statement compare equal:
+     * UUIDs become `<uuid>`, hex values `<hex>` and numbers (including those in timestamps) `<num>`.
+     */
+    public static normalize(line: string): string {
+        return line
+            .replace(UUID_PATTERN, '<uuid>')
+            .replace(HEX_PATTERN, '<hex>')
+            .replace(NUMBER_PATTERN, '<num>');
+    }
+
+    /**
+     * Finds the volatile tokens of a line, the parts a message template replaces with placeholders:
+     * UUIDs, hex values, durations (e.g. `150ms`) and numbers that are not part of a word.
+     */
+    public static findVolatileTokens(line: string): TemplateToken[] {
+        const tokens: TemplateToken[] = [];
+        for (const match of line.matchAll(TOKEN_PATTERN)) {
+            const group = match.slice(1).findIndex(text => text !== undefined);
+            tokens.push({ index: match.index!, text: match[0], placeholder: PLACEHOLDER_PATTERNS[group][0] });
+        }
+        return tokens;
+    }
+
+    /**
+     * Creates the message template of a line, e.g. "Took 150ms for job 42" becomes "Took <dur> for job <num>".
+     * @param tokens - Tokens to replace, by default all volatile tokens of the line
+     */
+    public static toTemplate(line: string, tokens: TemplateToken[] = LogTemplateUtils.findVolatileTokens(line)): string {
+        let template = '';
+        let end = 0;
+        for (const token of [...tokens].sort((a, b) => a.index - b.index)) {
+            template += line.substring(end, token.index) + token.placeholder;
+            end = token.index + token.text.length;
+        }
+        return template + line.substring(end);
+    }
+
+    /**
+     * Converts a message template to a regex pattern: its placeholders match any token of their kind,
+     * the rest of it matches literally.
+     */
+    public static toPattern(template: string): string {
+        const placeholders = new Map<string, string>(PLACEHOLDER_PATTERNS);
+        let pattern = '';
+        let end = 0;
+        for (const match of template.matchAll(PLACEHOLDER_PATTERN)) {
+            pattern += template.substring(end, match.index).replace(ESCAPE_PATTERN, '\\$&') + `(?:${placeholders.get(match[0])})`;
+            end = match.index! + match[0].length;
+        }
+        return pattern + template.substring(end).replace(ESCAPE_PATTERN, '\\$&');
+    }
+
+    /**
+     * Appends the occurrence count to a collapsed line, e.g. "Retrying connection (×1500)".
+     */
+    public static formatRepeat(line: string, count: number): string {
+        return count > 1 ? `${line} (×${count})` : line;
+    }
+}
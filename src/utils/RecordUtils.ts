@@ -0,0 +1,31 @@
+export type RecordStartPreset = 'none' | 'logcat' | 'log4j' | 'iso' | 'custom';
+
+// Built-in record start patterns. Continuation lines are the lines that do NOT match.
+const PRESET_PATTERNS: Record<Exclude<RecordStartPreset, 'none' | 'custom'>, string> = {
+    // logcat -v threadtime: "01-31 13:45:10.123  1234  5678 E Tag: message".
+    // Crash traces repeat the header on every line, so lines whose message is a
+    // stack frame, "Caused by:" or indented text continue the previous record.
+    logcat: String.raw`^\d{2}-\d{2}\s+\d{2}:\d{2}:\d{2}\.\d{3}\s+\d+\s+\d+\s+[VDIWEFA]\s+[^:]*:\s(?!\s|at\s|Caused by:|\.\.\. \d+ more)`,
+    // log4j / logback default layouts: "2024-01-31 13:45:10,123 [main] ERROR ..." or "2024-01-31 13:45:10.123 ERROR ..."
+    log4j: String.raw`^\d{4}-\d{2}-\d{2}[ T]\d{2}:\d{2}:\d{2}[,.]\d{3}\s+(?:\[[^\]]*\]\s+)?(?:TRACE|DEBUG|INFO|WARN|WARNING|ERROR|FATAL)\b`,
+    // Any line starting with an ISO 8601 date and time, optionally in brackets
+    iso: String.raw`^\[?\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2}`
+};
+
+export class RecordUtils {
+
+    /**
+     * Resolves a record start setting to the pattern used to split a log into records.
+     * @returns undefined when records are disabled ('none', or 'custom' with an empty pattern)
+     * @throws Error if the custom pattern is not a valid regular expression
+     */
+    public static getStartPattern(preset: RecordStartPreset | undefined, customPattern?: string): RegExp | undefined {
+        if (!preset || preset === 'none') {
+            return undefined;
+        }
+        if (preset === 'custom') {
+            return customPattern && customPattern.trim() ? new RegExp(customPattern) : undefined;
+        }
+        return new RegExp(PRESET_PATTERNS[preset]);
+    }
+}
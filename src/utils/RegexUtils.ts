@@ -1,22 +1,243 @@
+import * as vm from 'vm';
+import { Constants } from '../Constants';
+import { LogTemplateUtils } from './LogTemplateUtils';
+
+// The scripts run in one shared context, so their variables are kept in blocks
+const FIND_ALL_SCRIPT = `{
+    regex.lastIndex = 0;
+    let m;
+    while ((m = regex.exec(text))) {
+        matches.push(m.index, m[0].length);
+        if (m[0].length === 0) {
+            regex.lastIndex++;
+        }
+    }
+}`;
+
+const TEST_LINES_SCRIPT = `
+    for (let i = 0; i < lines.length; i++) {
+        regex.lastIndex = 0;
+        if (regex.test(lines[i])) {
+            state.matchCount++;
+            if (matches.length < maxMatches) {
+                matches.push(i);
+            }
+        }
+        state.scannedLines = i + 1;
+    }`;
+
+// Calls the built-in exec, so that a regex whose own exec is bounded through this script does not call itself
+const EXEC_SCRIPT = `
+    state.match = RegExp.prototype.exec.call(regex, text);`;
+
+/**
+ * How the keyword of a word filter is matched. Ignored for regex filters.
+ */
+export interface KeywordOptions {
+    wholeWord?: boolean; // Matches only where the keyword is not part of a longer word
+    wildcard?: boolean; // '*' in the keyword matches any text on the line, '?' any one character
+    template?: boolean; // The keyword is a message template, whose placeholders match volatile tokens (see LogTemplateUtils.toTemplate)
+}
+
 export class RegexUtils {
     // Cache stores the 'prototype' RegExp. We clone it to return a fresh instance with its own lastIndex.
     private static cache: Map<string, RegExp> = new Map();
     private static readonly MAX_CACHE_SIZE = 500;
     private static readonly ESCAPE_REGEX = /[.*+?^${}()|[\]\\]/g;
+    private static scripts: Map<string, vm.Script> = new Map();
+    // Creating a context costs about a millisecond, far more than most evaluations, so one is reused
+    private static context: vm.Context | undefined;
 
     private static readonly MAX_REPORTED_ERRORS = 200;
     private static reportedErrors: Set<string> = new Set();
 
+    /**
+     * Receives the message for each invalid pattern, once per pattern. The extension shows it as an
+     * error notification; elsewhere (e.g. the command-line interface) it is written to the console.
+     */
+    public static reportError: (message: string) => void = message => console.warn(`[RegexUtils] ${message}`);
+
+    /**
+     * Finds the matches of a global regex in a text, stopping once `timeoutMs` is spent (0 for no limit).
+     * Unlike a plain `exec` loop, a pattern that backtracks catastrophically on the text cannot block the thread.
+     * @returns Index and length of each match found, in pairs, and whether the time ran out before the end
+     */
+    public static findAll(regex: RegExp, text: string, timeoutMs: number): { matches: number[], timedOut: boolean } {
+        const sandbox = { regex, text, matches: [] as number[] };
+        const timedOut = RegexUtils.runBounded(FIND_ALL_SCRIPT, sandbox, timeoutMs);
+        return { matches: sandbox.matches, timedOut };
+    }
+
+    /**
+     * Like `findAll`, but `lineTimeoutMs` is spent on each line rather than on the whole text, as when logs are
+     * filtered: a regex is only too slow if a single line takes longer than that.
+     * @returns Index and length of each match found, in pairs, and whether a line ran out of time
+     */
+    public static findAllByLine(regex: RegExp, text: string, lineTimeoutMs: number): { matches: number[], timedOut: boolean } {
+        // Ordinary regexes get through the whole text within the time of one line, in a single evaluation
+        const whole = RegexUtils.findAll(regex, text, lineTimeoutMs);
+        if (!whole.timedOut) {
+            return whole;
+        }
+
+        const matches: number[] = [];
+        let start = 0;
+        while (start <= text.length) {
+            const newline = text.indexOf('\n', start);
+            const end = newline < 0 ? text.length : newline;
+            const found = RegexUtils.findAll(regex, text.substring(start, end), lineTimeoutMs);
+            if (found.timedOut) {
+                return { matches, timedOut: true };
+            }
+            for (let i = 0; i < found.matches.length; i += 2) {
+                matches.push(start + found.matches[i], found.matches[i + 1]);
+            }
+            start = end + 1;
+        }
+        return { matches, timedOut: false };
+    }
+
+    /**
+     * Tests a regex against each line, stopping once `timeoutMs` is spent.
+     * @returns How many of the scanned lines matched, the indexes of the first `maxMatches` of them,
+     * how many lines were scanned and whether the time ran out before the last line
+     */
+    public static testLines(regex: RegExp, lines: string[], maxMatches: number, timeoutMs: number): { matchCount: number, matches: number[], scannedLines: number, timedOut: boolean } {
+        const sandbox = { regex, lines, maxMatches, matches: [] as number[], state: { matchCount: 0, scannedLines: 0 } };
+        const timedOut = RegexUtils.runBounded(TEST_LINES_SCRIPT, sandbox, timeoutMs);
+        return { matchCount: sandbox.state.matchCount, matches: sandbox.matches, scannedLines: sandbox.state.scannedLines, timedOut };
+    }
+
+    /**
+     * Like `testLines` over all lines, but `lineTimeoutMs` is spent on each line rather than on all of them (0 for no limit).
+     * @returns The indexes of the matching lines and whether a line ran out of time
+     */
+    public static testLinesByLine(regex: RegExp, lines: string[], lineTimeoutMs: number): { matches: number[], timedOut: boolean } {
+        const whole = RegexUtils.testLines(regex, lines, lines.length, lineTimeoutMs);
+        if (!whole.timedOut) {
+            return { matches: whole.matches, timedOut: false };
+        }
+
+        // The lines scanned before the time ran out took less than the budget together
+        const matches = whole.matches;
+        for (let i = whole.scannedLines; i < lines.length; i++) {
+            const found = RegexUtils.testLines(regex, [lines[i]], 1, lineTimeoutMs);
+            if (found.timedOut) {
+                return { matches, timedOut: true };
+            }
+            if (found.matchCount > 0) {
+                matches.push(i);
+            }
+        }
+        return { matches, timedOut: false };
+    }
+
+    /**
+     * Runs `regex.exec` on a text, stopping once `timeoutMs` is spent (0 for no limit).
+     * Each call switches into the vm context; prefer `findAll` or `testLines` for many evaluations.
+     * @returns The match, or null, and whether the time ran out
+     */
+    public static exec(regex: RegExp, text: string, timeoutMs: number): { match: RegExpExecArray | null, timedOut: boolean } {
+        const sandbox = { regex, text, state: { match: null as RegExpExecArray | null } };
+        const timedOut = RegexUtils.runBounded(EXEC_SCRIPT, sandbox, timeoutMs);
+        return { match: sandbox.state.match, timedOut };
+    }
+
+    // Runs a script over the sandbox values in a vm context, whose timeout interrupts even catastrophic backtracking.
+    // The objects in the sandbox keep what the script wrote before it was interrupted.
+    private static runBounded(source: string, sandbox: Record<string, unknown>, timeoutMs: number): boolean {
+        let script = RegexUtils.scripts.get(source);
+        if (!script) {
+            script = new vm.Script(source);
+            RegexUtils.scripts.set(source, script);
+        }
+        const context = RegexUtils.context ??= vm.createContext({});
+        Object.assign(context, sandbox);
+        try {
+            script.runInContext(context, { timeout: timeoutMs > 0 ? timeoutMs : undefined });
+            return false;
+        } catch (e) {
+            if ((e as { code?: string }).code === 'ERR_SCRIPT_EXECUTION_TIMEOUT') {
+                return true;
+            }
+            throw e;
+        } finally {
+            // Do not keep the text alive until the next call
+            for (const key of Object.keys(sandbox)) {
+                delete context[key];
+            }
+        }
+    }
+
+    /**
+     * Checks a keyword the way `create` does, without reporting the problem.
+     * @returns Why `create` would reject the keyword, or undefined if it is usable
+     */
+    public static validate(keyword: string, isRegex: boolean): string | undefined {
+        if (!isRegex) {
+            return undefined;
+        }
+        try {
+            new RegExp(keyword);
+            return undefined;
+        } catch (e) {
+            return e instanceof Error ? e.message : String(e);
+        }
+    }
+
+    /**
+     * Lists the capture groups of a regex pattern in group order.
+     * @returns The name of each group, or undefined for numbered groups
+     */
+    public static getCaptureGroups(pattern: string): (string | undefined)[] {
+        const groups: (string | undefined)[] = [];
+        let inClass = false;
+        for (let i = 0; i < pattern.length; i++) {
+            const c = pattern[i];
+            if (c === '\\') {
+                i++; // Escaped character, e.g. \( or \]
+            } else if (inClass) {
+                inClass = c !== ']';
+            } else if (c === '[') {
+                inClass = true;
+            } else if (c === '(') {
+                if (pattern[i + 1] !== '?') {
+                    groups.push(undefined);
+                } else {
+                    // (?<name> captures; (?: (?= (?! (?<= (?<! do not
+                    const named = /^\(\?<([A-Za-z_$][\w$]*)>/.exec(pattern.substring(i, i + 256));
+                    if (named) {
+                        groups.push(named[1]);
+                    }
+                }
+            }
+        }
+        return groups;
+    }
+
+    /**
+     * Splits the keyword of a word filter into its keywords. A keyword list holds one keyword per line;
+     * its empty lines and the spaces around its keywords are ignored.
+     */
+    public static getKeywords(keyword: string): string[] {
+        if (!keyword.includes('\n')) {
+            return [keyword];
+        }
+        return keyword.split(/\r?\n/).map(k => k.trim()).filter(k => k.length > 0);
+    }
+
     /**
      * Creates a RegExp object safely with caching.
      * Returns a NEW RegExp instance every time to avoid shared 'lastIndex' state bugs.
-     * @param keyword The pattern or search text.
+     * @param keyword The pattern or search text. Search text with several lines matches any of its lines (a keyword list).
      * @param isRegex Whether the keyword is a regex pattern.
      * @param caseSensitive Whether the search should be case sensitive.
+     * @param options How search text is matched, e.g. the filter's own options.
      * @returns A RegExp object. Returns a match-nothing regex on error.
      */
-    public static create(keyword: string, isRegex: boolean, caseSensitive: boolean): RegExp {
-        const key = `${keyword}_${isRegex}_${caseSensitive}`;
+    public static create(keyword: string, isRegex: boolean, caseSensitive: boolean, options?: KeywordOptions): RegExp {
+        const { wholeWord, wildcard, template } = RegexUtils.getEffectiveOptions(isRegex, options);
+        const key = RegexUtils.getKey(keyword, isRegex, caseSensitive, options);
         if (RegexUtils.cache.has(key)) {
             // LRU: Refresh by deleting and re-inserting
             const proto = RegexUtils.cache.get(key)!;
@@ -30,15 +251,9 @@ export class RegexUtils {
             const flags = caseSensitive ? 'g' : 'gi';
             let regex: RegExp;
             if (isRegex) {
-                // Reject patterns with nested quantifiers that cause catastrophic backtracking
-                // e.g. (a+)+$
-                if (/(\+|\*|\{)\)?(\+|\*|\{)/.test(keyword)) {
-                    throw new Error('Pattern contains nested quantifiers that may cause performance issues');
-                }
                 regex = new RegExp(keyword, flags);
             } else {
-                const escaped = keyword.replace(RegexUtils.ESCAPE_REGEX, '\\$&');
-                regex = new RegExp(escaped, flags);
+                regex = new RegExp(RegexUtils.toKeywordPattern(keyword, wholeWord, wildcard, template), flags);
             }
 
             // LRU: Evict oldest if full
@@ -61,20 +276,50 @@ export class RegexUtils {
                     RegexUtils.reportedErrors.clear();
                 }
                 RegexUtils.reportedErrors.add(errorKey);
-                // We dynamically import vscode to avoid hard dependency if this util is used outside extension context context
-                // effectively we will just assume it is available in this environment
-                Promise.all([import('vscode'), import('../Constants.js')]).then(([vscode, { Constants }]) => {
-                    const message = Constants.Messages.Error.InvalidRegexPatternDetailed
-                        .replace('{0}', keyword)
-                        .replace('{1}', errorMessage);
-                    vscode.window.showErrorMessage(message);
-                }).catch((importErr) => {
-                    console.warn('[RegexUtils] Failed to show error notification:', importErr);
-                });
+                RegexUtils.reportError(Constants.Messages.Error.InvalidRegexPatternDetailed
+                    .replace('{0}', keyword)
+                    .replace('{1}', errorMessage));
             }
 
             // Return a regex that matches nothing
             return /(?!)/;
         }
     }
+
+    /**
+     * Identifies the regex `create` returns for these arguments: two calls with the same key get the same pattern and flags.
+     */
+    public static getKey(keyword: string, isRegex: boolean, caseSensitive: boolean, options?: KeywordOptions): string {
+        const { wholeWord, wildcard, template } = RegexUtils.getEffectiveOptions(isRegex, options);
+        return `${keyword}_${isRegex}_${caseSensitive}_${wholeWord}_${wildcard}_${template}`;
+    }
+
+    // Regex filters ignore the keyword options, and a template has placeholders instead of wildcards
+    private static getEffectiveOptions(isRegex: boolean, options?: KeywordOptions): Required<KeywordOptions> {
+        const template = !isRegex && !!options?.template;
+        return {
+            wholeWord: !isRegex && !!options?.wholeWord,
+            wildcard: !isRegex && !template && !!options?.wildcard,
+            template
+        };
+    }
+
+    private static toKeywordPattern(keyword: string, wholeWord: boolean, wildcard: boolean, template: boolean): string {
+        const keywords = RegexUtils.getKeywords(keyword);
+        if (keywords.length === 0) {
+            return '(?!)';
+        }
+        const patterns = keywords
+            // Longest first, so that a keyword is not cut short by another keyword it starts with
+            .sort((a, b) => b.length - a.length)
+            .map(k => {
+                if (template) {
+                    return LogTemplateUtils.toPattern(k);
+                }
+                const escaped = k.replace(RegexUtils.ESCAPE_REGEX, '\\$&');
+                return wildcard ? escaped.replace(/\\\*/g, '.*?').replace(/\\\?/g, '.') : escaped;
+            });
+        const pattern = patterns.length === 1 ? patterns[0] : `(?:${patterns.join('|')})`;
+        return wholeWord ? `(?<!\\w)${pattern}(?!\\w)` : pattern;
+    }
 }
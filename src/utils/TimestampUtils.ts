@@ -0,0 +1,225 @@
+import { TimeRange } from '../models/Filter';
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// Only the beginning of a line is searched; timestamps further in are usually part of the message.
+const SEARCH_LENGTH = 64;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Leap year used to compare month/day timestamps, so that Feb 29 stays valid
+const REFERENCE_YEAR = 2000;
+
+// 2024-01-31T13:45:10.123Z, 2024-01-31 13:45:10,123 +0900
+const ISO_PATTERN = /(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2}):(\d{2})(?:[.,](\d{1,9}))?(?:\s?(Z|[+-]\d{2}:?\d{2}))?/;
+// Jan 31 13:45:10 (syslog)
+const SYSLOG_PATTERN = /\b(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)\s+(\d{1,2})\s+(\d{2}):(\d{2}):(\d{2})(?:\.(\d{1,9}))?/i;
+// 01-31 13:45:10.123 (Android logcat)
+const MONTH_DAY_PATTERN = /\b(\d{2})-(\d{2})\s+(\d{2}):(\d{2}):(\d{2})(?:\.(\d{1,9}))?/;
+// 14:02, 14:02:10, 14:02:10.500 (time range bounds only)
+const TIME_OF_DAY_PATTERN = /^(\d{1,2}):(\d{2})(?::(\d{2})(?:[.,](\d{1,9}))?)?$/;
+
+/**
+ * How much of a timestamp a time range compares.
+ * - 'time': Time of day only; a window whose end is before its start wraps past midnight.
+ * - 'date': Month, day and time, ignoring the year.
+ * - 'full': The complete timestamp.
+ */
+export type TimeGranularity = 'time' | 'date' | 'full';
+
+const GRANULARITY_ORDER: TimeGranularity[] = ['time', 'date', 'full'];
+
+export interface TimeBound {
+    text: string; // The timestamp as written
+    time: number;
+    granularity: TimeGranularity;
+    span: number; // Milliseconds covered by the bound, e.g. 1000 for "14:03:00"
+}
+
+/**
+ * A time range prepared for matching. Plain data only, so it can be sent to the filter worker.
+ * `lastTime` and `inRange` are per-run state updated by `TimestampUtils.testRange`.
+ */
+export interface CompiledTimeRange {
+    start?: number;
+    end?: number; // Inclusive
+    granularity: TimeGranularity;
+    pattern?: RegExp;
+    lastTime?: number; // Timestamp of the last line that carried one; continuation lines inherit it
+    inRange?: boolean; // Result for the last tested line
+}
+
+export class TimestampUtils {
+
+    /**
+     * Parses the timestamp at the beginning of a log line.
+     * Supports ISO 8601-like dates, syslog and logcat formats. Dates without a zone are
+     * read as UTC wall-clock time so that lines from different files compare consistently.
+     * @param defaultYear Year used for formats that do not carry one (syslog, logcat)
+     * @returns Milliseconds since epoch, or undefined if the line has no recognizable timestamp
+     */
+    public static parse(line: string, defaultYear: number = new Date().getFullYear()): number | undefined {
+        const head = line.length > SEARCH_LENGTH ? line.substring(0, SEARCH_LENGTH) : line;
+        return TimestampUtils.parseHead(head, defaultYear)?.time;
+    }
+
+    /**
+     * Returns the timestamp at the beginning of a log line as written, in a form accepted by `parseBound`.
+     */
+    public static extract(line: string): string | undefined {
+        const head = line.length > SEARCH_LENGTH ? line.substring(0, SEARCH_LENGTH) : line;
+        return TimestampUtils.parseHead(head, REFERENCE_YEAR)?.text;
+    }
+
+    /**
+     * Parses a timestamp with a custom pattern. Named groups `year`, `month` (number or name),
+     * `day`, `hour`, `minute`, `second` and `fraction` are read; missing parts default to the
+     * start of their unit and a missing year to `defaultYear`.
+     */
+    public static parseWithPattern(line: string, pattern: RegExp, defaultYear: number = new Date().getFullYear()): number | undefined {
+        pattern.lastIndex = 0;
+        const groups = pattern.exec(line)?.groups;
+        if (!groups) {
+            return undefined;
+        }
+        const month = groups.month === undefined ? 1
+            : /^\d+$/.test(groups.month) ? +groups.month : MONTHS.indexOf(groups.month.substring(0, 3).toLowerCase()) + 1;
+        const time = Date.UTC(
+            groups.year === undefined ? defaultYear : +groups.year,
+            month - 1,
+            groups.day === undefined ? 1 : +groups.day,
+            +(groups.hour ?? 0),
+            +(groups.minute ?? 0),
+            +(groups.second ?? 0),
+            TimestampUtils.toMillis(groups.fraction)
+        );
+        return isNaN(time) ? undefined : time;
+    }
+
+    /**
+     * Parses a time range bound as typed by the user. Besides the log formats understood by
+     * `parse`, a bare time of day ("14:02", "14:02:10.500") is accepted.
+     * @returns undefined if the text is not a recognizable timestamp
+     */
+    public static parseBound(text: string): TimeBound | undefined {
+        const trimmed = text.trim();
+        const m = TIME_OF_DAY_PATTERN.exec(trimmed);
+        if (m) {
+            if (+m[1] > 23 || +m[2] > 59 || (m[3] !== undefined && +m[3] > 59)) {
+                return undefined;
+            }
+            const span = m[4] !== undefined ? 1 : m[3] !== undefined ? 1000 : 60000;
+            return { text: trimmed, time: Date.UTC(REFERENCE_YEAR, 0, 1, +m[1], +m[2], +(m[3] ?? 0), TimestampUtils.toMillis(m[4])), granularity: 'time', span };
+        }
+        return TimestampUtils.parseHead(trimmed, REFERENCE_YEAR);
+    }
+
+    /**
+     * Prepares a time range for `testRange`.
+     * Bounds of different precision are compared at the coarser one, e.g. a full date and a
+     * bare time of day compare times of day.
+     * @throws Error if a bound or the custom pattern cannot be parsed
+     */
+    public static compileRange(range: TimeRange): CompiledTimeRange {
+        const start = range.start?.trim() ? TimestampUtils.parseBound(range.start) : undefined;
+        if (range.start?.trim() && !start) {
+            throw new Error(`Unrecognized start time '${range.start}'`);
+        }
+        const end = range.end?.trim() ? TimestampUtils.parseBound(range.end) : undefined;
+        if (range.end?.trim() && !end) {
+            throw new Error(`Unrecognized end time '${range.end}'`);
+        }
+
+        const bounds = [start, end].filter((b): b is TimeBound => !!b);
+        const granularity = bounds.length > 0
+            ? GRANULARITY_ORDER[Math.min(...bounds.map(b => GRANULARITY_ORDER.indexOf(b.granularity)))]
+            : 'full';
+
+        return {
+            start: start ? TimestampUtils.project(start.time, granularity) : undefined,
+            // The end bound covers its whole precision: "14:03:00" includes 14:03:00.999
+            end: end ? TimestampUtils.project(end.time, granularity) + end.span - 1 : undefined,
+            granularity,
+            pattern: range.pattern?.trim() ? new RegExp(range.pattern) : undefined
+        };
+    }
+
+    /**
+     * Tests whether a line lies inside a compiled time range. Lines without a timestamp
+     * (stack traces, wrapped messages) take the timestamp of the last line that had one;
+     * lines before the first timestamp are outside every range.
+     * Lines must be tested in file order, as the range keeps the last timestamp seen.
+     */
+    public static testRange(line: string, range: CompiledTimeRange): boolean {
+        const time = range.pattern ? TimestampUtils.parseWithPattern(line, range.pattern, REFERENCE_YEAR) : TimestampUtils.parse(line, REFERENCE_YEAR);
+        if (time !== undefined) {
+            range.lastTime = TimestampUtils.project(time, range.granularity);
+        }
+
+        const t = range.lastTime;
+        let inRange: boolean;
+        if (t === undefined) {
+            inRange = false;
+        } else if (range.granularity === 'time' && range.start !== undefined && range.end !== undefined && range.end < range.start) {
+            inRange = t >= range.start || t <= range.end;
+        } else {
+            inRange = (range.start === undefined || t >= range.start) && (range.end === undefined || t <= range.end);
+        }
+        range.inRange = inRange;
+        return inRange;
+    }
+
+    /**
+     * Short label of a time range for the filter tree, e.g. "14:02:10.500 ~ 14:03:00".
+     */
+    public static formatRange(range: TimeRange): string {
+        return `${range.start?.trim() || '…'} ~ ${range.end?.trim() || '…'}`;
+    }
+
+    private static parseHead(head: string, defaultYear: number): TimeBound | undefined {
+        let m = ISO_PATTERN.exec(head);
+        if (m) {
+            const time = Date.UTC(+m[1], +m[2] - 1, +m[3], +m[4], +m[5], +m[6], TimestampUtils.toMillis(m[7]));
+            return { text: m[0], time: time - TimestampUtils.zoneOffsetMillis(m[8]), granularity: 'full', span: m[7] ? 1 : 1000 };
+        }
+
+        m = SYSLOG_PATTERN.exec(head);
+        if (m) {
+            const time = Date.UTC(defaultYear, MONTHS.indexOf(m[1].toLowerCase()), +m[2], +m[3], +m[4], +m[5], TimestampUtils.toMillis(m[6]));
+            return { text: m[0], time, granularity: 'date', span: m[6] ? 1 : 1000 };
+        }
+
+        m = MONTH_DAY_PATTERN.exec(head);
+        if (m) {
+            const time = Date.UTC(defaultYear, +m[1] - 1, +m[2], +m[3], +m[4], +m[5], TimestampUtils.toMillis(m[6]));
+            return { text: m[0], time, granularity: 'date', span: m[6] ? 1 : 1000 };
+        }
+
+        return undefined;
+    }
+
+    // Reduces a timestamp to the parts compared at the given granularity
+    private static project(time: number, granularity: TimeGranularity): number {
+        if (granularity === 'time') {
+            return ((time % DAY_MS) + DAY_MS) % DAY_MS;
+        }
+        if (granularity === 'date') {
+            const d = new Date(time);
+            return Date.UTC(REFERENCE_YEAR, d.getUTCMonth(), d.getUTCDate(), d.getUTCHours(), d.getUTCMinutes(), d.getUTCSeconds(), d.getUTCMilliseconds());
+        }
+        return time;
+    }
+
+    private static toMillis(fraction: string | undefined): number {
+        return fraction ? Number(fraction.padEnd(3, '0').substring(0, 3)) : 0;
+    }
+
+    private static zoneOffsetMillis(zone: string | undefined): number {
+        if (!zone || zone === 'Z') {
+            return 0;
+        }
+        const digits = zone.replace(':', '');
+        const sign = digits[0] === '-' ? -1 : 1;
+        return sign * (Number(digits.substring(1, 3)) * 60 + Number(digits.substring(3, 5))) * 60000;
+    }
+}
@@ -0,0 +1,39 @@
+import * as vscode from 'vscode';
+
+import * as path from 'path';
+import { getNonce, escapeHtml } from '../utils/WebviewUtils';
+
+export interface ExtractTableData {
+    title: string;
+    columns: string[];
+    rows: string[][];
+    truncated: boolean; // Rows beyond the extraction limit are missing
+}
+
+export class ExtractTableHtmlGenerator {
+    constructor(private readonly context: vscode.ExtensionContext) { }
+
+    public async generate(webview: vscode.Webview, table: ExtractTableData): Promise<string> {
+        const templatePath = vscode.Uri.file(
+            path.join(this.context.extensionPath, 'resources', 'webview', 'extract-table-template.html')
+        );
+
+        let html = '';
+        try {
+            const templateBytes = await vscode.workspace.fs.readFile(templatePath);
+            html = new TextDecoder('utf-8').decode(templateBytes);
+        } catch (err) {
+            console.error('Failed to read extraction table template:', err);
+            return `<html><body>Failed to load template. Error: ${escapeHtml(String(err))}</body></html>`;
+        }
+
+        const safeJson = (val: unknown) => JSON.stringify(val).replace(/</g, '\\u003c');
+
+        html = html.replace(/{{\s*CSP_SOURCE\s*}}/g, webview.cspSource);
+        html = html.replace(/{{\s*NONCE\s*}}/g, getNonce());
+        // Replacement function: the table may contain '$' patterns
+        html = html.replace(/{{\s*INITIAL_DATA\s*}}/g, () => safeJson(table));
+
+        return html;
+    }
+}
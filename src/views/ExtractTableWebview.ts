@@ -0,0 +1,112 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Constants } from '../Constants';
+import { CsvUtils, TableFormat } from '../utils/CsvUtils';
+import { ExtractTableData, ExtractTableHtmlGenerator } from './ExtractTableHtmlGenerator';
+
+/**
+ * Shows the values extracted by a filter run as a table that can be sorted, filtered and exported.
+ * One table is shown at a time; a new extraction replaces it.
+ */
+export class ExtractTableWebview implements vscode.Disposable {
+    private panel: vscode.WebviewPanel | undefined;
+    private table: ExtractTableData | undefined;
+    private tableUri: vscode.Uri | undefined;
+    private readonly htmlGenerator: ExtractTableHtmlGenerator;
+
+    // Fired with the table shown and the index of the clicked row
+    private readonly _onDidSelectRow = new vscode.EventEmitter<{ tableUri: vscode.Uri, row: number }>();
+    public readonly onDidSelectRow = this._onDidSelectRow.event;
+    private readonly _onDidCloseTable = new vscode.EventEmitter<vscode.Uri>();
+    public readonly onDidCloseTable = this._onDidCloseTable.event;
+
+    constructor(private readonly context: vscode.ExtensionContext) {
+        this.htmlGenerator = new ExtractTableHtmlGenerator(this.context);
+    }
+
+    /**
+     * @param tableUri Identifies the table, e.g. for its source map
+     */
+    public async show(tableUri: vscode.Uri, table: ExtractTableData) {
+        if (this.tableUri && this.tableUri.toString() !== tableUri.toString()) {
+            this._onDidCloseTable.fire(this.tableUri);
+        }
+        this.tableUri = tableUri;
+        this.table = table;
+
+        if (this.panel) {
+            this.panel.title = table.title;
+            this.panel.reveal(vscode.ViewColumn.Beside);
+            this.panel.webview.postMessage({ command: 'update', table });
+            return;
+        }
+
+        this.panel = vscode.window.createWebviewPanel(
+            'logmagnifier-extract-table',
+            table.title,
+            vscode.ViewColumn.Beside,
+            {
+                enableScripts: true,
+                retainContextWhenHidden: true,
+                localResourceRoots: [this.context.extensionUri]
+            }
+        );
+
+        this.panel.onDidDispose(() => {
+            this.panel = undefined;
+            if (this.tableUri) {
+                this._onDidCloseTable.fire(this.tableUri);
+            }
+            this.tableUri = undefined;
+            this.table = undefined;
+        });
+
+        this.panel.webview.onDidReceiveMessage(message => {
+            if (message.command === 'reveal' && this.tableUri) {
+                this._onDidSelectRow.fire({ tableUri: this.tableUri, row: message.row });
+            } else if (message.command === 'export') {
+                this.export(message.format, message.rows);
+            }
+        });
+
+        this.panel.webview.html = await this.htmlGenerator.generate(this.panel.webview, table);
+    }
+
+    public dispose() {
+        this.panel?.dispose();
+        this.panel = undefined;
+        this._onDidSelectRow.dispose();
+        this._onDidCloseTable.dispose();
+    }
+
+    /**
+     * Saves the rows as shown in the table: filtered and in their sort order.
+     * @param rows Indexes of the rows to export, in order
+     */
+    private async export(format: TableFormat, rows: number[]) {
+        const table = this.table;
+        if (!table) {
+            return;
+        }
+
+        const fileName = `${table.title.replace(/[\\/:*?"<>|]/g, '_')}.${format}`;
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        const uri = await vscode.window.showSaveDialog({
+            defaultUri: vscode.Uri.file(path.join(workspaceFolder ? workspaceFolder.uri.fsPath : os.homedir(), fileName)),
+            filters: format === 'csv' ? { 'CSV': ['csv'] } : { 'TSV': ['tsv', 'txt'] },
+            title: Constants.Prompts.ExportExtractedTable
+        });
+        if (!uri) {
+            return;
+        }
+
+        try {
+            fs.writeFileSync(uri.fsPath, CsvUtils.format([table.columns, ...rows.map(row => table.rows[row])], format), 'utf8');
+            vscode.window.showInformationMessage(Constants.Messages.Info.ExtractedTableExported.replace('{0}', rows.length.toLocaleString()).replace('{1}', uri.fsPath));
+        } catch (err) {
+            vscode.window.showErrorMessage(Constants.Messages.Error.ExportExtractedTableFailed.replace('{0}', err instanceof Error ? err.message : String(err)));
+        }
+    }
+}
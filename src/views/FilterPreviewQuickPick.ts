@@ -0,0 +1,115 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { Constants } from '../Constants';
+import { KeywordOptions, RegexUtils } from '../utils/RegexUtils';
+import { FilterPreviewUtils } from '../utils/FilterPreviewUtils';
+
+interface PreviewItem extends vscode.QuickPickItem {
+    line?: number; // 0-based line of a matching line item
+}
+
+export interface FilterPreviewOptions extends KeywordOptions {
+    title: string;
+    prompt: string;
+    value?: string;
+    isRegex: boolean;
+    caseSensitive?: boolean;
+}
+
+const MAX_PREVIEW_LINES = 50;
+const TIME_BUDGET_MS = 200;
+const UPDATE_DELAY_MS = 150;
+const MAX_LINE_LENGTH = 300;
+
+/**
+ * Input for a filter keyword that previews, as it is typed, how many lines of the active document
+ * it matches and the first of them. Invalid patterns cannot be accepted; slow ones are flagged.
+ */
+export class FilterPreviewQuickPick {
+    /**
+     * @returns The entered keyword, or undefined if the input was dismissed
+     */
+    public static show(options: FilterPreviewOptions): Promise<string | undefined> {
+        // Captured now: the picker takes focus, but the preview stays on the document being filtered
+        const editor = vscode.window.activeTextEditor;
+        const picker = vscode.window.createQuickPick<PreviewItem>();
+        picker.placeholder = options.prompt;
+        picker.value = options.value ?? '';
+        picker.ignoreFocusOut = true;
+        picker.matchOnDescription = false;
+
+        let problem: string | undefined;
+        let timer: NodeJS.Timeout | undefined;
+
+        const update = () => {
+            const keyword = picker.value;
+            problem = keyword ? RegexUtils.validate(keyword, options.isRegex) : undefined;
+            if (!keyword || problem || !editor) {
+                picker.title = options.title;
+                picker.items = problem
+                    ? [{ label: `$(error) ${Constants.Messages.Error.InvalidPreviewPattern.replace('{0}', problem)}`, alwaysShow: true }]
+                    : !editor && keyword ? [{ label: `$(info) ${Constants.Messages.Info.FilterPreviewNoDocument}`, alwaysShow: true }] : [];
+                return;
+            }
+
+            const document = editor.document;
+            const result = FilterPreviewUtils.scan(document.getText().split(/\r?\n/), RegexUtils.create(keyword, options.isRegex, !!options.caseSensitive, options), {
+                maxMatches: MAX_PREVIEW_LINES,
+                timeBudgetMs: TIME_BUDGET_MS
+            });
+
+            const fileName = path.basename(document.uri.path);
+            picker.title = `${options.title}: ${result.timedOut
+                ? Constants.Messages.Info.FilterPreviewPartialMatches.replace('{0}', result.matchCount.toLocaleString()).replace('{1}', result.scannedLines.toLocaleString()).replace('{2}', fileName)
+                : Constants.Messages.Info.FilterPreviewMatches.replace('{0}', result.matchCount.toLocaleString()).replace('{1}', fileName)}`;
+
+            const items: PreviewItem[] = [];
+            if (result.timedOut) {
+                items.push({ label: `$(warning) ${Constants.Messages.Warn.SlowFilterPattern.replace('{0}', String(result.elapsedMs))}`, alwaysShow: true });
+            }
+            // Labels are line numbers, so that the quick pick does not reorder the lines by fuzzy score
+            for (const match of result.matches) {
+                items.push({
+                    label: `Line ${match.line + 1}`,
+                    description: match.text.length > MAX_LINE_LENGTH ? `${match.text.substring(0, MAX_LINE_LENGTH)}…` : match.text,
+                    line: match.line,
+                    alwaysShow: true
+                });
+            }
+            picker.items = items;
+        };
+
+        return new Promise<string | undefined>(resolve => {
+            let accepted = false;
+            picker.onDidChangeValue(() => {
+                clearTimeout(timer);
+                timer = setTimeout(update, UPDATE_DELAY_MS);
+            });
+            picker.onDidChangeActive(active => {
+                const line = active[0]?.line;
+                if (editor && line !== undefined) {
+                    editor.revealRange(new vscode.Range(line, 0, line, 0), vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+                }
+            });
+            picker.onDidAccept(() => {
+                clearTimeout(timer);
+                update();
+                if (problem || !picker.value) {
+                    return;
+                }
+                accepted = true;
+                resolve(picker.value);
+                picker.hide();
+            });
+            picker.onDidHide(() => {
+                clearTimeout(timer);
+                if (!accepted) {
+                    resolve(undefined);
+                }
+                picker.dispose();
+            });
+            update();
+            picker.show();
+        });
+    }
+}
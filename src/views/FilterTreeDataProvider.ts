@@ -4,6 +4,9 @@ import { FilterManager } from '../services/FilterManager';
 import { FilterGroup, FilterItem } from '../models/Filter';
 
 import { IconUtils } from '../utils/IconUtils';
+import { FilterExpression } from '../utils/FilterExpression';
+import { RegexUtils } from '../utils/RegexUtils';
+import { Constants } from '../Constants';
 
 type TreeItem = FilterGroup | FilterItem;
 
@@ -39,7 +42,8 @@ export class FilterTreeDataProvider implements vscode.TreeDataProvider<TreeItem>
             if (this.isGroup(element)) {
                 const state = element.isExpanded !== false ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed;
                 const item = new vscode.TreeItem(element.name, state);
-                item.contextValue = element.isEnabled ? 'filterGroupEnabled' : 'filterGroupDisabled';
+                // Inherited groups are read-only, so they get none of the group actions
+                item.contextValue = element.inheritedFrom ? 'inheritedGroup' : element.isEnabled ? 'filterGroupEnabled' : 'filterGroupDisabled';
                 item.id = element.id;
 
                 // UX Improvement: Distinct Group Icons
@@ -54,18 +58,33 @@ export class FilterTreeDataProvider implements vscode.TreeDataProvider<TreeItem>
                 item.iconPath = this.getCachedIcon(`group_${folderColor}_${overlayColor}`, () => IconUtils.generateGroupSvg(folderColor, overlayColor));
 
                 item.description = `${element.filters.length} items`;
+                if (element.expression) {
+                    const error = FilterExpression.validate(element.expression, element.filters);
+                    const shown = FilterExpression.format(element.expression, element.filters, 'position');
+                    item.description += error ? ' · ⚠ expr' : ' · expr';
+                    item.tooltip = error ? `${shown}\n${error}` : shown;
+                } else if (element.matchMode === 'all') {
+                    item.description += ' · ALL';
+                }
+                if (element.inheritedFrom) {
+                    item.description += ` · from ${element.inheritedFrom}`;
+                    item.tooltip = Constants.Messages.Info.InheritedGroupTooltip.replace('{0}', element.inheritedFrom);
+                }
                 return item;
             } else {
                 let label = element.keyword;
+                const keywords = element.isRegex ? [] : RegexUtils.getKeywords(element.keyword);
+                const isKeywordList = element.keyword.includes('\n');
 
                 if (element.isRegex) {
                     label = element.nickname || element.keyword;
                 } else {
+                    if (isKeywordList) {
+                        label = element.nickname || (keywords.length > 3 ? `${keywords.slice(0, 3).join(', ')}, …` : keywords.join(', '));
+                    }
                     // Apply tilde prefix for exclude items (both enabled and disabled)
                     if (element.type === 'exclude') {
-                        label = `^${element.keyword}`;
-                    } else {
-                        label = element.keyword;
+                        label = `^${label}`;
                     }
                 }
 
@@ -74,7 +93,8 @@ export class FilterTreeDataProvider implements vscode.TreeDataProvider<TreeItem>
                 }
 
                 const item = new vscode.TreeItem(label, vscode.TreeItemCollapsibleState.None);
-                item.contextValue = `${element.isEnabled ? 'filterItemEnabled' : 'filterItemDisabled'}_cl${element.contextLine ?? 0}_hm${element.highlightMode ?? 0}_cs${element.caseSensitive ? 1 : 0}_col${element.color ?? 'none'}_type${element.type}_es${element.excludeStyle || 'line-through'}${element.resultCount && element.resultCount > 0 ? '_hasMatches' : ''}`;
+                const isInherited = this.filterManager.getInheritedGroups().some(g => g.filters.some(f => f.id === element.id));
+                item.contextValue = isInherited ? 'inheritedItem' : `${element.isEnabled ? 'filterItemEnabled' : 'filterItemDisabled'}_cl${element.contextLine ?? 0}_hm${element.highlightMode ?? 0}_cs${element.caseSensitive ? 1 : 0}_col${element.color ?? 'none'}_type${element.type}_es${element.excludeStyle || 'line-through'}${element.resultCount && element.resultCount > 0 ? '_hasMatches' : ''}`;
                 item.id = element.id;
 
                 if (element.isRegex && element.nickname) {
@@ -82,6 +102,27 @@ export class FilterTreeDataProvider implements vscode.TreeDataProvider<TreeItem>
                 } else {
                     item.description = '';
                 }
+                if (element.kind === 'timeRange' && element.timeRange?.pattern) {
+                    item.description = element.timeRange.pattern;
+                }
+                if (!element.isRegex && (!element.kind || element.kind === 'keyword')) {
+                    const options = [
+                        isKeywordList ? `${keywords.length} keywords` : undefined,
+                        element.wholeWord ? 'whole word' : undefined,
+                        element.wildcard && !element.template ? 'wildcards' : undefined,
+                        element.template ? 'template' : undefined
+                    ].filter(o => o !== undefined);
+                    if (options.length > 0) {
+                        item.description = options.join(' · ');
+                    }
+                    if (isKeywordList) {
+                        item.tooltip = keywords.join('\n');
+                    }
+                }
+                if (element.dropCount !== undefined) {
+                    const dropped = `${element.dropCount.toLocaleString()} dropped`;
+                    item.description = item.description ? `${item.description} · ${dropped}` : dropped;
+                }
 
                 if (element.isEnabled) {
                     if (element.type === 'exclude') {
@@ -91,6 +132,8 @@ export class FilterTreeDataProvider implements vscode.TreeDataProvider<TreeItem>
                         const style = element.excludeStyle || 'line-through';
 
                         item.iconPath = this.getCachedIcon(`exclude_${fillColor}_${strokeColor}_${style}`, () => IconUtils.generateExcludeSvg(fillColor, strokeColor, style));
+                    } else if (element.kind === 'timeRange') {
+                        item.iconPath = new vscode.ThemeIcon('clock');
                     } else if (element.color) {
                         const preset = this.filterManager.getPresetById(element.color);
                         let fillColor = element.color;